@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "deliveryCharge" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "gstAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "gstRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "priceListId" TEXT,
+ADD COLUMN     "totalAmount" INTEGER,
+ADD COLUMN     "unitPrice" INTEGER;
+
+-- CreateTable
+CREATE TABLE "price_lists" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "price_list_items" (
+    "id" TEXT NOT NULL,
+    "priceListId" TEXT NOT NULL,
+    "cylinderType" TEXT NOT NULL DEFAULT 'DOMESTIC_14_2',
+    "unitPrice" INTEGER NOT NULL,
+    "deliveryCharge" INTEGER NOT NULL DEFAULT 0,
+    "gstRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "price_list_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_lists_effectiveFrom_idx" ON "price_lists"("effectiveFrom");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "price_list_items_priceListId_cylinderType_key" ON "price_list_items"("priceListId", "cylinderType");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "price_lists"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_list_items" ADD CONSTRAINT "price_list_items_priceListId_fkey" FOREIGN KEY ("priceListId") REFERENCES "price_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: existing bookings were charged the legacy flat rate of ₹1100 per cylinder
+UPDATE "bookings" SET "unitPrice" = 1100, "totalAmount" = "quantity" * 1100 WHERE "unitPrice" IS NULL;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "system_settings" (
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "updatedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "system_settings_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "system_setting_changes" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "system_setting_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "system_setting_changes_key_idx" ON "system_setting_changes"("key");
+
+-- CreateIndex
+CREATE INDEX "system_setting_changes_createdAt_idx" ON "system_setting_changes"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "system_setting_changes" ADD CONSTRAINT "system_setting_changes_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
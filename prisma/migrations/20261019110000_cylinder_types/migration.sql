@@ -0,0 +1,63 @@
+-- CreateEnum
+CREATE TYPE "CylinderCategory" AS ENUM ('DOMESTIC', 'COMMERCIAL');
+
+-- CreateTable
+CREATE TABLE "cylinder_types" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "weightKg" DOUBLE PRECISION NOT NULL,
+    "category" "CylinderCategory" NOT NULL DEFAULT 'DOMESTIC',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cylinder_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cylinder_types_code_key" ON "cylinder_types"("code");
+
+-- Seed the standard catalogue
+INSERT INTO "cylinder_types" ("id", "code", "name", "weightKg", "category", "sortOrder", "updatedAt") VALUES
+    ('cyltype_domestic_14_2', 'DOMESTIC_14_2', 'Domestic 14.2 kg', 14.2, 'DOMESTIC', 1, CURRENT_TIMESTAMP),
+    ('cyltype_domestic_5', 'DOMESTIC_5', 'Domestic 5 kg', 5, 'DOMESTIC', 2, CURRENT_TIMESTAMP),
+    ('cyltype_commercial_19', 'COMMERCIAL_19', 'Commercial 19 kg', 19, 'COMMERCIAL', 3, CURRENT_TIMESTAMP);
+
+-- Price lists may already reference free-text types; keep them as inactive catalogue entries
+INSERT INTO "cylinder_types" ("id", "code", "name", "weightKg", "isActive", "sortOrder", "updatedAt")
+SELECT DISTINCT 'cyltype_' || lower(p."cylinderType"), p."cylinderType", p."cylinderType", 0, false, 99, CURRENT_TIMESTAMP
+FROM "price_list_items" p
+WHERE NOT EXISTS (SELECT 1 FROM "cylinder_types" t WHERE t."code" = p."cylinderType");
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "cylinderType" TEXT NOT NULL DEFAULT 'DOMESTIC_14_2';
+
+-- AlterTable
+ALTER TABLE "cylinder_batches" ADD COLUMN     "cylinderType" TEXT NOT NULL DEFAULT 'DOMESTIC_14_2';
+
+-- AlterTable
+ALTER TABLE "cylinder_stock" ADD COLUMN     "cylinderType" TEXT NOT NULL DEFAULT 'DOMESTIC_14_2',
+ALTER COLUMN "id" DROP DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cylinder_stock_cylinderType_key" ON "cylinder_stock"("cylinderType");
+
+-- CreateIndex
+CREATE INDEX "bookings_cylinderType_idx" ON "bookings"("cylinderType");
+
+-- CreateIndex
+CREATE INDEX "cylinder_batches_cylinderType_idx" ON "cylinder_batches"("cylinderType");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_cylinderType_fkey" FOREIGN KEY ("cylinderType") REFERENCES "cylinder_types"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "price_list_items" ADD CONSTRAINT "price_list_items_cylinderType_fkey" FOREIGN KEY ("cylinderType") REFERENCES "cylinder_types"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_stock" ADD CONSTRAINT "cylinder_stock_cylinderType_fkey" FOREIGN KEY ("cylinderType") REFERENCES "cylinder_types"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_batches" ADD CONSTRAINT "cylinder_batches_cylinderType_fkey" FOREIGN KEY ("cylinderType") REFERENCES "cylinder_types"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- AlterEnum
+ALTER TYPE "StockAdjustmentType" ADD VALUE 'TRANSFER';
+
+-- CreateTable
+CREATE TABLE "stock_locations" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "serviceAreas" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_locations_code_key" ON "stock_locations"("code");
+
+-- Existing stock becomes the main godown, which also serves any unmatched area
+INSERT INTO "stock_locations" ("id", "code", "name", "isDefault", "updatedAt") VALUES
+    ('main', 'MAIN', 'Main Godown', true, CURRENT_TIMESTAMP);
+
+-- DropIndex
+DROP INDEX "cylinder_stock_cylinderType_key";
+
+-- AlterTable
+ALTER TABLE "cylinder_stock" ADD COLUMN     "locationId" TEXT NOT NULL DEFAULT 'main';
+
+-- AlterTable
+ALTER TABLE "cylinder_batches" ADD COLUMN     "locationId" TEXT NOT NULL DEFAULT 'main';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "locationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "stock_adjustments" ADD COLUMN     "transferId" TEXT;
+
+-- Bookings made so far were all served from the main godown
+UPDATE "bookings" SET "locationId" = 'main';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cylinder_stock_locationId_cylinderType_key" ON "cylinder_stock"("locationId", "cylinderType");
+
+-- CreateIndex
+CREATE INDEX "cylinder_stock_cylinderType_idx" ON "cylinder_stock"("cylinderType");
+
+-- CreateIndex
+CREATE INDEX "cylinder_batches_locationId_idx" ON "cylinder_batches"("locationId");
+
+-- CreateIndex
+CREATE INDEX "bookings_locationId_idx" ON "bookings"("locationId");
+
+-- CreateIndex
+CREATE INDEX "stock_adjustments_transferId_idx" ON "stock_adjustments"("transferId");
+
+-- AddForeignKey
+ALTER TABLE "cylinder_stock" ADD CONSTRAINT "cylinder_stock_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cylinder_batches" ADD CONSTRAINT "cylinder_batches_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "stock_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
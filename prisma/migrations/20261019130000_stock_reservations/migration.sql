@@ -0,0 +1,15 @@
+-- Open bookings already took their cylinders out of available stock; record
+-- that as a reservation so it is consumed on delivery or released on cancel
+INSERT INTO "stock_reservations" ("id", "stockId", "bookingId", "quantity", "status", "updatedAt")
+SELECT 'res_' || b."id", s."id", b."id", b."quantity", 'RESERVED', CURRENT_TIMESTAMP
+FROM "bookings" b
+JOIN "cylinder_stock" s
+  ON s."cylinderType" = b."cylinderType"
+ AND s."locationId" = COALESCE(b."locationId", 'main')
+WHERE b."status" IN ('PENDING', 'APPROVED', 'OUT_FOR_DELIVERY')
+  AND NOT EXISTS (
+    SELECT 1 FROM "stock_reservations" r WHERE r."bookingId" = b."id"
+  );
+
+-- CreateIndex
+CREATE INDEX "stock_reservations_status_idx" ON "stock_reservations"("status");
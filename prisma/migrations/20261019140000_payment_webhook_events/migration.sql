@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "WebhookEventOutcome" AS ENUM ('PROCESSED', 'DUPLICATE', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "payment_webhook_events" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "bookingId" TEXT,
+    "upiTxnId" TEXT,
+    "status" TEXT,
+    "amount" INTEGER,
+    "signatureValid" BOOLEAN NOT NULL DEFAULT false,
+    "outcome" "WebhookEventOutcome" NOT NULL,
+    "message" TEXT,
+    "payload" TEXT NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_upiTxnId_idx" ON "payment_webhook_events"("upiTxnId");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_bookingId_idx" ON "payment_webhook_events"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_receivedAt_idx" ON "payment_webhook_events"("receivedAt");
+
+-- AddForeignKey
+ALTER TABLE "payment_webhook_events" ADD CONSTRAINT "payment_webhook_events_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
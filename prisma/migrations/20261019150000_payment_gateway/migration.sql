@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "gatewayOrderId" TEXT,
+ADD COLUMN     "gatewayPaymentId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_gatewayOrderId_key" ON "payments"("gatewayOrderId");
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'DELIVERY_PARTNER';
+
+-- AlterTable
+ALTER TABLE "delivery_partners" ADD COLUMN     "userId" TEXT;
+
+-- AlterTable
+ALTER TABLE "delivery_assignments" ADD COLUMN     "failureReason" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_partners_userId_key" ON "delivery_partners"("userId");
+
+-- AddForeignKey
+ALTER TABLE "delivery_partners" ADD CONSTRAINT "delivery_partners_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
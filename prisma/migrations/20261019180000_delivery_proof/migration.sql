@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "DeliveryProofKind" AS ENUM ('SIGNATURE', 'PHOTO');
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "receivedByName" TEXT;
+
+-- AlterTable
+ALTER TABLE "delivery_assignments" ADD COLUMN     "otpAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "otpExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "otpHash" TEXT,
+ADD COLUMN     "otpVerifiedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "delivery_proofs" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "kind" "DeliveryProofKind" NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "data" BYTEA NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "delivery_proofs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "delivery_proofs_assignmentId_idx" ON "delivery_proofs"("assignmentId");
+
+-- AddForeignKey
+ALTER TABLE "delivery_proofs" ADD CONSTRAINT "delivery_proofs_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "delivery_assignments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
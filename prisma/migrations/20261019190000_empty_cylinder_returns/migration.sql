@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "SupplierReturnStatus" AS ENUM ('IN_TRANSIT', 'RECEIVED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "cylinder_stock" ADD COLUMN     "emptyCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "empty_cylinder_returns" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "stockId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "notes" TEXT,
+    "recordedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "empty_cylinder_returns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "supplier_return_batches" (
+    "id" TEXT NOT NULL,
+    "stockId" TEXT NOT NULL,
+    "supplier" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "status" "SupplierReturnStatus" NOT NULL DEFAULT 'IN_TRANSIT',
+    "dispatchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "receivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "supplier_return_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "empty_cylinder_returns_bookingId_idx" ON "empty_cylinder_returns"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "empty_cylinder_returns_stockId_idx" ON "empty_cylinder_returns"("stockId");
+
+-- CreateIndex
+CREATE INDEX "supplier_return_batches_stockId_idx" ON "supplier_return_batches"("stockId");
+
+-- CreateIndex
+CREATE INDEX "supplier_return_batches_status_idx" ON "supplier_return_batches"("status");
+
+-- AddForeignKey
+ALTER TABLE "empty_cylinder_returns" ADD CONSTRAINT "empty_cylinder_returns_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "empty_cylinder_returns" ADD CONSTRAINT "empty_cylinder_returns_stockId_fkey" FOREIGN KEY ("stockId") REFERENCES "cylinder_stock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "supplier_return_batches" ADD CONSTRAINT "supplier_return_batches_stockId_fkey" FOREIGN KEY ("stockId") REFERENCES "cylinder_stock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "delivery_assignments" ADD COLUMN     "sequence" INTEGER;
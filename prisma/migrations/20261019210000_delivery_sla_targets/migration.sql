@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "delivery_sla_targets" (
+    "id" TEXT NOT NULL,
+    "area" TEXT NOT NULL,
+    "targetHours" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delivery_sla_targets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_sla_targets_area_key" ON "delivery_sla_targets"("area");
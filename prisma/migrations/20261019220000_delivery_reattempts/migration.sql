@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "DeliveryFailureCode" AS ENUM ('CUSTOMER_ABSENT', 'ADDRESS_NOT_FOUND', 'REFUSED', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "delivery_assignments" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "failureCode" "DeliveryFailureCode",
+ADD COLUMN     "proposedDate" TIMESTAMP(3);
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "deliverySlotId" TEXT,
+ADD COLUMN     "deliveryWindow" TEXT;
+
+-- CreateTable
+CREATE TABLE "delivery_slots" (
+    "id" TEXT NOT NULL,
+    "area" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "capacity" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delivery_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bookings_deliverySlotId_expectedDate_idx" ON "bookings"("deliverySlotId", "expectedDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_slots_area_dayOfWeek_startTime_key" ON "delivery_slots"("area", "dayOfWeek", "startTime");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_deliverySlotId_fkey" FOREIGN KEY ("deliverySlotId") REFERENCES "delivery_slots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "QuotaEntryType" AS ENUM ('CONSUME', 'RESTORE', 'GRANT', 'RESET');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "quotaPeriod" TEXT;
+
+-- CreateTable
+CREATE TABLE "quota_ledger" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "QuotaEntryType" NOT NULL,
+    "change" INTEGER NOT NULL,
+    "balance" INTEGER NOT NULL,
+    "period" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "bookingId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "quota_ledger_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "quota_ledger_userId_createdAt_idx" ON "quota_ledger"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "quota_ledger" ADD CONSTRAINT "quota_ledger_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quota_ledger" ADD CONSTRAINT "quota_ledger_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quota_ledger" ADD CONSTRAINT "quota_ledger_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
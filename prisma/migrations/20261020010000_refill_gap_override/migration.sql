@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "refillGapOverriddenById" TEXT,
+ADD COLUMN     "refillGapOverrideReason" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_refillGapOverriddenById_fkey" FOREIGN KEY ("refillGapOverriddenById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
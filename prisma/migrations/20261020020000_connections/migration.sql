@@ -0,0 +1,113 @@
+-- CreateEnum
+CREATE TYPE "ConnectionType" AS ENUM ('DOMESTIC', 'COMMERCIAL');
+
+-- CreateEnum
+CREATE TYPE "ConnectionStatus" AS ENUM ('PENDING', 'ACTIVE', 'SUSPENDED', 'CLOSED');
+
+-- CreateTable
+CREATE TABLE "connections" (
+    "id" TEXT NOT NULL,
+    "consumerNumber" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "holderName" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "connectionType" "ConnectionType" NOT NULL DEFAULT 'DOMESTIC',
+    "status" "ConnectionStatus" NOT NULL DEFAULT 'PENDING',
+    "kycIdType" TEXT,
+    "kycIdNumber" TEXT,
+    "remainingQuota" INTEGER NOT NULL DEFAULT 12,
+    "quotaPeriod" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "connection_transfers" (
+    "id" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "fromUserId" TEXT,
+    "toUserId" TEXT,
+    "fromHolder" TEXT NOT NULL,
+    "toHolder" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "connection_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing customers get one active connection carrying their address and quota
+INSERT INTO "connections" ("id", "consumerNumber", "userId", "holderName", "address", "status", "remainingQuota", "quotaPeriod", "createdAt", "updatedAt")
+SELECT 'cn' || md5(random()::text || "id"),
+       '1' || lpad((row_number() OVER (ORDER BY "createdAt", "id"))::text, 9, '0'),
+       "id", "name", "address", 'ACTIVE', "remainingQuota", "quotaPeriod", "createdAt", CURRENT_TIMESTAMP
+FROM "users"
+WHERE "role" = 'USER';
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN     "connectionId" TEXT;
+
+UPDATE "bookings" AS b SET "connectionId" = c."id"
+FROM "connections" AS c
+WHERE c."userId" = b."userId";
+
+-- AlterTable
+ALTER TABLE "quota_ledger" ADD COLUMN     "connectionId" TEXT;
+
+UPDATE "quota_ledger" AS q SET "connectionId" = c."id"
+FROM "connections" AS c
+WHERE c."userId" = q."userId";
+
+DELETE FROM "quota_ledger" WHERE "connectionId" IS NULL;
+
+-- DropForeignKey
+ALTER TABLE "quota_ledger" DROP CONSTRAINT "quota_ledger_userId_fkey";
+
+-- DropIndex
+DROP INDEX "quota_ledger_userId_createdAt_idx";
+
+-- AlterTable
+ALTER TABLE "quota_ledger" DROP COLUMN "userId",
+ALTER COLUMN "connectionId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "users" DROP COLUMN "remainingQuota",
+DROP COLUMN "quotaPeriod";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "connections_consumerNumber_key" ON "connections"("consumerNumber");
+
+-- CreateIndex
+CREATE INDEX "connections_userId_idx" ON "connections"("userId");
+
+-- CreateIndex
+CREATE INDEX "connection_transfers_connectionId_createdAt_idx" ON "connection_transfers"("connectionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "bookings_connectionId_status_idx" ON "bookings"("connectionId", "status");
+
+-- CreateIndex
+CREATE INDEX "quota_ledger_connectionId_createdAt_idx" ON "quota_ledger"("connectionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "connections" ADD CONSTRAINT "connections_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "connection_transfers" ADD CONSTRAINT "connection_transfers_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "connection_transfers" ADD CONSTRAINT "connection_transfers_fromUserId_fkey" FOREIGN KEY ("fromUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "connection_transfers" ADD CONSTRAINT "connection_transfers_toUserId_fkey" FOREIGN KEY ("toUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "connection_transfers" ADD CONSTRAINT "connection_transfers_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "connections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "quota_ledger" ADD CONSTRAINT "quota_ledger_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
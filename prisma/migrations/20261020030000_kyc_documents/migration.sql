@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "KycStatus" AS ENUM ('NOT_SUBMITTED', 'SUBMITTED', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "KycDocumentKind" AS ENUM ('ID_PROOF', 'ADDRESS_PROOF');
+
+-- AlterTable
+ALTER TABLE "connections" ADD COLUMN     "kycStatus" "KycStatus" NOT NULL DEFAULT 'NOT_SUBMITTED',
+ADD COLUMN     "kycReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "kycReviewedById" TEXT,
+ADD COLUMN     "kycRejectionReason" TEXT;
+
+-- Connections that already exist keep booking without new proofs
+UPDATE "connections" SET "kycStatus" = 'APPROVED', "kycReviewedAt" = CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "kyc_documents" (
+    "id" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "kind" "KycDocumentKind" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storage" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "kyc_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "connections_kycStatus_idx" ON "connections"("kycStatus");
+
+-- CreateIndex
+CREATE INDEX "kyc_documents_connectionId_createdAt_idx" ON "kyc_documents"("connectionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "connections" ADD CONSTRAINT "connections_kycReviewedById_fkey" FOREIGN KEY ("kycReviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kyc_documents" ADD CONSTRAINT "kyc_documents_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kyc_documents" ADD CONSTRAINT "kyc_documents_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
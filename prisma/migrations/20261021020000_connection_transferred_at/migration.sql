@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "connections" ADD COLUMN     "transferredAt" TIMESTAMP(3);
+
+-- Connections transferred before this column existed
+UPDATE "connections" c SET "transferredAt" = t."createdAt"
+FROM (
+    SELECT "connectionId", MAX("createdAt") AS "createdAt"
+    FROM "connection_transfers"
+    GROUP BY "connectionId"
+) t
+WHERE t."connectionId" = c."id";
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "PaymentRole" AS ENUM ('FULL', 'ADVANCE', 'BALANCE');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "role" "PaymentRole" NOT NULL DEFAULT 'FULL';
+
+-- Split bookings made before this column existed: the COD balance was
+-- created just before the UPI advance, in the same transaction
+UPDATE "payments" b SET "role" = 'BALANCE'
+FROM "payments" a
+WHERE a."bookingId" = b."bookingId"
+  AND b."method" = 'COD'
+  AND a."method" = 'UPI'
+  AND a."createdAt" BETWEEN b."createdAt" AND b."createdAt" + INTERVAL '1 second';
+
+UPDATE "payments" a SET "role" = 'ADVANCE'
+FROM "payments" b
+WHERE b."bookingId" = a."bookingId"
+  AND b."role" = 'BALANCE'
+  AND a."method" = 'UPI'
+  AND a."createdAt" BETWEEN b."createdAt" AND b."createdAt" + INTERVAL '1 second';
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "DeliveryAssignmentStatus" ADD VALUE 'CANCELLED';
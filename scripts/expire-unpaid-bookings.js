@@ -0,0 +1,53 @@
+// Scheduled job: cancels UPI bookings left unpaid past the payment window.
+// Runs the same logic as the app by calling its internal route, e.g. from cron:
+//   */15 * * * * cd /srv/gas-agency && npm run jobs:expire-bookings
+const { loadEnvConfig } = require("@next/env");
+const { colorize } = require("./utils");
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error(colorize("❌ CRON_SECRET is not set", "red"));
+    process.exit(1);
+  }
+
+  const baseUrl = (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(
+    /\/$/,
+    "",
+  );
+
+  const res = await fetch(`${baseUrl}/api/internal/bookings/expire-unpaid`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const json = await res.json().catch(() => ({}));
+
+  if (!res.ok || !json.success) {
+    console.error(
+      colorize(`❌ Expiry run failed (${res.status}): ${json.message || ""}`, "red"),
+    );
+    process.exit(1);
+  }
+
+  const { checked, expired, failed, windowHours } = json.data;
+  console.log(
+    colorize(
+      `✅ Checked ${checked} unpaid UPI booking(s) older than ${windowHours}h, expired ${expired.length}`,
+      "green",
+    ),
+  );
+  for (const id of expired) console.log(`   - ${id}`);
+  if (failed.length > 0) {
+    for (const f of failed) {
+      console.error(colorize(`   ⚠️  ${f.bookingId}: ${f.error}`, "yellow"));
+    }
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(colorize(`❌ ${error.message}`, "red"));
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+// Scheduled job: starts the new quota year, resetting each connection's
+// remaining quota to the default annual quota. Safe to run every day, e.g.:
+//   5 0 * * * cd /srv/gas-agency && npm run jobs:reset-quota
+const { loadEnvConfig } = require("@next/env");
+const { colorize } = require("./utils");
+
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error(colorize("❌ CRON_SECRET is not set", "red"));
+    process.exit(1);
+  }
+
+  const baseUrl = (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(
+    /\/$/,
+    "",
+  );
+
+  const res = await fetch(`${baseUrl}/api/internal/quota/reset`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const json = await res.json().catch(() => ({}));
+
+  if (!res.ok || !json.success) {
+    console.error(
+      colorize(
+        `❌ Quota reset failed (${res.status}): ${json.message || ""}`,
+        "red",
+      ),
+    );
+    process.exit(1);
+  }
+
+  const { period, annualQuota, adopted, checked, reset, failed } = json.data;
+  console.log(
+    colorize(
+      `✅ Quota year ${period}: reset ${reset.length} of ${checked} connection(s) to ${annualQuota}`,
+      "green",
+    ),
+  );
+  if (adopted > 0) {
+    console.log(`   ${adopted} connection(s) joined ${period} without a reset`);
+  }
+  if (failed.length > 0) {
+    for (const f of failed) {
+      console.error(colorize(`   ⚠️  ${f.connectionId}: ${f.error}`, "yellow"));
+    }
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(colorize(`❌ ${error.message}`, "red"));
+  process.exit(1);
+});
@@ -160,12 +160,25 @@ async function main() {
         address,
         password: defaultPasswordHash,
         role: "USER",
-        remainingQuota,
         emailVerified
       }
     });
     usersCreated++;
 
+    // Each seeded customer gets one active connection at their address
+    const connection = await prisma.connection.create({
+      data: {
+        consumerNumber: String(2000000000 + Math.floor(Math.random() * 8000000000)),
+        userId: user.id,
+        holderName: name,
+        address,
+        status: "ACTIVE",
+        kycStatus: "APPROVED",
+        kycReviewedAt: new Date(),
+        remainingQuota
+      }
+    });
+
     // Randomly decide if they have bookings (70% chance)
     if (Math.random() < 0.70) {
       const numBookings = getRandomInt(1, 2);
@@ -183,6 +196,7 @@ async function main() {
         const booking = await prisma.booking.create({
           data: {
             userId: user.id,
+            connectionId: connection.id,
             userName: user.name,
             userEmail: user.email,
             userPhone: user.phone,
@@ -140,6 +140,8 @@ async function setupEnv() {
       );
     }
 
+    config.CRON_SECRET = generateSecureKey(32);
+
     config.NODE_ENV = await askQuestion(
       colorize("Environment", "blue"),
       "development"
@@ -183,6 +185,9 @@ NEXT_PUBLIC_APP_NAME="${config.NEXT_PUBLIC_APP_NAME}"
 # Admin Configuration
 ADMIN_SECRET_KEY="${config.ADMIN_SECRET_KEY}"
 
+# Scheduled jobs (npm run jobs:*)
+CRON_SECRET="${config.CRON_SECRET}"
+
 # Development Configuration
 NODE_ENV="${config.NODE_ENV}"
 
@@ -89,6 +89,9 @@ export default function LoginPage() {
         if (session?.user?.role === "ADMIN") {
           toast.success("Welcome back, Admin!");
           router.push("/admin");
+        } else if (session?.user?.role === "DELIVERY_PARTNER") {
+          toast.success("Welcome back!");
+          router.push("/partner");
         } else {
           toast.success("Welcome back!");
           router.push("/user");
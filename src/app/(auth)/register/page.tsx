@@ -33,6 +33,9 @@ export default function RegisterPage() {
     password: "",
     confirmPassword: "",
   });
+  // Optional KYC proofs for the first connection; can also be sent later
+  const [idProof, setIdProof] = useState<File | null>(null);
+  const [addressProof, setAddressProof] = useState<File | null>(null);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -133,20 +136,30 @@ export default function RegisterPage() {
     setErrors({});
 
     try {
-      const response = await fetch("/api/auth/register", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          userId: formData.userId.trim(),
-          email: formData.email.toLowerCase(),
-          phone: formData.phone.replace(/\s/g, ""),
-          address: formData.address.trim(),
-          password: formData.password,
-        }),
-      });
+      const fields = {
+        name: formData.name.trim(),
+        userId: formData.userId.trim(),
+        email: formData.email.toLowerCase(),
+        phone: formData.phone.replace(/\s/g, ""),
+        address: formData.address.trim(),
+        password: formData.password,
+      };
+      let response: Response;
+      if (idProof || addressProof) {
+        const body = new FormData();
+        Object.entries(fields).forEach(([key, value]) => body.set(key, value));
+        if (idProof) body.set("idProof", idProof);
+        if (addressProof) body.set("addressProof", addressProof);
+        response = await fetch("/api/auth/register", { method: "POST", body });
+      } else {
+        response = await fetch("/api/auth/register", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(fields),
+        });
+      }
 
       const data = await response.json();
 
@@ -163,6 +176,11 @@ export default function RegisterPage() {
         return;
       }
 
+      if (data.data?.kycErrors?.length) {
+        toast.error(
+          `Some documents were not saved. Upload them again from your profile. ${data.data.kycErrors.join("; ")}`,
+        );
+      }
       toast.success("Registration successful! Please sign in.");
       router.push("/login");
     } catch (error) {
@@ -289,6 +307,38 @@ export default function RegisterPage() {
                 autoComplete="street-address"
               />
 
+              {/* KYC Proofs */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">
+                  KYC documents (optional)
+                </p>
+                <p className="text-xs text-gray-500">
+                  Bookings open once an ID proof and an address proof are
+                  verified. JPEG, PNG, GIF or PDF up to 5 MB; you can also
+                  upload them later from your profile.
+                </p>
+                <label className="block text-sm text-gray-700">
+                  ID proof
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/gif,application/pdf"
+                    onChange={(e) => setIdProof(e.target.files?.[0] || null)}
+                    className="mt-1 block w-full text-sm text-gray-700"
+                  />
+                </label>
+                <label className="block text-sm text-gray-700">
+                  Address proof
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/gif,application/pdf"
+                    onChange={(e) =>
+                      setAddressProof(e.target.files?.[0] || null)
+                    }
+                    className="mt-1 block w-full text-sm text-gray-700"
+                  />
+                </label>
+              </div>
+
               {/* Password Input */}
               <div className="relative">
                 <Input
@@ -16,6 +16,7 @@ type Booking = {
   quantity: number;
   status: string;
   expectedDate?: string | null;
+  deliveryWindow?: string | null;
 };
 
 type DeliveryPartner = {
@@ -34,6 +35,13 @@ type DeliveryPartner = {
   lastActive?: string;
 };
 
+type PartnerAvailability = {
+  id: string;
+  capacityPerDay: number;
+  assigned: number;
+  available: number;
+};
+
 export default function AssignDeliveryPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -53,6 +61,12 @@ export default function AssignDeliveryPage() {
     notes: "",
     priority: "normal",
   });
+  const [availability, setAvailability] = useState<
+    Record<string, PartnerAvailability>
+  >({});
+  // Capacity is shown for the chosen date, or today until one is picked
+  const availabilityDate =
+    formData.scheduledDate || new Date().toLocaleDateString("en-CA");
 
   useEffect(() => {
     if (status === "loading") return;
@@ -72,7 +86,18 @@ export default function AssignDeliveryPage() {
 
       if (bookingRes.ok) {
         const bookingData = await bookingRes.json();
-        setBooking(bookingData.data);
+        const loaded: Booking = bookingData.data;
+        setBooking(loaded);
+        // Start from the slot the customer picked
+        if (loaded?.deliveryWindow && loaded.expectedDate) {
+          setFormData((prev) => ({
+            ...prev,
+            scheduledDate: new Date(loaded.expectedDate!).toLocaleDateString(
+              "en-CA",
+            ),
+            scheduledTime: loaded.deliveryWindow!,
+          }));
+        }
       }
 
       if (partnersRes.ok) {
@@ -116,12 +141,38 @@ export default function AssignDeliveryPage() {
     }
   }, [session, bookingId, loadData]);
 
+  const loadAvailability = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/admin/deliveries/partners/availability?date=${availabilityDate}`,
+        { cache: "no-store" },
+      );
+      const json = await res.json();
+      if (res.ok && json.success) {
+        setAvailability(
+          Object.fromEntries(
+            (json.data as PartnerAvailability[]).map((p) => [p.id, p]),
+          ),
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load partner availability:", error);
+    }
+  }, [availabilityDate]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadAvailability();
+  }, [session, loadAvailability]);
+
   const handlePartnerSelect = (partner: DeliveryPartner) => {
     setSelectedPartner(partner);
     setSelectedPartnerId(partner.id);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (
+    e: React.FormEvent,
+    allowOverCapacity = false,
+  ) => {
     e.preventDefault();
     if (!selectedPartner) {
       toast.error("Please select a delivery partner");
@@ -141,6 +192,7 @@ export default function AssignDeliveryPage() {
         scheduledTime: formData.scheduledTime,
         notes: formData.notes,
         priority: formData.priority,
+        allowOverCapacity,
       };
 
       const res = await fetch(
@@ -157,7 +209,14 @@ export default function AssignDeliveryPage() {
         toast.success(
           "Delivery partner assigned successfully! Email notification sent to customer.",
         );
+        if (result.data?.warning) toast(result.data.warning);
         router.push(`/admin/bookings/${bookingId}`);
+      } else if (
+        res.status === 409 &&
+        result.details?.overCapacity &&
+        confirm(`${result.message}. Assign anyway?`)
+      ) {
+        await handleSubmit(e, true);
       } else {
         toast.error(result.message || "Failed to assign delivery partner");
       }
@@ -390,12 +449,19 @@ export default function AssignDeliveryPage() {
                             </div>
                           </div>
                           <div className="text-right">
-                            <div className="text-sm font-medium text-gray-900">
-                              {partner.currentAssignments || 0}/
+                            <div
+                              className={`text-sm font-medium ${availability[partner.id]?.available === 0 ? "text-red-600" : "text-gray-900"}`}
+                            >
+                              {availability[partner.id]?.assigned ?? 0}/
                               {partner.capacityPerDay}
+                              {availability[partner.id]?.available === 0 &&
+                                " • Full"}
                             </div>
                             <div className="text-xs text-gray-500">
-                              Today&apos;s deliveries
+                              Deliveries on{" "}
+                              {new Date(
+                                `${availabilityDate}T00:00:00`,
+                              ).toLocaleDateString()}
                             </div>
                             <div className="text-xs text-gray-500">
                               {partner.serviceArea || "All areas"}
@@ -478,6 +544,11 @@ export default function AssignDeliveryPage() {
                       }
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
                     >
+                      {booking.deliveryWindow && (
+                        <option value={booking.deliveryWindow}>
+                          Customer slot ({booking.deliveryWindow})
+                        </option>
+                      )}
                       <option value="09:00">9:00 AM</option>
                       <option value="10:00">10:00 AM</option>
                       <option value="11:00">11:00 AM</option>
@@ -522,6 +593,7 @@ export default function AssignDeliveryPage() {
                       {booking.expectedDate
                         ? new Date(booking.expectedDate).toLocaleDateString()
                         : "Not set"}
+                      {booking.deliveryWindow && `, ${booking.deliveryWindow}`}
                     </p>
                   </div>
                 </div>
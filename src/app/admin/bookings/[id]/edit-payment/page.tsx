@@ -67,7 +67,10 @@ export default function EditPaymentPage() {
       }
       if (paymentsRes.ok) {
         const jp = await paymentsRes.json();
-        const latest: Payment | undefined = (jp.data || [])[0];
+        // Split bookings keep their cash balance on a separate payment
+        const latest: Payment | undefined = (jp.data || []).find(
+          (p: Payment) => p.method === "COD",
+        );
         if (latest) setPayment(latest);
       }
     } catch (e) {
@@ -85,7 +88,7 @@ export default function EditPaymentPage() {
 
   const canEdit =
     booking &&
-    booking.paymentMethod === "COD" &&
+    (booking.paymentMethod === "COD" || payment?.method === "COD") &&
     ["PENDING", "APPROVED", "DELIVERED"].includes(booking.status);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -5,6 +5,7 @@ import { useRouter, useParams } from "next/navigation";
 import { useSession } from "next-auth/react";
 import AdminNavbar from "@/components/AdminNavbar";
 import { formatCurrency } from "@/lib/utils";
+import type { PriceBreakdown } from "@/lib/pricing";
 import { ArrowLeft, Download, Mail, User, MapPin, Printer } from "lucide-react";
 
 type Booking = {
@@ -16,6 +17,7 @@ type Booking = {
   userAddress: string;
   paymentMethod: "COD" | "UPI";
   quantity: number;
+  cylinderName?: string;
   receiverName?: string | null;
   receiverPhone?: string | null;
   status: string;
@@ -26,6 +28,7 @@ type Booking = {
   notes?: string | null;
   paymentStatus?: "PENDING" | "SUCCESS" | "FAILED";
   paymentAmount?: number;
+  pricing: PriceBreakdown;
   createdAt: string;
 };
 
@@ -125,11 +128,6 @@ export default function InvoicePage() {
     }
   };
 
-  const calculateTotal = () => {
-    if (!booking) return 0;
-    return booking.quantity * 1100; // Fixed price per cylinder
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-IN", {
       year: "numeric",
@@ -345,7 +343,7 @@ export default function InvoicePage() {
                           Gas Cylinder
                         </p>
                         <p className="text-sm text-gray-600">
-                          LPG Gas Cylinder (14.2 kg)
+                          LPG Gas Cylinder ({booking.cylinderName || "Domestic 14.2 kg"})
                         </p>
                       </div>
                     </td>
@@ -353,10 +351,10 @@ export default function InvoicePage() {
                       {booking.quantity}
                     </td>
                     <td className="py-4 px-4 text-right text-gray-900">
-                      {formatCurrency(1100)}
+                      {formatCurrency(booking.pricing.unitPrice)}
                     </td>
                     <td className="py-4 px-4 text-right font-medium text-gray-900">
-                      {formatCurrency(booking.quantity * 1100)}
+                      {formatCurrency(booking.pricing.subtotal)}
                     </td>
                   </tr>
                 </tbody>
@@ -370,16 +368,24 @@ export default function InvoicePage() {
                   <div className="space-y-3">
                     <div className="flex justify-between text-gray-600">
                       <span>Subtotal:</span>
-                      <span>{formatCurrency(calculateTotal())}</span>
+                      <span>{formatCurrency(booking.pricing.subtotal)}</span>
                     </div>
+                    {booking.pricing.deliveryCharge > 0 && (
+                      <div className="flex justify-between text-gray-600">
+                        <span>Delivery Charge:</span>
+                        <span>
+                          {formatCurrency(booking.pricing.deliveryCharge)}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-gray-600">
-                      <span>GST (18%):</span>
-                      <span>{formatCurrency(calculateTotal() * 0.18)}</span>
+                      <span>GST ({booking.pricing.gstRate}%):</span>
+                      <span>{formatCurrency(booking.pricing.gstAmount)}</span>
                     </div>
                     <div className="border-t border-gray-200 pt-3">
                       <div className="flex justify-between text-lg font-bold text-gray-900">
                         <span>Total:</span>
-                        <span>{formatCurrency(calculateTotal() * 1.18)}</span>
+                        <span>{formatCurrency(booking.pricing.total)}</span>
                       </div>
                     </div>
                   </div>
@@ -7,7 +7,7 @@ import AdminNavbar from "@/components/AdminNavbar";
 import { toast } from "react-hot-toast";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
 
-import { ArrowLeft, Edit, Truck, Package, User, DollarSign, CheckCircle, Clock, AlertCircle, Send, Download, RefreshCw, X } from "lucide-react";
+import { ArrowLeft, Edit, Truck, Package, User, DollarSign, CheckCircle, Clock, AlertCircle, Send, Download, RefreshCw, RotateCcw, X } from "lucide-react";
 
 type Booking = {
   id: string;
@@ -18,6 +18,8 @@ type Booking = {
   userAddress: string;
   paymentMethod: "COD" | "UPI";
   quantity: number;
+  cylinderName?: string;
+  locationName?: string;
   receiverName?: string | null;
   receiverPhone?: string | null;
   status:
@@ -28,14 +30,23 @@ type Booking = {
     | "CANCELLED";
   requestedAt: string;
   expectedDate?: string | null;
+  deliveryWindow?: string | null;
   deliveryDate?: string | null;
   deliveredAt?: string | null;
+  refillGapOverride?: { reason: string; by: string | null } | null;
   notes?: string | null;
   paymentStatus?: "PENDING" | "SUCCESS" | "FAILED";
   paymentAmount?: number;
+  balance?: {
+    total: number;
+    paid: number;
+    pending: number;
+    outstanding: number;
+  };
   deliveryPartnerId?: string | null;
   deliveryPartnerName?: string | null;
   cylinderReserved?: boolean;
+  reservationStatus?: "RESERVED" | "RELEASED" | "CONSUMED";
   createdAt: string;
   updatedAt: string;
 };
@@ -59,9 +70,19 @@ type DeliveryAssignment = {
     | "PICKED_UP"
     | "OUT_FOR_DELIVERY"
     | "DELIVERED"
-    | "FAILED";
+    | "FAILED"
+    | "CANCELLED";
   assignedAt: string;
   notes?: string;
+  otpExpiresAt?: string | null;
+  otpVerifiedAt?: string | null;
+  receivedByName?: string | null;
+  proofs?: {
+    id: string;
+    kind: "SIGNATURE" | "PHOTO";
+    createdAt: string;
+    url: string;
+  }[];
 };
 
 type BookingEvent = {
@@ -90,6 +111,14 @@ export default function BookingDetailsPage() {
   const [showPaymentReminder, setShowPaymentReminder] = useState(false);
   const [reminderMessage, setReminderMessage] = useState("");
   const [sendingReminder, setSendingReminder] = useState(false);
+  const [showDeliveryModal, setShowDeliveryModal] = useState(false);
+  const [deliveryOtp, setDeliveryOtp] = useState("");
+  const [receivedByName, setReceivedByName] = useState("");
+  const [empties, setEmpties] = useState<{
+    returned: number;
+    due: number;
+  } | null>(null);
+  const [emptiesQty, setEmptiesQty] = useState("");
 
   useEffect(() => {
     if (status === "loading") return;
@@ -100,7 +129,7 @@ export default function BookingDetailsPage() {
   const loadBookingDetails = useCallback(async () => {
     setLoading(true);
     try {
-      const [bookingRes, paymentsRes, deliveryRes, eventsRes] =
+      const [bookingRes, paymentsRes, deliveryRes, eventsRes, emptiesRes] =
         await Promise.all([
           fetch(`/api/bookings/${bookingId}`, { cache: "no-store" }),
           fetch(`/api/admin/bookings/${bookingId}/payments`, {
@@ -112,6 +141,9 @@ export default function BookingDetailsPage() {
           fetch(`/api/admin/bookings/${bookingId}/events`, {
             cache: "no-store",
           }),
+          fetch(`/api/admin/bookings/${bookingId}/empties`, {
+            cache: "no-store",
+          }),
         ]);
 
       if (bookingRes.ok) {
@@ -133,6 +165,11 @@ export default function BookingDetailsPage() {
         const eventsData = await eventsRes.json();
         setEvents(eventsData.data || []);
       }
+
+      if (emptiesRes.ok) {
+        const emptiesData = await emptiesRes.json();
+        setEmpties(emptiesData.data);
+      }
     } catch (error) {
       console.error("Failed to load booking details:", error);
     } finally {
@@ -146,6 +183,13 @@ export default function BookingDetailsPage() {
     }
   }, [session, bookingId, loadBookingDetails]);
 
+  // Approval waits on the UPI payment; a COD balance can stay open
+  const upiPayment = payments.find((p) => p.method === "UPI");
+  const hasCodPayment =
+    booking?.paymentMethod === "COD" || payments.some((p) => p.method === "COD");
+  const canRecordPayment =
+    booking?.status !== "CANCELLED" && (booking?.balance?.outstanding ?? 0) > 0;
+
   const refreshPaymentStatus = async () => {
     setActionLoading("refresh-pay");
     try {
@@ -177,18 +221,24 @@ export default function BookingDetailsPage() {
   };
 
 
-  const updateStatus = async (newStatus: string) => {
+  const updateStatus = async (
+    newStatus: string,
+    proof?: { otp: string; receivedByName: string },
+  ) => {
     setActionLoading("status");
     try {
       const res = await fetch(`/api/admin/bookings/${bookingId}/status`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ newStatus }),
+        body: JSON.stringify({ newStatus, ...proof }),
       });
 
       if (res.ok) {
         const result = await res.json();
         toast.success(result.message || "Status updated successfully");
+        setShowDeliveryModal(false);
+        setDeliveryOtp("");
+        setReceivedByName("");
         await loadBookingDetails();
       } else {
         const error = await res.json();
@@ -209,8 +259,8 @@ export default function BookingDetailsPage() {
     if (
       newStatus === "APPROVED" &&
       booking?.paymentMethod === "UPI" &&
-      payments.length > 0 &&
-      payments[0].status !== "SUCCESS"
+      upiPayment &&
+      upiPayment.status !== "SUCCESS"
     ) {
       toast.error(
         "⚠️ Cannot approve booking: UPI payment is pending. Please ensure payment is completed or request user to make payment before approval.",
@@ -235,6 +285,12 @@ export default function BookingDetailsPage() {
       return;
     }
 
+    // Assigned deliveries close with the OTP the customer received
+    if (newStatus === "DELIVERED" && deliveryAssignment) {
+      setShowDeliveryModal(true);
+      return;
+    }
+
     // Confirmation prompts
     let message = "";
     if (newStatus === "APPROVED") {
@@ -252,6 +308,55 @@ export default function BookingDetailsPage() {
     await updateStatus(newStatus);
   };
 
+  const recordEmptyReturn = async () => {
+    const quantity = parseInt(emptiesQty) || 0;
+    if (quantity <= 0) {
+      toast.error("Enter the number of empties collected");
+      return;
+    }
+    setActionLoading("empties");
+    try {
+      const res = await fetch(`/api/admin/bookings/${bookingId}/empties`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quantity }),
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success(json.message || "Empty cylinders recorded");
+        setEmptiesQty("");
+        await loadBookingDetails();
+      } else {
+        toast.error(json.message || "Failed to record empties");
+      }
+    } catch (error) {
+      console.error("Failed to record empties:", error);
+      toast.error("Failed to record empties");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const resendDeliveryOtp = async () => {
+    setActionLoading("otp");
+    try {
+      const res = await fetch(`/api/admin/bookings/${bookingId}/delivery/otp`, {
+        method: "POST",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success(json.message || "OTP sent to the customer");
+      } else {
+        toast.error(json.message || "Failed to resend OTP");
+      }
+    } catch (error) {
+      console.error("Failed to resend OTP:", error);
+      toast.error("Failed to resend OTP");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const sendPaymentReminder = async () => {
     if (!reminderMessage.trim()) {
       toast.error("Please enter a reminder message");
@@ -484,14 +589,14 @@ export default function BookingDetailsPage() {
                   disabled={
                     actionLoading === "status" ||
                     (booking.paymentMethod === "UPI" &&
-                      payments.length > 0 &&
-                      payments[0].status !== "SUCCESS")
+                      upiPayment &&
+                      upiPayment.status !== "SUCCESS")
                   }
                   className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
                   title={
                     booking.paymentMethod === "UPI" &&
-                    payments.length > 0 &&
-                    payments[0].status !== "SUCCESS"
+                    upiPayment &&
+                    upiPayment.status !== "SUCCESS"
                       ? "Cannot approve: UPI payment is pending. Please ensure payment is completed or request user to make payment."
                       : undefined
                   }
@@ -670,6 +775,7 @@ export default function BookingDetailsPage() {
                       </label>
                       <p className="text-gray-900">
                         {booking.quantity} cylinder(s)
+                        {booking.cylinderName && ` · ${booking.cylinderName}`}
                       </p>
                     </div>
                     <div>
@@ -678,6 +784,14 @@ export default function BookingDetailsPage() {
                       </label>
                       <p className="text-gray-900">{booking.paymentMethod}</p>
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-500">
+                        Fulfilled From
+                      </label>
+                      <p className="text-gray-900">
+                        {booking.locationName || "Not allocated"}
+                      </p>
+                    </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-500">
                         Requested Date
@@ -694,6 +808,8 @@ export default function BookingDetailsPage() {
                         {booking.expectedDate
                           ? new Date(booking.expectedDate).toLocaleDateString()
                           : "Not set"}
+                        {booking.deliveryWindow &&
+                          `, ${booking.deliveryWindow}`}
                       </p>
                     </div>
                   </div>
@@ -715,6 +831,15 @@ export default function BookingDetailsPage() {
                     </div>
                   )}
 
+                  {booking.refillGapOverride && (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                      Booked inside the minimum refill gap
+                      {booking.refillGapOverride.by &&
+                        ` by ${booking.refillGapOverride.by}`}
+                      : {booking.refillGapOverride.reason}
+                    </div>
+                  )}
+
                   {booking.notes && (
                     <div>
                       <label className="block text-sm font-medium text-gray-500">
@@ -734,6 +859,16 @@ export default function BookingDetailsPage() {
                       </div>
                     </div>
                   )}
+                  {booking.reservationStatus === "CONSUMED" && (
+                    <p className="text-xs text-gray-500">
+                      Reserved stock was issued on delivery.
+                    </p>
+                  )}
+                  {booking.reservationStatus === "RELEASED" && (
+                    <p className="text-xs text-gray-500">
+                      Reserved stock was released back to inventory.
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -746,6 +881,30 @@ export default function BookingDetailsPage() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
+                  {booking.balance && (
+                    <div className="grid grid-cols-3 gap-3 mb-4">
+                      <div className="p-3 bg-gray-50 rounded-lg">
+                        <div className="text-xs text-gray-500">Total</div>
+                        <div className="text-lg font-semibold text-gray-900">
+                          ₹{booking.balance.total}
+                        </div>
+                      </div>
+                      <div className="p-3 bg-green-50 rounded-lg">
+                        <div className="text-xs text-green-700">Paid</div>
+                        <div className="text-lg font-semibold text-green-800">
+                          ₹{booking.balance.paid}
+                        </div>
+                      </div>
+                      <div
+                        className={`p-3 rounded-lg ${booking.balance.outstanding > 0 ? "bg-yellow-50" : "bg-gray-50"}`}
+                      >
+                        <div className="text-xs text-gray-600">Outstanding</div>
+                        <div className="text-lg font-semibold text-gray-900">
+                          ₹{booking.balance.outstanding}
+                        </div>
+                      </div>
+                    </div>
+                  )}
                   {payments.length > 0 ? (
                     <div className="space-y-3">
                       {payments.map((payment) => (
@@ -789,8 +948,8 @@ export default function BookingDetailsPage() {
 
                   {/* UPI Payment Restriction Warning */}
                   {booking.paymentMethod === "UPI" &&
-                    payments.length > 0 &&
-                    payments[0].status !== "SUCCESS" && (
+                    upiPayment &&
+                    upiPayment.status !== "SUCCESS" && (
                       <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
                         <div className="flex items-start gap-3">
                           <AlertCircle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
@@ -1031,6 +1190,62 @@ export default function BookingDetailsPage() {
                                 : "Not specified"}
                             </p>
                           </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-500">
+                              Received By
+                            </label>
+                            <p className="text-gray-900">
+                              {deliveryAssignment.receivedByName ||
+                                "Not recorded"}
+                            </p>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-500">
+                              OTP Verified
+                            </label>
+                            <p className="text-gray-900">
+                              {deliveryAssignment.otpVerifiedAt
+                                ? new Date(
+                                    deliveryAssignment.otpVerifiedAt,
+                                  ).toLocaleString()
+                                : "No"}
+                            </p>
+                          </div>
+                          {deliveryAssignment.proofs &&
+                            deliveryAssignment.proofs.length > 0 && (
+                              <div className="md:col-span-2">
+                                <label className="block text-sm font-medium text-gray-500 mb-2">
+                                  Proof of Delivery
+                                </label>
+                                <div className="flex flex-wrap gap-3">
+                                  {deliveryAssignment.proofs.map((proof) => (
+                                    <a
+                                      key={proof.id}
+                                      href={proof.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="block"
+                                    >
+                                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                                      <img
+                                        src={proof.url}
+                                        alt={
+                                          proof.kind === "SIGNATURE"
+                                            ? "Customer signature"
+                                            : "Delivery photo"
+                                        }
+                                        className="h-24 rounded-lg border border-gray-200 bg-white object-contain"
+                                      />
+                                      <span className="text-xs text-gray-500">
+                                        {proof.kind === "SIGNATURE"
+                                          ? "Signature"
+                                          : "Photo"}
+                                      </span>
+                                    </a>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
                         </div>
                       ) : (
                         <div className="text-center py-4">
@@ -1039,6 +1254,47 @@ export default function BookingDetailsPage() {
                           </p>
                         </div>
                       )}
+                      {empties && (
+                        <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-500">
+                              Empty Cylinders Returned
+                            </label>
+                            <p className="text-gray-900">
+                              {empties.returned} of {booking.quantity}
+                              {empties.due > 0 && (
+                                <span className="ml-2 text-sm text-orange-700">
+                                  ({empties.due} still with customer)
+                                </span>
+                              )}
+                            </p>
+                          </div>
+                          {empties.due > 0 && (
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="number"
+                                min={1}
+                                max={empties.due}
+                                value={emptiesQty}
+                                onChange={(e) => setEmptiesQty(e.target.value)}
+                                className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm text-black"
+                                placeholder="Qty"
+                              />
+                              <button
+                                onClick={recordEmptyReturn}
+                                disabled={
+                                  actionLoading === "empties" || !emptiesQty
+                                }
+                                className="px-3 py-2 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50"
+                              >
+                                {actionLoading === "empties"
+                                  ? "Saving..."
+                                  : "Record Return"}
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <div className="text-center py-4">
@@ -1083,14 +1339,14 @@ export default function BookingDetailsPage() {
                           disabled={
                             actionLoading === "status" ||
                             (booking.paymentMethod === "UPI" &&
-                              payments.length > 0 &&
-                              payments[0].status !== "SUCCESS")
+                              upiPayment &&
+                              upiPayment.status !== "SUCCESS")
                           }
                           className="w-full text-left p-3 border border-green-200 rounded-lg hover:bg-green-50 disabled:opacity-50 text-green-700"
                           title={
                             booking.paymentMethod === "UPI" &&
-                            payments.length > 0 &&
-                            payments[0].status !== "SUCCESS"
+                            upiPayment &&
+                            upiPayment.status !== "SUCCESS"
                               ? "Cannot approve: UPI payment is pending. Please ensure payment is completed or request user to make payment."
                               : undefined
                           }
@@ -1198,7 +1454,7 @@ export default function BookingDetailsPage() {
                     {/* Review UPI Payment */}
                     {booking.paymentMethod === "UPI" &&
                       (booking.paymentStatus === "PENDING" ||
-                        payments[0]?.status === "PENDING") && (
+                        upiPayment?.status === "PENDING") && (
                         <button
                           onClick={() =>
                             router.push(
@@ -1215,7 +1471,7 @@ export default function BookingDetailsPage() {
                       )}
 
                     {/* Edit COD Payment */}
-                    {booking.paymentMethod === "COD" &&
+                    {hasCodPayment &&
                       (booking.status === "PENDING" ||
                         booking.status === "APPROVED" ||
                         booking.status === "DELIVERED") && (
@@ -1234,6 +1490,42 @@ export default function BookingDetailsPage() {
                         </button>
                       )}
 
+                    {/* Record Payment */}
+                    {canRecordPayment && (
+                      <button
+                        onClick={() =>
+                          router.push(
+                            `/admin/bookings/${bookingId}/record-payment`,
+                          )
+                        }
+                        className="w-full text-left p-3 border border-blue-200 rounded-lg hover:bg-blue-50 text-blue-700"
+                      >
+                        <div className="flex items-center gap-2">
+                          <DollarSign className="w-4 h-4" />
+                          <span>Record Payment</span>
+                        </div>
+                      </button>
+                    )}
+
+                    {/* Refunds */}
+                    {payments.some((p) => p.status === "SUCCESS") && (
+                      <button
+                        onClick={() =>
+                          router.push(`/admin/bookings/${bookingId}/refunds`)
+                        }
+                        className="w-full text-left p-3 border border-purple-200 rounded-lg hover:bg-purple-50 text-purple-700"
+                      >
+                        <div className="flex items-center gap-2">
+                          <RotateCcw className="w-4 h-4" />
+                          <span>
+                            {booking.status === "CANCELLED"
+                              ? "Manage Refund"
+                              : "Refunds"}
+                          </span>
+                        </div>
+                      </button>
+                    )}
+
                     {/* Payment Reminder */}
                     {booking?.paymentStatus === "PENDING" && (
                       <button
@@ -1270,12 +1562,13 @@ export default function BookingDetailsPage() {
                     {!(
                       (booking.paymentMethod === "UPI" &&
                         (booking.paymentStatus === "PENDING" ||
-                          payments[0]?.status === "PENDING")) ||
-                      (booking.paymentMethod === "COD" &&
+                          upiPayment?.status === "PENDING")) ||
+                      (hasCodPayment &&
                         (booking.status === "PENDING" ||
                           booking.status === "APPROVED" ||
                           booking.status === "DELIVERED")) ||
-                      booking?.paymentStatus === "PENDING"
+                      booking?.paymentStatus === "PENDING" ||
+                      canRecordPayment
                     ) && (
                       <div className="text-center py-3 text-gray-500 text-sm">
                         No payment actions available
@@ -1489,6 +1782,96 @@ export default function BookingDetailsPage() {
         </div>
       )}
 
+      {/* Proof of Delivery Modal */}
+      {showDeliveryModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Confirm Delivery
+              </h3>
+              <button
+                onClick={() => setShowDeliveryModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4 mb-4">
+              <p className="text-sm text-gray-600">
+                Ask <strong>{booking?.userName}</strong> for the delivery OTP
+                emailed when the cylinder went out for delivery.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Delivery OTP <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={deliveryOtp}
+                  onChange={(e) =>
+                    setDeliveryOtp(e.target.value.replace(/\D/g, "").slice(0, 6))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-black tracking-widest"
+                  placeholder="6-digit OTP"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Received By <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={receivedByName}
+                  onChange={(e) => setReceivedByName(e.target.value)}
+                  maxLength={100}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-black"
+                  placeholder="Name of the person who took the cylinder"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <button
+                onClick={resendDeliveryOtp}
+                disabled={actionLoading === "otp"}
+                className="text-sm text-purple-700 hover:underline disabled:opacity-50"
+              >
+                {actionLoading === "otp" ? "Sending..." : "Resend OTP"}
+              </button>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setShowDeliveryModal(false)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() =>
+                    updateStatus("DELIVERED", {
+                      otp: deliveryOtp,
+                      receivedByName: receivedByName.trim(),
+                    })
+                  }
+                  disabled={
+                    actionLoading === "status" ||
+                    deliveryOtp.length !== 6 ||
+                    receivedByName.trim().length < 2
+                  }
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {actionLoading === "status"
+                    ? "Confirming..."
+                    : "Mark Delivered"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Payment Reminder Modal */}
       {showPaymentReminder && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,316 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import { toast } from "react-hot-toast";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import { ArrowLeft, Save, DollarSign, AlertCircle } from "lucide-react";
+
+type Booking = {
+  id: string;
+  status:
+    | "PENDING"
+    | "APPROVED"
+    | "OUT_FOR_DELIVERY"
+    | "DELIVERED"
+    | "CANCELLED";
+  paymentMethod: "COD" | "UPI";
+  balance?: {
+    total: number;
+    paid: number;
+    pending: number;
+    outstanding: number;
+  };
+};
+
+export default function RecordPaymentPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams();
+  const bookingId = params.id as string;
+
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const [form, setForm] = useState<{
+    amount: string;
+    method: "COD" | "UPI";
+    upiTxnId: string;
+    note: string;
+  }>({ amount: "", method: "COD", upiTxnId: "", note: "" });
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}`, {
+        cache: "no-store",
+      });
+      if (res.ok) {
+        const json = await res.json();
+        setBooking(json.data);
+        setForm((prev) => ({
+          ...prev,
+          amount: String(json.data?.balance?.outstanding ?? ""),
+        }));
+      }
+    } catch (e) {
+      console.error("Failed to load booking", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN" && bookingId) {
+      void load();
+    }
+  }, [session, bookingId, load]);
+
+  const outstanding = booking?.balance?.outstanding ?? 0;
+  const canRecord = booking && booking.status !== "CANCELLED" && outstanding > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canRecord) return;
+    const amountInt = parseInt(form.amount || "0", 10);
+    if (Number.isNaN(amountInt) || amountInt < 1 || amountInt > outstanding) {
+      toast.error(`Enter an amount between ₹1 and ₹${outstanding}`);
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/bookings/${bookingId}/payments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: amountInt,
+          method: form.method,
+          status: "SUCCESS",
+          upiTxnId:
+            form.method === "UPI" && form.upiTxnId.trim()
+              ? form.upiTxnId.trim()
+              : undefined,
+          note: form.note.trim() || undefined,
+        }),
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success("Payment recorded");
+        router.push(`/admin/bookings/${bookingId}`);
+      } else {
+        toast.error(json.message || "Failed to record payment");
+      }
+    } catch (e) {
+      console.error("Failed to record payment", e);
+      toast.error("Failed to record payment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AdminNavbar />
+        <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading booking...</p>
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!booking || !canRecord) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AdminNavbar />
+        <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="text-center py-12">
+              <AlertCircle className="w-12 h-12 text-yellow-500 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                {booking ? "Nothing to record" : "Booking Not Found"}
+              </h2>
+              {booking && (
+                <p className="text-gray-600 mb-4">
+                  This booking has no outstanding balance.
+                </p>
+              )}
+              <button
+                onClick={() =>
+                  router.push(
+                    booking
+                      ? `/admin/bookings/${bookingId}`
+                      : "/admin/bookings",
+                  )
+                }
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+              >
+                {booking ? "Back to Booking" : "Back to Bookings"}
+              </button>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push(`/admin/bookings/${bookingId}`)}
+              className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              Back to Booking
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                Record Payment for #{booking.id}
+              </h1>
+              <p className="text-sm text-gray-600">
+                Total ₹{booking.balance?.total} • Paid ₹{booking.balance?.paid}{" "}
+                • Outstanding ₹{outstanding}
+              </p>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="w-5 h-5" />
+                Payment Received
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Amount (₹) <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={outstanding}
+                      value={form.amount}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, amount: e.target.value }))
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Method <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      value={form.method}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          method: e.target.value as "COD" | "UPI",
+                        }))
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      required
+                    >
+                      <option value="COD">Cash</option>
+                      <option value="UPI">UPI</option>
+                    </select>
+                  </div>
+                </div>
+
+                {form.method === "UPI" && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      UPI Transaction ID
+                    </label>
+                    <input
+                      type="text"
+                      value={form.upiTxnId}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          upiTxnId: e.target.value,
+                        }))
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Note
+                  </label>
+                  <input
+                    type="text"
+                    maxLength={200}
+                    value={form.note}
+                    onChange={(e) =>
+                      setForm((prev) => ({ ...prev, note: e.target.value }))
+                    }
+                    placeholder="e.g. Balance collected at the counter"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </div>
+
+                <div className="flex items-center justify-end gap-4">
+                  <button
+                    type="button"
+                    onClick={() => router.push(`/admin/bookings/${bookingId}`)}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center gap-2 px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving ? (
+                      <>
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      <>
+                        <Save className="w-4 h-4" />
+                        Record Payment
+                      </>
+                    )}
+                  </button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,520 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter, useParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import { toast } from "react-hot-toast";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import {
+  ArrowLeft,
+  AlertCircle,
+  CheckCircle,
+  Download,
+  RotateCcw,
+  Send,
+  XCircle,
+} from "lucide-react";
+
+type RefundStatus = "REQUESTED" | "PROCESSING" | "COMPLETED" | "FAILED";
+
+type Refund = {
+  id: string;
+  paymentId: string;
+  amount: number;
+  status: RefundStatus;
+  reason?: string | null;
+  gatewayRefundId?: string | null;
+  reference?: string | null;
+  failureReason?: string | null;
+  creditNoteNumber: string;
+  createdAt: string;
+  completedAt?: string | null;
+  requestedBy?: { name: string } | null;
+  processedBy?: { name: string } | null;
+};
+
+type Payment = {
+  id: string;
+  amount: number;
+  method: "COD" | "UPI";
+  status: "PENDING" | "SUCCESS" | "FAILED" | "CANCELLED";
+  upiTxnId?: string | null;
+  provider?: string | null;
+  gatewayPaymentId?: string | null;
+  createdAt: string;
+};
+
+type RefundData = {
+  id: string;
+  status: string;
+  paymentMethod: "COD" | "UPI";
+  payments: Payment[];
+  refunds: Refund[];
+  summary: {
+    paid: number;
+    refunded: number;
+    pending: number;
+    refundable: number;
+  };
+};
+
+const STATUS_STYLES: Record<RefundStatus, string> = {
+  REQUESTED: "bg-yellow-100 text-yellow-800",
+  PROCESSING: "bg-blue-100 text-blue-800",
+  COMPLETED: "bg-green-100 text-green-800",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+export default function BookingRefundsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useParams();
+  const bookingId = params.id as string;
+
+  const [data, setData] = useState<RefundData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState<string | null>(null);
+
+  // New refund form
+  const [amount, setAmount] = useState("");
+  const [paymentId, setPaymentId] = useState("");
+  const [reason, setReason] = useState("");
+
+  // Per-refund action inputs
+  const [activeRefundId, setActiveRefundId] = useState<string | null>(null);
+  const [reference, setReference] = useState("");
+  const [failureReason, setFailureReason] = useState("");
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/bookings/${bookingId}/refunds`, {
+        cache: "no-store",
+      });
+      if (res.ok) {
+        const json = await res.json();
+        setData(json.data);
+        setAmount(String(json.data.summary.refundable || ""));
+      }
+    } catch (e) {
+      console.error("Failed to load refunds", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN" && bookingId) {
+      void load();
+    }
+  }, [session, bookingId, load]);
+
+  const createRefund = async () => {
+    const value = Number(amount);
+    if (!Number.isInteger(value) || value < 1) {
+      toast.error("Enter a refund amount in whole rupees");
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Please provide a reason for the refund");
+      return;
+    }
+    setSubmitting("CREATE");
+    try {
+      const res = await fetch(`/api/admin/bookings/${bookingId}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          amount: value,
+          reason: reason.trim(),
+          ...(paymentId ? { paymentId } : {}),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success)
+        throw new Error(json.message || "Failed to request refund");
+      toast.success("Refund requested");
+      setReason("");
+      await load();
+    } catch (e) {
+      console.error("Refund request failed", e);
+      toast.error(e instanceof Error ? e.message : "Unable to request refund");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const updateRefund = async (
+    refund: Refund,
+    action: "PROCESS" | "COMPLETE" | "FAIL",
+  ) => {
+    const isActive = activeRefundId === refund.id;
+    if (action === "FAIL" && !(isActive && failureReason.trim())) {
+      setActiveRefundId(refund.id);
+      toast.error("Enter why the refund failed");
+      return;
+    }
+    if (
+      action === "COMPLETE" &&
+      !refund.gatewayRefundId &&
+      !refund.reference &&
+      !(isActive && reference.trim())
+    ) {
+      setActiveRefundId(refund.id);
+      toast.error("Enter the UPI/bank reference of the refund transfer");
+      return;
+    }
+    setSubmitting(refund.id);
+    try {
+      const res = await fetch(
+        `/api/admin/bookings/${bookingId}/refunds/${refund.id}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            action,
+            ...(isActive && reference.trim()
+              ? { reference: reference.trim() }
+              : {}),
+            ...(isActive && failureReason.trim()
+              ? { failureReason: failureReason.trim() }
+              : {}),
+          }),
+        },
+      );
+      const json = await res.json();
+      if (!res.ok || !json.success)
+        throw new Error(json.message || "Failed to update refund");
+      toast.success(json.message || "Refund updated");
+      setActiveRefundId(null);
+      setReference("");
+      setFailureReason("");
+      await load();
+    } catch (e) {
+      console.error("Refund update failed", e);
+      toast.error(e instanceof Error ? e.message : "Unable to update refund");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AdminNavbar />
+        <main className="max-w-5xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="flex items-center justify-center py-12">
+              <div className="text-center">
+                <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading refunds...</p>
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AdminNavbar />
+        <main className="max-w-5xl mx-auto py-6 sm:px-6 lg:px-8">
+          <div className="px-4 py-6 sm:px-0">
+            <div className="text-center py-12">
+              <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">
+                Booking Not Found
+              </h2>
+              <button
+                onClick={() => router.push("/admin/bookings")}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+              >
+                Back to Bookings
+              </button>
+            </div>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const successfulPayments = data.payments.filter(
+    (p) => p.status === "SUCCESS",
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-5xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => router.push(`/admin/bookings/${bookingId}`)}
+              className="inline-flex items-center gap-2 text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              Back to Booking
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                Refunds for #{data.id}
+              </h1>
+              <p className="text-sm text-gray-600">
+                Booking status: {data.status.replace(/_/g, " ")}
+              </p>
+            </div>
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(
+              [
+                ["Paid", data.summary.paid],
+                ["Refunded", data.summary.refunded],
+                ["Pending", data.summary.pending],
+                ["Refundable", data.summary.refundable],
+              ] as const
+            ).map(([label, value]) => (
+              <Card key={label}>
+                <CardContent className="py-4">
+                  <div className="text-sm text-gray-600">{label}</div>
+                  <div className="text-xl font-semibold text-gray-900">
+                    ₹{value.toLocaleString("en-IN")}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* New refund */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <RotateCcw className="w-5 h-5" />
+                Request Refund
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {data.summary.refundable <= 0 ? (
+                <div className="text-sm text-gray-600">
+                  Nothing left to refund on this booking.
+                </div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Amount (₹)
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={data.summary.refundable}
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Up to ₹{data.summary.refundable}. Enter less for a
+                        partial refund.
+                      </p>
+                    </div>
+                    {successfulPayments.length > 1 && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Refund Against Payment
+                        </label>
+                        <select
+                          value={paymentId}
+                          onChange={(e) => setPaymentId(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                          <option value="">Latest with enough balance</option>
+                          {successfulPayments.map((p) => (
+                            <option key={p.id} value={p.id}>
+                              {p.method} ₹{p.amount}
+                              {p.upiTxnId ? ` (${p.upiTxnId})` : ""}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Reason
+                    </label>
+                    <textarea
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      rows={2}
+                      placeholder="Example: One cylinder short-delivered"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  </div>
+                  <button
+                    onClick={createRefund}
+                    disabled={submitting !== null}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    {submitting === "CREATE"
+                      ? "Requesting..."
+                      : "Request Refund"}
+                  </button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Refund history */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Refund History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {data.refunds.length === 0 ? (
+                <div className="text-sm text-gray-600">No refunds yet.</div>
+              ) : (
+                <div className="space-y-4">
+                  {data.refunds.map((refund) => {
+                    const payment = data.payments.find(
+                      (p) => p.id === refund.paymentId,
+                    );
+                    const viaGateway = Boolean(
+                      payment?.provider && payment?.gatewayPaymentId,
+                    );
+                    const open =
+                      refund.status === "REQUESTED" ||
+                      refund.status === "PROCESSING";
+                    return (
+                      <div
+                        key={refund.id}
+                        className="border border-gray-200 rounded-lg p-4 space-y-3"
+                      >
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div>
+                            <div className="font-semibold text-gray-900">
+                              ₹{refund.amount.toLocaleString("en-IN")} ·{" "}
+                              {refund.creditNoteNumber}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              Requested{" "}
+                              {new Date(refund.createdAt).toLocaleString()}
+                              {refund.requestedBy
+                                ? ` by ${refund.requestedBy.name}`
+                                : ""}
+                              {viaGateway
+                                ? ` · via ${payment?.provider}`
+                                : " · manual"}
+                            </div>
+                          </div>
+                          <span
+                            className={`px-2 py-1 rounded-full text-xs font-semibold ${STATUS_STYLES[refund.status]}`}
+                          >
+                            {refund.status}
+                          </span>
+                        </div>
+
+                        {refund.reason && (
+                          <div className="text-sm text-gray-700">
+                            Reason: {refund.reason}
+                          </div>
+                        )}
+                        {(refund.gatewayRefundId || refund.reference) && (
+                          <div className="text-sm text-gray-700">
+                            Reference:{" "}
+                            {refund.gatewayRefundId || refund.reference}
+                          </div>
+                        )}
+                        {refund.failureReason && (
+                          <div className="text-sm text-red-700">
+                            Failure: {refund.failureReason}
+                          </div>
+                        )}
+
+                        {open && activeRefundId === refund.id && (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <input
+                              value={reference}
+                              onChange={(e) => setReference(e.target.value)}
+                              placeholder="UPI/bank reference of the refund"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                            <input
+                              value={failureReason}
+                              onChange={(e) => setFailureReason(e.target.value)}
+                              placeholder="Failure reason (to mark failed)"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                            />
+                          </div>
+                        )}
+
+                        <div className="flex flex-wrap items-center gap-3">
+                          {refund.status === "REQUESTED" && (
+                            <button
+                              onClick={() => updateRefund(refund, "PROCESS")}
+                              disabled={submitting !== null}
+                              className="inline-flex items-center gap-2 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+                            >
+                              <Send className="w-4 h-4" />
+                              {viaGateway
+                                ? "Refund via Gateway"
+                                : "Mark Processing"}
+                            </button>
+                          )}
+                          {open && (
+                            <>
+                              <button
+                                onClick={() => updateRefund(refund, "COMPLETE")}
+                                disabled={submitting !== null}
+                                className="inline-flex items-center gap-2 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 text-sm"
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                                Mark Completed
+                              </button>
+                              <button
+                                onClick={() => updateRefund(refund, "FAIL")}
+                                disabled={submitting !== null}
+                                className="inline-flex items-center gap-2 px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm"
+                              >
+                                <XCircle className="w-4 h-4" />
+                                Mark Failed
+                              </button>
+                            </>
+                          )}
+                          {refund.status === "COMPLETED" && (
+                            <a
+                              href={`/api/admin/bookings/${bookingId}/refunds/${refund.id}/credit-note`}
+                              className="inline-flex items-center gap-2 px-3 py-1.5 bg-gray-100 text-gray-800 rounded-lg hover:bg-gray-200 text-sm"
+                            >
+                              <Download className="w-4 h-4" />
+                              Credit Note
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,10 @@ import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import AdminNavbar from "@/components/AdminNavbar";
+import CylinderTypeSelect from "@/components/CylinderTypeSelect";
+import StockLocationSelect, {
+  type StockLocationOption,
+} from "@/components/StockLocationSelect";
 import { toast } from "react-hot-toast";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
 import { ArrowLeft, Save, User, Package, CheckCircle } from "lucide-react";
@@ -18,6 +22,15 @@ type User = {
   remainingQuota: number;
 };
 
+type UserConnection = {
+  id: string;
+  consumerNumber: string;
+  holderName: string;
+  address: string;
+  remainingQuota: number;
+  kycStatus: string;
+};
+
 export default function NewBookingPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -25,13 +38,18 @@ export default function NewBookingPage() {
   const [users, setUsers] = useState<User[]>([]);
   const [selectedUserId, setSelectedUserId] = useState("");
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [connections, setConnections] = useState<UserConnection[]>([]);
+  const [connectionId, setConnectionId] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
-  const [availableStock, setAvailableStock] = useState<number | null>(null);
+  const [typeStock, setTypeStock] = useState<number | null>(null);
+  const [location, setLocation] = useState<StockLocationOption>();
 
   // Form fields
   const [formData, setFormData] = useState({
     quantity: 1,
+    cylinderType: "",
+    locationId: "",
     paymentMethod: "COD" as "COD" | "UPI",
     receiverName: "",
     receiverPhone: "",
@@ -40,6 +58,12 @@ export default function NewBookingPage() {
     deliveryAddress: "",
   });
 
+  // With a chosen location only its stock counts; otherwise show the total
+  const availableStock = location
+    ? location.byType.find((t) => t.cylinderType === formData.cylinderType)
+        ?.totalAvailable || 0
+    : typeStock;
+
   useEffect(() => {
     if (status === "loading") return;
     if (!session) router.push("/login");
@@ -61,24 +85,11 @@ export default function NewBookingPage() {
     }
   }, []);
 
-  const loadStock = useCallback(async () => {
-    try {
-      const res = await fetch("/api/bookings/stock");
-      if (res.ok) {
-        const json = await res.json();
-        setAvailableStock(json.data.totalAvailable);
-      }
-    } catch (error) {
-      console.error("Failed to load stock:", error);
-    }
-  }, []);
-
   useEffect(() => {
     if (session?.user?.role === "ADMIN") {
       void loadUsers();
-      void loadStock();
     }
-  }, [session, loadUsers, loadStock]);
+  }, [session, loadUsers]);
 
   useEffect(() => {
     if (searchQuery.trim() === "") {
@@ -95,25 +106,64 @@ export default function NewBookingPage() {
     }
   }, [searchQuery, users]);
 
-  const handleUserSelect = (user: User) => {
+  const selectedConnection = connections.find((c) => c.id === connectionId);
+
+  const handleConnectionSelect = (connection?: UserConnection) => {
+    setConnectionId(connection?.id || "");
+    if (connection) {
+      setFormData((prev) => ({ ...prev, deliveryAddress: connection.address }));
+    }
+  };
+
+  const handleUserSelect = async (user: User) => {
     setSelectedUser(user);
     setSelectedUserId(user.id);
+    setConnections([]);
+    setConnectionId("");
     setFormData((prev) => ({
       ...prev,
       deliveryAddress: user.address,
     }));
+    // Quota is kept per connection; book against an active one
+    try {
+      const res = await fetch(
+        `/api/admin/connections?userId=${user.id}&status=ACTIVE&limit=100`,
+        { cache: "no-store" },
+      );
+      const json = await res.json();
+      if (res.ok && json.success) {
+        // Bookings need the connection's KYC approved
+        const active = (json.data.data as UserConnection[]).filter(
+          (c) => c.kycStatus === "APPROVED",
+        );
+        setConnections(active);
+        handleConnectionSelect(
+          active.find((c) => c.remainingQuota > 0) || active[0],
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load connections:", error);
+    }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = async (
+    e: React.FormEvent,
+    refillGapOverrideReason?: string,
+  ) => {
     e.preventDefault();
     if (!selectedUser) {
       toast.error("Please select a user first");
       return;
     }
 
-    if (formData.quantity > selectedUser.remainingQuota) {
+    if (!selectedConnection) {
+      toast.error("The customer has no active connection to book for");
+      return;
+    }
+
+    if (formData.quantity > selectedConnection.remainingQuota) {
       toast.error(
-        `User only has ${selectedUser.remainingQuota} cylinders remaining in their quota`,
+        `Connection only has ${selectedConnection.remainingQuota} cylinders remaining in its quota`,
       );
       return;
     }
@@ -129,17 +179,23 @@ export default function NewBookingPage() {
     try {
       const payload = {
         userId: selectedUser.id,
+        connectionId: selectedConnection.id,
         userName: selectedUser.name,
         userEmail: selectedUser.email,
         userPhone: selectedUser.phone,
         userAddress: formData.deliveryAddress,
         quantity: formData.quantity,
+        cylinderType: formData.cylinderType || undefined,
+        locationId: formData.locationId || undefined,
         paymentMethod: formData.paymentMethod,
         receiverName: formData.receiverName || selectedUser.name,
         receiverPhone: formData.receiverPhone || selectedUser.phone,
         expectedDate: formData.expectedDate || null,
         notes: formData.notes,
         status: "APPROVED", // Admin-created bookings are auto-approved
+        ...(refillGapOverrideReason
+          ? { overrideRefillGap: true, refillGapOverrideReason }
+          : {}),
       };
 
       const res = await fetch("/api/admin/bookings", {
@@ -152,6 +208,11 @@ export default function NewBookingPage() {
       if (res.ok && result.success) {
         toast.success("Booking created successfully");
         router.push("/admin/bookings");
+      } else if (res.status === 409 && result.details?.refillGap) {
+        const reason = prompt(
+          `${result.message}. Enter a reason to book anyway:`,
+        )?.trim();
+        if (reason) await handleSubmit(e, reason);
       } else {
         toast.error(result.message || "Failed to create booking");
       }
@@ -267,9 +328,33 @@ export default function NewBookingPage() {
                       <div>
                         <strong>Phone:</strong> {selectedUser.phone}
                       </div>
+                      <div>
+                        <strong>Connection:</strong>{" "}
+                        {connections.length === 0 ? (
+                          "No active connection with approved KYC"
+                        ) : (
+                          <select
+                            value={connectionId}
+                            onChange={(e) =>
+                              handleConnectionSelect(
+                                connections.find(
+                                  (c) => c.id === e.target.value,
+                                ),
+                              )
+                            }
+                            className="ml-1 px-2 py-1 border border-green-300 rounded text-gray-900"
+                          >
+                            {connections.map((c) => (
+                              <option key={c.id} value={c.id}>
+                                {c.consumerNumber} · {c.holderName}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
                       <div>
                         <strong>Remaining Quota:</strong>{" "}
-                        {selectedUser.remainingQuota} cylinders
+                        {selectedConnection?.remainingQuota ?? 0} cylinders
                       </div>
                     </div>
                   </div>
@@ -286,6 +371,35 @@ export default function NewBookingPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Cylinder Type <span className="text-red-500">*</span>
+                  </label>
+                  <CylinderTypeSelect
+                    value={formData.cylinderType}
+                    showStock
+                    onChange={(code, type) => {
+                      setFormData((prev) => ({ ...prev, cylinderType: code }));
+                      setTypeStock(type ? type.totalAvailable : null);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Fulfil From
+                  </label>
+                  <StockLocationSelect
+                    value={formData.locationId}
+                    stockForType={formData.cylinderType}
+                    emptyLabel="Auto (location serving the customer's area)"
+                    onChange={(id, selected) => {
+                      setFormData((prev) => ({ ...prev, locationId: id }));
+                      setLocation(selected);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -294,7 +408,7 @@ export default function NewBookingPage() {
                     <input
                       type="number"
                       min="1"
-                      max={selectedUser?.remainingQuota || 12}
+                      max={selectedConnection?.remainingQuota || 12}
                       value={formData.quantity}
                       onChange={(e) =>
                         setFormData((prev) => ({
@@ -306,7 +420,7 @@ export default function NewBookingPage() {
                       required
                     />
                     <p className="text-xs text-gray-500 mt-1">
-                      Max: {selectedUser?.remainingQuota || 12} cylinders {availableStock !== null && `(Available Cylinder Stock: ${availableStock})`}
+                      Max: {selectedConnection?.remainingQuota || 12} cylinders {availableStock !== null && `(Available Cylinder Stock: ${availableStock})`}
                     </p>
                   </div>
 
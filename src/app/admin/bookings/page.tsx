@@ -18,6 +18,7 @@ type Booking = {
   userAddress: string;
   paymentMethod: "COD" | "UPI";
   quantity: number;
+  cylinderName?: string;
   receiverName?: string | null;
   receiverPhone?: string | null;
   status:
@@ -875,6 +876,11 @@ export default function AdminBookingsPage() {
                               </span>
                               <span className="text-gray-500">cylinder(s)</span>
                             </div>
+                            {booking.cylinderName && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                {booking.cylinderName}
+                              </div>
+                            )}
                             {booking.receiverName && (
                               <div className="text-xs text-gray-500 mt-1">
                                 Receiver: {booking.receiverName}
@@ -0,0 +1,596 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import AdminNavbar from "@/components/AdminNavbar";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import QuotaLedgerTable, {
+  type QuotaLedgerEntry,
+} from "@/components/QuotaLedgerTable";
+import KycDocumentList, {
+  KycStatusBadge,
+  type KycDocument,
+  type KycStatus,
+} from "@/components/KycDocumentList";
+import {
+  ArrowLeft,
+  ArrowLeftRight,
+  CheckCircle,
+  FileCheck,
+  Flame,
+  History,
+  Package,
+  Save,
+  XCircle,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type ConnectionStatus = "PENDING" | "ACTIVE" | "SUSPENDED" | "CLOSED";
+
+type ConnectionDetail = {
+  id: string;
+  consumerNumber: string;
+  holderName: string;
+  address: string;
+  connectionType: "DOMESTIC" | "COMMERCIAL";
+  status: ConnectionStatus;
+  kycIdType: string | null;
+  kycIdNumber: string | null;
+  kycStatus: KycStatus;
+  kycReviewedAt: string | null;
+  kycRejectionReason: string | null;
+  kycReviewedBy: { name: string } | null;
+  kycDocuments: KycDocument[];
+  remainingQuota: number;
+  quotaPeriod: string | null;
+  createdAt: string;
+  user: { id: string; name: string; email: string; phone: string };
+  bookings: {
+    id: string;
+    status: string;
+    quantity: number;
+    createdAt: string;
+    deliveredAt: string | null;
+  }[];
+  transfers: {
+    id: string;
+    fromHolder: string;
+    toHolder: string;
+    reason: string;
+    createdAt: string;
+    fromUser: { name: string; email: string } | null;
+    toUser: { name: string; email: string } | null;
+    createdBy: { name: string } | null;
+  }[];
+  quotaLedger: QuotaLedgerEntry[];
+};
+
+const emptyTransfer = {
+  toUser: "",
+  holderName: "",
+  kycIdType: "",
+  kycIdNumber: "",
+  reason: "",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500";
+
+export default function AdminConnectionDetailPage() {
+  const params = useParams();
+  const connectionId = String(params?.id || "");
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [connection, setConnection] = useState<ConnectionDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [transfer, setTransfer] = useState(emptyTransfer);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadConnection = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/connections/${connectionId}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setConnection(json.data);
+      else toast.error(json.message || "Connection not found");
+    } catch (error) {
+      console.error("Failed to load connection:", error);
+      toast.error("Failed to load connection");
+    } finally {
+      setLoading(false);
+    }
+  }, [connectionId]);
+
+  useEffect(() => {
+    if (connectionId && session?.user?.role === "ADMIN") void loadConnection();
+  }, [connectionId, session, loadConnection]);
+
+  const onSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!connection) return;
+    const formData = new FormData(e.currentTarget);
+    const payload: Record<string, unknown> = {
+      holderName: String(formData.get("holderName") || ""),
+      address: String(formData.get("address") || ""),
+      connectionType: String(formData.get("connectionType") || ""),
+      status: String(formData.get("status") || ""),
+      kycIdType: String(formData.get("kycIdType") || ""),
+      kycIdNumber: String(formData.get("kycIdNumber") || ""),
+    };
+
+    // Quota changes go in the connection's quota history with a reason
+    const quota = Number(formData.get("remainingQuota"));
+    if (quota !== connection.remainingQuota) {
+      const quotaReason =
+        prompt(
+          `Reason for changing the quota from ${connection.remainingQuota} to ${quota}:`,
+        )?.trim() || "";
+      if (!quotaReason) {
+        toast.error("A reason is required to change the quota");
+        return;
+      }
+      payload.remainingQuota = quota;
+      payload.quotaReason = quotaReason;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/connections/${connectionId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to update connection");
+        return;
+      }
+      toast.success("Connection updated");
+      await loadConnection();
+    } catch (error) {
+      console.error("Failed to update connection:", error);
+      toast.error("Failed to update connection");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onReviewKyc = async (approve: boolean) => {
+    let reason: string | undefined;
+    if (!approve) {
+      reason = prompt("Reason for rejecting the KYC:")?.trim();
+      if (!reason) return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(
+        `/api/admin/connections/${connectionId}/kyc/review`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            decision: approve ? "APPROVE" : "REJECT",
+            reason,
+          }),
+        },
+      );
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to review KYC");
+        return;
+      }
+      toast.success(json.message);
+      await loadConnection();
+    } catch (error) {
+      console.error("Failed to review KYC:", error);
+      toast.error("Failed to review KYC");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onTransfer = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (
+      !confirm(
+        `Transfer connection ${connection?.consumerNumber} to ${transfer.toUser}? Its bookings and quota move with it, and the new holder must submit KYC again.`,
+      )
+    )
+      return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(
+        `/api/admin/connections/${connectionId}/transfer`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            toUser: transfer.toUser,
+            holderName: transfer.holderName || undefined,
+            kycIdType: transfer.kycIdType || undefined,
+            kycIdNumber: transfer.kycIdNumber || undefined,
+            reason: transfer.reason,
+          }),
+        },
+      );
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to transfer connection");
+        return;
+      }
+      toast.success(json.message || "Connection transferred");
+      setTransfer(emptyTransfer);
+      await loadConnection();
+    } catch (error) {
+      console.error("Failed to transfer connection:", error);
+      toast.error("Failed to transfer connection");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin/connections"
+              className="inline-flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Connections
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {connection
+                ? `Connection ${connection.consumerNumber}`
+                : "Connection"}
+            </h1>
+          </div>
+
+          {loading && !connection ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !connection ? (
+            <p className="text-center py-12 text-gray-500">
+              Connection not found.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Flame className="w-5 h-5 text-orange-600" />
+                      Details
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-gray-600 mb-4">
+                      Login:{" "}
+                      <Link
+                        href={`/admin/users/${connection.user.id}`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {connection.user.name} ({connection.user.email})
+                      </Link>
+                    </p>
+                    <form
+                      // Remount after a transfer replaces the holder and KYC details
+                      key={`${connection.holderName}|${connection.kycIdNumber}`}
+                      onSubmit={onSave}
+                      className="grid grid-cols-1 md:grid-cols-2 gap-4"
+                    >
+                      <label className="text-sm font-medium text-gray-700">
+                        Holder Name
+                        <input
+                          name="holderName"
+                          defaultValue={connection.holderName}
+                          className={`mt-1 ${inputClass}`}
+                        />
+                      </label>
+                      <label className="text-sm font-medium text-gray-700">
+                        Type
+                        <select
+                          name="connectionType"
+                          defaultValue={connection.connectionType}
+                          className={`mt-1 ${inputClass}`}
+                        >
+                          <option value="DOMESTIC">Domestic</option>
+                          <option value="COMMERCIAL">Commercial</option>
+                        </select>
+                      </label>
+                      <label className="text-sm font-medium text-gray-700 md:col-span-2">
+                        Address
+                        <textarea
+                          name="address"
+                          rows={2}
+                          defaultValue={connection.address}
+                          className={`mt-1 ${inputClass}`}
+                        />
+                      </label>
+                      <label className="text-sm font-medium text-gray-700">
+                        Status
+                        <select
+                          name="status"
+                          defaultValue={connection.status}
+                          className={`mt-1 ${inputClass}`}
+                        >
+                          <option value="PENDING">Pending</option>
+                          <option value="ACTIVE">Active</option>
+                          <option value="SUSPENDED">Suspended</option>
+                          <option value="CLOSED">Closed</option>
+                        </select>
+                      </label>
+                      <label className="text-sm font-medium text-gray-700">
+                        Remaining Quota
+                        <input
+                          name="remainingQuota"
+                          type="number"
+                          min={0}
+                          max={100}
+                          defaultValue={connection.remainingQuota}
+                          className={`mt-1 ${inputClass}`}
+                        />
+                        {connection.quotaPeriod && (
+                          <span className="block text-xs font-normal text-gray-500 mt-1">
+                            Quota year {connection.quotaPeriod}
+                          </span>
+                        )}
+                      </label>
+                      <label className="text-sm font-medium text-gray-700">
+                        KYC ID Type
+                        <input
+                          name="kycIdType"
+                          defaultValue={connection.kycIdType || ""}
+                          placeholder="e.g. Aadhaar"
+                          className={`mt-1 ${inputClass}`}
+                        />
+                      </label>
+                      <label className="text-sm font-medium text-gray-700">
+                        KYC ID Number
+                        <input
+                          name="kycIdNumber"
+                          defaultValue={connection.kycIdNumber || ""}
+                          className={`mt-1 ${inputClass}`}
+                        />
+                      </label>
+                      <div className="md:col-span-2 flex justify-end">
+                        <button
+                          type="submit"
+                          disabled={saving}
+                          className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50"
+                        >
+                          <Save className="w-4 h-4" />
+                          Save
+                        </button>
+                      </div>
+                    </form>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileCheck className="w-5 h-5" />
+                      KYC
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <KycStatusBadge status={connection.kycStatus} />
+                      {connection.kycReviewedAt && (
+                        <span className="text-gray-500">
+                          Reviewed{" "}
+                          {new Date(connection.kycReviewedAt).toLocaleString()}
+                          {connection.kycReviewedBy &&
+                            ` by ${connection.kycReviewedBy.name}`}
+                        </span>
+                      )}
+                    </div>
+                    {connection.kycRejectionReason && (
+                      <p className="text-sm text-red-600">
+                        {connection.kycRejectionReason}
+                      </p>
+                    )}
+                    <KycDocumentList
+                      documents={connection.kycDocuments}
+                      hrefBase={`/api/admin/connections/${connection.id}/kyc`}
+                    />
+                    {connection.kycStatus !== "APPROVED" && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => void onReviewKyc(true)}
+                          disabled={saving}
+                          className="inline-flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          Approve KYC
+                        </button>
+                        <button
+                          onClick={() => void onReviewKyc(false)}
+                          disabled={saving}
+                          className="inline-flex items-center gap-1 px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                        >
+                          <XCircle className="w-4 h-4" />
+                          Reject KYC
+                        </button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <History className="w-5 h-5" />
+                      Quota History
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <QuotaLedgerTable
+                      entries={connection.quotaLedger}
+                      showAuthor
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <ArrowLeftRight className="w-5 h-5" />
+                      Transfer
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <form onSubmit={onTransfer} className="space-y-3">
+                      <input
+                        placeholder="New holder's email or user ID"
+                        value={transfer.toUser}
+                        onChange={(e) =>
+                          setTransfer({ ...transfer, toUser: e.target.value })
+                        }
+                        className={inputClass}
+                        required
+                      />
+                      <input
+                        placeholder="Holder name (defaults to their name)"
+                        value={transfer.holderName}
+                        onChange={(e) =>
+                          setTransfer({
+                            ...transfer,
+                            holderName: e.target.value,
+                          })
+                        }
+                        className={inputClass}
+                      />
+                      <div className="grid grid-cols-2 gap-2">
+                        <input
+                          placeholder="KYC ID type"
+                          value={transfer.kycIdType}
+                          onChange={(e) =>
+                            setTransfer({
+                              ...transfer,
+                              kycIdType: e.target.value,
+                            })
+                          }
+                          className={inputClass}
+                        />
+                        <input
+                          placeholder="KYC ID number"
+                          value={transfer.kycIdNumber}
+                          onChange={(e) =>
+                            setTransfer({
+                              ...transfer,
+                              kycIdNumber: e.target.value,
+                            })
+                          }
+                          className={inputClass}
+                        />
+                      </div>
+                      <textarea
+                        placeholder="Reason, e.g. house sold"
+                        rows={2}
+                        value={transfer.reason}
+                        onChange={(e) =>
+                          setTransfer({ ...transfer, reason: e.target.value })
+                        }
+                        className={inputClass}
+                        required
+                      />
+                      <button
+                        type="submit"
+                        disabled={
+                          saving ||
+                          connection.status === "CLOSED" ||
+                          !transfer.toUser.trim()
+                        }
+                        className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Transfer Connection
+                      </button>
+                    </form>
+
+                    {connection.transfers.length > 0 && (
+                      <div className="space-y-3 pt-4 border-t border-gray-100">
+                        {connection.transfers.map((t) => (
+                          <div key={t.id} className="text-sm">
+                            <div className="text-gray-900">
+                              {t.fromHolder} → {t.toHolder}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {t.fromUser?.email || "deleted login"} →{" "}
+                              {t.toUser?.email || "deleted login"}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {new Date(t.createdAt).toLocaleDateString()}
+                              {t.createdBy && ` by ${t.createdBy.name}`} ·{" "}
+                              {t.reason}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Package className="w-5 h-5" />
+                      Recent Bookings
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {connection.bookings.length === 0 ? (
+                      <p className="text-center py-4 text-sm text-gray-500">
+                        No bookings yet.
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {connection.bookings.map((b) => (
+                          <Link
+                            key={b.id}
+                            href={`/admin/bookings/${b.id}`}
+                            className="flex items-center justify-between p-2 rounded-lg hover:bg-gray-50 text-sm"
+                          >
+                            <span className="font-mono text-gray-900">
+                              #{b.id.slice(-8).toUpperCase()}
+                            </span>
+                            <span className="text-gray-600">
+                              {b.status} ·{" "}
+                              {new Date(b.createdAt).toLocaleDateString()}
+                            </span>
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import AdminNavbar from "@/components/AdminNavbar";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import { Flame, RefreshCw, Search } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type ConnectionStatus = "PENDING" | "ACTIVE" | "SUSPENDED" | "CLOSED";
+
+type ConnectionRow = {
+  id: string;
+  consumerNumber: string;
+  holderName: string;
+  address: string;
+  connectionType: "DOMESTIC" | "COMMERCIAL";
+  status: ConnectionStatus;
+  remainingQuota: number;
+  quotaPeriod: string | null;
+  createdAt: string;
+  user: { id: string; name: string; email: string };
+};
+
+const STATUS_STYLES: Record<ConnectionStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800",
+  ACTIVE: "bg-green-100 text-green-800",
+  SUSPENDED: "bg-orange-100 text-orange-800",
+  CLOSED: "bg-gray-100 text-gray-600",
+};
+
+export default function AdminConnectionsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [connections, setConnections] = useState<ConnectionRow[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [statusFilter, setStatusFilter] = useState<"ALL" | ConnectionStatus>(
+    "ALL",
+  );
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadConnections = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "20" });
+      if (statusFilter !== "ALL") params.set("status", statusFilter);
+      if (query) params.set("search", query);
+      const res = await fetch(`/api/admin/connections?${params.toString()}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        setConnections(json.data.data);
+        setTotalPages(json.data.pagination.totalPages || 1);
+      }
+    } catch (error) {
+      console.error("Failed to load connections:", error);
+      toast.error("Failed to load connections");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter, query]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadConnections();
+  }, [session, loadConnections]);
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">
+                Gas Connections
+              </h1>
+              <p className="text-sm text-gray-600">
+                Each connection has its own consumer number, quota and bookings
+              </p>
+            </div>
+            <button
+              onClick={() => void loadConnections()}
+              disabled={loading}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw
+                className={`w-4 h-4 ${loading ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Flame className="w-5 h-5 text-orange-600" />
+                Connections
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="relative">
+                  <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-gray-900 w-72"
+                    placeholder="Consumer no., holder, address, email"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        setQuery(search.trim());
+                        setPage(1);
+                      }
+                    }}
+                  />
+                </div>
+                <select
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                  value={statusFilter}
+                  onChange={(e) => {
+                    setStatusFilter(e.target.value as "ALL" | ConnectionStatus);
+                    setPage(1);
+                  }}
+                >
+                  <option value="ALL">All Statuses</option>
+                  <option value="PENDING">Pending</option>
+                  <option value="ACTIVE">Active</option>
+                  <option value="SUSPENDED">Suspended</option>
+                  <option value="CLOSED">Closed</option>
+                </select>
+              </div>
+
+              {loading && connections.length === 0 ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                </div>
+              ) : connections.length === 0 ? (
+                <p className="text-center py-6 text-gray-500">
+                  No connections found.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                        <th className="py-2 pr-3 font-medium">Consumer No.</th>
+                        <th className="py-2 pr-3 font-medium">Holder</th>
+                        <th className="py-2 pr-3 font-medium">Login</th>
+                        <th className="py-2 pr-3 font-medium">Status</th>
+                        <th className="py-2 pr-3 font-medium">Quota</th>
+                        <th className="py-2 font-medium">Opened</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {connections.map((c) => (
+                        <tr
+                          key={c.id}
+                          className="border-b border-gray-100 hover:bg-gray-50"
+                        >
+                          <td className="py-2 pr-3">
+                            <Link
+                              href={`/admin/connections/${c.id}`}
+                              className="font-mono text-blue-600 hover:underline"
+                            >
+                              {c.consumerNumber}
+                            </Link>
+                          </td>
+                          <td className="py-2 pr-3 text-gray-900">
+                            {c.holderName}
+                            <div className="text-xs text-gray-500 truncate max-w-xs">
+                              {c.address}
+                            </div>
+                          </td>
+                          <td className="py-2 pr-3">
+                            <Link
+                              href={`/admin/users/${c.user.id}`}
+                              className="text-gray-700 hover:underline"
+                            >
+                              {c.user.email}
+                            </Link>
+                          </td>
+                          <td className="py-2 pr-3">
+                            <span
+                              className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[c.status]}`}
+                            >
+                              {c.status}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-3 text-gray-900">
+                            {c.remainingQuota}
+                            {c.quotaPeriod && (
+                              <span className="text-xs text-gray-400">
+                                {" "}
+                                ({c.quotaPeriod})
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 text-gray-700">
+                            {new Date(c.createdAt).toLocaleDateString()}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  onClick={() => setPage((p) => Math.max(p - 1, 1))}
+                  disabled={page <= 1}
+                  className="px-3 py-1 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-600">
+                  Page {page} of {totalPages}
+                </span>
+                <button
+                  onClick={() => setPage((p) => Math.min(p + 1, totalPages))}
+                  disabled={page >= totalPages}
+                  className="px-3 py-1 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import type { CylinderTypeOption } from "@/components/CylinderTypeSelect";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import { Package, Plus, Save, Power, Edit3, X } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type CylinderType = CylinderTypeOption & { sortOrder: number };
+
+const emptyForm = {
+  code: "",
+  name: "",
+  weightKg: "",
+  category: "DOMESTIC" as "DOMESTIC" | "COMMERCIAL",
+  sortOrder: "0",
+};
+
+export default function AdminCylinderTypesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [types, setTypes] = useState<CylinderType[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadTypes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/cylinder-types", {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setTypes(json.data);
+    } catch (error) {
+      console.error("Failed to load cylinder types:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") {
+      void loadTypes();
+    }
+  }, [session, loadTypes]);
+
+  const saveType = async (
+    id: string | null,
+    body: Record<string, unknown>,
+    successMessage: string,
+  ) => {
+    const res = await fetch(
+      id ? `/api/admin/cylinder-types/${id}` : "/api/admin/cylinder-types",
+      {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+    const json = await res.json();
+    if (res.ok && json.success) {
+      toast.success(successMessage);
+      void loadTypes();
+      return true;
+    }
+    const detail = json.details?.[0]?.message;
+    toast.error(detail || json.message || "Failed to save cylinder type");
+    return false;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const existing = types.find((t) => t.id === editingId);
+      const body = {
+        name: form.name,
+        weightKg: parseFloat(form.weightKg) || 0,
+        category: form.category,
+        sortOrder: parseInt(form.sortOrder, 10) || 0,
+        isActive: existing ? existing.isActive : true,
+        ...(editingId ? {} : { code: form.code }),
+      };
+      const ok = await saveType(
+        editingId,
+        body,
+        editingId ? "Cylinder type updated" : "Cylinder type created",
+      );
+      if (ok) {
+        setEditingId(null);
+        setForm(emptyForm);
+      }
+    } catch (error) {
+      console.error("Failed to save cylinder type:", error);
+      toast.error("Failed to save cylinder type");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEdit = (type: CylinderType) => {
+    setEditingId(type.id);
+    setForm({
+      code: type.code,
+      name: type.name,
+      weightKg: String(type.weightKg),
+      category: type.category,
+      sortOrder: String(type.sortOrder),
+    });
+  };
+
+  const toggleActive = (type: CylinderType) =>
+    void saveType(
+      type.id,
+      {
+        name: type.name,
+        weightKg: type.weightKg,
+        category: type.category,
+        sortOrder: type.sortOrder,
+        isActive: !type.isActive,
+      },
+      type.isActive ? "Cylinder type deactivated" : "Cylinder type activated",
+    );
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-black">
+      <AdminNavbar />
+      <main className="max-w-6xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Cylinder Types</h1>
+            <p className="text-gray-600 mt-2">
+              Products customers can book. Stock, batches and prices are kept
+              per type; deactivate a type to stop new bookings.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Catalogue</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="py-8 text-center text-gray-500">Loading...</div>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="py-2">Code</th>
+                      <th className="py-2">Name</th>
+                      <th className="py-2">Weight</th>
+                      <th className="py-2">Category</th>
+                      <th className="py-2">In Stock</th>
+                      <th className="py-2">Status</th>
+                      <th className="py-2 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {types.map((type) => (
+                      <tr key={type.id} className="border-t">
+                        <td className="py-2 font-mono text-xs">{type.code}</td>
+                        <td className="py-2 font-medium">{type.name}</td>
+                        <td className="py-2">{type.weightKg} kg</td>
+                        <td className="py-2">{type.category}</td>
+                        <td className="py-2">{type.totalAvailable}</td>
+                        <td className="py-2">
+                          <span
+                            className={`px-2 py-0.5 text-xs rounded-full ${
+                              type.isActive
+                                ? "bg-green-100 text-green-700"
+                                : "bg-gray-100 text-gray-600"
+                            }`}
+                          >
+                            {type.isActive ? "Active" : "Inactive"}
+                          </span>
+                        </td>
+                        <td className="py-2">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => startEdit(type)}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                              <Edit3 className="w-4 h-4" />
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => toggleActive(type)}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                              <Power className="w-4 h-4" />
+                              {type.isActive ? "Deactivate" : "Activate"}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="inline-flex items-center gap-2">
+                  <Package className="w-5 h-5 text-purple-600" />
+                  {editingId ? "Edit Cylinder Type" : "New Cylinder Type"}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Code
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      disabled={Boolean(editingId)}
+                      placeholder="e.g. COMMERCIAL_47_5"
+                      value={form.code}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, code: e.target.value }))
+                      }
+                      className={`${inputClass} disabled:bg-gray-100`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      placeholder="e.g. Commercial 47.5 kg"
+                      value={form.name}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, name: e.target.value }))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Weight (kg)
+                    </label>
+                    <input
+                      type="number"
+                      required
+                      min="0.1"
+                      step="0.1"
+                      value={form.weightKg}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          weightKg: e.target.value,
+                        }))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Category
+                    </label>
+                    <select
+                      value={form.category}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          category: e.target.value as "DOMESTIC" | "COMMERCIAL",
+                        }))
+                      }
+                      className={inputClass}
+                    >
+                      <option value="DOMESTIC">Domestic</option>
+                      <option value="COMMERCIAL">Commercial</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Display Order
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={form.sortOrder}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          sortOrder: e.target.value,
+                        }))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 font-medium"
+                  >
+                    {editingId ? (
+                      <Save className="w-4 h-4" />
+                    ) : (
+                      <Plus className="w-4 h-4" />
+                    )}
+                    {saving
+                      ? "Saving..."
+                      : editingId
+                        ? "Save Changes"
+                        : "Add Cylinder Type"}
+                  </button>
+                  {editingId && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(null);
+                        setForm(emptyForm);
+                      }}
+                      className="inline-flex items-center gap-2 px-6 py-3 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      <X className="w-4 h-4" />
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -24,8 +24,21 @@ type Delivery = {
   expectedDelivery: string;
   notes?: string;
   priority: "LOW" | "MEDIUM" | "HIGH";
+  attempts: number;
+  failureReason?: string | null;
+  proposedDate?: string | null;
 };
 
+const FAILURE_CODES = [
+  { value: "CUSTOMER_ABSENT", label: "Customer not available" },
+  { value: "ADDRESS_NOT_FOUND", label: "Address not found" },
+  { value: "REFUSED", label: "Customer refused delivery" },
+  { value: "OTHER", label: "Other (describe in notes)" },
+];
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
 type FilterOptions = {
   status: string;
   partnerId: string;
@@ -52,6 +65,11 @@ export default function ActiveDeliveriesPage() {
   const [deliveryNotes, setDeliveryNotes] = useState<{ [key: string]: string }>(
     {},
   );
+  const [failing, setFailing] = useState<string | null>(null);
+  const [failureCode, setFailureCode] = useState("");
+  const [rescheduleDates, setRescheduleDates] = useState<
+    Record<string, string>
+  >({});
 
   useEffect(() => {
     if (status === "loading") return;
@@ -100,7 +118,18 @@ export default function ActiveDeliveriesPage() {
     deliveryId: string,
     newStatus: string,
     notes?: string,
+    failure?: { failureCode: string; reason?: string },
   ) => {
+    // Closing a delivery needs the OTP the customer was emailed
+    let proof: { otp: string; receivedByName: string } | undefined;
+    if (newStatus === "DELIVERED") {
+      const otp = prompt("Enter the 6-digit delivery OTP from the customer:");
+      if (!otp?.trim()) return;
+      const receivedByName = prompt("Name of the person who received it:");
+      if (!receivedByName?.trim()) return;
+      proof = { otp: otp.trim(), receivedByName: receivedByName.trim() };
+    }
+
     setUpdating(deliveryId);
 
     // Get notes from state or use provided notes
@@ -114,6 +143,8 @@ export default function ActiveDeliveriesPage() {
           bookingId: deliveryId,
           status: newStatus,
           notes: statusNotes,
+          ...proof,
+          ...failure,
         }),
       });
 
@@ -124,6 +155,16 @@ export default function ActiveDeliveriesPage() {
           alert(
             `Delivery marked as completed successfully! Invoice has been automatically generated and sent to the customer's email.`,
           );
+        } else if (newStatus === "OUT_FOR_DELIVERY") {
+          alert(
+            "Delivery started. The customer has been emailed a delivery OTP to share at the door.",
+          );
+        } else if (newStatus === "FAILED") {
+          setFailing(null);
+          setFailureCode("");
+          alert(
+            "Delivery marked as failed. The customer has been asked to pick a new date, or the booking was cancelled if no attempts are left.",
+          );
         } else {
           alert(
             `Status updated successfully to ${newStatus.toLowerCase().replace("_", " ")}`,
@@ -146,7 +187,31 @@ export default function ActiveDeliveriesPage() {
     }
   };
 
-  const assignPartner = async (deliveryId: string, partnerId: string) => {
+  const resendDeliveryOtp = async (deliveryId: string) => {
+    setUpdating(deliveryId);
+    try {
+      const res = await fetch(`/api/admin/bookings/${deliveryId}/delivery/otp`, {
+        method: "POST",
+      });
+      const json = await res.json();
+      alert(
+        res.ok
+          ? json.message || "OTP sent to the customer"
+          : `Failed to resend OTP: ${json.message || "Unknown error"}`,
+      );
+    } catch (error) {
+      console.error("Error resending OTP:", error);
+      alert("Error resending delivery OTP");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const assignPartner = async (
+    deliveryId: string,
+    partnerId: string,
+    allowOverCapacity = false,
+  ) => {
     setUpdating(deliveryId);
     try {
       const res = await fetch("/api/admin/deliveries/assignments", {
@@ -155,13 +220,23 @@ export default function ActiveDeliveriesPage() {
         body: JSON.stringify({
           bookingId: deliveryId,
           partnerId,
+          allowOverCapacity,
         }),
       });
 
       if (res.ok) {
         await loadData();
       } else {
-        alert("Failed to assign partner");
+        const data = await res.json().catch(() => ({}));
+        if (
+          res.status === 409 &&
+          data.details?.overCapacity &&
+          confirm(`${data.message}. Assign anyway?`)
+        ) {
+          await assignPartner(deliveryId, partnerId, true);
+        } else {
+          alert(data.message || "Failed to assign partner");
+        }
       }
     } catch (error) {
       console.error("Error assigning partner:", error);
@@ -171,6 +246,52 @@ export default function ActiveDeliveriesPage() {
     }
   };
 
+  const rescheduleDelivery = async (
+    delivery: Delivery,
+    allowOverCapacity = false,
+  ) => {
+    const date =
+      rescheduleDates[delivery.bookingId] ||
+      (delivery.proposedDate ? toDateInput(new Date(delivery.proposedDate)) : "");
+    if (!date) {
+      alert("Choose a date for the next attempt");
+      return;
+    }
+    setUpdating(delivery.bookingId);
+    try {
+      const res = await fetch(
+        `/api/admin/bookings/${delivery.bookingId}/delivery/reschedule`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            date,
+            partnerId: delivery.partnerId,
+            allowOverCapacity,
+          }),
+        },
+      );
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        if (data.data?.warning) alert(data.data.warning);
+        await loadData();
+      } else if (
+        res.status === 409 &&
+        data.details?.overCapacity &&
+        confirm(`${data.message}. Schedule anyway?`)
+      ) {
+        await rescheduleDelivery(delivery, true);
+      } else {
+        alert(data.message || "Failed to reschedule delivery");
+      }
+    } catch (error) {
+      console.error("Error rescheduling delivery:", error);
+      alert("Error rescheduling delivery");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "ASSIGNED":
@@ -453,6 +574,29 @@ export default function ActiveDeliveriesPage() {
                                   ).toLocaleDateString()}
                                 </span>
                               </div>
+                              {delivery.attempts > 1 && (
+                                <div className="mb-2">
+                                  <span className="text-sm font-medium text-gray-700">
+                                    Attempt:{" "}
+                                  </span>
+                                  <span className="text-sm text-gray-900">
+                                    {delivery.attempts}
+                                  </span>
+                                </div>
+                              )}
+                              {delivery.status === "FAILED" && (
+                                <div className="mb-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+                                  {delivery.failureReason || "Delivery failed"}
+                                  {delivery.proposedDate && (
+                                    <div className="text-xs text-red-700">
+                                      Proposed next attempt:{" "}
+                                      {new Date(
+                                        delivery.proposedDate,
+                                      ).toLocaleDateString()}
+                                    </div>
+                                  )}
+                                </div>
+                              )}
 
                               {/* Delivery Progress Tracking */}
                               <div className="mt-3 p-3 bg-gray-50 rounded-lg border">
@@ -585,12 +729,25 @@ export default function ActiveDeliveriesPage() {
                               }
                               disabled={updating === delivery.bookingId}
                               className="px-3 py-1 bg-green-100 text-green-800 rounded text-sm hover:bg-green-200 transition-colors disabled:opacity-50"
-                              title="Mark when delivery is completed successfully. Invoice will be automatically generated and sent to customer."
+                              title="Enter the customer's delivery OTP to complete. Invoice will be automatically generated and sent to customer."
                             >
                               Mark Delivered
                             </button>
                           )}
 
+                          {delivery.status === "OUT_FOR_DELIVERY" && (
+                            <button
+                              onClick={() =>
+                                resendDeliveryOtp(delivery.bookingId)
+                              }
+                              disabled={updating === delivery.bookingId}
+                              className="px-3 py-1 bg-gray-100 text-gray-800 rounded text-sm hover:bg-gray-200 transition-colors disabled:opacity-50"
+                              title="Email the customer a new delivery OTP"
+                            >
+                              Resend OTP
+                            </button>
+                          )}
+
                           {/* Partner Assignment */}
                           {!delivery.partnerId && (
                             <select
@@ -620,20 +777,107 @@ export default function ActiveDeliveriesPage() {
                             "ASSIGNED",
                             "PICKED_UP",
                             "OUT_FOR_DELIVERY",
-                          ].includes(delivery.status) && (
-                            <button
-                              onClick={() =>
-                                updateDeliveryStatus(
-                                  delivery.bookingId,
-                                  "FAILED",
-                                )
-                              }
-                              disabled={updating === delivery.bookingId}
-                              className="px-3 py-1 bg-red-100 text-red-800 rounded text-sm hover:bg-red-200 transition-colors disabled:opacity-50"
-                              title="Mark if delivery fails or cannot be completed"
-                            >
-                              Mark Failed
-                            </button>
+                          ].includes(delivery.status) &&
+                            (failing === delivery.bookingId ? (
+                              <div className="flex flex-col gap-1">
+                                <select
+                                  value={failureCode}
+                                  onChange={(e) =>
+                                    setFailureCode(e.target.value)
+                                  }
+                                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                                >
+                                  <option value="">Why did it fail?</option>
+                                  {FAILURE_CODES.map((code) => (
+                                    <option key={code.value} value={code.value}>
+                                      {code.label}
+                                    </option>
+                                  ))}
+                                </select>
+                                <div className="flex gap-1">
+                                  <button
+                                    onClick={() =>
+                                      updateDeliveryStatus(
+                                        delivery.bookingId,
+                                        "FAILED",
+                                        undefined,
+                                        {
+                                          failureCode,
+                                          reason:
+                                            deliveryNotes[
+                                              delivery.bookingId
+                                            ]?.trim() || undefined,
+                                        },
+                                      )
+                                    }
+                                    disabled={
+                                      !failureCode ||
+                                      (failureCode === "OTHER" &&
+                                        !deliveryNotes[
+                                          delivery.bookingId
+                                        ]?.trim()) ||
+                                      updating === delivery.bookingId
+                                    }
+                                    className="flex-1 px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700 transition-colors disabled:opacity-50"
+                                  >
+                                    Confirm
+                                  </button>
+                                  <button
+                                    onClick={() => {
+                                      setFailing(null);
+                                      setFailureCode("");
+                                    }}
+                                    className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+                                  >
+                                    Back
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <button
+                                onClick={() => {
+                                  setFailing(delivery.bookingId);
+                                  setFailureCode("");
+                                }}
+                                disabled={updating === delivery.bookingId}
+                                className="px-3 py-1 bg-red-100 text-red-800 rounded text-sm hover:bg-red-200 transition-colors disabled:opacity-50"
+                                title="Mark if delivery fails or cannot be completed"
+                              >
+                                Mark Failed
+                              </button>
+                            ))}
+
+                          {/* Reattempt a failed delivery */}
+                          {delivery.status === "FAILED" && (
+                            <div className="flex flex-col gap-1">
+                              <input
+                                type="date"
+                                min={toDateInput(new Date())}
+                                value={
+                                  rescheduleDates[delivery.bookingId] ??
+                                  (delivery.proposedDate
+                                    ? toDateInput(
+                                        new Date(delivery.proposedDate),
+                                      )
+                                    : "")
+                                }
+                                onChange={(e) =>
+                                  setRescheduleDates((prev) => ({
+                                    ...prev,
+                                    [delivery.bookingId]: e.target.value,
+                                  }))
+                                }
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <button
+                                onClick={() => rescheduleDelivery(delivery)}
+                                disabled={updating === delivery.bookingId}
+                                className="px-3 py-1 bg-orange-100 text-orange-800 rounded text-sm hover:bg-orange-200 transition-colors disabled:opacity-50"
+                                title="Book the next delivery attempt with the same partner"
+                              >
+                                Reschedule
+                              </button>
+                            </div>
                           )}
 
                           {/* View Details */}
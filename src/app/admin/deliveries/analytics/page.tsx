@@ -31,6 +31,7 @@ type AnalyticsData = {
     completedDeliveries: number;
     averageDeliveryTime: number;
     successRate: number;
+    slaCompliance: number;
     rating: number;
   }>;
   areaStats: Array<{
@@ -103,12 +104,12 @@ export default function DeliveryAnalyticsPage() {
 
   // duplicate removed; using the memoized loadAnalytics above
 
-  const exportData = async () => {
+  const exportData = async (format: "csv" | "xlsx") => {
     try {
       const res = await fetch("/api/admin/deliveries/analytics/export", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(filters),
+        body: JSON.stringify({ ...filters, format }),
       });
 
       if (res.ok) {
@@ -116,7 +117,7 @@ export default function DeliveryAnalyticsPage() {
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
-        a.download = `delivery-analytics-${new Date().toISOString().split("T")[0]}.csv`;
+        a.download = `delivery-analytics-${new Date().toISOString().split("T")[0]}.${format}`;
         document.body.appendChild(a);
         a.click();
         window.URL.revokeObjectURL(url);
@@ -160,11 +161,18 @@ export default function DeliveryAnalyticsPage() {
             </div>
             <div className="flex items-center gap-3">
               <button
-                onClick={exportData}
+                onClick={() => exportData("csv")}
                 className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
               >
                 <Download className="w-4 h-4" />
-                Export Data
+                Export CSV
+              </button>
+              <button
+                onClick={() => exportData("xlsx")}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Export XLSX
               </button>
               <button
                 onClick={loadAnalytics}
@@ -457,6 +465,9 @@ export default function DeliveryAnalyticsPage() {
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Avg Time
                         </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          SLA Met
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Rating
                         </th>
@@ -489,6 +500,11 @@ export default function DeliveryAnalyticsPage() {
                                 {partner.averageDeliveryTime}h
                               </div>
                             </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm text-gray-900">
+                                {partner.slaCompliance}%
+                              </div>
+                            </td>
                             <td className="px-6 py-4 whitespace-nowrap">
                               <div className="text-sm text-gray-900">
                                 {partner.rating.toFixed(1)}/5.0
@@ -6,7 +6,7 @@ import { useSession } from "next-auth/react";
 import AdminNavbar from "@/components/AdminNavbar";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
 import Link from "next/link";
-import { Truck, Users, Package, MapPin, Clock, CheckCircle, TrendingUp, BarChart3, Plus, Eye } from "lucide-react";
+import { Truck, Users, Package, MapPin, Clock, CheckCircle, TrendingUp, BarChart3, Plus, Eye, Timer } from "lucide-react";
 
 type DeliveryStats = {
   totalDeliveries: number;
@@ -114,6 +114,27 @@ export default function AdminDeliveriesPage() {
               </p>
             </div>
             <div className="flex items-center gap-3">
+              <Link
+                href="/admin/deliveries/planner"
+                className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <MapPin className="w-4 h-4" />
+                Plan Dispatch
+              </Link>
+              <Link
+                href="/admin/deliveries/sla"
+                className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Timer className="w-4 h-4" />
+                SLA
+              </Link>
+              <Link
+                href="/admin/deliveries/slots"
+                className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <Clock className="w-4 h-4" />
+                Slots
+              </Link>
               <Link
                 href="/admin/deliveries/active"
                 className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -17,6 +17,7 @@ type Partner = {
   serviceArea?: string;
   capacityPerDay: number;
   isActive: boolean;
+  userId?: string | null;
 };
 
 export default function EditPartnerPage() {
@@ -75,6 +76,8 @@ export default function EditPartnerPage() {
         capacityPerDay:
           parseInt(formData.get("capacityPerDay") as string) || 20,
         isActive: formData.get("isActive") === "on",
+        loginPassword:
+          (formData.get("loginPassword") as string) || undefined,
       };
 
       const res = await fetch(`/api/admin/deliveries/partners/${id}`, {
@@ -261,8 +264,12 @@ export default function EditPartnerPage() {
                         type="text"
                         defaultValue={partner.serviceArea || ""}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                        placeholder="Service area (optional)"
+                        placeholder="e.g. Kothrud, Baner (optional)"
                       />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Separate areas with commas; used by the dispatch
+                        planner
+                      </p>
                     </div>
 
                     <div>
@@ -286,6 +293,34 @@ export default function EditPartnerPage() {
                     </div>
                   </div>
 
+                  <div>
+                    <label
+                      htmlFor="loginPassword"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      {partner.userId
+                        ? "Reset Portal Password"
+                        : "Portal Password"}
+                    </label>
+                    <input
+                      id="loginPassword"
+                      name="loginPassword"
+                      type="password"
+                      minLength={8}
+                      autoComplete="new-password"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={
+                        partner.userId
+                          ? "Leave blank to keep the current password"
+                          : "Set to give this partner a portal login"
+                      }
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Partners sign in with their email at the regular login
+                      page.
+                    </p>
+                  </div>
+
                   <div className="flex items-center gap-3">
                     <input
                       id="isActive"
@@ -31,6 +31,7 @@ export default function NewDeliveryPartnerPage() {
       serviceArea: String(fd.get("serviceArea") || ""),
       capacityPerDay: Number(fd.get("capacityPerDay") || 20),
       isActive: String(fd.get("isActive") || "") === "on",
+      loginPassword: String(fd.get("loginPassword") || "") || undefined,
     };
     try {
       const res = await fetch("/api/admin/deliveries/partners", {
@@ -113,8 +114,12 @@ export default function NewDeliveryPartnerPage() {
                   <label className="text-sm text-gray-600">Service Area</label>
                   <input
                     name="serviceArea"
+                    placeholder="e.g. Kothrud, Baner"
                     className="w-full border rounded px-3 py-2"
                   />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Separate areas with commas; used by the dispatch planner
+                  </p>
                 </div>
                 <div>
                   <label className="text-sm text-gray-600">
@@ -128,6 +133,22 @@ export default function NewDeliveryPartnerPage() {
                     className="w-full border rounded px-3 py-2"
                   />
                 </div>
+                <div className="md:col-span-2">
+                  <label className="text-sm text-gray-600">
+                    Portal Password (optional)
+                  </label>
+                  <input
+                    name="loginPassword"
+                    type="password"
+                    minLength={8}
+                    autoComplete="new-password"
+                    className="w-full border rounded px-3 py-2"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Lets the partner sign in to the partner portal with the
+                    email above.
+                  </p>
+                </div>
                 <div className="md:col-span-2 flex items-center gap-2">
                   <input
                     id="isActive"
@@ -0,0 +1,401 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import Link from "next/link";
+import {
+  ArrowLeft,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle,
+  ClipboardList,
+  MapPin,
+  RefreshCw,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type PlanPartner = {
+  id: string;
+  name: string;
+  phone: string;
+  areas: string[];
+  capacityPerDay: number;
+  assigned: number;
+};
+
+type PlanStop = {
+  bookingId: string;
+  customerName: string;
+  phone?: string | null;
+  address?: string | null;
+  quantity: number;
+  cylinderName: string;
+  expectedDate?: string | null;
+  deliveryWindow?: string | null;
+  partnerId: string | null;
+  reason: string | null;
+};
+
+type DispatchPlan = {
+  date: string;
+  partners: PlanPartner[];
+  groups: { area: string; stops: PlanStop[] }[];
+  unplaced: number;
+};
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export default function DispatchPlannerPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [date, setDate] = useState(() => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    return toDateInput(tomorrow);
+  });
+  const [plan, setPlan] = useState<DispatchPlan | null>(null);
+  // Booking ids in run-sheet order, and the partner each one goes to
+  const [order, setOrder] = useState<string[]>([]);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [accepting, setAccepting] = useState(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadPlan = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/deliveries/planner?date=${date}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        const data = json.data as DispatchPlan;
+        const stops = data.groups.flatMap((g) => g.stops);
+        setPlan(data);
+        setOrder(stops.map((s) => s.bookingId));
+        setChoices(
+          Object.fromEntries(
+            stops.map((s) => [s.bookingId, s.partnerId || ""]),
+          ),
+        );
+      } else {
+        toast.error(json.message || "Failed to build dispatch plan");
+      }
+    } catch (error) {
+      console.error("Failed to load dispatch plan:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadPlan();
+  }, [session, loadPlan]);
+
+  const stopsById = useMemo(
+    () =>
+      new Map(
+        (plan?.groups || []).flatMap((g) =>
+          g.stops.map((s) => [s.bookingId, s] as const),
+        ),
+      ),
+    [plan],
+  );
+
+  const sheets = useMemo(
+    () =>
+      (plan?.partners || [])
+        .map((partner) => ({
+          partner,
+          stops: order.filter((id) => choices[id] === partner.id),
+        }))
+        .filter((sheet) => sheet.stops.length > 0),
+    [plan, order, choices],
+  );
+
+  const overCapacity = sheets.filter(
+    ({ partner, stops }) =>
+      partner.assigned + stops.length > partner.capacityPerDay,
+  );
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  // Swap a stop with its neighbour on the same partner's sheet
+  const moveStop = (partnerStops: string[], index: number, delta: -1 | 1) => {
+    const target = partnerStops[index + delta];
+    if (!target) return;
+    const current = partnerStops[index];
+    setOrder((prev) =>
+      prev.map((id) =>
+        id === current ? target : id === target ? current : id,
+      ),
+    );
+  };
+
+  const acceptPlan = async () => {
+    const stops = sheets.flatMap(({ partner, stops }) =>
+      stops.map((bookingId) => ({ bookingId, partnerId: partner.id })),
+    );
+    if (stops.length === 0) {
+      toast.error("Assign at least one booking to a partner");
+      return;
+    }
+    setAccepting(true);
+    try {
+      const res = await fetch("/api/admin/deliveries/planner", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, stops }),
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success(json.message);
+        router.push(`/admin/deliveries/run-sheets?date=${date}`);
+      } else {
+        toast.error(json.message || "Failed to accept plan");
+        void loadPlan();
+      }
+    } catch (error) {
+      console.error("Failed to accept dispatch plan:", error);
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Header */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/admin/deliveries"
+                className="inline-flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </Link>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">
+                  Dispatch Planner
+                </h1>
+                <p className="text-gray-600 mt-1">
+                  Batch approved bookings by area and hand them to partners
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+              />
+              <button
+                onClick={() => void loadPlan()}
+                disabled={loading}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw
+                  className={`w-4 h-4 ${loading ? "animate-spin" : ""}`}
+                />
+                Re-plan
+              </button>
+              <Link
+                href={`/admin/deliveries/run-sheets?date=${date}`}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                <ClipboardList className="w-4 h-4" />
+                Run Sheets
+              </Link>
+            </div>
+          </div>
+
+          {loading && !plan ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !plan || order.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center text-gray-500">
+                No approved bookings are waiting for a delivery partner.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Bookings grouped by area */}
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  {order.length} bookings in {plan.groups.length} areas
+                  {plan.unplaced > 0 && (
+                    <span className="text-orange-600">
+                      {" "}
+                      • {plan.unplaced} could not be placed
+                    </span>
+                  )}
+                </p>
+                {plan.groups.map((group) => (
+                  <Card key={group.area}>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        <MapPin className="w-4 h-4 text-blue-600" />
+                        {group.area}
+                        <span className="text-sm font-normal text-gray-500">
+                          ({group.stops.length})
+                        </span>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {group.stops.map((stop) => (
+                        <div
+                          key={stop.bookingId}
+                          className="flex flex-wrap items-center justify-between gap-3 border-b border-gray-100 pb-3 last:border-0 last:pb-0"
+                        >
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-900">
+                              {stop.customerName}
+                              <span className="ml-2 text-xs text-gray-500">
+                                #{stop.bookingId.slice(-8).toUpperCase()}
+                              </span>
+                            </p>
+                            <p className="text-sm text-gray-600 truncate">
+                              {stop.address || "No address"}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {stop.quantity} × {stop.cylinderName}
+                              {stop.deliveryWindow &&
+                                ` · slot ${stop.deliveryWindow}`}
+                            </p>
+                            {!choices[stop.bookingId] && stop.reason && (
+                              <p className="text-xs text-orange-600">
+                                {stop.reason}
+                              </p>
+                            )}
+                          </div>
+                          <select
+                            value={choices[stop.bookingId] || ""}
+                            onChange={(e) =>
+                              setChoices((prev) => ({
+                                ...prev,
+                                [stop.bookingId]: e.target.value,
+                              }))
+                            }
+                            className="border border-gray-300 rounded-lg px-2 py-1 text-sm text-gray-900"
+                          >
+                            <option value="">Leave unassigned</option>
+                            {plan.partners.map((p) => (
+                              <option key={p.id} value={p.id}>
+                                {p.name}
+                                {p.areas.length > 0
+                                  ? ` (${p.areas.join(", ")})`
+                                  : ""}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+
+              {/* Proposed run sheets */}
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Proposed run sheets for{" "}
+                  {new Date(`${date}T00:00:00`).toLocaleDateString()}
+                </p>
+                {sheets.map(({ partner, stops }) => {
+                  const load = partner.assigned + stops.length;
+                  return (
+                    <Card key={partner.id}>
+                      <CardHeader>
+                        <CardTitle className="flex items-center justify-between text-base">
+                          <span>{partner.name}</span>
+                          <span
+                            className={`text-sm font-normal ${load > partner.capacityPerDay ? "text-red-600" : "text-gray-500"}`}
+                          >
+                            {load} / {partner.capacityPerDay} for the day
+                          </span>
+                        </CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <ol className="space-y-2">
+                          {stops.map((bookingId, index) => {
+                            const stop = stopsById.get(bookingId)!;
+                            return (
+                              <li
+                                key={bookingId}
+                                className="flex items-center justify-between gap-3 text-sm"
+                              >
+                                <span className="min-w-0 truncate text-gray-900">
+                                  {index + 1}. {stop.customerName}
+                                  <span className="text-gray-500">
+                                    {" "}
+                                    — {stop.address || "No address"}
+                                  </span>
+                                </span>
+                                <span className="flex gap-1 shrink-0">
+                                  <button
+                                    onClick={() => moveStop(stops, index, -1)}
+                                    disabled={index === 0}
+                                    className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                                    title="Move up"
+                                  >
+                                    <ArrowUp className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => moveStop(stops, index, 1)}
+                                    disabled={index === stops.length - 1}
+                                    className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                                    title="Move down"
+                                  >
+                                    <ArrowDown className="w-4 h-4" />
+                                  </button>
+                                </span>
+                              </li>
+                            );
+                          })}
+                        </ol>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+
+                {overCapacity.length > 0 && (
+                  <p className="text-sm text-red-600">
+                    Over capacity:{" "}
+                    {overCapacity.map((s) => s.partner.name).join(", ")}. Move
+                    some stops to another partner before accepting.
+                  </p>
+                )}
+                <button
+                  onClick={() => void acceptPlan()}
+                  disabled={
+                    accepting || sheets.length === 0 || overCapacity.length > 0
+                  }
+                  className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  {accepting ? "Assigning..." : "Accept Plan"}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import Link from "next/link";
+import { ArrowLeft, FileDown, Printer, Truck } from "lucide-react";
+
+type RunSheet = {
+  partner: {
+    id: string;
+    name: string;
+    phone: string;
+    vehicleNumber?: string | null;
+  };
+  stops: {
+    assignmentId: string;
+    sequence: number | null;
+    bookingId: string;
+    status: string;
+    customerName: string;
+    phone?: string | null;
+    address?: string | null;
+    quantity: number;
+    cylinderName: string;
+    scheduledTime?: string | null;
+    codDue: number;
+  }[];
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  ASSIGNED: "bg-blue-100 text-blue-800",
+  PICKED_UP: "bg-yellow-100 text-yellow-800",
+  OUT_FOR_DELIVERY: "bg-orange-100 text-orange-800",
+  DELIVERED: "bg-green-100 text-green-800",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+function RunSheetsContent() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const params = useSearchParams();
+  const [date, setDate] = useState(
+    () => params.get("date") || new Date().toLocaleDateString("en-CA"),
+  );
+  const [sheets, setSheets] = useState<RunSheet[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadSheets = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/deliveries/run-sheets?date=${date}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setSheets(json.data);
+    } catch (error) {
+      console.error("Failed to load run sheets:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadSheets();
+  }, [session, loadSheets]);
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="print:hidden">
+        <AdminNavbar />
+      </div>
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/admin/deliveries/planner"
+                className="inline-flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Planner
+              </Link>
+              <h1 className="text-3xl font-bold text-gray-900">Run Sheets</h1>
+            </div>
+            <div className="flex items-center gap-3">
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+              />
+              <button
+                onClick={() => window.print()}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                <Printer className="w-4 h-4" />
+                Print
+              </button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : sheets.length === 0 ? (
+            <Card>
+              <CardContent className="p-12 text-center text-gray-500">
+                No deliveries are scheduled for this day.
+              </CardContent>
+            </Card>
+          ) : (
+            sheets.map(({ partner, stops }) => (
+              <Card key={partner.id} className="break-inside-avoid">
+                <CardHeader>
+                  <CardTitle className="flex flex-wrap items-center justify-between gap-2 text-base">
+                    <span className="flex items-center gap-2">
+                      <Truck className="w-4 h-4 text-blue-600" />
+                      {partner.name}
+                      <span className="text-sm font-normal text-gray-500">
+                        {partner.phone}
+                        {partner.vehicleNumber
+                          ? ` • ${partner.vehicleNumber}`
+                          : ""}
+                      </span>
+                    </span>
+                    <span className="flex items-center gap-3 text-sm font-normal text-gray-500">
+                      {new Date(`${date}T00:00:00`).toLocaleDateString()} •{" "}
+                      {stops.length} stops
+                      <a
+                        href={`/api/admin/deliveries/partners/${partner.id}/run-sheet?date=${date}`}
+                        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 print:hidden"
+                      >
+                        <FileDown className="w-4 h-4" />
+                        PDF
+                      </a>
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-3">#</th>
+                        <th className="py-2 pr-3">Customer</th>
+                        <th className="py-2 pr-3">Address</th>
+                        <th className="py-2 pr-3">Cylinders</th>
+                        <th className="py-2 pr-3">COD Due</th>
+                        <th className="py-2">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stops.map((stop, index) => (
+                        <tr
+                          key={stop.assignmentId}
+                          className="border-b border-gray-100 last:border-0 align-top"
+                        >
+                          <td className="py-2 pr-3 text-gray-900">
+                            {stop.sequence ?? index + 1}
+                          </td>
+                          <td className="py-2 pr-3">
+                            <Link
+                              href={`/admin/bookings/${stop.bookingId}`}
+                              className="font-medium text-gray-900 hover:text-blue-600"
+                            >
+                              {stop.customerName}
+                            </Link>
+                            <div className="text-xs text-gray-500">
+                              {stop.phone || "—"}
+                            </div>
+                          </td>
+                          <td className="py-2 pr-3 text-gray-700">
+                            {stop.address || "—"}
+                          </td>
+                          <td className="py-2 pr-3 text-gray-700">
+                            {stop.quantity} × {stop.cylinderName}
+                          </td>
+                          <td className="py-2 pr-3 text-gray-700">
+                            {stop.codDue > 0
+                              ? `₹${stop.codDue.toLocaleString("en-IN")}`
+                              : "Paid"}
+                          </td>
+                          <td className="py-2">
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[stop.status] || "bg-gray-100 text-gray-800"}`}
+                            >
+                              {stop.status.replace(/_/g, " ")}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+export default function RunSheetsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen flex items-center justify-center">
+          Loading...
+        </div>
+      }
+    >
+      <RunSheetsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,470 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import Link from "next/link";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Plus,
+  Save,
+  Timer,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type SlaTarget = {
+  id: string;
+  area: string;
+  targetHours: number;
+  isActive: boolean;
+};
+
+type SlaBreach = {
+  bookingId: string;
+  customerName: string;
+  phone?: string | null;
+  address?: string | null;
+  status: string;
+  partner: { id: string; name: string } | null;
+  area: string | null;
+  targetHours: number;
+  dueAt: string;
+  lateHours: number;
+};
+
+type SlaReport = {
+  defaultHours: number;
+  breaches: SlaBreach[];
+  overall: { completedDeliveries: number; slaCompliance: number };
+  partners: {
+    partnerId: string;
+    partnerName: string;
+    completedDeliveries: number;
+    slaCompliance: number;
+  }[];
+};
+
+const complianceColor = (value: number) =>
+  value >= 90
+    ? "text-green-600"
+    : value >= 75
+      ? "text-yellow-600"
+      : "text-red-600";
+
+export default function DeliverySlaPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [period, setPeriod] = useState("30d");
+  const [report, setReport] = useState<SlaReport | null>(null);
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newTarget, setNewTarget] = useState({ area: "", targetHours: "24" });
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [reportRes, targetsRes] = await Promise.all([
+        fetch(`/api/admin/deliveries/sla?period=${period}`, {
+          cache: "no-store",
+        }),
+        fetch("/api/admin/deliveries/sla-targets", { cache: "no-store" }),
+      ]);
+      const [reportJson, targetsJson] = await Promise.all([
+        reportRes.json(),
+        targetsRes.json(),
+      ]);
+      if (reportRes.ok && reportJson.success) setReport(reportJson.data);
+      if (targetsRes.ok && targetsJson.success) setTargets(targetsJson.data);
+    } catch (error) {
+      console.error("Failed to load SLA report:", error);
+      toast.error("Failed to load SLA report");
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadReport();
+  }, [session, loadReport]);
+
+  const saveTarget = async (
+    target: Omit<SlaTarget, "id"> & { id?: string },
+  ) => {
+    setSaving(true);
+    try {
+      const res = await fetch(
+        target.id
+          ? `/api/admin/deliveries/sla-targets/${target.id}`
+          : "/api/admin/deliveries/sla-targets",
+        {
+          method: target.id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            area: target.area,
+            targetHours: target.targetHours,
+            isActive: target.isActive,
+          }),
+        },
+      );
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to save SLA target");
+        return false;
+      }
+      toast.success(json.message || "SLA target saved");
+      await loadReport();
+      return true;
+    } catch (error) {
+      console.error("Failed to save SLA target:", error);
+      toast.error("Failed to save SLA target");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addTarget = async () => {
+    const saved = await saveTarget({
+      area: newTarget.area,
+      targetHours: Number(newTarget.targetHours),
+      isActive: true,
+    });
+    if (saved) setNewTarget({ area: "", targetHours: "24" });
+  };
+
+  const deleteTarget = async (target: SlaTarget) => {
+    if (!confirm(`Remove the SLA target for ${target.area}?`)) return;
+    try {
+      const res = await fetch(
+        `/api/admin/deliveries/sla-targets/${target.id}`,
+        {
+          method: "DELETE",
+        },
+      );
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to remove SLA target");
+        return;
+      }
+      toast.success("SLA target removed");
+      await loadReport();
+    } catch (error) {
+      console.error("Failed to remove SLA target:", error);
+      toast.error("Failed to remove SLA target");
+    }
+  };
+
+  const editTarget = (id: string, changes: Partial<SlaTarget>) =>
+    setTargets((prev) =>
+      prev.map((t) => (t.id === id ? { ...t, ...changes } : t)),
+    );
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <Link
+                href="/admin/deliveries"
+                className="inline-flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Deliveries
+              </Link>
+              <h1 className="text-3xl font-bold text-gray-900">Delivery SLA</h1>
+            </div>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+            >
+              <option value="7d">Last 7 days</option>
+              <option value="30d">Last 30 days</option>
+              <option value="90d">Last 90 days</option>
+              <option value="1y">Last year</option>
+            </select>
+          </div>
+
+          {loading && !report ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Card>
+                  <CardContent className="p-6">
+                    <p className="text-sm text-gray-600">Open breaches</p>
+                    <p className="text-3xl font-bold text-red-600">
+                      {report?.breaches.length ?? 0}
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-6">
+                    <p className="text-sm text-gray-600">SLA compliance</p>
+                    <p
+                      className={`text-3xl font-bold ${complianceColor(report?.overall.slaCompliance ?? 0)}`}
+                    >
+                      {report?.overall.slaCompliance ?? 0}%
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      of {report?.overall.completedDeliveries ?? 0} deliveries
+                    </p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="p-6">
+                    <p className="text-sm text-gray-600">Default target</p>
+                    <p className="text-3xl font-bold text-gray-900">
+                      {report?.defaultHours ?? 0}h
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      For areas without a target, set in Settings
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertCircle className="w-5 h-5 text-red-600" />
+                    Breaches
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {report && report.breaches.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-3">Customer</th>
+                            <th className="py-2 pr-3">Area</th>
+                            <th className="py-2 pr-3">Status</th>
+                            <th className="py-2 pr-3">Partner</th>
+                            <th className="py-2 pr-3">Due</th>
+                            <th className="py-2">Late by</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.breaches.map((breach) => (
+                            <tr
+                              key={breach.bookingId}
+                              className="border-b border-gray-100 last:border-0 align-top"
+                            >
+                              <td className="py-2 pr-3">
+                                <Link
+                                  href={`/admin/bookings/${breach.bookingId}`}
+                                  className="font-medium text-gray-900 hover:text-blue-600"
+                                >
+                                  {breach.customerName}
+                                </Link>
+                                <div className="text-xs text-gray-500">
+                                  {breach.address || "—"}
+                                </div>
+                              </td>
+                              <td className="py-2 pr-3 text-gray-700">
+                                {breach.area || "Default"} ({breach.targetHours}
+                                h)
+                              </td>
+                              <td className="py-2 pr-3 text-gray-700">
+                                {breach.status.replace(/_/g, " ")}
+                              </td>
+                              <td className="py-2 pr-3 text-gray-700">
+                                {breach.partner?.name || "Unassigned"}
+                              </td>
+                              <td className="py-2 pr-3 text-gray-700">
+                                {new Date(breach.dueAt).toLocaleString()}
+                              </td>
+                              <td className="py-2 font-medium text-red-600">
+                                {breach.lateHours}h
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <p className="text-center py-6 text-gray-500">
+                      All open bookings are within SLA.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Users className="w-5 h-5 text-blue-600" />
+                      Partner Compliance
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {report && report.partners.length > 0 ? (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b">
+                            <th className="py-2 pr-3">Partner</th>
+                            <th className="py-2 pr-3">Delivered</th>
+                            <th className="py-2">On time</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.partners.map((partner) => (
+                            <tr
+                              key={partner.partnerId}
+                              className="border-b border-gray-100 last:border-0"
+                            >
+                              <td className="py-2 pr-3 text-gray-900">
+                                {partner.partnerName}
+                              </td>
+                              <td className="py-2 pr-3 text-gray-700">
+                                {partner.completedDeliveries}
+                              </td>
+                              <td
+                                className={`py-2 font-medium ${complianceColor(partner.slaCompliance)}`}
+                              >
+                                {partner.slaCompliance}%
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <p className="text-center py-6 text-gray-500">
+                        No deliveries in this period.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Timer className="w-5 h-5 text-purple-600" />
+                      Area Targets
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <p className="text-xs text-gray-500">
+                      Areas are matched against the delivery address; the
+                      longest match wins.
+                    </p>
+                    {targets.map((target) => (
+                      <div
+                        key={target.id}
+                        className="flex flex-wrap items-center gap-2"
+                      >
+                        <input
+                          value={target.area}
+                          onChange={(e) =>
+                            editTarget(target.id, { area: e.target.value })
+                          }
+                          className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          max={720}
+                          value={target.targetHours}
+                          onChange={(e) =>
+                            editTarget(target.id, {
+                              targetHours: Number(e.target.value),
+                            })
+                          }
+                          className="w-20 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+                        />
+                        <span className="text-sm text-gray-500">h</span>
+                        <label className="flex items-center gap-1 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={target.isActive}
+                            onChange={(e) =>
+                              editTarget(target.id, {
+                                isActive: e.target.checked,
+                              })
+                            }
+                          />
+                          Active
+                        </label>
+                        <button
+                          onClick={() => void saveTarget(target)}
+                          disabled={saving}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+                          title="Save"
+                        >
+                          <Save className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => void deleteTarget(target)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-gray-100">
+                      <input
+                        placeholder="Area, e.g. Andheri"
+                        value={newTarget.area}
+                        onChange={(e) =>
+                          setNewTarget((prev) => ({
+                            ...prev,
+                            area: e.target.value,
+                          }))
+                        }
+                        className="flex-1 min-w-0 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        max={720}
+                        value={newTarget.targetHours}
+                        onChange={(e) =>
+                          setNewTarget((prev) => ({
+                            ...prev,
+                            targetHours: e.target.value,
+                          }))
+                        }
+                        className="w-20 border border-gray-300 rounded-lg px-3 py-2 text-gray-900"
+                      />
+                      <span className="text-sm text-gray-500">h</span>
+                      <button
+                        onClick={() => void addTarget()}
+                        disabled={saving || !newTarget.area.trim()}
+                        className="inline-flex items-center gap-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Plus className="w-4 h-4" />
+                        Add
+                      </button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
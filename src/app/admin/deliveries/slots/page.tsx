@@ -0,0 +1,317 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import Link from "next/link";
+import { ArrowLeft, Clock, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type DeliverySlot = {
+  id: string;
+  area: string;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  isActive: boolean;
+};
+
+type SlotInput = Omit<DeliverySlot, "id"> & { id?: string };
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const EMPTY_SLOT: SlotInput = {
+  area: "",
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "12:00",
+  capacity: 10,
+  isActive: true,
+};
+
+const inputClass =
+  "border border-gray-300 rounded-lg px-3 py-2 text-gray-900 text-sm";
+
+function SlotFields({
+  slot,
+  onChange,
+}: {
+  slot: SlotInput;
+  onChange: (changes: Partial<SlotInput>) => void;
+}) {
+  return (
+    <>
+      <input
+        placeholder="Area, e.g. Andheri"
+        value={slot.area}
+        onChange={(e) => onChange({ area: e.target.value })}
+        className={`flex-1 min-w-[10rem] ${inputClass}`}
+      />
+      <select
+        value={slot.dayOfWeek}
+        onChange={(e) => onChange({ dayOfWeek: Number(e.target.value) })}
+        className={inputClass}
+      >
+        {DAYS.map((day, i) => (
+          <option key={day} value={i}>
+            {day}
+          </option>
+        ))}
+      </select>
+      <input
+        type="time"
+        value={slot.startTime}
+        onChange={(e) => onChange({ startTime: e.target.value })}
+        className={inputClass}
+      />
+      <span className="text-sm text-gray-500">to</span>
+      <input
+        type="time"
+        value={slot.endTime}
+        onChange={(e) => onChange({ endTime: e.target.value })}
+        className={inputClass}
+      />
+      <input
+        type="number"
+        min={1}
+        max={500}
+        value={slot.capacity}
+        onChange={(e) => onChange({ capacity: Number(e.target.value) })}
+        className={`w-20 ${inputClass}`}
+        title="Bookings per date"
+      />
+    </>
+  );
+}
+
+export default function DeliverySlotsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newSlot, setNewSlot] = useState<SlotInput>(EMPTY_SLOT);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadSlots = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/deliveries/slots", {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setSlots(json.data);
+    } catch (error) {
+      console.error("Failed to load delivery slots:", error);
+      toast.error("Failed to load delivery slots");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadSlots();
+  }, [session, loadSlots]);
+
+  const saveSlot = async (slot: SlotInput) => {
+    setSaving(true);
+    try {
+      const res = await fetch(
+        slot.id
+          ? `/api/admin/deliveries/slots/${slot.id}`
+          : "/api/admin/deliveries/slots",
+        {
+          method: slot.id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            area: slot.area,
+            dayOfWeek: slot.dayOfWeek,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            capacity: slot.capacity,
+            isActive: slot.isActive,
+          }),
+        },
+      );
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to save delivery slot");
+        return false;
+      }
+      toast.success(json.message || "Delivery slot saved");
+      await loadSlots();
+      return true;
+    } catch (error) {
+      console.error("Failed to save delivery slot:", error);
+      toast.error("Failed to save delivery slot");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addSlot = async () => {
+    // Keep the area and day so the next window is quick to add
+    if (await saveSlot(newSlot)) {
+      setNewSlot((prev) => ({
+        ...EMPTY_SLOT,
+        area: prev.area,
+        dayOfWeek: prev.dayOfWeek,
+      }));
+    }
+  };
+
+  const deleteSlot = async (slot: DeliverySlot) => {
+    if (
+      !confirm(
+        `Remove the ${slot.startTime}-${slot.endTime} slot for ${slot.area} on ${DAYS[slot.dayOfWeek]}?`,
+      )
+    )
+      return;
+    try {
+      const res = await fetch(`/api/admin/deliveries/slots/${slot.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to remove delivery slot");
+        return;
+      }
+      toast.success("Delivery slot removed");
+      await loadSlots();
+    } catch (error) {
+      console.error("Failed to remove delivery slot:", error);
+      toast.error("Failed to remove delivery slot");
+    }
+  };
+
+  const editSlot = (id: string, changes: Partial<SlotInput>) =>
+    setSlots((prev) =>
+      prev.map((s) => (s.id === id ? { ...s, ...changes } : s)),
+    );
+
+  const areas = [...new Set(slots.map((s) => s.area))];
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin/deliveries"
+              className="inline-flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Deliveries
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Delivery Slots</h1>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-5 h-5 text-blue-600" />
+                Slots by Area
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <p className="text-xs text-gray-500">
+                Customers whose address matches an area pick one of its slots
+                for their delivery date; the longest match wins. Capacity is the
+                number of bookings a slot takes per date. Customers in other
+                areas book without a slot.
+              </p>
+
+              {loading && slots.length === 0 ? (
+                <div className="flex items-center justify-center py-8">
+                  <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                </div>
+              ) : areas.length === 0 ? (
+                <p className="text-center py-6 text-gray-500">
+                  No delivery slots yet.
+                </p>
+              ) : (
+                areas.map((area) => (
+                  <div key={area} className="space-y-2">
+                    <h3 className="text-sm font-semibold text-gray-900">
+                      {area}
+                    </h3>
+                    {slots
+                      .filter((s) => s.area === area)
+                      .map((slot) => (
+                        <div
+                          key={slot.id}
+                          className="flex flex-wrap items-center gap-2"
+                        >
+                          <SlotFields
+                            slot={slot}
+                            onChange={(changes) => editSlot(slot.id, changes)}
+                          />
+                          <label className="flex items-center gap-1 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={slot.isActive}
+                              onChange={(e) =>
+                                editSlot(slot.id, {
+                                  isActive: e.target.checked,
+                                })
+                              }
+                            />
+                            Active
+                          </label>
+                          <button
+                            onClick={() => void saveSlot(slot)}
+                            disabled={saving}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg disabled:opacity-50"
+                            title="Save"
+                          >
+                            <Save className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => void deleteSlot(slot)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                            title="Remove"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                  </div>
+                ))
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-gray-100">
+                <SlotFields
+                  slot={newSlot}
+                  onChange={(changes) =>
+                    setNewSlot((prev) => ({ ...prev, ...changes }))
+                  }
+                />
+                <button
+                  onClick={() => void addSlot()}
+                  disabled={saving || !newSlot.area.trim()}
+                  className="inline-flex items-center gap-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add
+                </button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
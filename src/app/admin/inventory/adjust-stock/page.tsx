@@ -1,9 +1,13 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import AdminNavbar from "@/components/AdminNavbar";
+import CylinderTypeSelect from "@/components/CylinderTypeSelect";
+import StockLocationSelect, {
+  type StockLocationOption,
+} from "@/components/StockLocationSelect";
 import {
   ArrowLeft,
   Save,
@@ -13,6 +17,7 @@ import {
   AlertTriangle,
   FileText,
   Calendar,
+  Warehouse,
 } from "lucide-react";
 import Link from "next/link";
 import { toast } from "react-hot-toast";
@@ -21,32 +26,22 @@ export default function AdjustStockPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
-  const [availableStock, setAvailableStock] = useState<number | null>(null);
+  const [location, setLocation] = useState<StockLocationOption>();
   const [formData, setFormData] = useState({
     type: "CORRECTION",
+    cylinderType: "",
+    locationId: "",
     delta: "",
     reason: "",
     notes: "",
     adjustmentDate: new Date().toISOString().split("T")[0],
   });
 
-  const loadStock = async () => {
-    try {
-      const res = await fetch("/api/bookings/stock");
-      if (res.ok) {
-        const json = await res.json();
-        setAvailableStock(json.data.totalAvailable);
-      }
-    } catch (error) {
-      console.error("Failed to load stock:", error);
-    }
-  };
-
-  useEffect(() => {
-    if (session?.user?.role === "ADMIN") {
-      void loadStock();
-    }
-  }, [session]);
+  // Stock of the selected type held at the selected location
+  const availableStock = location
+    ? location.byType.find((t) => t.cylinderType === formData.cylinderType)
+        ?.totalAvailable || 0
+    : null;
 
   if (status === "loading") return null;
   if (!session || session.user.role !== "ADMIN") return null;
@@ -137,6 +132,37 @@ export default function AdjustStockPage() {
             </div>
 
             <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Package className="w-4 h-4 inline mr-2" />
+                    Cylinder Type *
+                  </label>
+                  <CylinderTypeSelect
+                    value={formData.cylinderType}
+                    includeInactive
+                    onChange={(code) =>
+                      setFormData((prev) => ({ ...prev, cylinderType: code }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Warehouse className="w-4 h-4 inline mr-2" />
+                    Location *
+                  </label>
+                  <StockLocationSelect
+                    value={formData.locationId}
+                    stockForType={formData.cylinderType}
+                    includeInactive
+                    onChange={(id, selected) => {
+                      setFormData((prev) => ({ ...prev, locationId: id }));
+                      setLocation(selected);
+                    }}
+                  />
+                </div>
+              </div>
+
               {/* Quick Adjustments */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
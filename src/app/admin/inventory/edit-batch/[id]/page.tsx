@@ -27,6 +27,8 @@ export default function EditBatchPage() {
   const [deleting, setDeleting] = useState(false);
   const [originalQuantity, setOriginalQuantity] = useState<number>(0);
   const [availableStock, setAvailableStock] = useState<number | null>(null);
+  const [cylinderName, setCylinderName] = useState("");
+  const [locationName, setLocationName] = useState("");
   const [formData, setFormData] = useState({
     supplier: "",
     invoiceNo: "",
@@ -39,15 +41,18 @@ export default function EditBatchPage() {
   const loadBatch = useCallback(async () => {
     setLoading(true);
     try {
-      const [batchRes, stockRes] = await Promise.all([
-        fetch(`/api/admin/inventory/batches/${batchId}`, { cache: "no-store" }),
-        fetch("/api/bookings/stock")
-      ]);
+      const batchRes = await fetch(`/api/admin/inventory/batches/${batchId}`, {
+        cache: "no-store",
+      });
 
+      let stockQuery: string | null = null;
       if (batchRes.ok) {
         const data = await batchRes.json();
         if (data.success) {
           const batch = data.data;
+          stockQuery = `?cylinderType=${encodeURIComponent(batch.cylinderType)}&locationId=${encodeURIComponent(batch.locationId)}`;
+          setCylinderName(batch.cylinder?.name || batch.cylinderType || "");
+          setLocationName(batch.location?.name || "");
           setFormData({
             supplier: batch.supplier || "",
             invoiceNo: batch.invoiceNo || "",
@@ -62,9 +67,15 @@ export default function EditBatchPage() {
         }
       }
 
-      if (stockRes.ok) {
+      // Quantity changes move stock of the batch's own type and location
+      if (stockQuery) {
+        const stockRes = await fetch(`/api/admin/inventory${stockQuery}`, {
+          cache: "no-store",
+        });
         const json = await stockRes.json();
-        setAvailableStock(json.data.totalAvailable);
+        setAvailableStock(
+          stockRes.ok && json.success ? json.data.totalAvailable : null,
+        );
       }
     } catch (error) {
       console.error("Failed to load batch/stock:", error);
@@ -199,6 +210,18 @@ export default function EditBatchPage() {
                 <h2 className="text-lg font-semibold text-gray-900">
                   Batch Details
                 </h2>
+                <div className="ml-auto flex gap-2">
+                  {cylinderName && (
+                    <span className="px-3 py-1 text-xs font-medium rounded-full bg-purple-50 text-purple-700 border border-purple-200">
+                      {cylinderName}
+                    </span>
+                  )}
+                  {locationName && (
+                    <span className="px-3 py-1 text-xs font-medium rounded-full bg-blue-50 text-blue-700 border border-blue-200">
+                      {locationName}
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
 
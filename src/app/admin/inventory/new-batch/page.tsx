@@ -4,6 +4,8 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import AdminNavbar from "@/components/AdminNavbar";
+import CylinderTypeSelect from "@/components/CylinderTypeSelect";
+import StockLocationSelect from "@/components/StockLocationSelect";
 import {
   ArrowLeft,
   Save,
@@ -12,6 +14,7 @@ import {
   FileText,
   MessageSquare,
   Calendar,
+  Warehouse,
 } from "lucide-react";
 import Link from "next/link";
 import { toast } from "react-hot-toast";
@@ -23,6 +26,8 @@ export default function NewBatchPage() {
   const [formData, setFormData] = useState({
     supplier: "",
     invoiceNo: "",
+    cylinderType: "",
+    locationId: "",
     quantity: "",
     notes: "",
     receivedAt: new Date().toISOString().split("T")[0],
@@ -101,6 +106,33 @@ export default function NewBatchPage() {
             </div>
 
             <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Package className="w-4 h-4 inline mr-2" />
+                    Cylinder Type *
+                  </label>
+                  <CylinderTypeSelect
+                    value={formData.cylinderType}
+                    onChange={(code) =>
+                      setFormData((prev) => ({ ...prev, cylinderType: code }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Warehouse className="w-4 h-4 inline mr-2" />
+                    Received At Location *
+                  </label>
+                  <StockLocationSelect
+                    value={formData.locationId}
+                    onChange={(id) =>
+                      setFormData((prev) => ({ ...prev, locationId: id }))
+                    }
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
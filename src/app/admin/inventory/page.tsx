@@ -4,6 +4,8 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import AdminNavbar from "@/components/AdminNavbar";
+import CylinderTypeSelect from "@/components/CylinderTypeSelect";
+import StockLocationSelect from "@/components/StockLocationSelect";
 import Link from "next/link";
 import {
   Package,
@@ -16,11 +18,30 @@ import {
   AlertTriangle,
   Settings,
   Edit3,
+  ArrowLeftRight,
+  Scale,
+  Undo2,
 } from "lucide-react";
 
 type Stock = {
-  id: string;
+  cylinderType: string;
+  locationId: string | null;
   totalAvailable: number;
+  reserved: number;
+  onHand: number;
+  byType: {
+    cylinderType: string;
+    name: string;
+    totalAvailable: number;
+    reserved: number;
+  }[];
+  byLocation: {
+    locationId: string;
+    name: string;
+    isActive: boolean;
+    totalAvailable: number;
+    reserved: number;
+  }[];
   adjustments: {
     id: string;
     delta: number;
@@ -32,6 +53,25 @@ type Stock = {
   }[];
 };
 
+type ReconciliationRow = {
+  stockId: string;
+  locationName: string;
+  cylinderName: string;
+  filled: number;
+  reserved: number;
+  empty: number;
+  inTransit: number;
+  emptiesDue: number;
+};
+
+type Reconciliation = {
+  rows: ReconciliationRow[];
+  totals: Omit<
+    ReconciliationRow,
+    "stockId" | "locationName" | "cylinderName"
+  >;
+};
+
 type CylinderBatch = {
   id: string;
   supplier: string;
@@ -40,6 +80,7 @@ type CylinderBatch = {
   receivedAt: string;
   notes?: string;
   status: "ACTIVE" | "DEPLETED" | "EXPIRED";
+  location?: { name: string };
 };
 
 export default function AdminInventoryPage() {
@@ -47,12 +88,20 @@ export default function AdminInventoryPage() {
   const router = useRouter();
   const [stock, setStock] = useState<Stock | null>(null);
   const [batches, setBatches] = useState<CylinderBatch[]>([]);
+  const [cylinderType, setCylinderType] = useState("");
+  // Empty means totals across all locations
+  const [locationId, setLocationId] = useState("");
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<
-    "overview" | "stock" | "batches" | "analytics"
+    "overview" | "stock" | "batches" | "reconciliation" | "analytics"
   >("overview");
+  const [reconciliation, setReconciliation] = useState<Reconciliation | null>(
+    null,
+  );
   const [analyticsData, setAnalyticsData] = useState<{
     currentStock: number;
+    reservedStock: number;
+    onHandStock: number;
     totalReceived: number;
     totalIssued: number;
     batchStats: Array<{ status: string; count: number; totalQuantity: number }>;
@@ -65,6 +114,18 @@ export default function AdminInventoryPage() {
       batch?: { supplier: string; quantity: number };
       booking?: { userName: string; quantity: number };
     }>;
+    byType: Array<{
+      cylinderType: string;
+      name: string;
+      isActive: boolean;
+      currentStock: number;
+      reserved: number;
+      onHand: number;
+      batchReceived: number;
+      bookings: number;
+      cylindersBooked: number;
+      bookingValue: number;
+    }>;
   } | null>(null);
 
   useEffect(() => {
@@ -87,13 +148,27 @@ export default function AdminInventoryPage() {
   };
 
   const loadData = async () => {
+    if (!cylinderType) return;
     setLoading(true);
     try {
-      const [stockRes, batchesRes, analyticsRes] = await Promise.all([
-        fetch("/api/admin/inventory", { cache: "no-store" }),
-        fetch("/api/admin/inventory/batches", { cache: "no-store" }),
-        fetch("/api/admin/inventory/analytics", { cache: "no-store" }),
-      ]);
+      const query =
+        `?cylinderType=${encodeURIComponent(cylinderType)}` +
+        (locationId ? `&locationId=${encodeURIComponent(locationId)}` : "");
+      const [stockRes, batchesRes, analyticsRes, reconciliationRes] =
+        await Promise.all([
+          fetch(`/api/admin/inventory${query}`, { cache: "no-store" }),
+          fetch(`/api/admin/inventory/batches${query}`, { cache: "no-store" }),
+          fetch(`/api/admin/inventory/analytics${query}`, {
+            cache: "no-store",
+          }),
+          // Covers every cylinder type at the selected location
+          fetch(
+            `/api/admin/inventory/reconciliation${
+              locationId ? `?locationId=${encodeURIComponent(locationId)}` : ""
+            }`,
+            { cache: "no-store" },
+          ),
+        ]);
 
       if (stockRes.ok) {
         const stockData = await stockRes.json();
@@ -105,6 +180,13 @@ export default function AdminInventoryPage() {
         if (batchesData.success) setBatches(batchesData.data || []);
       }
 
+      if (reconciliationRes.ok) {
+        const reconciliationData = await reconciliationRes.json();
+        if (reconciliationData.success) {
+          setReconciliation(reconciliationData.data);
+        }
+      }
+
       if (analyticsRes.ok) {
         const analyticsData = await analyticsRes.json();
         if (analyticsData.success) {
@@ -121,7 +203,8 @@ export default function AdminInventoryPage() {
 
   useEffect(() => {
     if (session?.user?.role === "ADMIN") void loadData();
-  }, [session]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session, cylinderType, locationId]);
 
   if (status === "loading") return null;
   if (!session || session.user.role !== "ADMIN") return null;
@@ -291,6 +374,19 @@ export default function AdminInventoryPage() {
                 </p>
               </div>
               <div className="flex items-center gap-3">
+                <CylinderTypeSelect
+                  value={cylinderType}
+                  onChange={(code) => setCylinderType(code)}
+                  includeInactive
+                  className="px-4 py-2.5 bg-white border border-gray-200 rounded-xl text-gray-700 font-medium shadow-sm focus:ring-2 focus:ring-purple-500"
+                />
+                <StockLocationSelect
+                  value={locationId}
+                  onChange={(id) => setLocationId(id)}
+                  includeInactive
+                  emptyLabel="All locations"
+                  className="px-4 py-2.5 bg-white border border-gray-200 rounded-xl text-gray-700 font-medium shadow-sm focus:ring-2 focus:ring-purple-500"
+                />
                 <button
                   onClick={loadData}
                   className="inline-flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-200 rounded-xl text-gray-700 font-medium hover:bg-gray-50 hover:border-gray-300 transition-all duration-200 shadow-sm hover:shadow-md"
@@ -312,6 +408,20 @@ export default function AdminInventoryPage() {
                   <Settings className="w-4 h-4" />
                   Adjust Stock
                 </Link>
+                <Link
+                  href="/admin/inventory/transfer"
+                  className="inline-flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-200 rounded-xl text-gray-700 font-medium hover:bg-gray-50 hover:border-gray-300 transition-all duration-200 shadow-sm hover:shadow-md"
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                  Transfer
+                </Link>
+                <Link
+                  href="/admin/inventory/supplier-returns"
+                  className="inline-flex items-center gap-2 px-4 py-2.5 bg-white border border-gray-200 rounded-xl text-gray-700 font-medium hover:bg-gray-50 hover:border-gray-300 transition-all duration-200 shadow-sm hover:shadow-md"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  Return Empties
+                </Link>
               </div>
             </div>
           </div>
@@ -328,10 +438,26 @@ export default function AdminInventoryPage() {
 
           {/* Stats Overview */}
           {!loading && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
               {[
                 {
-                  title: "Total Available",
+                  title: "On Hand",
+                  value: stock?.onHand || 0,
+                  icon: Database,
+                  color: "from-purple-500 to-purple-600",
+                  bgColor: "bg-purple-50",
+                  textColor: "text-purple-700",
+                },
+                {
+                  title: "Reserved for Bookings",
+                  value: stock?.reserved || 0,
+                  icon: Package,
+                  color: "from-orange-500 to-orange-600",
+                  bgColor: "bg-orange-50",
+                  textColor: "text-orange-700",
+                },
+                {
+                  title: "Available",
                   value: stock?.totalAvailable || 0,
                   icon: Package,
                   color: "from-blue-500 to-blue-600",
@@ -395,6 +521,47 @@ export default function AdminInventoryPage() {
             </div>
           )}
 
+          {/* Stock by cylinder type */}
+          {!loading && stock?.byType && stock.byType.length > 1 && (
+            <div className="flex flex-wrap gap-3 mb-8">
+              {stock.byType.map((t) => (
+                <button
+                  key={t.cylinderType}
+                  onClick={() => setCylinderType(t.cylinderType)}
+                  className={`px-4 py-2 rounded-xl border text-sm font-medium transition-colors duration-200 ${
+                    t.cylinderType === cylinderType
+                      ? "bg-purple-600 text-white border-purple-600"
+                      : "bg-white text-gray-700 border-gray-200 hover:bg-gray-50"
+                  }`}
+                >
+                  {t.name}: {t.totalAvailable}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Stock of the selected type by location */}
+          {!loading && stock?.byLocation && stock.byLocation.length > 1 && (
+            <div className="flex flex-wrap gap-3 mb-8">
+              {stock.byLocation.map((l) => (
+                <button
+                  key={l.locationId}
+                  onClick={() =>
+                    setLocationId(l.locationId === locationId ? "" : l.locationId)
+                  }
+                  className={`px-4 py-2 rounded-xl border text-sm font-medium transition-colors duration-200 ${
+                    l.locationId === locationId
+                      ? "bg-blue-600 text-white border-blue-600"
+                      : "bg-white text-gray-700 border-gray-200 hover:bg-gray-50"
+                  } ${!l.isActive ? "opacity-60" : ""}`}
+                >
+                  {l.name}: {l.totalAvailable}
+                  {l.reserved > 0 && ` (+${l.reserved} reserved)`}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Navigation Tabs */}
           <div className="bg-white rounded-2xl border border-gray-100 shadow-sm mb-8">
             <div className="border-b border-gray-100">
@@ -403,6 +570,7 @@ export default function AdminInventoryPage() {
                   { id: "overview", label: "Overview", icon: BarChart3 },
                   { id: "stock", label: "Stock Management", icon: Package },
                   { id: "batches", label: "Batches", icon: Database },
+                  { id: "reconciliation", label: "Reconciliation", icon: Scale },
 
                   { id: "analytics", label: "Analytics", icon: TrendingUp },
                 ].map((tab) => (
@@ -414,6 +582,7 @@ export default function AdminInventoryPage() {
                           | "overview"
                           | "stock"
                           | "batches"
+                          | "reconciliation"
                           | "analytics",
                       )
                     }
@@ -691,7 +860,7 @@ export default function AdminInventoryPage() {
                           {stock?.totalAvailable || 0}
                         </div>
                         <div className="text-sm text-gray-600">
-                          Current Stock
+                          Available Stock
                         </div>
                       </div>
                       <div className="text-center">
@@ -813,6 +982,9 @@ export default function AdminInventoryPage() {
                               </h4>
                               <p className="text-sm text-gray-500">
                                 {batch.invoiceNo || "No invoice"}
+                                {!locationId && batch.location
+                                  ? ` · ${batch.location.name}`
+                                  : ""}
                               </p>
                             </div>
                             <span
@@ -858,6 +1030,86 @@ export default function AdminInventoryPage() {
                 </div>
               )}
 
+              {/* Reconciliation Tab */}
+              {activeTab === "reconciliation" && (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      Cylinder Reconciliation
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      Filled cylinders in the godown, empties collected from
+                      customers and empties on their way back to suppliers
+                    </p>
+                  </div>
+
+                  {!reconciliation || reconciliation.rows.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">
+                      No stock recorded yet
+                    </p>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-left text-sm">
+                        <thead className="text-gray-500">
+                          <tr>
+                            <th className="py-2">Location</th>
+                            <th className="py-2">Type</th>
+                            <th className="py-2 text-right">Filled Available</th>
+                            <th className="py-2 text-right">Filled Reserved</th>
+                            <th className="py-2 text-right">Empty</th>
+                            <th className="py-2 text-right">In Transit</th>
+                            <th className="py-2 text-right">
+                              Empties Due from Customers
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {reconciliation.rows.map((row) => (
+                            <tr key={row.stockId} className="border-t">
+                              <td className="py-2 font-medium text-gray-900">
+                                {row.locationName}
+                              </td>
+                              <td className="py-2">{row.cylinderName}</td>
+                              <td className="py-2 text-right">{row.filled}</td>
+                              <td className="py-2 text-right">{row.reserved}</td>
+                              <td className="py-2 text-right">{row.empty}</td>
+                              <td className="py-2 text-right">
+                                {row.inTransit}
+                              </td>
+                              <td
+                                className={`py-2 text-right ${row.emptiesDue > 0 ? "text-orange-700 font-medium" : ""}`}
+                              >
+                                {row.emptiesDue}
+                              </td>
+                            </tr>
+                          ))}
+                          <tr className="border-t-2 font-semibold text-gray-900">
+                            <td className="py-2" colSpan={2}>
+                              Total
+                            </td>
+                            <td className="py-2 text-right">
+                              {reconciliation.totals.filled}
+                            </td>
+                            <td className="py-2 text-right">
+                              {reconciliation.totals.reserved}
+                            </td>
+                            <td className="py-2 text-right">
+                              {reconciliation.totals.empty}
+                            </td>
+                            <td className="py-2 text-right">
+                              {reconciliation.totals.inTransit}
+                            </td>
+                            <td className="py-2 text-right">
+                              {reconciliation.totals.emptiesDue}
+                            </td>
+                          </tr>
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Analytics Tab */}
               {activeTab === "analytics" && (
                 <div className="space-y-8">
@@ -1073,6 +1325,8 @@ export default function AdminInventoryPage() {
                         
                         <div className="pt-2 text-center text-xs text-purple-600 font-medium">
                           Active stock: {analyticsData.currentStock} cylinders available
+                          {analyticsData.reservedStock > 0 &&
+                            `, ${analyticsData.reservedStock} reserved`}
                         </div>
                       </div>
 
@@ -1137,6 +1391,50 @@ export default function AdminInventoryPage() {
                           )}
                         </div>
                       </div>
+
+                      {/* Breakdown by cylinder type */}
+                      {analyticsData.byType && analyticsData.byType.length > 0 && (
+                        <div className="bg-white rounded-2xl border border-gray-150 p-6 lg:col-span-2 shadow-sm">
+                          <h4 className="font-semibold text-gray-900 text-base mb-4">
+                            Breakdown by Cylinder Type
+                          </h4>
+                          <table className="w-full text-left text-sm">
+                            <thead className="text-gray-500">
+                              <tr>
+                                <th className="py-2">Type</th>
+                                <th className="py-2 text-right">On Hand</th>
+                                <th className="py-2 text-right">Reserved</th>
+                                <th className="py-2 text-right">Available</th>
+                                <th className="py-2 text-right">Received (batches)</th>
+                                <th className="py-2 text-right">Bookings</th>
+                                <th className="py-2 text-right">Cylinders Booked</th>
+                                <th className="py-2 text-right">Booking Value</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {analyticsData.byType.map((row) => (
+                                <tr key={row.cylinderType} className="border-t">
+                                  <td className="py-2 font-medium text-gray-900">
+                                    {row.name}
+                                    {!row.isActive && (
+                                      <span className="ml-2 text-xs text-gray-400">(inactive)</span>
+                                    )}
+                                  </td>
+                                  <td className="py-2 text-right">{row.onHand}</td>
+                                  <td className="py-2 text-right">{row.reserved}</td>
+                                  <td className="py-2 text-right">{row.currentStock}</td>
+                                  <td className="py-2 text-right">{row.batchReceived}</td>
+                                  <td className="py-2 text-right">{row.bookings}</td>
+                                  <td className="py-2 text-right">{row.cylindersBooked}</td>
+                                  <td className="py-2 text-right">
+                                    ₹{row.bookingValue.toLocaleString("en-IN")}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -0,0 +1,422 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import CylinderTypeSelect from "@/components/CylinderTypeSelect";
+import StockLocationSelect from "@/components/StockLocationSelect";
+import {
+  ArrowLeft,
+  Package,
+  Warehouse,
+  FileText,
+  Truck,
+  Undo2,
+} from "lucide-react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+
+type SupplierReturn = {
+  id: string;
+  supplier: string;
+  quantity: number;
+  reference?: string | null;
+  notes?: string | null;
+  status: "IN_TRANSIT" | "RECEIVED" | "CANCELLED";
+  dispatchedAt: string;
+  receivedAt?: string | null;
+  cylinderName: string;
+  locationName: string;
+};
+
+const STATUS_STYLES: Record<SupplierReturn["status"], string> = {
+  IN_TRANSIT: "bg-orange-100 text-orange-800",
+  RECEIVED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-gray-100 text-gray-700",
+};
+
+export default function SupplierReturnsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [saving, setSaving] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [returns, setReturns] = useState<SupplierReturn[]>([]);
+  const [emptiesAvailable, setEmptiesAvailable] = useState<number | null>(null);
+  const [formData, setFormData] = useState({
+    cylinderType: "",
+    locationId: "",
+    supplier: "",
+    quantity: "",
+    reference: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadReturns = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/inventory/supplier-returns", {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setReturns(json.data);
+    } catch (error) {
+      console.error("Failed to load supplier returns:", error);
+    }
+  }, []);
+
+  const loadEmpties = useCallback(async () => {
+    if (!formData.locationId || !formData.cylinderType) {
+      setEmptiesAvailable(null);
+      return;
+    }
+    try {
+      const res = await fetch(
+        `/api/admin/inventory/reconciliation?locationId=${encodeURIComponent(formData.locationId)}`,
+        { cache: "no-store" },
+      );
+      const json = await res.json();
+      if (res.ok && json.success) {
+        const row = (
+          json.data.rows as { cylinderType: string; empty: number }[]
+        ).find((r) => r.cylinderType === formData.cylinderType);
+        setEmptiesAvailable(row?.empty || 0);
+      }
+    } catch (error) {
+      console.error("Failed to load empties:", error);
+    }
+  }, [formData.locationId, formData.cylinderType]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadReturns();
+  }, [session, loadReturns]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadEmpties();
+  }, [session, loadEmpties]);
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const qty = parseInt(formData.quantity) || 0;
+    if (qty <= 0) {
+      toast.error("Quantity must be greater than 0");
+      return;
+    }
+    if (emptiesAvailable !== null && qty > emptiesAvailable) {
+      toast.error(`Only ${emptiesAvailable} empties at this location`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/inventory/supplier-returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          quantity: qty,
+          reference: formData.reference || undefined,
+          notes: formData.notes || undefined,
+        }),
+      });
+
+      const data = await res.json();
+      if (res.ok && data.success) {
+        toast.success("Empties dispatched to supplier");
+        setFormData((prev) => ({
+          ...prev,
+          quantity: "",
+          reference: "",
+          notes: "",
+        }));
+        void loadReturns();
+        void loadEmpties();
+      } else {
+        const detail = data.details?.[0]?.message;
+        toast.error(detail || data.message || "Failed to dispatch empties");
+      }
+    } catch (error) {
+      console.error("Failed to dispatch empties:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateReturn = async (id: string, action: "RECEIVE" | "CANCEL") => {
+    if (
+      action === "CANCEL" &&
+      !confirm("Cancel this return? The empties go back into the godown count.")
+    ) {
+      return;
+    }
+    setUpdating(id);
+    try {
+      const res = await fetch(`/api/admin/inventory/supplier-returns/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (res.ok && data.success) {
+        toast.success(data.message);
+        void loadReturns();
+        void loadEmpties();
+      } else {
+        toast.error(data.message || "Failed to update return");
+      }
+    } catch (error) {
+      console.error("Failed to update supplier return:", error);
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-purple-50 text-black">
+      <AdminNavbar />
+      <main className="max-w-4xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0 space-y-8">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin/inventory"
+              className="inline-flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors duration-200"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Inventory
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Return Empties
+              </h1>
+              <p className="text-gray-600">
+                Send empty cylinders back to the supplier for refilling
+              </p>
+            </div>
+          </div>
+
+          {/* Form */}
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white">
+              <div className="flex items-center gap-3">
+                <Undo2 className="w-5 h-5 text-purple-600" />
+                <h2 className="text-lg font-semibold text-gray-900">
+                  New Supplier Return
+                </h2>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Package className="w-4 h-4 inline mr-2" />
+                    Cylinder Type *
+                  </label>
+                  <CylinderTypeSelect
+                    value={formData.cylinderType}
+                    includeInactive
+                    onChange={(code) =>
+                      setFormData((prev) => ({ ...prev, cylinderType: code }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Warehouse className="w-4 h-4 inline mr-2" />
+                    From Location *
+                  </label>
+                  <StockLocationSelect
+                    value={formData.locationId}
+                    includeInactive
+                    emptyLabel="Select location"
+                    onChange={(id) =>
+                      setFormData((prev) => ({ ...prev, locationId: id }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Truck className="w-4 h-4 inline mr-2" />
+                    Supplier *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.supplier}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        supplier: e.target.value,
+                      }))
+                    }
+                    className={inputClass}
+                    placeholder="e.g. Bharat Gas Bottling Plant"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Package className="w-4 h-4 inline mr-2" />
+                    Quantity *
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="1"
+                    value={formData.quantity}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        quantity: e.target.value,
+                      }))
+                    }
+                    className={inputClass}
+                    placeholder="Number of empties"
+                  />
+                  {emptiesAvailable !== null && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {emptiesAvailable} empties at this location
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <FileText className="w-4 h-4 inline mr-2" />
+                    Challan / Reference
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.reference}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        reference: e.target.value,
+                      }))
+                    }
+                    className={inputClass}
+                    placeholder="Delivery challan number"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <FileText className="w-4 h-4 inline mr-2" />
+                    Notes
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.notes}
+                    onChange={(e) =>
+                      setFormData((prev) => ({ ...prev, notes: e.target.value }))
+                    }
+                    className={inputClass}
+                    placeholder="Vehicle, driver, etc."
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-4 pt-2">
+                <button
+                  type="submit"
+                  disabled={
+                    saving ||
+                    !formData.cylinderType ||
+                    !formData.locationId ||
+                    !formData.supplier ||
+                    !formData.quantity
+                  }
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 font-medium"
+                >
+                  <Undo2 className="w-4 h-4" />
+                  {saving ? "Dispatching..." : "Dispatch Empties"}
+                </button>
+              </div>
+            </form>
+          </div>
+
+          {/* Recent returns */}
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Recent Supplier Returns
+              </h2>
+            </div>
+            <div className="p-6">
+              {returns.length === 0 ? (
+                <p className="text-center text-gray-500 py-4">
+                  No empties returned to suppliers yet
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {returns.map((r) => (
+                    <div
+                      key={r.id}
+                      className="flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-xl"
+                    >
+                      <div>
+                        <div className="flex items-center gap-2 font-medium text-gray-900">
+                          {r.supplier}
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[r.status]}`}
+                          >
+                            {r.status.replace("_", " ")}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {r.cylinderName} from {r.locationName}
+                          {r.reference ? ` · ${r.reference}` : ""}
+                        </p>
+                        {r.status === "IN_TRANSIT" && (
+                          <div className="flex gap-3 mt-2 text-sm">
+                            <button
+                              onClick={() => void updateReturn(r.id, "RECEIVE")}
+                              disabled={updating === r.id}
+                              className="text-green-700 hover:underline disabled:opacity-50"
+                            >
+                              Mark Received
+                            </button>
+                            <button
+                              onClick={() => void updateReturn(r.id, "CANCEL")}
+                              disabled={updating === r.id}
+                              className="text-red-700 hover:underline disabled:opacity-50"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <p className="text-lg font-bold text-purple-700">
+                          {r.quantity}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(r.dispatchedAt).toLocaleString()}
+                        </p>
+                        {r.receivedAt && (
+                          <p className="text-xs text-green-700">
+                            Received {new Date(r.receivedAt).toLocaleDateString()}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
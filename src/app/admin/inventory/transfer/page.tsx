@@ -0,0 +1,341 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import CylinderTypeSelect from "@/components/CylinderTypeSelect";
+import StockLocationSelect, {
+  type StockLocationOption,
+} from "@/components/StockLocationSelect";
+import {
+  ArrowLeft,
+  ArrowLeftRight,
+  ArrowRight,
+  Package,
+  Warehouse,
+  FileText,
+} from "lucide-react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+
+type Transfer = {
+  transferId: string;
+  cylinderName: string;
+  fromLocationName: string;
+  toLocationName: string;
+  quantity: number;
+  reason?: string | null;
+  createdAt: string;
+};
+
+export default function StockTransferPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [saving, setSaving] = useState(false);
+  const [fromLocation, setFromLocation] = useState<StockLocationOption>();
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  // Remounts the location selects so their stock figures refresh
+  const [selectKey, setSelectKey] = useState(0);
+  const [formData, setFormData] = useState({
+    cylinderType: "",
+    fromLocationId: "",
+    toLocationId: "",
+    quantity: "",
+    reason: "",
+    notes: "",
+  });
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadTransfers = useCallback(async () => {
+    try {
+      const res = await fetch("/api/admin/inventory/transfers", {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setTransfers(json.data);
+    } catch (error) {
+      console.error("Failed to load transfers:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadTransfers();
+  }, [session, loadTransfers]);
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  const availableAtSource = fromLocation
+    ? fromLocation.byType.find((t) => t.cylinderType === formData.cylinderType)
+        ?.totalAvailable || 0
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const qty = parseInt(formData.quantity) || 0;
+    if (qty <= 0) {
+      toast.error("Transfer quantity must be greater than 0");
+      return;
+    }
+    if (formData.fromLocationId === formData.toLocationId) {
+      toast.error("Choose two different locations");
+      return;
+    }
+    if (availableAtSource !== null && qty > availableAtSource) {
+      toast.error(
+        `Insufficient stock: only ${availableAtSource} available at ${fromLocation?.name}`,
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/inventory/transfers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          quantity: qty,
+          reason: formData.reason || undefined,
+          notes: formData.notes || undefined,
+        }),
+      });
+
+      const data = await res.json();
+      if (res.ok && data.success) {
+        toast.success("Stock transferred successfully");
+        setFormData((prev) => ({ ...prev, quantity: "", reason: "", notes: "" }));
+        setSelectKey((k) => k + 1);
+        void loadTransfers();
+      } else {
+        const detail = data.details?.[0]?.message;
+        toast.error(detail || data.message || "Failed to transfer stock");
+      }
+    } catch (error) {
+      console.error("Failed to transfer stock:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-purple-50 text-black">
+      <AdminNavbar />
+      <main className="max-w-4xl mx-auto py-8 sm:px-6 lg:px-8">
+        <div className="px-4 sm:px-0 space-y-8">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <Link
+              href="/admin/inventory"
+              className="inline-flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-white rounded-lg transition-colors duration-200"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to Inventory
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Transfer Stock
+              </h1>
+              <p className="text-gray-600">
+                Move cylinders between godowns and distribution points
+              </p>
+            </div>
+          </div>
+
+          {/* Form */}
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white">
+              <div className="flex items-center gap-3">
+                <ArrowLeftRight className="w-5 h-5 text-purple-600" />
+                <h2 className="text-lg font-semibold text-gray-900">
+                  New Transfer
+                </h2>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Package className="w-4 h-4 inline mr-2" />
+                  Cylinder Type *
+                </label>
+                <CylinderTypeSelect
+                  value={formData.cylinderType}
+                  includeInactive
+                  onChange={(code) =>
+                    setFormData((prev) => ({ ...prev, cylinderType: code }))
+                  }
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Warehouse className="w-4 h-4 inline mr-2" />
+                    From *
+                  </label>
+                  <StockLocationSelect
+                    key={`from-${selectKey}`}
+                    value={formData.fromLocationId}
+                    stockForType={formData.cylinderType}
+                    includeInactive
+                    emptyLabel="Select source"
+                    onChange={(id, location) => {
+                      setFormData((prev) => ({ ...prev, fromLocationId: id }));
+                      setFromLocation(location);
+                    }}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Warehouse className="w-4 h-4 inline mr-2" />
+                    To *
+                  </label>
+                  <StockLocationSelect
+                    key={`to-${selectKey}`}
+                    value={formData.toLocationId}
+                    stockForType={formData.cylinderType}
+                    emptyLabel="Select destination"
+                    onChange={(id) =>
+                      setFormData((prev) => ({ ...prev, toLocationId: id }))
+                    }
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Package className="w-4 h-4 inline mr-2" />
+                    Quantity *
+                  </label>
+                  <input
+                    type="number"
+                    required
+                    min="1"
+                    value={formData.quantity}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        quantity: e.target.value,
+                      }))
+                    }
+                    className={inputClass}
+                    placeholder="Number of cylinders"
+                  />
+                  {availableAtSource !== null && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {availableAtSource} available at {fromLocation?.name}
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <FileText className="w-4 h-4 inline mr-2" />
+                    Reason
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.reason}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        reason: e.target.value,
+                      }))
+                    }
+                    className={inputClass}
+                    placeholder="e.g. Rebalancing for festival demand"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <FileText className="w-4 h-4 inline mr-2" />
+                  Notes
+                </label>
+                <textarea
+                  rows={2}
+                  value={formData.notes}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, notes: e.target.value }))
+                  }
+                  className={inputClass}
+                  placeholder="Vehicle, challan number, etc."
+                />
+              </div>
+
+              <div className="flex items-center gap-4 pt-2">
+                <button
+                  type="submit"
+                  disabled={
+                    saving ||
+                    !formData.fromLocationId ||
+                    !formData.toLocationId ||
+                    !formData.quantity
+                  }
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 font-medium"
+                >
+                  <ArrowLeftRight className="w-4 h-4" />
+                  {saving ? "Transferring..." : "Transfer Stock"}
+                </button>
+              </div>
+            </form>
+          </div>
+
+          {/* Recent transfers */}
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-gray-100">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Recent Transfers
+              </h2>
+            </div>
+            <div className="p-6">
+              {transfers.length === 0 ? (
+                <p className="text-center text-gray-500 py-4">
+                  No transfers recorded yet
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {transfers.map((t) => (
+                    <div
+                      key={t.transferId}
+                      className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
+                    >
+                      <div>
+                        <div className="flex items-center gap-2 font-medium text-gray-900">
+                          {t.fromLocationName}
+                          <ArrowRight className="w-4 h-4 text-gray-400" />
+                          {t.toLocationName}
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {t.cylinderName}
+                          {t.reason ? ` · ${t.reason}` : ""}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-lg font-bold text-purple-700">
+                          {t.quantity}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {new Date(t.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import AdminNavbar from "@/components/AdminNavbar";
+import KycDocumentList, {
+  KycStatusBadge,
+  type KycDocument,
+  type KycStatus,
+} from "@/components/KycDocumentList";
+import { Card, CardContent } from "@/components/ui";
+import { CheckCircle, RefreshCw, XCircle } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type KycQueueItem = {
+  id: string;
+  consumerNumber: string;
+  holderName: string;
+  address: string;
+  connectionType: "DOMESTIC" | "COMMERCIAL";
+  status: string;
+  kycIdType: string | null;
+  kycIdNumber: string | null;
+  kycStatus: KycStatus;
+  kycReviewedAt: string | null;
+  kycRejectionReason: string | null;
+  user: { id: string; name: string; email: string; phone: string };
+  kycDocuments: KycDocument[];
+};
+
+export default function AdminKycPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [queue, setQueue] = useState<KycQueueItem[]>([]);
+  const [filter, setFilter] = useState<KycStatus>("SUBMITTED");
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/kyc?status=${filter}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setQueue(json.data);
+    } catch (error) {
+      console.error("Failed to load KYC queue:", error);
+      toast.error("Failed to load KYC queue");
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") void loadQueue();
+  }, [session, loadQueue]);
+
+  const review = async (item: KycQueueItem, approve: boolean) => {
+    let reason: string | undefined;
+    if (approve) {
+      if (!confirm(`Approve KYC for connection ${item.consumerNumber}?`)) {
+        return;
+      }
+    } else {
+      reason = prompt("Reason for rejecting the KYC:")?.trim();
+      if (!reason) return;
+    }
+
+    setReviewing(item.id);
+    try {
+      const res = await fetch(`/api/admin/connections/${item.id}/kyc/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          decision: approve ? "APPROVE" : "REJECT",
+          reason,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok || !json.success) {
+        toast.error(json.message || "Failed to review KYC");
+        return;
+      }
+      toast.success(json.message);
+      await loadQueue();
+    } catch (error) {
+      console.error("Failed to review KYC:", error);
+      toast.error("Failed to review KYC");
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminNavbar />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">KYC Review</h1>
+              <p className="text-sm text-gray-600">
+                Connections can be booked once their ID and address proofs are
+                approved
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <select
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as KycStatus)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+              >
+                <option value="SUBMITTED">Waiting for review</option>
+                <option value="REJECTED">Rejected</option>
+                <option value="NOT_SUBMITTED">Not submitted</option>
+                <option value="APPROVED">Approved</option>
+              </select>
+              <button
+                onClick={() => void loadQueue()}
+                disabled={loading}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw
+                  className={`w-4 h-4 ${loading ? "animate-spin" : ""}`}
+                />
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {loading && queue.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : queue.length === 0 ? (
+            <p className="text-center py-12 text-gray-500">
+              Nothing to review.
+            </p>
+          ) : (
+            queue.map((item) => (
+              <Card key={item.id}>
+                <CardContent className="p-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div className="space-y-1 text-sm">
+                      <Link
+                        href={`/admin/connections/${item.id}`}
+                        className="font-mono font-medium text-blue-600 hover:underline"
+                      >
+                        {item.consumerNumber}
+                      </Link>
+                      <div className="text-gray-900">{item.holderName}</div>
+                      <div className="text-gray-600">{item.address}</div>
+                      <div className="text-gray-500">
+                        {item.user.email} · {item.user.phone}
+                      </div>
+                      {item.kycIdNumber && (
+                        <div className="text-gray-500">
+                          {item.kycIdType || "ID"}: {item.kycIdNumber}
+                        </div>
+                      )}
+                      <KycStatusBadge status={item.kycStatus} />
+                      {item.kycRejectionReason && (
+                        <div className="text-xs text-red-600">
+                          {item.kycRejectionReason}
+                        </div>
+                      )}
+                    </div>
+                    <div className="md:col-span-2 space-y-4">
+                      <KycDocumentList
+                        documents={item.kycDocuments}
+                        hrefBase={`/api/admin/connections/${item.id}/kyc`}
+                      />
+                      {item.kycStatus !== "APPROVED" && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => void review(item, true)}
+                            disabled={reviewing === item.id}
+                            className="inline-flex items-center gap-1 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => void review(item, false)}
+                            disabled={reviewing === item.id}
+                            className="inline-flex items-center gap-1 px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                          >
+                            <XCircle className="w-4 h-4" />
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
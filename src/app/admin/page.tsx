@@ -47,9 +47,20 @@ type ActiveDelivery = {
   estimated: string;
 };
 
+type SlaBreach = {
+  bookingId: string;
+  customer: string;
+  area: string | null;
+  status: string;
+  partner: string | null;
+  dueAt: string;
+  lateHours: number;
+};
+
 type DashboardData = {
   stats: DashboardStats;
   activeDeliveries: ActiveDelivery[];
+  slaBreaches: { total: number; items: SlaBreach[] };
   paymentMethods: { method: string; count: number }[];
   deliveryStats: { status: string; count: number }[];
   inventoryActivity: Array<Record<string, unknown>>;
@@ -184,6 +195,7 @@ export default function AdminDashboard() {
   };
 
   const activeDeliveries = dashboardData?.activeDeliveries || [];
+  const slaBreaches = dashboardData?.slaBreaches || { total: 0, items: [] };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-purple-50">
@@ -524,7 +536,7 @@ export default function AdminDashboard() {
             </div>
 
             {/* Active Deliveries */}
-            <div>
+            <div className="space-y-8">
               <Card className="hover:shadow-lg transition-all duration-300">
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -593,6 +605,68 @@ export default function AdminDashboard() {
                   </div>
                 </CardContent>
               </Card>
+
+              {/* SLA Breaches */}
+              <Card className="hover:shadow-lg transition-all duration-300">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertCircle className="h-5 w-5 text-red-600" />
+                    SLA Breaches
+                    {slaBreaches.total > 0 && (
+                      <span className="ml-auto px-2 py-1 rounded-full bg-red-100 text-red-800 text-xs font-medium">
+                        {slaBreaches.total}
+                      </span>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {slaBreaches.items.length > 0 ? (
+                      slaBreaches.items.map((breach) => (
+                        <Link
+                          key={breach.bookingId}
+                          href={`/admin/bookings/${breach.bookingId}`}
+                          className="flex items-center justify-between p-3 rounded-lg border border-red-100 hover:bg-red-50 transition-colors duration-200"
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-gray-900">
+                              {breach.customer}
+                            </p>
+                            <p className="text-xs text-gray-600">
+                              {breach.area || "Default SLA"} •{" "}
+                              {breach.status.replace(/_/g, " ")}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Partner: {breach.partner || "Unassigned"}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <div className="text-xs text-gray-500">Late by</div>
+                            <div className="text-sm font-medium text-red-600">
+                              {breach.lateHours}h
+                            </div>
+                          </div>
+                        </Link>
+                      ))
+                    ) : (
+                      <div className="text-center py-6 text-gray-500">
+                        <CheckCircle2 className="w-8 h-8 mx-auto mb-2 text-green-500" />
+                        <p className="text-sm">
+                          All open bookings are within SLA
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-4 pt-4 border-t border-gray-100">
+                    <Link
+                      href="/admin/deliveries/sla"
+                      className="text-sm text-purple-600 hover:text-purple-700 font-medium hover:underline"
+                    >
+                      View SLA report →
+                    </Link>
+                  </div>
+                </CardContent>
+              </Card>
             </div>
           </div>
         </div>
@@ -0,0 +1,480 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import CylinderTypeSelect from "@/components/CylinderTypeSelect";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { DEFAULT_CYLINDER_TYPE, DEFAULT_UNIT_PRICE } from "@/lib/pricing";
+import { IndianRupee, Plus, Save, Trash2, Power } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type PriceListItem = {
+  id: string;
+  cylinderType: string;
+  unitPrice: number;
+  deliveryCharge: number;
+  gstRate: number;
+};
+
+type PriceList = {
+  id: string;
+  name: string;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  isActive: boolean;
+  notes: string | null;
+  items: PriceListItem[];
+  _count: { bookings: number };
+};
+
+type ItemForm = {
+  cylinderType: string;
+  unitPrice: string;
+  deliveryCharge: string;
+  gstRate: string;
+};
+
+const emptyItem = (): ItemForm => ({
+  cylinderType: DEFAULT_CYLINDER_TYPE,
+  unitPrice: String(DEFAULT_UNIT_PRICE),
+  deliveryCharge: "0",
+  gstRate: "0",
+});
+
+export default function AdminPricingPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    name: "",
+    effectiveFrom: new Date().toISOString().split("T")[0],
+    effectiveTo: "",
+    notes: "",
+  });
+  const [items, setItems] = useState<ItemForm[]>([emptyItem()]);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadPriceLists = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/pricing", { cache: "no-store" });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        setPriceLists(json.data.priceLists);
+        setCurrentId(json.data.currentPriceListId);
+      }
+    } catch (error) {
+      console.error("Failed to load price lists:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") {
+      void loadPriceLists();
+    }
+  }, [session, loadPriceLists]);
+
+  const updateItem = (index: number, field: keyof ItemForm, value: string) => {
+    setItems((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, [field]: value } : item)),
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/pricing", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          effectiveFrom: form.effectiveFrom,
+          effectiveTo: form.effectiveTo || null,
+          notes: form.notes || undefined,
+          items: items.map((item) => ({
+            cylinderType: item.cylinderType.trim(),
+            unitPrice: parseInt(item.unitPrice, 10) || 0,
+            deliveryCharge: parseInt(item.deliveryCharge, 10) || 0,
+            gstRate: parseFloat(item.gstRate) || 0,
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success("Price list created");
+        setForm((prev) => ({ ...prev, name: "", effectiveTo: "", notes: "" }));
+        setItems([emptyItem()]);
+        void loadPriceLists();
+      } else {
+        toast.error(json.message || "Failed to create price list");
+      }
+    } catch (error) {
+      console.error("Failed to create price list:", error);
+      toast.error("Failed to create price list");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (priceList: PriceList) => {
+    try {
+      const res = await fetch(`/api/admin/pricing/${priceList.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: priceList.name,
+          effectiveFrom: priceList.effectiveFrom,
+          effectiveTo: priceList.effectiveTo,
+          isActive: !priceList.isActive,
+          notes: priceList.notes || undefined,
+          items: priceList.items.map((item) => ({
+            cylinderType: item.cylinderType,
+            unitPrice: item.unitPrice,
+            deliveryCharge: item.deliveryCharge,
+            gstRate: item.gstRate,
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success(
+          priceList.isActive ? "Price list deactivated" : "Price list activated",
+        );
+        void loadPriceLists();
+      } else {
+        toast.error(json.message || "Failed to update price list");
+      }
+    } catch (error) {
+      console.error("Failed to update price list:", error);
+    }
+  };
+
+  const deletePriceList = async (priceList: PriceList) => {
+    if (!confirm(`Delete price list "${priceList.name}"?`)) return;
+    try {
+      const res = await fetch(`/api/admin/pricing/${priceList.id}`, {
+        method: "DELETE",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success("Price list deleted");
+        void loadPriceLists();
+      } else {
+        toast.error(json.message || "Failed to delete price list");
+      }
+    } catch (error) {
+      console.error("Failed to delete price list:", error);
+    }
+  };
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-black">
+      <AdminNavbar />
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Pricing</h1>
+            <p className="text-gray-600 mt-2">
+              Effective-dated price lists used for new bookings. Existing
+              bookings keep the price they were created at.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Price Lists</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="py-8 text-center text-gray-500">Loading...</div>
+              ) : priceLists.length === 0 ? (
+                <div className="py-8 text-center text-gray-500">
+                  No price lists yet. New bookings are charged the default rate
+                  of {formatCurrency(DEFAULT_UNIT_PRICE)} per cylinder.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {priceLists.map((priceList) => (
+                    <div
+                      key={priceList.id}
+                      className="rounded-lg border border-gray-200 bg-white p-4"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold text-gray-900">
+                              {priceList.name}
+                            </h3>
+                            {priceList.id === currentId && (
+                              <span className="inline-flex items-center rounded-full bg-green-100 px-2.5 py-0.5 text-xs font-medium text-green-700">
+                                Current
+                              </span>
+                            )}
+                            {!priceList.isActive && (
+                              <span className="inline-flex items-center rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-600">
+                                Inactive
+                              </span>
+                            )}
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            {formatDate(priceList.effectiveFrom)} –{" "}
+                            {priceList.effectiveTo
+                              ? formatDate(priceList.effectiveTo)
+                              : "open-ended"}{" "}
+                            · {priceList._count.bookings} booking(s)
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => void toggleActive(priceList)}
+                            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                          >
+                            <Power className="w-4 h-4" />
+                            {priceList.isActive ? "Deactivate" : "Activate"}
+                          </button>
+                          {priceList._count.bookings === 0 && (
+                            <button
+                              onClick={() => void deletePriceList(priceList)}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      <table className="mt-3 w-full text-left text-sm">
+                        <thead className="text-gray-500">
+                          <tr>
+                            <th className="py-1">Cylinder Type</th>
+                            <th className="py-1">Unit Price</th>
+                            <th className="py-1">Delivery Charge</th>
+                            <th className="py-1">GST</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {priceList.items.map((item) => (
+                            <tr key={item.id} className="border-t">
+                              <td className="py-1">{item.cylinderType}</td>
+                              <td className="py-1">
+                                {formatCurrency(item.unitPrice)}
+                              </td>
+                              <td className="py-1">
+                                {formatCurrency(item.deliveryCharge)}
+                              </td>
+                              <td className="py-1">{item.gstRate}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="inline-flex items-center gap-2">
+                  <IndianRupee className="w-5 h-5 text-purple-600" />
+                  New Price List
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Name *
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      value={form.name}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, name: e.target.value }))
+                      }
+                      className={inputClass}
+                      placeholder="e.g. FY 2026-27 rates"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Effective From *
+                    </label>
+                    <input
+                      type="date"
+                      required
+                      value={form.effectiveFrom}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          effectiveFrom: e.target.value,
+                        }))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Effective To
+                    </label>
+                    <input
+                      type="date"
+                      value={form.effectiveTo}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          effectiveTo: e.target.value,
+                        }))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  {items.map((item, index) => (
+                    <div
+                      key={index}
+                      className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end"
+                    >
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          Cylinder Type
+                        </label>
+                        <CylinderTypeSelect
+                          value={item.cylinderType}
+                          includeInactive
+                          onChange={(code) =>
+                            updateItem(index, "cylinderType", code)
+                          }
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          Unit Price (₹)
+                        </label>
+                        <input
+                          type="number"
+                          required
+                          min="0"
+                          value={item.unitPrice}
+                          onChange={(e) =>
+                            updateItem(index, "unitPrice", e.target.value)
+                          }
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          Delivery Charge (₹)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={item.deliveryCharge}
+                          onChange={(e) =>
+                            updateItem(index, "deliveryCharge", e.target.value)
+                          }
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">
+                          GST (%)
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="28"
+                          step="0.01"
+                          value={item.gstRate}
+                          onChange={(e) =>
+                            updateItem(index, "gstRate", e.target.value)
+                          }
+                          className={inputClass}
+                        />
+                      </div>
+                      <button
+                        type="button"
+                        disabled={items.length === 1}
+                        onClick={() =>
+                          setItems((prev) => prev.filter((_, i) => i !== index))
+                        }
+                        className="inline-flex items-center justify-center gap-1 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setItems((prev) => [
+                        ...prev,
+                        { ...emptyItem(), cylinderType: "" },
+                      ])
+                    }
+                    className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Cylinder Type
+                  </button>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Notes
+                  </label>
+                  <textarea
+                    value={form.notes}
+                    onChange={(e) =>
+                      setForm((prev) => ({ ...prev, notes: e.target.value }))
+                    }
+                    rows={2}
+                    className={inputClass}
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={saving || !form.name}
+                  className="inline-flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 font-medium"
+                >
+                  <Save className="w-4 h-4" />
+                  {saving ? "Saving..." : "Create Price List"}
+                </button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import AdminNavbar from "@/components/AdminNavbar";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import { formatDateTime } from "@/lib/utils";
+import { Settings, Save, History } from "lucide-react";
+import { toast } from "react-hot-toast";
+
+type SystemSettings = {
+  adminUpiId: string | null;
+  agencyName: string;
+  agencyAddress: string;
+  agencyGstin: string;
+  defaultAnnualQuota: number;
+  quotaYearStartMonth: number;
+  minRefillGapDays: number;
+  deliverySlaDays: number;
+  maxDeliveryAttempts: number;
+  upiPaymentWindowHours: number;
+  paymentGateway: "manual" | "mock" | "razorpay";
+  emailFrom: string;
+};
+
+type SettingChange = {
+  id: string;
+  key: string;
+  oldValue: string | null;
+  newValue: string | null;
+  createdAt: string;
+  changedBy: { id: string; name: string; email: string } | null;
+};
+
+const SETTING_LABELS: Record<keyof SystemSettings, string> = {
+  adminUpiId: "Admin UPI ID",
+  agencyName: "Agency Name",
+  agencyAddress: "Agency Address",
+  agencyGstin: "GSTIN",
+  defaultAnnualQuota: "Default Annual Quota",
+  quotaYearStartMonth: "Quota Year Starts In",
+  minRefillGapDays: "Minimum Days Between Refills",
+  deliverySlaDays: "Delivery SLA (days)",
+  maxDeliveryAttempts: "Delivery Attempts Before Cancelling",
+  upiPaymentWindowHours: "UPI Payment Window (hours)",
+  paymentGateway: "UPI Payment Confirmation",
+  emailFrom: "Email Sender",
+};
+
+const NUMERIC_FIELDS: (keyof SystemSettings)[] = [
+  "defaultAnnualQuota",
+  "quotaYearStartMonth",
+  "minRefillGapDays",
+  "deliverySlaDays",
+  "maxDeliveryAttempts",
+  "upiPaymentWindowHours",
+];
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+type FormState = Record<keyof SystemSettings, string>;
+
+const toFormState = (settings: SystemSettings): FormState => ({
+  adminUpiId: settings.adminUpiId || "",
+  agencyName: settings.agencyName,
+  agencyAddress: settings.agencyAddress,
+  agencyGstin: settings.agencyGstin,
+  defaultAnnualQuota: String(settings.defaultAnnualQuota),
+  quotaYearStartMonth: String(settings.quotaYearStartMonth),
+  minRefillGapDays: String(settings.minRefillGapDays),
+  deliverySlaDays: String(settings.deliverySlaDays),
+  maxDeliveryAttempts: String(settings.maxDeliveryAttempts),
+  upiPaymentWindowHours: String(settings.upiPaymentWindowHours),
+  paymentGateway: settings.paymentGateway,
+  emailFrom: settings.emailFrom,
+});
+
+export default function AdminSettingsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [form, setForm] = useState<FormState | null>(null);
+  const [saved, setSaved] = useState<FormState | null>(null);
+  const [history, setHistory] = useState<SettingChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const applyResponse = (data: {
+    settings: SystemSettings;
+    history: SettingChange[];
+  }) => {
+    const state = toFormState(data.settings);
+    setForm(state);
+    setSaved(state);
+    setHistory(data.history);
+  };
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/settings", { cache: "no-store" });
+      const json = await res.json();
+      if (res.ok && json.success) applyResponse(json.data);
+    } catch (error) {
+      console.error("Failed to load settings:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") {
+      void loadSettings();
+    }
+  }, [session, loadSettings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form || !saved) return;
+
+    // Only send fields that were edited
+    const payload: Record<string, string | number> = {};
+    (Object.keys(form) as (keyof SystemSettings)[]).forEach((key) => {
+      if (form[key] === saved[key]) return;
+      payload[key] = NUMERIC_FIELDS.includes(key)
+        ? parseInt(form[key], 10) || 0
+        : form[key];
+    });
+
+    if (Object.keys(payload).length === 0) {
+      toast("No changes to save");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch("/api/admin/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        applyResponse(json.data);
+        toast.success(json.message || "Settings updated");
+      } else {
+        const detail = json.details?.[0]?.message;
+        toast.error(detail || json.message || "Failed to update settings");
+      }
+    } catch (error) {
+      console.error("Failed to update settings:", error);
+      toast.error("Failed to update settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200";
+
+  const field = (
+    key: keyof SystemSettings,
+    props: React.InputHTMLAttributes<HTMLInputElement> = {},
+  ) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {SETTING_LABELS[key]}
+      </label>
+      <input
+        {...props}
+        value={form?.[key] ?? ""}
+        onChange={(e) =>
+          setForm((prev) => (prev ? { ...prev, [key]: e.target.value } : prev))
+        }
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-black">
+      <AdminNavbar />
+      <main className="max-w-5xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">
+              System Settings
+            </h1>
+            <p className="text-gray-600 mt-2">
+              Agency details, payments and booking defaults. Changes apply
+              immediately and are recorded below.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="inline-flex items-center gap-2">
+                  <Settings className="w-5 h-5 text-purple-600" />
+                  Configuration
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading || !form ? (
+                <div className="py-8 text-center text-gray-500">Loading...</div>
+              ) : (
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {field("agencyName", { required: true })}
+                    {field("agencyGstin", { placeholder: "e.g. 27ABCDE1234F1Z5" })}
+                  </div>
+                  {field("agencyAddress", { required: true })}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {field("adminUpiId", { placeholder: "agency@upi" })}
+                    {field("emailFrom", {
+                      placeholder: "Gas Agency <billing@example.com>",
+                    })}
+                    {field("defaultAnnualQuota", {
+                      type: "number",
+                      min: 1,
+                      max: 100,
+                      required: true,
+                    })}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {SETTING_LABELS.quotaYearStartMonth}
+                      </label>
+                      <select
+                        value={form.quotaYearStartMonth}
+                        onChange={(e) =>
+                          setForm((prev) =>
+                            prev
+                              ? { ...prev, quotaYearStartMonth: e.target.value }
+                              : prev,
+                          )
+                        }
+                        className={inputClass}
+                      >
+                        {MONTHS.map((month, i) => (
+                          <option key={month} value={String(i + 1)}>
+                            {month}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {field("minRefillGapDays", {
+                      type: "number",
+                      min: 0,
+                      max: 90,
+                      required: true,
+                    })}
+                    {field("deliverySlaDays", {
+                      type: "number",
+                      min: 0,
+                      max: 30,
+                      required: true,
+                    })}
+                    {field("maxDeliveryAttempts", {
+                      type: "number",
+                      min: 1,
+                      max: 10,
+                      required: true,
+                    })}
+                    {field("upiPaymentWindowHours", {
+                      type: "number",
+                      min: 1,
+                      max: 168,
+                      required: true,
+                    })}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {SETTING_LABELS.paymentGateway}
+                      </label>
+                      <select
+                        value={form.paymentGateway}
+                        onChange={(e) =>
+                          setForm((prev) =>
+                            prev
+                              ? { ...prev, paymentGateway: e.target.value }
+                              : prev,
+                          )
+                        }
+                        className={inputClass}
+                      >
+                        <option value="manual">
+                          Manual review of UPI reference
+                        </option>
+                        <option value="razorpay">Razorpay gateway</option>
+                        <option value="mock">
+                          Mock gateway (testing only)
+                        </option>
+                      </select>
+                    </div>
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 font-medium"
+                  >
+                    <Save className="w-4 h-4" />
+                    {saving ? "Saving..." : "Save Settings"}
+                  </button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="inline-flex items-center gap-2">
+                  <History className="w-5 h-5 text-purple-600" />
+                  Change History
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {history.length === 0 ? (
+                <div className="py-6 text-center text-gray-500">
+                  No settings have been changed yet.
+                </div>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="py-2">When</th>
+                      <th className="py-2">Who</th>
+                      <th className="py-2">Setting</th>
+                      <th className="py-2">From</th>
+                      <th className="py-2">To</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {history.map((change) => (
+                      <tr key={change.id} className="border-t align-top">
+                        <td className="py-2 whitespace-nowrap">
+                          {formatDateTime(change.createdAt)}
+                        </td>
+                        <td className="py-2">
+                          {change.changedBy?.name || "Deleted user"}
+                        </td>
+                        <td className="py-2">
+                          {SETTING_LABELS[change.key as keyof SystemSettings] ||
+                            change.key}
+                        </td>
+                        <td className="py-2 text-gray-500 break-all">
+                          {change.oldValue || "—"}
+                        </td>
+                        <td className="py-2 break-all">
+                          {change.newValue || "—"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
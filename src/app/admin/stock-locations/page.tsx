@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import AdminNavbar from "@/components/AdminNavbar";
+import type { StockLocationOption } from "@/components/StockLocationSelect";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
+import {
+  Warehouse,
+  Plus,
+  Save,
+  Power,
+  Edit3,
+  X,
+  Star,
+  ArrowLeftRight,
+} from "lucide-react";
+import { toast } from "react-hot-toast";
+
+const emptyForm = {
+  code: "",
+  name: "",
+  address: "",
+  serviceAreas: "",
+  isDefault: false,
+};
+
+const parseAreas = (value: string) =>
+  value
+    .split(/[,\n]/)
+    .map((area) => area.trim())
+    .filter(Boolean);
+
+export default function AdminStockLocationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [locations, setLocations] = useState<StockLocationOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "ADMIN") router.push("/user");
+  }, [session, status, router]);
+
+  const loadLocations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/stock-locations", {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) setLocations(json.data);
+    } catch (error) {
+      console.error("Failed to load stock locations:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.role === "ADMIN") {
+      void loadLocations();
+    }
+  }, [session, loadLocations]);
+
+  const saveLocation = async (
+    id: string | null,
+    body: Record<string, unknown>,
+    successMessage: string,
+  ) => {
+    const res = await fetch(
+      id ? `/api/admin/stock-locations/${id}` : "/api/admin/stock-locations",
+      {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+    const json = await res.json();
+    if (res.ok && json.success) {
+      toast.success(successMessage);
+      void loadLocations();
+      return true;
+    }
+    const detail = json.details?.[0]?.message;
+    toast.error(detail || json.message || "Failed to save stock location");
+    return false;
+  };
+
+  const toPayload = (location: StockLocationOption) => ({
+    name: location.name,
+    address: location.address || undefined,
+    serviceAreas: location.serviceAreas,
+    isDefault: location.isDefault,
+    isActive: location.isActive,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const existing = locations.find((l) => l.id === editingId);
+      const body = {
+        name: form.name,
+        address: form.address || undefined,
+        serviceAreas: parseAreas(form.serviceAreas),
+        isDefault: form.isDefault,
+        isActive: existing ? existing.isActive : true,
+        ...(editingId ? {} : { code: form.code }),
+      };
+      const ok = await saveLocation(
+        editingId,
+        body,
+        editingId ? "Stock location updated" : "Stock location created",
+      );
+      if (ok) {
+        setEditingId(null);
+        setForm(emptyForm);
+      }
+    } catch (error) {
+      console.error("Failed to save stock location:", error);
+      toast.error("Failed to save stock location");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEdit = (location: StockLocationOption) => {
+    setEditingId(location.id);
+    setForm({
+      code: location.code,
+      name: location.name,
+      address: location.address || "",
+      serviceAreas: location.serviceAreas.join(", "),
+      isDefault: location.isDefault,
+    });
+  };
+
+  const toggleActive = (location: StockLocationOption) =>
+    void saveLocation(
+      location.id,
+      { ...toPayload(location), isActive: !location.isActive },
+      location.isActive
+        ? "Stock location deactivated"
+        : "Stock location activated",
+    );
+
+  const makeDefault = (location: StockLocationOption) =>
+    void saveLocation(
+      location.id,
+      { ...toPayload(location), isDefault: true, isActive: true },
+      `${location.name} is now the default location`,
+    );
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "ADMIN") return null;
+
+  const inputClass =
+    "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200";
+
+  return (
+    <div className="min-h-screen bg-gray-50 text-black">
+      <AdminNavbar />
+      <main className="max-w-6xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Stock Locations
+              </h1>
+              <p className="text-gray-600 mt-2">
+                Godowns and distribution points. Bookings are allocated from
+                the location whose service area appears in the customer&apos;s
+                address; anything unmatched goes to the default location.
+              </p>
+            </div>
+            <Link
+              href="/admin/inventory/transfer"
+              className="inline-flex items-center gap-2 px-4 py-2.5 bg-purple-600 text-white rounded-xl font-medium hover:bg-purple-700 transition-all duration-200 shadow-sm whitespace-nowrap"
+            >
+              <ArrowLeftRight className="w-4 h-4" />
+              Transfer Stock
+            </Link>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Locations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <div className="py-8 text-center text-gray-500">Loading...</div>
+              ) : (
+                <table className="w-full text-left text-sm">
+                  <thead className="text-gray-500">
+                    <tr>
+                      <th className="py-2">Code</th>
+                      <th className="py-2">Name</th>
+                      <th className="py-2">Service Areas</th>
+                      <th className="py-2">In Stock</th>
+                      <th className="py-2">Status</th>
+                      <th className="py-2 text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {locations.map((location) => (
+                      <tr key={location.id} className="border-t align-top">
+                        <td className="py-2 font-mono text-xs">
+                          {location.code}
+                        </td>
+                        <td className="py-2">
+                          <div className="font-medium">{location.name}</div>
+                          {location.address && (
+                            <div className="text-xs text-gray-500">
+                              {location.address}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 max-w-xs">
+                          {location.serviceAreas.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {location.serviceAreas.map((area) => (
+                                <span
+                                  key={area}
+                                  className="px-2 py-0.5 text-xs rounded-full bg-purple-50 text-purple-700"
+                                >
+                                  {area}
+                                </span>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="py-2">{location.totalAvailable}</td>
+                        <td className="py-2">
+                          <div className="flex flex-wrap gap-1">
+                            <span
+                              className={`px-2 py-0.5 text-xs rounded-full ${
+                                location.isActive
+                                  ? "bg-green-100 text-green-700"
+                                  : "bg-gray-100 text-gray-600"
+                              }`}
+                            >
+                              {location.isActive ? "Active" : "Inactive"}
+                            </span>
+                            {location.isDefault && (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">
+                                Default
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="py-2">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => startEdit(location)}
+                              className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                              <Edit3 className="w-4 h-4" />
+                              Edit
+                            </button>
+                            {!location.isDefault && (
+                              <>
+                                <button
+                                  onClick={() => makeDefault(location)}
+                                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                                >
+                                  <Star className="w-4 h-4" />
+                                  Make Default
+                                </button>
+                                <button
+                                  onClick={() => toggleActive(location)}
+                                  className="inline-flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                                >
+                                  <Power className="w-4 h-4" />
+                                  {location.isActive ? "Deactivate" : "Activate"}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <span className="inline-flex items-center gap-2">
+                  <Warehouse className="w-5 h-5 text-purple-600" />
+                  {editingId ? "Edit Stock Location" : "New Stock Location"}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Code
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      disabled={Boolean(editingId)}
+                      placeholder="e.g. KOTHRUD"
+                      value={form.code}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, code: e.target.value }))
+                      }
+                      className={`${inputClass} disabled:bg-gray-100`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Name
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      placeholder="e.g. Kothrud Godown"
+                      value={form.name}
+                      onChange={(e) =>
+                        setForm((prev) => ({ ...prev, name: e.target.value }))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Address
+                    </label>
+                    <input
+                      type="text"
+                      value={form.address}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          address: e.target.value,
+                        }))
+                      }
+                      className={inputClass}
+                    />
+                  </div>
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Service Areas
+                    </label>
+                    <textarea
+                      rows={2}
+                      placeholder="Comma separated, e.g. Kothrud, Karve Nagar, 411038"
+                      value={form.serviceAreas}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          serviceAreas: e.target.value,
+                        }))
+                      }
+                      className={inputClass}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Matched case-insensitively against customer addresses.
+                      Area names or PIN codes both work.
+                    </p>
+                  </div>
+                  <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.isDefault}
+                      onChange={(e) =>
+                        setForm((prev) => ({
+                          ...prev,
+                          isDefault: e.target.checked,
+                        }))
+                      }
+                      className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                    />
+                    Default location (serves unmatched areas)
+                  </label>
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="inline-flex items-center gap-2 px-6 py-3 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition-colors duration-200 font-medium"
+                  >
+                    {editingId ? (
+                      <Save className="w-4 h-4" />
+                    ) : (
+                      <Plus className="w-4 h-4" />
+                    )}
+                    {saving
+                      ? "Saving..."
+                      : editingId
+                        ? "Save Changes"
+                        : "Add Location"}
+                  </button>
+                  {editingId && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(null);
+                        setForm(emptyForm);
+                      }}
+                      className="inline-flex items-center gap-2 px-6 py-3 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      <X className="w-4 h-4" />
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -15,6 +15,8 @@ import {
   Save,
   Trash2,
   Send,
+  Flame,
+  ChevronRight,
 } from "lucide-react";
 
 type UserDetail = {
@@ -25,9 +27,19 @@ type UserDetail = {
   phone: string;
   address: string;
   role: "USER" | "ADMIN";
-  remainingQuota: number;
   emailVerified: string | null;
   createdAt: string;
+  connections: ConnectionLite[];
+};
+
+type ConnectionLite = {
+  id: string;
+  consumerNumber: string;
+  holderName: string;
+  connectionType: "DOMESTIC" | "COMMERCIAL";
+  status: "PENDING" | "ACTIVE" | "SUSPENDED" | "CLOSED";
+  remainingQuota: number;
+  quotaPeriod: string | null;
 };
 
 type BookingLite = {
@@ -95,7 +107,6 @@ export default function AdminUserDetailPage() {
       phone: String(formData.get("phone") || ""),
       address: String(formData.get("address") || ""),
       role: String(formData.get("role") || ""),
-      remainingQuota: Number(formData.get("remainingQuota") || 0),
     };
 
     // Validation constraints
@@ -109,11 +120,6 @@ export default function AdminUserDetailPage() {
       return;
     }
 
-    if (payload.remainingQuota > 12) {
-      alert("Remaining Quota must be less than or equal to 12.");
-      return;
-    }
-
     // Confirmation for save
     if (!confirm("Are you sure you want to save these changes?")) {
       return;
@@ -283,20 +289,6 @@ export default function AdminUserDetailPage() {
                             <option value="ADMIN">Admin</option>
                           </select>
                         </div>
-                        <div>
-                          <label className="block text-sm font-medium text-gray-700 mb-2">
-                            Remaining Quota
-                          </label>
-                          <input
-                            name="remainingQuota"
-                            type="number"
-                            min={0}
-                            max={12}
-                            defaultValue={user.remainingQuota}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 disabled:bg-gray-100 disabled:text-gray-500"
-                            disabled={isOtherAdmin}
-                          />
-                        </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">
                             Email Verified
@@ -428,6 +420,44 @@ export default function AdminUserDetailPage() {
                   </CardContent>
                 </Card>
 
+                {/* Connections */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Flame className="w-5 h-5" />
+                      Gas Connections
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {user.connections.length === 0 ? (
+                      <p className="text-center py-4 text-sm text-gray-500">
+                        No connections on this account.
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {user.connections.map((c) => (
+                          <Link
+                            key={c.id}
+                            href={`/admin/connections/${c.id}`}
+                            className="flex items-center justify-between p-3 border border-gray-200 rounded-lg hover:bg-gray-50"
+                          >
+                            <div>
+                              <div className="text-sm font-medium text-gray-900">
+                                {c.consumerNumber} · {c.holderName}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {c.status} · {c.remainingQuota} cylinders left
+                                {c.quotaPeriod && ` in ${c.quotaPeriod}`}
+                              </div>
+                            </div>
+                            <ChevronRight className="w-4 h-4 text-gray-400" />
+                          </Link>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Quick Actions */}
                 <Card>
                   <CardHeader>
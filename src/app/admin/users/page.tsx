@@ -31,9 +31,9 @@ export default function AdminUsersPage() {
   const [search, setSearch] = useState("");
   const [role, setRole] = useState<"ALL" | "USER" | "ADMIN">("ALL");
   const [loading, setLoading] = useState(true);
-  const [sortBy, setSortBy] = useState<
-    "createdAt" | "name" | "email" | "remainingQuota"
-  >("createdAt");
+  const [sortBy, setSortBy] = useState<"createdAt" | "name" | "email">(
+    "createdAt",
+  );
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
 
   useEffect(() => {
@@ -179,7 +179,7 @@ export default function AdminUsersPage() {
                     <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
                     <input
                       className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 w-72"
-                      placeholder="Search name, email, userId, phone"
+                      placeholder="Search name, email, userId, phone, consumer no."
                       value={search}
                       onChange={(e) => setSearch(e.target.value)}
                       onKeyDown={(e) => {
@@ -203,12 +203,11 @@ export default function AdminUsersPage() {
                     <select
                       className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
                       value={sortBy}
-                      onChange={(e) => { setSortBy(e.target.value as 'createdAt' | 'name' | 'email' | 'remainingQuota'); setPage(1); }}
+                      onChange={(e) => { setSortBy(e.target.value as 'createdAt' | 'name' | 'email'); setPage(1); }}
                     >
                       <option value="createdAt">Created Date</option>
                       <option value="name">Name</option>
                       <option value="email">Email</option>
-                      <option value="remainingQuota">Quota</option>
                     </select>
                     <button
                       onClick={() => {
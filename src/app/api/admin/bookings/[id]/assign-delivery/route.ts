@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { sendDeliveryAssignedEmail } from "@/lib/email";
+import { handleAPIError } from "@/lib/error-handler";
+import { checkPartnerCapacity, getDayRange } from "@/lib/dispatch";
 
 export async function POST(
   request: NextRequest,
@@ -19,7 +21,14 @@ export async function POST(
 
     const { id: bookingId } = await params;
     const body = await request.json();
-    const { partnerId, scheduledDate, scheduledTime, notes, priority } = body;
+    const {
+      partnerId,
+      scheduledDate,
+      scheduledTime,
+      notes,
+      priority,
+      allowOverCapacity,
+    } = body;
 
     // Validate required fields
     if (!partnerId || !scheduledDate) {
@@ -93,41 +102,62 @@ export async function POST(
       );
     }
 
-    // Create delivery assignment
-    const deliveryAssignment = await prisma.deliveryAssignment.create({
-      data: {
-        bookingId,
-        partnerId,
-        status: "ASSIGNED",
-        priority: priority || "normal",
-        scheduledDate: new Date(scheduledDate),
-        scheduledTime: scheduledTime,
-        notes: notes || "",
-        assignedAt: new Date(),
-        updatedAt: new Date(),
-      },
-    });
+    const { start: scheduledDay } = getDayRange(scheduledDate);
 
-    // Keep booking status as APPROVED - don't change to OUT_FOR_DELIVERY automatically
-    // Admin will manually change status when delivery partner confirms pickup
-    await prisma.booking.update({
-      where: { id: bookingId },
-      data: {
-        // status: 'OUT_FOR_DELIVERY', // REMOVED - keep as APPROVED
-        deliveryDate: new Date(scheduledDate + "T" + scheduledTime),
-        updatedAt: new Date(),
-      },
-    });
+    // Count the partner's load and assign in one transaction, so two admins
+    // cannot both take the partner's last place
+    const { deliveryAssignment, capacityWarning } = await prisma.$transaction(
+      async (tx) => {
+        // Refuse partners that are fully booked for the day unless overridden
+        const capacityWarning = await checkPartnerCapacity(
+          tx,
+          partner,
+          scheduledDay,
+          { allowOverCapacity: allowOverCapacity === true },
+        );
 
-    // Create booking event for delivery assignment (not status change)
-    await prisma.bookingEvent.create({
-      data: {
-        bookingId,
-        status: "APPROVED", // Keep as APPROVED
-        title: "Delivery Assigned",
-        description: `Delivery assigned to ${partner.name} for ${new Date(scheduledDate).toLocaleDateString()} at ${scheduledTime}. Status remains APPROVED until pickup confirmed.`,
+        // Create delivery assignment
+        const deliveryAssignment = await tx.deliveryAssignment.create({
+          data: {
+            bookingId,
+            partnerId,
+            status: "ASSIGNED",
+            priority: priority || "normal",
+            scheduledDate: scheduledDay,
+            scheduledTime: scheduledTime,
+            notes: notes || "",
+            assignedAt: new Date(),
+            updatedAt: new Date(),
+          },
+        });
+
+        // Keep booking status as APPROVED - don't change to OUT_FOR_DELIVERY automatically
+        // Admin will manually change status when delivery partner confirms pickup
+        await tx.booking.update({
+          where: { id: bookingId },
+          data: {
+            // status: 'OUT_FOR_DELIVERY', // REMOVED - keep as APPROVED
+            // A slot window ("09:00-12:00") counts from its opening time
+            deliveryDate: new Date(
+              scheduledDate + "T" + String(scheduledTime).slice(0, 5),
+            ),
+            updatedAt: new Date(),
+          },
+        });
+
+        // Create booking event for delivery assignment (not status change)
+        await tx.bookingEvent.create({
+          data: {
+            bookingId,
+            status: "APPROVED", // Keep as APPROVED
+            title: "Delivery Assigned",
+            description: `Delivery assigned to ${partner.name} for ${scheduledDay.toLocaleDateString()} at ${scheduledTime}. Status remains APPROVED until pickup confirmed.${capacityWarning ? ` ${capacityWarning}.` : ""}`,
+          },
+        });
+
+        return { deliveryAssignment, capacityWarning };
       },
-    });
+    );
 
     // Send email notification to user
     try {
@@ -136,7 +166,7 @@ export async function POST(
         booking.userName || "Customer",
         bookingId,
         { name: partner.name, phone: partner.phone },
-        new Date(scheduledDate).toLocaleDateString(),
+        scheduledDay.toLocaleDateString(),
         scheduledTime,
       );
     } catch (emailError) {
@@ -152,13 +182,11 @@ export async function POST(
         partnerId: deliveryAssignment.partnerId,
         status: deliveryAssignment.status,
         assignedAt: deliveryAssignment.assignedAt,
+        warning: capacityWarning,
       },
     });
   } catch (error) {
     console.error("Failed to assign delivery partner:", error);
-    return NextResponse.json(
-      { success: false, message: "Failed to assign delivery partner" },
-      { status: 500 },
-    );
+    return handleAPIError(error);
   }
 }
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { issueDeliveryOtp } from "@/lib/delivery-proof";
+
+// POST: resend the delivery OTP to the customer
+async function resendOtpHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Booking ID is required");
+
+  const result = await issueDeliveryOtp(params.id);
+  return successResponse(
+    result,
+    result.sent
+      ? "OTP sent to the customer"
+      : "OTP reset, but the customer email could not be reached",
+  );
+}
+
+export const POST = withMiddleware(resendOtpHandler, { requireAdmin: true });
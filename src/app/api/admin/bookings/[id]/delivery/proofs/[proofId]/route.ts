@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withMiddleware } from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { prisma } from "@/lib/db";
+import { deliveryProofHeaders } from "@/lib/delivery-proof";
+
+// GET: signature or photo captured when the booking was delivered
+async function getProofHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as {
+      params?: Promise<{ id?: string; proofId?: string }>;
+    }
+  )?.params;
+  if (!params?.id || !params.proofId) {
+    throw new NotFoundError("Delivery proof not found");
+  }
+
+  const proof = await prisma.deliveryProof.findFirst({
+    where: { id: params.proofId, assignment: { bookingId: params.id } },
+  });
+  if (!proof) throw new NotFoundError("Delivery proof not found");
+
+  return new NextResponse(Buffer.from(proof.data), {
+    headers: deliveryProofHeaders(proof),
+  });
+}
+
+export const GET = withMiddleware(getProofHandler, { requireAdmin: true });
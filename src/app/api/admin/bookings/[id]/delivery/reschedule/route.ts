@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { deliveryRescheduleSchema } from "@/lib/validation";
+import { rescheduleDelivery } from "@/lib/delivery-reattempt";
+
+// POST: book the next attempt of a failed delivery, optionally with another
+// partner or over the partner's capacity
+async function rescheduleHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Booking ID is required");
+
+  const { date, partnerId, allowOverCapacity } = deliveryRescheduleSchema.parse(
+    await parseRequestBody(request),
+  );
+  const result = await rescheduleDelivery(params.id, date, {
+    partnerId,
+    allowOverCapacity,
+  });
+  return successResponse(result, "Delivery rescheduled");
+}
+
+export const POST = withMiddleware(rescheduleHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -31,6 +31,11 @@ export async function GET(
             email: true,
           },
         },
+        booking: { select: { receivedByName: true } },
+        proofs: {
+          select: { id: true, kind: true, createdAt: true },
+          orderBy: { createdAt: "asc" },
+        },
       },
       orderBy: { assignedAt: "desc" },
     });
@@ -52,6 +57,14 @@ export async function GET(
       status: deliveryAssignment.status,
       assignedAt: deliveryAssignment.assignedAt,
       notes: deliveryAssignment.notes,
+      failureReason: deliveryAssignment.failureReason,
+      otpExpiresAt: deliveryAssignment.otpExpiresAt,
+      otpVerifiedAt: deliveryAssignment.otpVerifiedAt,
+      receivedByName: deliveryAssignment.booking.receivedByName,
+      proofs: deliveryAssignment.proofs.map((proof) => ({
+        ...proof,
+        url: `/api/admin/bookings/${bookingId}/delivery/proofs/${proof.id}`,
+      })),
     };
 
     return NextResponse.json({
@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
-import { sendDeliveryStatusEmail } from "@/lib/email";
-import { restoreStock } from "@/lib/stock";
+import { updateDeliveryStatus } from "@/lib/delivery";
+import {
+  deliveryFailureCodeSchema,
+  deliveryProofSchema,
+} from "@/lib/validation";
+import { handleAPIError } from "@/lib/error-handler";
 
 export async function PUT(
   request: NextRequest,
@@ -20,7 +24,12 @@ export async function PUT(
 
     const { id: bookingId } = await params;
     const body = await request.json();
-    const { newStatus, notes } = body;
+    const { newStatus, notes, reason } = body;
+    const { otp, ...proof } = deliveryProofSchema.parse(body);
+    const failureCode =
+      newStatus === "FAILED"
+        ? deliveryFailureCodeSchema.parse(body.failureCode)
+        : undefined;
 
     if (
       !newStatus ||
@@ -45,7 +54,7 @@ export async function PUT(
     // Check if delivery assignment exists
     const deliveryAssignment = await prisma.deliveryAssignment.findUnique({
       where: { bookingId },
-      include: { booking: true },
+      select: { id: true },
     });
 
     if (!deliveryAssignment) {
@@ -58,99 +67,16 @@ export async function PUT(
       );
     }
 
-    // Update delivery assignment status
-    await prisma.deliveryAssignment.update({
-      where: { bookingId },
-      data: {
-        status: newStatus,
-        updatedAt: new Date(),
-      },
+    // Update assignment, booking, stock and payments; notify the customer
+    await updateDeliveryStatus(bookingId, newStatus, {
+      notes,
+      failureCode,
+      failureReason: newStatus === "FAILED" ? reason : undefined,
+      updatedById: session.user.id,
+      otp,
+      proof,
     });
 
-    // Update booking status based on delivery status
-    let newBookingStatus = deliveryAssignment.booking.status;
-
-    if (newStatus === "PICKED_UP") {
-      // When picked up, keep booking as APPROVED
-      newBookingStatus = "APPROVED";
-    } else if (newStatus === "OUT_FOR_DELIVERY") {
-      // When out for delivery, change booking status to OUT_FOR_DELIVERY
-      newBookingStatus = "OUT_FOR_DELIVERY";
-    } else if (newStatus === "DELIVERED") {
-      // When delivered, change booking status to DELIVERED
-      newBookingStatus = "DELIVERED";
-    } else if (newStatus === "FAILED") {
-      // When failed, change booking status to CANCELLED
-      newBookingStatus = "CANCELLED";
-    }
-
-    // Only update booking status if it's different
-    if (newBookingStatus !== deliveryAssignment.booking.status) {
-      await prisma.$transaction(async (tx) => {
-        await tx.booking.update({
-          where: { id: bookingId },
-          data: {
-            status: newBookingStatus,
-            updatedAt: new Date(),
-          },
-        });
-
-        if (newBookingStatus === "CANCELLED") {
-          // Restore user quota
-          await tx.user.update({
-            where: { id: deliveryAssignment.booking.userId },
-            data: { remainingQuota: { increment: deliveryAssignment.booking.quantity } },
-          });
-
-          // Restore available stock
-          await restoreStock(bookingId, deliveryAssignment.booking.quantity, tx);
-
-          // Mark related payments as CANCELLED (except successful ones)
-          await tx.payment.updateMany({
-            where: { bookingId, status: { not: "SUCCESS" } },
-            data: { status: "CANCELLED" },
-          });
-        }
-      });
-
-      // Create booking event for status change
-      await prisma.bookingEvent.create({
-        data: {
-          bookingId,
-          status: newBookingStatus,
-          title: `Delivery ${newStatus.toLowerCase().replace("_", " ")}`,
-          description: `Delivery status updated to ${newStatus}. Booking status changed to ${newBookingStatus}.`,
-        },
-      });
-    } else {
-      // Create booking event for delivery status update (no booking status change)
-      await prisma.bookingEvent.create({
-        data: {
-          bookingId,
-          status: deliveryAssignment.booking.status,
-          title: `Delivery ${newStatus.toLowerCase().replace("_", " ")}`,
-          description: `Delivery status updated to ${newStatus}.`,
-        },
-      });
-    }
-
-    // Send email notification to customer about delivery status update
-    try {
-      if (deliveryAssignment.booking.userEmail) {
-        await sendDeliveryStatusEmail(
-          deliveryAssignment.booking.userEmail,
-          deliveryAssignment.booking.userName,
-          bookingId,
-          newStatus,
-          notes ||
-            `Your delivery status has been updated to ${newStatus.toLowerCase().replace("_", " ")}.`,
-        );
-      }
-    } catch (emailError) {
-      console.error("Failed to send delivery status email:", emailError);
-      // Don't fail the request if email fails
-    }
-
     return NextResponse.json({
       success: true,
       message: "Delivery status updated successfully",
@@ -161,10 +87,7 @@ export async function PUT(
       },
     });
   } catch (error) {
-    console.error("Failed to update delivery status:", error);
-    return NextResponse.json(
-      { success: false, message: "Failed to update delivery status" },
-      { status: 500 },
-    );
+    // Surfaces OTP and proof problems to the admin as 4xx responses
+    return handleAPIError(error);
   }
 }
@@ -0,0 +1,67 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { emptyReturnSchema } from "@/lib/validation";
+import { recordEmptyReturn } from "@/lib/empty-cylinders";
+
+async function getBookingId(context?: Record<string, unknown>) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Booking ID is required");
+  return params.id;
+}
+
+// GET: empties returned so far against a booking
+async function listEmptiesHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const bookingId = await getBookingId(context);
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      quantity: true,
+      emptyReturns: { orderBy: { createdAt: "desc" } },
+    },
+  });
+  if (!booking) throw new NotFoundError("Booking not found");
+
+  const returned = booking.emptyReturns.reduce((sum, r) => sum + r.quantity, 0);
+  return successResponse({
+    returns: booking.emptyReturns,
+    returned,
+    due: Math.max(booking.quantity - returned, 0),
+  });
+}
+
+// POST: record empties the customer handed back after delivery
+async function recordEmptiesHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const bookingId = await getBookingId(context);
+  const session = context?.session as { user: { id: string } };
+  const { quantity, notes } = emptyReturnSchema.parse(
+    await parseRequestBody(request),
+  );
+
+  const record = await prisma.$transaction((tx) =>
+    recordEmptyReturn(tx, bookingId, quantity, {
+      notes,
+      recordedById: session.user.id,
+    }),
+  );
+  return successResponse(record, "Empty cylinders recorded", 201);
+}
+
+export const GET = withMiddleware(listEmptiesHandler, { requireAdmin: true });
+export const POST = withMiddleware(recordEmptiesHandler, {
+  requireAdmin: true,
+  validateContentType: true,
+});
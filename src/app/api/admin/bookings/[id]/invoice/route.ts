@@ -3,6 +3,10 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import puppeteer from "puppeteer";
+import { getBookingPriceBreakdown } from "@/lib/pricing";
+import { getSystemSettings } from "@/lib/settings";
+import { creditNoteNumber } from "@/lib/refunds";
+import { calculatePaymentBalance } from "@/lib/payment-balance";
 
 export async function GET(
   request: NextRequest,
@@ -36,7 +40,6 @@ export async function GET(
         },
         payments: {
           orderBy: { createdAt: "desc" },
-          take: 1,
         },
         assignment: {
           include: {
@@ -48,6 +51,11 @@ export async function GET(
             },
           },
         },
+        cylinder: { select: { name: true } },
+        refunds: {
+          where: { status: "COMPLETED" },
+          orderBy: { completedAt: "asc" },
+        },
       },
     });
 
@@ -58,10 +66,25 @@ export async function GET(
       );
     }
 
-    // Simple pricing structure - no GST or delivery charges
-    const pricePerCylinder = 1100;
-    const subtotal = pricePerCylinder * booking.quantity;
-    const total = subtotal;
+    const agency = await getSystemSettings();
+
+    // Pricing as captured on the booking when it was created
+    const pricing = getBookingPriceBreakdown(booking);
+    const pricePerCylinder = pricing.unitPrice;
+    const { subtotal, deliveryCharge, gstRate, gstAmount, total } = pricing;
+
+    // Completed refunds are shown as credit notes against this invoice
+    const creditNotes = booking.refunds.map((refund) => ({
+      number: creditNoteNumber(refund.id),
+      date: (refund.completedAt || refund.updatedAt).toLocaleDateString("en-IN"),
+      amount: refund.amount,
+    }));
+    const creditedTotal = creditNotes.reduce((sum, cn) => sum + cn.amount, 0);
+    const balance = calculatePaymentBalance(
+      total,
+      booking.payments,
+      booking.status,
+    );
 
     // Generate simple, professional PDF invoice
     const invoiceHtml = `
@@ -256,8 +279,9 @@ export async function GET(
       <body>
         <div class="invoice-container">
           <div class="header">
-            <div class="company-name">Gas Agency System</div>
-            <div class="company-address">123 Main Street, Business District, City 12345</div>
+            <div class="company-name">${agency.agencyName}</div>
+            <div class="company-address">${agency.agencyAddress}</div>
+            ${agency.agencyGstin ? `<div class="company-contact">GSTIN: ${agency.agencyGstin}</div>` : ""}
             <div class="company-contact">Phone: +91-1234567890 | Email: billing@gasagency.com</div>
           </div>
           
@@ -316,7 +340,7 @@ export async function GET(
             </thead>
             <tbody>
               <tr>
-                <td class="item-description">Gas Cylinder (14.2 kg)</td>
+                <td class="item-description">Gas Cylinder (${booking.cylinder.name})</td>
                 <td class="item-quantity">${booking.quantity}</td>
                 <td class="item-price">₹${pricePerCylinder.toLocaleString("en-IN")}</td>
                 <td class="item-amount">₹${subtotal.toLocaleString("en-IN")}</td>
@@ -325,10 +349,62 @@ export async function GET(
           </table>
           
           <div class="totals-section">
+            <div class="total-row">
+              <span class="total-label">Subtotal:</span>
+              <span class="total-value">₹${subtotal.toLocaleString("en-IN")}</span>
+            </div>
+            ${
+              deliveryCharge > 0
+                ? `
+            <div class="total-row">
+              <span class="total-label">Delivery Charge:</span>
+              <span class="total-value">₹${deliveryCharge.toLocaleString("en-IN")}</span>
+            </div>
+            `
+                : ""
+            }
+            ${
+              gstRate > 0
+                ? `
+            <div class="total-row">
+              <span class="total-label">GST (${gstRate}%):</span>
+              <span class="total-value">₹${gstAmount.toLocaleString("en-IN")}</span>
+            </div>
+            `
+                : ""
+            }
             <div class="total-row">
               <span class="total-label">Total Amount:</span>
               <span class="total-value grand-total">₹${total.toLocaleString("en-IN")}</span>
             </div>
+            ${creditNotes
+              .map(
+                (cn) => `
+            <div class="total-row">
+              <span class="total-label">Less: Credit Note ${cn.number} (${cn.date}):</span>
+              <span class="total-value">-₹${cn.amount.toLocaleString("en-IN")}</span>
+            </div>
+            `,
+              )
+              .join("")}
+            ${
+              creditedTotal > 0
+                ? `
+            <div class="total-row">
+              <span class="total-label">Net Amount:</span>
+              <span class="total-value grand-total">₹${Math.max(0, total - creditedTotal).toLocaleString("en-IN")}</span>
+            </div>
+            `
+                : ""
+            }
+            <div class="total-row">
+              <span class="total-label">Amount Paid:</span>
+              <span class="total-value">₹${balance.paid.toLocaleString("en-IN")}</span>
+            </div>
+            <div class="total-row">
+              <span class="total-label">Balance Due:</span>
+              <span class="total-value">₹${balance.outstanding.toLocaleString("en-IN")}</span>
+            </div>
           </div>
           
           <div class="footer">
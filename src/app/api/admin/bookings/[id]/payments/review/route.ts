@@ -40,7 +40,11 @@ export async function POST(
       where: { id: bookingId },
       include: {
         user: { select: { id: true, name: true, email: true } },
-        payments: { orderBy: { createdAt: "desc" }, take: 1 },
+        payments: {
+          where: { method: "UPI" },
+          orderBy: { createdAt: "desc" },
+          take: 1,
+        },
       },
     });
 
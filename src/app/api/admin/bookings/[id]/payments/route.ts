@@ -3,6 +3,12 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import type { PaymentStatus } from "@prisma/client";
+import { paymentRecordSchema } from "@/lib/validation";
+import { getBookingPriceBreakdown } from "@/lib/pricing";
+import {
+  calculatePaymentBalance,
+  rebalanceOpenPayment,
+} from "@/lib/payment-balance";
 
 // GET - Fetch payments for a specific booking
 export async function GET(
@@ -70,10 +76,15 @@ export async function PUT(
       );
     }
 
-    // Ensure booking exists and is COD
+    // Ensure booking exists and is (at least partly) COD
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
-      select: { id: true, paymentMethod: true, status: true },
+      select: {
+        id: true,
+        paymentMethod: true,
+        status: true,
+        payments: { where: { method: "COD" }, select: { id: true } },
+      },
     });
 
     if (!booking) {
@@ -83,7 +94,7 @@ export async function PUT(
       );
     }
 
-    if (booking.paymentMethod !== "COD") {
+    if (booking.paymentMethod !== "COD" && booking.payments.length === 0) {
       return NextResponse.json(
         {
           success: false,
@@ -93,9 +104,9 @@ export async function PUT(
       );
     }
 
-    // Find the latest payment record for the booking
+    // Find the latest COD payment record for the booking
     const latestPayment = await prisma.payment.findFirst({
-      where: { bookingId },
+      where: { bookingId, method: "COD" },
       orderBy: { createdAt: "desc" },
     });
 
@@ -148,3 +159,131 @@ export async function PUT(
     );
   }
 }
+
+// POST - Record a payment received against a booking (e.g. an advance or
+// part of the balance); the open COD balance shrinks accordingly
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user.role !== "ADMIN") {
+      return NextResponse.json(
+        { success: false, message: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const { id: bookingId } = await params;
+    const validationResult = paymentRecordSchema.safeParse(
+      await request.json(),
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Validation failed",
+          errors: validationResult.error.issues,
+        },
+        { status: 400 },
+      );
+    }
+    const { amount, method, status, upiTxnId, note } = validationResult.data;
+
+    // The balance due on delivery is already an open COD payment
+    if (method === "COD" && status === "PENDING") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Cash payments can only be recorded once collected",
+        },
+        { status: 400 },
+      );
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { payments: { orderBy: { createdAt: "desc" } } },
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { success: false, message: "Booking not found" },
+        { status: 404 },
+      );
+    }
+
+    if (booking.status === "CANCELLED") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Payments cannot be recorded on a cancelled booking",
+        },
+        { status: 400 },
+      );
+    }
+
+    // The open COD payment only holds what is left, so it shrinks to make
+    // room; other pending payments may still come in and are counted
+    const open = booking.payments.find(
+      (p) => p.status === "PENDING" && p.method === "COD",
+    );
+    const total = getBookingPriceBreakdown(booking).total;
+    const balance = calculatePaymentBalance(
+      total,
+      booking.payments.filter((p) => p.id !== open?.id),
+    );
+    const recordable = Math.max(0, balance.outstanding - balance.pending);
+    if (amount > recordable) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Amount exceeds the outstanding balance of ₹${recordable}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const created = await tx.payment.create({
+        data: {
+          bookingId,
+          amount,
+          method,
+          status,
+          // Paid ahead of delivery, or towards what was left after it
+          role: booking.status === "DELIVERED" ? "BALANCE" : "ADVANCE",
+          upiTxnId,
+        },
+      });
+
+      // Whatever is still due stays on the open COD payment
+      await rebalanceOpenPayment(tx, bookingId, total);
+
+      await tx.bookingEvent.create({
+        data: {
+          bookingId,
+          status: booking.status,
+          title: "Payment recorded",
+          description: `₹${amount} via ${method} recorded as ${status}${
+            note ? ` - ${note}` : ""
+          }`,
+        },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(
+      { success: true, message: "Payment recorded", data: payment },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Failed to record payment:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to record payment" },
+      { status: 500 },
+    );
+  }
+}
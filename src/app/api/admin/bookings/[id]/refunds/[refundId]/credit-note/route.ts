@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { withMiddleware } from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { generateCreditNotePdf } from "@/lib/refunds";
+
+// GET: credit note PDF for a completed refund
+async function creditNoteHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as {
+      params?: Promise<{ id?: string; refundId?: string }>;
+    }
+  )?.params;
+
+  const refund = await prisma.refund.findFirst({
+    where: { id: params?.refundId, bookingId: params?.id },
+    select: { id: true },
+  });
+  if (!refund) throw new NotFoundError("Refund not found");
+
+  const { number, pdf } = await generateCreditNotePdf(refund.id);
+
+  const response = new NextResponse(pdf as unknown as BodyInit);
+  response.headers.set("Content-Type", "application/pdf");
+  response.headers.set(
+    "Content-Disposition",
+    `attachment; filename="credit-note-${number}.pdf"`,
+  );
+  response.headers.set("Content-Length", pdf.length.toString());
+  return response;
+}
+
+export const GET = withMiddleware(creditNoteHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+});
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { refundUpdateSchema } from "@/lib/validation";
+import { updateRefundStatus } from "@/lib/refunds";
+
+// PUT: move a refund along (PROCESS, COMPLETE or FAIL)
+async function updateRefundHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as {
+      params?: Promise<{ id?: string; refundId?: string }>;
+    }
+  )?.params;
+  const session = context?.session as { user: { id: string } };
+  const { action, reference, failureReason } = refundUpdateSchema.parse(
+    await parseRequestBody(request),
+  );
+
+  const refund = await prisma.refund.findFirst({
+    where: { id: params?.refundId, bookingId: params?.id },
+    select: { id: true },
+  });
+  if (!refund) throw new NotFoundError("Refund not found");
+
+  const updated = await updateRefundStatus(refund.id, action, {
+    processedById: session.user.id,
+    reference,
+    failureReason,
+  });
+
+  return successResponse(updated, `Refund ${updated.status.toLowerCase()}`);
+}
+
+export const PUT = withMiddleware(updateRefundHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { refundCreateSchema } from "@/lib/validation";
+import {
+  createRefund,
+  getBookingRefunds,
+  notifyRefundStatus,
+} from "@/lib/refunds";
+
+async function resolveBookingId(context?: Record<string, unknown>) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Booking ID is required");
+  return params.id;
+}
+
+// GET: refunds of a booking with the paid/refunded/refundable summary
+async function listRefundsHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const bookingId = await resolveBookingId(context);
+  return successResponse(await getBookingRefunds(bookingId));
+}
+
+// POST: request a (partial) refund against a successful payment
+async function createRefundHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const bookingId = await resolveBookingId(context);
+  const session = context?.session as { user: { id: string } };
+  const payload = refundCreateSchema.parse(await parseRequestBody(request));
+
+  const refund = await prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({
+      where: { id: bookingId },
+      select: { id: true },
+    });
+    if (!booking) throw new NotFoundError("Booking not found");
+
+    return createRefund(tx, {
+      bookingId,
+      ...payload,
+      requestedById: session.user.id,
+    });
+  });
+
+  void notifyRefundStatus(refund.id);
+  return successResponse(refund, "Refund requested", 201);
+}
+
+export const GET = withMiddleware(listRefundsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+});
+
+export const POST = withMiddleware(createRefundHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -3,6 +3,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { sendEmail } from "@/lib/email";
+import { getBookingPriceBreakdown } from "@/lib/pricing";
+import { getSystemSettings } from "@/lib/settings";
 
 // POST - Send various types of emails
 export async function POST(
@@ -34,9 +36,12 @@ export async function POST(
           },
         },
         payments: {
+          // The booking's own payment, not the balance of a split one
+          where: { role: { not: "BALANCE" } },
           orderBy: { createdAt: "desc" },
           take: 1,
         },
+        cylinder: { select: { name: true } },
       },
     });
 
@@ -127,6 +132,10 @@ type EmailBooking = {
   paymentMethod: string;
   expectedDate?: Date | string | null;
   userAddress?: string | null;
+  unitPrice?: number | null;
+  deliveryCharge?: number | null;
+  gstRate?: number | null;
+  cylinder?: { name: string } | null;
   user: { name: string; email: string; phone?: string | null };
   payments: Array<{ amount: number }>;
 };
@@ -253,6 +262,9 @@ async function sendCancellationEmail(booking: EmailBooking, reason?: string) {
 
 async function sendInvoiceEmailWithPDF(booking: EmailBooking) {
   try {
+    const pricing = getBookingPriceBreakdown(booking);
+    const settings = await getSystemSettings();
+
     // Create a simple invoice HTML
     const invoiceHtml = `
       <!DOCTYPE html>
@@ -272,7 +284,9 @@ async function sendInvoiceEmailWithPDF(booking: EmailBooking) {
       </head>
       <body>
         <div class="header">
-          <h1>Gas Agency System</h1>
+          <h1>${settings.agencyName}</h1>
+          <p>${settings.agencyAddress}</p>
+          ${settings.agencyGstin ? `<p>GSTIN: ${settings.agencyGstin}</p>` : ""}
           <h2>Invoice</h2>
         </div>
         
@@ -300,21 +314,23 @@ async function sendInvoiceEmailWithPDF(booking: EmailBooking) {
           </thead>
           <tbody>
             <tr>
-              <td>Gas Cylinder (14.2 kg)</td>
+              <td>Gas Cylinder (${booking.cylinder?.name || "Domestic 14.2 kg"})</td>
               <td>${booking.quantity}</td>
-              <td>₹1,100</td>
-              <td>₹${(booking.quantity * 1100).toLocaleString()}</td>
+              <td>₹${pricing.unitPrice.toLocaleString()}</td>
+              <td>₹${pricing.subtotal.toLocaleString()}</td>
             </tr>
           </tbody>
         </table>
         
         <div class="total">
-          <p>Total Amount: ₹${(booking.quantity * 1100).toLocaleString()}</p>
+          ${pricing.deliveryCharge > 0 ? `<p>Delivery Charge: ₹${pricing.deliveryCharge.toLocaleString()}</p>` : ""}
+          ${pricing.gstRate > 0 ? `<p>GST (${pricing.gstRate}%): ₹${pricing.gstAmount.toLocaleString()}</p>` : ""}
+          <p>Total Amount: ₹${pricing.total.toLocaleString()}</p>
         </div>
         
         <div style="margin-top: 40px; text-align: center; color: #666;">
           <p>Thank you for your business!</p>
-          <p>Gas Agency System</p>
+          <p>${settings.agencyName}</p>
         </div>
       </body>
       </html>
@@ -7,10 +7,18 @@ import {
   sendBookingCancelledByAdminEmail,
 } from "@/lib/email";
 import { restoreStock } from "@/lib/stock";
+import { restoreQuota } from "@/lib/quota";
+import { requestCancellationRefund } from "@/lib/refunds";
+import { cancelDeliveryAssignment } from "@/lib/delivery";
 
 // POST - Perform bulk actions on bookings
-async function bulkActionHandler(request: NextRequest): Promise<NextResponse> {
+async function bulkActionHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+): Promise<NextResponse> {
   try {
+    const adminId = (context?.session as { user?: { id?: string } } | undefined)
+      ?.user?.id;
     const schema = z.object({
       action: z.enum(["approve", "assign-delivery", "cancel"]),
       bookingIds: z.array(z.string().min(1)).min(1),
@@ -241,7 +249,13 @@ async function bulkActionHandler(request: NextRequest): Promise<NextResponse> {
             id: { in: bookingIds },
             status: { notIn: ["DELIVERED", "CANCELLED"] },
           },
-          select: { id: true, notes: true, userId: true, quantity: true },
+          select: {
+            id: true,
+            notes: true,
+            userId: true,
+            connectionId: true,
+            quantity: true,
+          },
         });
         if (eligibleForCancel.length === 0) {
           return NextResponse.json(
@@ -264,11 +278,16 @@ async function bulkActionHandler(request: NextRequest): Promise<NextResponse> {
           });
           // Restore user quotas and stock for cancelled bookings
           for (const b of eligibleForCancel) {
-            await tx.user.update({
-              where: { id: b.userId },
-              data: { remainingQuota: { increment: b.quantity } },
+            await restoreQuota(tx, b.connectionId, b.quantity, {
+              reason: "Booking cancelled",
+              bookingId: b.id,
             });
             await restoreStock(b.id, b.quantity, tx);
+            await cancelDeliveryAssignment(tx, b.id);
+            await requestCancellationRefund(tx, b.id, {
+              reason: additionalData!.reason,
+              requestedById: adminId,
+            });
           }
           // Append reason to notes
           await Promise.all(
@@ -4,6 +4,16 @@ import type { Prisma, BookingStatus, PaymentMethod } from "@prisma/client";
 import { withMiddleware, parseRequestBody } from "@/lib/api-middleware";
 import { z } from "zod";
 import { deductStock } from "@/lib/stock";
+import { quoteBooking, toBookingPriceSnapshot } from "@/lib/pricing";
+import { assertBookableCylinderType } from "@/lib/cylinder-types";
+import { getActiveLocation } from "@/lib/stock-locations";
+import { checkRefillGap, consumeQuota } from "@/lib/quota";
+import {
+  ConflictError,
+  ValidationError,
+  handleAPIError,
+} from "@/lib/error-handler";
+import { resolveBookingConnection } from "@/lib/connections";
 
 // GET - Fetch all bookings with filters
 async function listBookingsHandler(
@@ -18,6 +28,8 @@ async function listBookingsHandler(
     const search = searchParams.get("search");
     const dateFrom = searchParams.get("dateFrom");
     const dateTo = searchParams.get("dateTo");
+    const cylinderType = searchParams.get("cylinderType");
+    const locationId = searchParams.get("locationId");
 
     const skip = (page - 1) * limit;
 
@@ -26,6 +38,8 @@ async function listBookingsHandler(
 
     if (status) where.status = status as BookingStatus;
     if (paymentMethod) where.paymentMethod = paymentMethod as PaymentMethod;
+    if (cylinderType) where.cylinderType = cylinderType;
+    if (locationId) where.locationId = locationId;
     if (search) {
       where.OR = [
         { id: { contains: search, mode: "insensitive" } },
@@ -55,6 +69,8 @@ async function listBookingsHandler(
             },
           },
           payments: {
+            // The booking's own payment, not the balance of a split one
+            where: { role: { not: "BALANCE" } },
             orderBy: { createdAt: "desc" },
             take: 1,
           },
@@ -70,6 +86,8 @@ async function listBookingsHandler(
             },
           },
           reservation: true,
+          cylinder: { select: { name: true } },
+          location: { select: { name: true } },
         },
         orderBy: { createdAt: "desc" },
         skip,
@@ -87,6 +105,8 @@ async function listBookingsHandler(
         payments: true;
         assignment: { include: { partner: { select: { id: true; name: true; phone: true } } } };
         reservation: true;
+        cylinder: { select: { name: true } };
+        location: { select: { name: true } };
       };
     }>;
 
@@ -101,6 +121,10 @@ async function listBookingsHandler(
       userAddress: booking.user.address,
       paymentMethod: booking.paymentMethod,
       quantity: booking.quantity,
+      cylinderType: booking.cylinderType,
+      cylinderName: booking.cylinder.name,
+      locationId: booking.locationId,
+      locationName: booking.location?.name,
       receiverName: booking.receiverName,
       receiverPhone: booking.receiverPhone,
       status: booking.status,
@@ -115,7 +139,7 @@ async function listBookingsHandler(
       paymentAmount: booking.payments[0]?.amount,
       deliveryPartnerId: booking.assignment?.partnerId,
       deliveryPartnerName: booking.assignment?.partner?.name,
-      cylinderReserved: Boolean(booking.reservation),
+      cylinderReserved: booking.reservation?.status === "RESERVED",
       createdAt: booking.createdAt,
       updatedAt: booking.updatedAt,
     }));
@@ -144,29 +168,34 @@ async function listBookingsHandler(
 // POST - Create new booking
 async function createBookingHandler(
   request: NextRequest,
+  context?: Record<string, unknown>,
 ): Promise<NextResponse> {
   try {
+    const session = context?.session as { user: { id: string } } | undefined;
+
     const createSchema = z.object({
       userId: z.string().min(1),
       userName: z.string().min(1),
       userEmail: z.string().email().nullable().optional(),
       userPhone: z.string().nullable().optional(),
       userAddress: z.string().nullable().optional(),
+      // Needed when the customer has more than one active connection
+      connectionId: z.string().optional(),
       quantity: z.number().int().min(1).max(1000),
+      cylinderType: z.string().max(50).optional(),
+      // Fulfilment godown; allocated from the customer's area when omitted
+      locationId: z.string().optional(),
       paymentMethod: z.enum(["COD", "UPI"]),
       receiverName: z.string().optional(),
       receiverPhone: z.string().optional(),
       expectedDate: z.string().optional(),
       notes: z.string().max(1000).optional(),
-      status: z
-        .enum([
-          "PENDING",
-          "APPROVED",
-          "OUT_FOR_DELIVERY",
-          "DELIVERED",
-          "CANCELLED",
-        ])
-        .default("APPROVED"),
+      // Book inside the customer's minimum refill gap; needs a reason
+      overrideRefillGap: z.boolean().optional(),
+      refillGapOverrideReason: z.string().trim().max(500).optional(),
+      // Later statuses go through the status route, which moves stock,
+      // payments and the delivery along with them
+      status: z.enum(["PENDING", "APPROVED"]).default("APPROVED"),
     });
 
     const parsed = createSchema.parse(await parseRequestBody(request));
@@ -176,12 +205,17 @@ async function createBookingHandler(
       userEmail,
       userPhone,
       userAddress,
+      connectionId,
       quantity,
+      cylinderType,
+      locationId,
       paymentMethod,
       receiverName,
       receiverPhone,
       expectedDate,
       notes,
+      overrideRefillGap,
+      refillGapOverrideReason,
       status,
     } = parsed;
 
@@ -193,18 +227,43 @@ async function createBookingHandler(
       );
     }
 
+    if (overrideRefillGap && !refillGapOverrideReason) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "A reason is required to override the refill gap",
+        },
+        { status: 400 },
+      );
+    }
+
     // Create booking and update quota/stock atomically in transaction
     const booking = await prisma.$transaction(async (tx) => {
-      // Check user quota
-      const user = await tx.user.findUnique({
-        where: { id: userId },
-        select: { remainingQuota: true },
-      });
-
-      if (!user || user.remainingQuota < quantity) {
+      // Check the connection's quota
+      const connection = await resolveBookingConnection(
+        tx,
+        userId,
+        connectionId,
+      );
+      if (connection.remainingQuota < quantity) {
         throw new Error("User quota exceeded");
       }
 
+      const overriddenGap = await checkRefillGap(tx, connection.id, {
+        allowOverride: overrideRefillGap,
+      });
+
+      // Price the booking against the current price list
+      const cylinder = await assertBookableCylinderType(tx, cylinderType);
+      const { priceListId, breakdown } = await quoteBooking(
+        tx,
+        quantity,
+        cylinder.code,
+      );
+      const location = locationId
+        ? await getActiveLocation(tx, locationId)
+        : null;
+
       // Create booking
       const created = await tx.booking.create({
         data: {
@@ -212,8 +271,11 @@ async function createBookingHandler(
           userName,
           userEmail,
           userPhone,
-          userAddress,
+          userAddress: userAddress || connection.address,
+          connectionId: connection.id,
           quantity,
+          cylinderType: cylinder.code,
+          locationId: location?.id,
           paymentMethod,
           receiverName,
           receiverPhone,
@@ -221,13 +283,20 @@ async function createBookingHandler(
           notes,
           status,
           requestedAt: new Date(),
+          ...(overriddenGap
+            ? {
+                refillGapOverriddenById: session?.user?.id,
+                refillGapOverrideReason,
+              }
+            : {}),
+          ...toBookingPriceSnapshot(breakdown, priceListId),
         },
       });
 
       // Update user quota
-      await tx.user.update({
-        where: { id: userId },
-        data: { remainingQuota: { decrement: quantity } },
+      await consumeQuota(tx, connection.id, quantity, {
+        reason: "Booking created by admin",
+        bookingId: created.id,
       });
 
       // Deduct available stock
@@ -239,7 +308,13 @@ async function createBookingHandler(
           bookingId: created.id,
           status: status,
           title: `Booking ${status.toLowerCase()}`,
-          description: `Booking created by admin with status: ${status}`,
+          description: [
+            `Booking created by admin with status: ${status}`,
+            overriddenGap &&
+              `Refill gap overridden (next refill was due ${overriddenGap.toLocaleDateString()}): ${refillGapOverrideReason}`,
+          ]
+            .filter(Boolean)
+            .join(". "),
           createdAt: new Date(),
         },
       });
@@ -248,9 +323,10 @@ async function createBookingHandler(
       await tx.payment.create({
         data: {
           bookingId: created.id,
-          amount: quantity * 1100, // ₹1100 per cylinder
+          amount: breakdown.total,
           method: paymentMethod,
           status: "PENDING",
+          role: "FULL",
           createdAt: new Date(),
         },
       });
@@ -271,6 +347,10 @@ async function createBookingHandler(
     });
   } catch (error) {
     console.error("Failed to create booking:", error);
+    // Refill gap conflicts carry details the form uses to offer an override
+    if (error instanceof ConflictError || error instanceof ValidationError) {
+      return handleAPIError(error);
+    }
     const message = error instanceof Error ? error.message : "Failed to create booking";
     return NextResponse.json(
       { success: false, message },
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withMiddleware } from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { kycDocumentHeaders, readKycDocument } from "@/lib/kyc";
+
+// GET: an uploaded ID or address proof, for review
+async function getDocumentHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as {
+      params?: Promise<{ id?: string; documentId?: string }>;
+    }
+  )?.params;
+  if (!params?.id || !params.documentId) {
+    throw new NotFoundError("Document not found");
+  }
+
+  const { document, data } = await readKycDocument(
+    params.id,
+    params.documentId,
+  );
+  return new NextResponse(new Uint8Array(data), {
+    headers: kycDocumentHeaders(document),
+  });
+}
+
+export const GET = withMiddleware(getDocumentHandler, { requireAdmin: true });
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { kycReviewSchema } from "@/lib/validation";
+import { reviewKyc } from "@/lib/kyc";
+
+// POST: approve or reject the connection's KYC
+async function reviewHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Connection ID is required");
+  const session = context?.session as { user: { id: string } };
+
+  const { decision, reason } = kycReviewSchema.parse(
+    await parseRequestBody(request),
+  );
+  const connection = await reviewKyc(params.id, {
+    approve: decision === "APPROVE",
+    reason,
+    reviewedById: session.user.id,
+  });
+
+  return successResponse(
+    connection,
+    decision === "APPROVE" ? "KYC approved" : "KYC rejected",
+  );
+}
+
+export const POST = withMiddleware(reviewHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
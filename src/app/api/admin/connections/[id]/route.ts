@@ -0,0 +1,121 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ConflictError, NotFoundError } from "@/lib/error-handler";
+import { connectionUpdateSchema } from "@/lib/validation";
+import { getQuotaLedger, setQuota } from "@/lib/quota";
+import { currentKycDocuments, kycDocumentSelect } from "@/lib/kyc";
+
+async function resolveId(context?: Record<string, unknown>) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Connection ID is required");
+  return params.id;
+}
+
+async function getConnectionHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const connection = await prisma.connection.findUnique({
+    where: { id },
+    include: {
+      user: { select: { id: true, name: true, email: true, phone: true } },
+      kycReviewedBy: { select: { name: true } },
+      kycDocuments: {
+        select: kycDocumentSelect,
+        orderBy: { createdAt: "desc" },
+      },
+      bookings: {
+        select: {
+          id: true,
+          status: true,
+          quantity: true,
+          createdAt: true,
+          deliveredAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+        take: 10,
+      },
+      transfers: {
+        include: {
+          fromUser: { select: { name: true, email: true } },
+          toUser: { select: { name: true, email: true } },
+          createdBy: { select: { name: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      },
+    },
+  });
+  if (!connection) throw new NotFoundError("Connection not found");
+
+  return successResponse(
+    {
+      ...connection,
+      // Proofs of the current holder; earlier ones stay stored
+      kycDocuments: currentKycDocuments(
+        connection.kycDocuments,
+        connection.transferredAt,
+      ),
+      quotaLedger: await getQuotaLedger(id),
+    },
+    "Connection retrieved",
+  );
+}
+
+async function updateConnectionHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const session = context?.session as { user: { id: string } };
+  const { remainingQuota, quotaReason, ...changes } =
+    connectionUpdateSchema.parse(await parseRequestBody(request));
+
+  const existing = await prisma.connection.findUnique({ where: { id } });
+  if (!existing) throw new NotFoundError("Connection not found");
+
+  // Open bookings still draw on the connection
+  if (changes.status === "CLOSED" && existing.status !== "CLOSED") {
+    const open = await prisma.booking.count({
+      where: {
+        connectionId: id,
+        status: { in: ["PENDING", "APPROVED", "OUT_FOR_DELIVERY"] },
+      },
+    });
+    if (open > 0) {
+      throw new ConflictError(
+        `Connection has ${open} open booking(s); deliver or cancel them before closing it`,
+      );
+    }
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (remainingQuota !== undefined) {
+      await setQuota(tx, id, remainingQuota, {
+        reason: quotaReason as string,
+        createdById: session.user.id,
+      });
+    }
+    return tx.connection.update({ where: { id }, data: changes });
+  });
+
+  return successResponse(updated, "Connection updated");
+}
+
+export const GET = withMiddleware(getConnectionHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const PUT = withMiddleware(updateConnectionHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { connectionTransferSchema } from "@/lib/validation";
+import { transferConnection } from "@/lib/connections";
+
+// POST: hand the connection to another customer login
+async function transferHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Connection ID is required");
+  const session = context?.session as { user: { id: string } };
+
+  const payload = connectionTransferSchema.parse(
+    await parseRequestBody(request),
+  );
+  const connection = await transferConnection(params.id, {
+    ...payload,
+    createdById: session.user.id,
+  });
+
+  return successResponse(
+    connection,
+    `Connection transferred to ${connection.holderName}`,
+  );
+}
+
+export const POST = withMiddleware(transferHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
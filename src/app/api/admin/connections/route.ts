@@ -0,0 +1,97 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ValidationError } from "@/lib/error-handler";
+import { connectionSchema, paginationSchema } from "@/lib/validation";
+import { createConnection } from "@/lib/connections";
+import type { Prisma } from "@prisma/client";
+
+const listQuerySchema = z.object({
+  page: paginationSchema.shape.page,
+  limit: paginationSchema.shape.limit,
+  status: z.enum(["PENDING", "ACTIVE", "SUSPENDED", "CLOSED"]).optional(),
+  userId: z.string().optional(),
+  search: z.string().trim().max(100).optional(),
+});
+
+async function listConnectionsHandler(request: NextRequest) {
+  const url = new URL(request.url);
+  const { page, limit, status, userId, search } = listQuerySchema.parse(
+    Object.fromEntries(url.searchParams.entries()),
+  );
+
+  const where: Prisma.ConnectionWhereInput = {};
+  if (status) where.status = status;
+  if (userId) where.userId = userId;
+  if (search) {
+    where.OR = [
+      { consumerNumber: { contains: search } },
+      { holderName: { contains: search, mode: "insensitive" } },
+      { address: { contains: search, mode: "insensitive" } },
+      { user: { email: { contains: search, mode: "insensitive" } } },
+    ];
+  }
+
+  const [total, connections] = await Promise.all([
+    prisma.connection.count({ where }),
+    prisma.connection.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+      },
+    }),
+  ]);
+
+  return successResponse(
+    {
+      data: connections,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    },
+    "Connections retrieved",
+  );
+}
+
+// Connections opened by staff are active straight away
+async function createConnectionHandler(request: NextRequest) {
+  const body = await parseRequestBody<Record<string, unknown>>(request);
+  const payload = connectionSchema.parse(body);
+
+  const user = await prisma.user.findUnique({
+    where: { id: String(body.userId || "") },
+    select: { id: true, role: true },
+  });
+  if (!user || user.role !== "USER") {
+    throw new ValidationError("Choose a customer account for the connection", {
+      field: "userId",
+    });
+  }
+
+  const connection = await prisma.$transaction((tx) =>
+    createConnection(tx, { ...payload, userId: user.id, status: "ACTIVE" }),
+  );
+  return successResponse(connection, "Connection created", 201);
+}
+
+export const GET = withMiddleware(listConnectionsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createConnectionHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { cylinderTypeUpdateSchema } from "@/lib/validation";
+
+async function resolveId(context?: Record<string, unknown>) {
+  const raw = (context as unknown as { params?: { id?: string } | Promise<{ id?: string }> })?.params;
+  const awaited =
+    raw && typeof (raw as Promise<{ id?: string }>).then === "function"
+      ? await (raw as Promise<{ id?: string }>)
+      : (raw as { id?: string } | undefined);
+  const id = awaited?.id as string | undefined;
+  if (!id) throw new NotFoundError("Cylinder type ID is required");
+  return id;
+}
+
+// Types are never deleted because bookings, batches and prices reference
+// them; deactivate a type to stop new bookings instead.
+async function updateCylinderTypeHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const payload = cylinderTypeUpdateSchema.parse(
+    await parseRequestBody(request),
+  );
+
+  const exists = await prisma.cylinderType.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!exists) throw new NotFoundError("Cylinder type not found");
+
+  const updated = await prisma.cylinderType.update({
+    where: { id },
+    data: payload,
+  });
+
+  return successResponse(updated, "Cylinder type updated");
+}
+
+export const PUT = withMiddleware(updateCylinderTypeHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { cylinderTypeSchema } from "@/lib/validation";
+import { getCylinderTypes } from "@/lib/cylinder-types";
+import { getStockForType } from "@/lib/stock";
+
+async function listCylinderTypesHandler() {
+  const [types, stocks] = await Promise.all([
+    getCylinderTypes(prisma),
+    prisma.cylinderStock.findMany({
+      select: { cylinderType: true, totalAvailable: true },
+    }),
+  ]);
+
+  const withStock = types.map((type) => ({
+    ...type,
+    // Summed across all stock locations
+    totalAvailable: stocks
+      .filter((s) => s.cylinderType === type.code)
+      .reduce((sum, s) => sum + s.totalAvailable, 0),
+  }));
+
+  return successResponse(withStock, "Cylinder types retrieved");
+}
+
+async function createCylinderTypeHandler(request: NextRequest) {
+  const payload = cylinderTypeSchema.parse(await parseRequestBody(request));
+
+  const created = await prisma.$transaction(async (tx) => {
+    const type = await tx.cylinderType.create({ data: payload });
+    await getStockForType(tx, type.code);
+    return type;
+  });
+
+  return successResponse(created, "Cylinder type created", 201);
+}
+
+export const GET = withMiddleware(listCylinderTypesHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createCylinderTypeHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
+import { handleAPIError } from "@/lib/error-handler";
+import { getSlaBreaches } from "@/lib/sla";
 
 export async function GET(_request: NextRequest) {
   try {
@@ -31,7 +33,7 @@ export async function GET(_request: NextRequest) {
       newContacts,
       monthlyRevenue,
       lastMonthRevenue,
-      monthlyBookingQuantity,
+      monthlyBookingTotals,
       recentBookings,
       recentUsers,
       recentDeliveries,
@@ -39,6 +41,7 @@ export async function GET(_request: NextRequest) {
       deliveryStats,
       paymentStats,
       inventoryStats,
+      slaBreaches,
     ] = await Promise.all([
       // User stats
       prisma.user.count(),
@@ -46,10 +49,9 @@ export async function GET(_request: NextRequest) {
       // Booking stats
       prisma.booking.count(),
 
-      // Inventory stats
-      prisma.cylinderStock.findUnique({
-        where: { id: "default" },
-        select: { totalAvailable: true },
+      // Inventory stats (all cylinder types)
+      prisma.cylinderStock.aggregate({
+        _sum: { totalAvailable: true },
       }),
 
       // Pending bookings
@@ -106,7 +108,7 @@ export async function GET(_request: NextRequest) {
             gte: thisMonth,
           },
         },
-        _sum: { quantity: true },
+        _sum: { totalAmount: true },
       }),
 
       // Recent bookings (last 10)
@@ -188,6 +190,9 @@ export async function GET(_request: NextRequest) {
           },
         },
       }),
+
+      // Open bookings past their delivery SLA
+      getSlaBreaches(),
     ]);
 
     // Calculate revenue change percentage
@@ -198,9 +203,8 @@ export async function GET(_request: NextRequest) {
         ? ((currentRevenue - previousRevenue) / previousRevenue) * 100
         : 0;
 
-    // Calculate booking value (assuming ₹1,100 per cylinder)
-    const bookingQuantity = monthlyBookingQuantity._sum.quantity || 0;
-    const monthlyBookingValue = bookingQuantity * 1100;
+    // Calculate booking value from the prices captured on each booking
+    const monthlyBookingValue = monthlyBookingTotals._sum.totalAmount || 0;
 
     // Calculate delivery performance
     const totalDeliveries = deliveryStats.reduce(
@@ -283,7 +287,7 @@ export async function GET(_request: NextRequest) {
       stats: {
         totalUsers,
         totalBookings,
-        totalCylinders: totalCylinders?.totalAvailable || 0,
+        totalCylinders: totalCylinders._sum.totalAvailable || 0,
         pendingBookings,
         activeDeliveries,
         newContacts,
@@ -312,6 +316,18 @@ export async function GET(_request: NextRequest) {
         booking: adjustment.booking?.userName,
         supplier: adjustment.batch?.supplier,
       })),
+      slaBreaches: {
+        total: slaBreaches.length,
+        items: slaBreaches.slice(0, 5).map((breach) => ({
+          bookingId: breach.bookingId,
+          customer: breach.customerName,
+          area: breach.area,
+          status: breach.status,
+          partner: breach.partner?.name || null,
+          dueAt: breach.dueAt,
+          lateHours: breach.lateHours,
+        })),
+      },
     };
 
     return NextResponse.json({
@@ -319,10 +335,6 @@ export async function GET(_request: NextRequest) {
       data: dashboardData,
     });
   } catch (error) {
-    console.error("Failed to fetch dashboard data:", error);
-    return NextResponse.json(
-      { success: false, message: "Failed to load dashboard data" },
-      { status: 500 },
-    );
+    return handleAPIError(error);
   }
 }
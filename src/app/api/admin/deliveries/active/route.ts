@@ -5,12 +5,14 @@ import { withMiddleware, successResponse } from "@/lib/api-middleware";
 async function getActiveDeliveriesHandler(_request: NextRequest) {
   void _request;
   try {
-    // Get all active deliveries (not delivered or failed)
+    // Get all active deliveries, including failed ones waiting for another
+    // attempt
     const activeDeliveries = await prisma.deliveryAssignment.findMany({
       where: {
-        status: {
-          notIn: ["DELIVERED", "FAILED"],
-        },
+        OR: [
+          { status: { notIn: ["DELIVERED", "FAILED"] } },
+          { status: "FAILED", booking: { status: "APPROVED" } },
+        ],
       },
       include: {
         booking: {
@@ -55,6 +57,9 @@ async function getActiveDeliveriesHandler(_request: NextRequest) {
         delivery.assignedAt,
       notes: delivery.notes,
       priority: delivery.priority || "MEDIUM",
+      attempts: delivery.attempts,
+      failureReason: delivery.failureReason,
+      proposedDate: delivery.proposedDate,
     }));
 
     return successResponse(transformedDeliveries);
@@ -1,7 +1,6 @@
 import { NextRequest } from "next/server";
-import { prisma } from "@/lib/db";
 import { withMiddleware, successResponse } from "@/lib/api-middleware";
-import type { Prisma } from "@prisma/client";
+import { getDeliveryMetrics } from "@/lib/delivery-analytics";
 
 async function getDeliveryAnalyticsHandler(request: NextRequest) {
   try {
@@ -10,188 +9,13 @@ async function getDeliveryAnalyticsHandler(request: NextRequest) {
     const partnerId = url.searchParams.get("partnerId");
     const area = url.searchParams.get("area");
 
-    // Calculate date range based on period
     const now = new Date();
-    let startDate = new Date();
-
-    switch (period) {
-      case "7d":
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case "30d":
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case "90d":
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        break;
-      case "1y":
-        startDate = new Date(
-          now.getFullYear() - 1,
-          now.getMonth(),
-          now.getDate(),
-        );
-        break;
-      default:
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    }
-
-    // Build where clause
-    const whereClause: Prisma.DeliveryAssignmentWhereInput = {
-      assignedAt: {
-        gte: startDate,
-      },
-    };
-
-    if (partnerId) {
-      whereClause.partnerId = partnerId;
-    }
-
-    if (area) {
-      whereClause.partner = {
-        serviceArea: area,
-      };
-    }
-
-    // Get overview statistics
-    const totalDeliveries = await prisma.deliveryAssignment.count({ where: whereClause });
-    const completedDeliveries = await prisma.deliveryAssignment.count({ 
-      where: { ...whereClause, status: 'DELIVERED' } 
-    });
-    const failedDeliveries = await prisma.deliveryAssignment.count({ 
-      where: { ...whereClause, status: 'FAILED' } 
-    });
-
-    // Calculate success rate
-    const successRate =
-      totalDeliveries > 0
-        ? Math.round((completedDeliveries / totalDeliveries) * 100)
-        : 0;
-
-    // Get partner performance
-    const partnerPerformance = await prisma.deliveryAssignment.groupBy({
-      by: ['partnerId'],
-      where: whereClause,
-      _count: {
-        id: true
-      }
-    });
-
-    // Get partner details and calculate performance metrics
-    const partnerStats =
-      partnerPerformance && partnerPerformance.length > 0
-        ? await Promise.all(
-            partnerPerformance.map(async (group) => {
-              const partner = await prisma.deliveryPartner.findUnique({
-                where: { id: group.partnerId },
-                select: { name: true }
-              });
-
-              const partnerDeliveries = await prisma.deliveryAssignment.findMany({
-                where: { partnerId: group.partnerId, ...whereClause }
-              });
-
-              const completed = partnerDeliveries.filter((d) => d.status === 'DELIVERED').length;
-              const successRate = partnerDeliveries.length > 0 ? Math.round((completed / partnerDeliveries.length) * 100) : 0;
-
-              // Calculate average delivery time
-              let avgDeliveryTime = 0;
-              const completedDeliveries = partnerDeliveries.filter((d) => d.status === 'DELIVERED');
-              if (completedDeliveries.length > 0) {
-                const totalTime = completedDeliveries.reduce((sum: number, delivery) => {
-                  const assignedTime = new Date(delivery.assignedAt).getTime();
-                  const completedTime = new Date(delivery.updatedAt).getTime();
-                  return sum + (completedTime - assignedTime);
-                }, 0);
-                avgDeliveryTime = Math.round(totalTime / completedDeliveries.length / (1000 * 60 * 60));
-              }
-
-              return {
-                partnerId: group.partnerId,
-                partnerName: partner?.name || "Unknown",
-                totalDeliveries: group._count.id,
-                completedDeliveries: completed,
-                averageDeliveryTime: avgDeliveryTime,
-                successRate,
-                rating: 4.5, // Default rating, can be enhanced later
-              };
-            }),
-          )
-        : [];
-
-    // Get area statistics
-    const areaStats = await prisma.deliveryPartner.groupBy({
-      by: ['serviceArea'],
-      where: {
-        serviceArea: { not: null },
-        isActive: true
-      },
-      _count: {
-        id: true
-      }
-    });
-
-    const areaPerformance =
-      areaStats && areaStats.length > 0
-        ? await Promise.all(
-            areaStats.map(async (area) => {
-              const areaDeliveries = await prisma.deliveryAssignment.findMany({
-                where: {
-                  ...whereClause,
-                  partner: {
-                    serviceArea: area.serviceArea
-                  }
-                }
-              });
-
-              const completed = areaDeliveries.filter((d) => d.status === 'DELIVERED').length;
-              const successRate = areaDeliveries.length > 0 ? Math.round((completed / areaDeliveries.length) * 100) : 0;
-
-              // Calculate average delivery time for area
-              let avgDeliveryTime = 0;
-              const completedDeliveries = areaDeliveries.filter((d) => d.status === 'DELIVERED');
-              if (completedDeliveries.length > 0) {
-                const totalTime = completedDeliveries.reduce((sum: number, delivery) => {
-                  const assignedTime = new Date(delivery.assignedAt).getTime();
-                  const completedTime = new Date(delivery.updatedAt).getTime();
-                  return sum + (completedTime - assignedTime);
-                }, 0);
-                avgDeliveryTime = Math.round(totalTime / completedDeliveries.length / (1000 * 60 * 60));
-              }
-
-              return {
-                area: area.serviceArea,
-                totalDeliveries: areaDeliveries.length,
-                averageDeliveryTime: avgDeliveryTime,
-                successRate,
-                activePartners: area._count.id,
-              };
-            }),
-          )
-        : [];
-
-    // Calculate average delivery time
-    const allDeliveries = await prisma.deliveryAssignment.findMany({
-      where: { ...whereClause, status: 'DELIVERED' },
-      select: { assignedAt: true, updatedAt: true }
-    });
-
-    let averageDeliveryTime = 0;
-    if (allDeliveries.length > 0) {
-      const totalTime = allDeliveries.reduce((sum: number, delivery) => {
-        const assignedTime = new Date(delivery.assignedAt).getTime();
-        const completedTime = new Date(delivery.updatedAt).getTime();
-        return sum + (completedTime - assignedTime);
-      }, 0);
-      averageDeliveryTime = Math.round(
-        totalTime / allDeliveries.length / (1000 * 60 * 60),
-      );
-    }
-
-    // Get total and active partners
-    const totalPartners = await prisma.deliveryPartner.count();
-    const activePartners = await prisma.deliveryPartner.count({
-      where: { isActive: true },
-    });
+    const { overview, partnerPerformance, areaStats: areaPerformance } =
+      await getDeliveryMetrics({ period, partnerId, area });
+    const partnerStats = partnerPerformance.map((partner) => ({
+      ...partner,
+      rating: 4.5, // Default rating, can be enhanced later
+    }));
 
     // Mock time series data (can be enhanced with real data)
     const timeSeries = [];
@@ -229,15 +53,7 @@ async function getDeliveryAnalyticsHandler(request: NextRequest) {
     };
 
     const analytics = {
-      overview: {
-        totalDeliveries,
-        completedDeliveries,
-        failedDeliveries,
-        averageDeliveryTime,
-        successRate,
-        totalPartners,
-        activePartners,
-      },
+      overview,
       timeSeries,
       partnerPerformance: partnerStats,
       areaStats: areaPerformance,
@@ -3,9 +3,22 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/db";
 import { sendDeliveryStatusEmail, sendInvoiceEmail } from "@/lib/email";
-import puppeteer from "puppeteer";
 import { DeliveryAssignmentStatus } from "@prisma/client";
-import { restoreStock } from "@/lib/stock";
+import { consumeReservation } from "@/lib/stock";
+import { settleCashOnDelivery } from "@/lib/payment-balance";
+import { generateInvoicePDF } from "@/lib/invoice";
+import {
+  issueDeliveryOtp,
+  recordDeliveryProof,
+  verifyDeliveryOtp,
+} from "@/lib/delivery-proof";
+import {
+  deliveryFailureCodeSchema,
+  deliveryProofSchema,
+} from "@/lib/validation";
+import { updateDeliveryStatus } from "@/lib/delivery";
+import { handleAPIError, ValidationError } from "@/lib/error-handler";
+import { checkPartnerCapacity, getDayRange } from "@/lib/dispatch";
 
 // POST - Assign a delivery partner to a booking
 export async function POST(request: NextRequest) {
@@ -19,7 +32,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { bookingId, partnerId } = body;
+    const { bookingId, partnerId, scheduledDate, allowOverCapacity } = body;
 
     if (!bookingId || !partnerId) {
       return NextResponse.json(
@@ -92,36 +105,62 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create delivery assignment
-    const deliveryAssignment = await prisma.deliveryAssignment.create({
-      data: {
-        bookingId,
-        partnerId,
-        status: "ASSIGNED",
-        assignedAt: new Date(),
-        updatedAt: new Date(),
-      },
-    });
+    // Without a scheduled date a booking with a delivery slot goes out on
+    // its slot date; otherwise it counts against today's capacity
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const scheduledDay = scheduledDate
+      ? getDayRange(scheduledDate).start
+      : booking.deliveryWindow && booking.expectedDate
+        ? booking.expectedDate
+        : undefined;
+    // Count the partner's load and assign in one transaction, so two admins
+    // cannot both take the partner's last place
+    const { deliveryAssignment, capacityWarning } = await prisma.$transaction(
+      async (tx) => {
+        const capacityWarning = await checkPartnerCapacity(
+          tx,
+          partner,
+          scheduledDay || today,
+          { allowOverCapacity: allowOverCapacity === true },
+        );
 
-    // Keep booking status as APPROVED - don't change to OUT_FOR_DELIVERY automatically
-    // Admin will manually change status when delivery partner confirms pickup
-    await prisma.booking.update({
-      where: { id: bookingId },
-      data: {
-        // status: 'OUT_FOR_DELIVERY', // REMOVED - keep as APPROVED
-        updatedAt: new Date(),
-      },
-    });
+        // Create delivery assignment
+        const deliveryAssignment = await tx.deliveryAssignment.create({
+          data: {
+            bookingId,
+            partnerId,
+            status: "ASSIGNED",
+            scheduledDate: scheduledDay,
+            scheduledTime: booking.deliveryWindow,
+            assignedAt: new Date(),
+            updatedAt: new Date(),
+          },
+        });
 
-    // Create booking event for delivery assignment (not status change)
-    await prisma.bookingEvent.create({
-      data: {
-        bookingId,
-        status: "APPROVED", // Keep as APPROVED
-        title: "Delivery Assigned",
-        description: `Delivery assigned to ${partner.name}. Status remains APPROVED until pickup confirmed.`,
+        // Keep booking status as APPROVED - don't change to OUT_FOR_DELIVERY automatically
+        // Admin will manually change status when delivery partner confirms pickup
+        await tx.booking.update({
+          where: { id: bookingId },
+          data: {
+            // status: 'OUT_FOR_DELIVERY', // REMOVED - keep as APPROVED
+            updatedAt: new Date(),
+          },
+        });
+
+        // Create booking event for delivery assignment (not status change)
+        await tx.bookingEvent.create({
+          data: {
+            bookingId,
+            status: "APPROVED", // Keep as APPROVED
+            title: "Delivery Assigned",
+            description: `Delivery assigned to ${partner.name}. Status remains APPROVED until pickup confirmed.${capacityWarning ? ` ${capacityWarning}.` : ""}`,
+          },
+        });
+
+        return { deliveryAssignment, capacityWarning };
       },
-    });
+    );
 
     return NextResponse.json({
       success: true,
@@ -131,14 +170,12 @@ export async function POST(request: NextRequest) {
         partnerId: deliveryAssignment.partnerId,
         status: deliveryAssignment.status,
         assignedAt: deliveryAssignment.assignedAt,
+        warning: capacityWarning,
       },
     });
   } catch (error) {
     console.error("Failed to assign delivery partner:", error);
-    return NextResponse.json(
-      { success: false, message: "Failed to assign delivery partner" },
-      { status: 500 },
-    );
+    return handleAPIError(error);
   }
 }
 
@@ -154,12 +191,14 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { bookingId, status, notes, testEmail } = body as {
+    const { bookingId, status, notes, reason, testEmail } = body as {
       bookingId: string;
       status: string;
       notes?: string;
+      reason?: string;
       testEmail?: string;
     };
+    const { otp, ...proof } = deliveryProofSchema.parse(body);
 
     if (!bookingId || !status) {
       return NextResponse.json(
@@ -187,6 +226,37 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    // Failures are reattempted or cancel the booking, as for partners
+    if (status === "FAILED") {
+      const assignment = await updateDeliveryStatus(bookingId, "FAILED", {
+        failureCode: deliveryFailureCodeSchema.parse(body.failureCode),
+        failureReason: reason?.trim() || undefined,
+        updatedById: session.user.id,
+      });
+      return NextResponse.json({
+        success: true,
+        message: "Delivery marked as failed",
+        data: assignment,
+      });
+    }
+
+    // Closing a delivery needs the OTP the customer was sent
+    if (status === "DELIVERED") {
+      if (!otp) {
+        throw new ValidationError(
+          "The customer's delivery OTP is required to mark this delivered",
+          { field: "otp" },
+        );
+      }
+      if (!proof.receivedByName) {
+        throw new ValidationError(
+          "Enter the name of the person who received the cylinder",
+          { field: "receivedByName" },
+        );
+      }
+      await verifyDeliveryOtp(bookingId, otp);
+    }
+
     // Update delivery assignment status
     await prisma.deliveryAssignment.update({
       where: { bookingId },
@@ -194,6 +264,9 @@ export async function PUT(request: NextRequest) {
         status: status as DeliveryAssignmentStatus,
         notes: notes || deliveryAssignment.notes,
         updatedAt: new Date(),
+        ...(status === "DELIVERED"
+          ? { otpHash: null, otpVerifiedAt: new Date() }
+          : {}),
       },
     });
 
@@ -209,9 +282,6 @@ export async function PUT(request: NextRequest) {
     } else if (status === "DELIVERED") {
       // When delivered, change booking status to DELIVERED
       newBookingStatus = "DELIVERED";
-    } else if (status === "FAILED") {
-      // When failed, change booking status to CANCELLED
-      newBookingStatus = "CANCELLED";
     }
 
     // Only update booking status if it's different
@@ -225,21 +295,16 @@ export async function PUT(request: NextRequest) {
           },
         });
 
-        if (newBookingStatus === "CANCELLED") {
-          // Restore user quota
-          await tx.user.update({
-            where: { id: deliveryAssignment.booking.userId },
-            data: { remainingQuota: { increment: deliveryAssignment.booking.quantity } },
-          });
-
-          // Restore available stock
-          await restoreStock(bookingId, deliveryAssignment.booking.quantity, tx);
-
-          // Mark related payments as CANCELLED (except successful ones)
-          await tx.payment.updateMany({
-            where: { bookingId, status: { not: "SUCCESS" } },
-            data: { status: "CANCELLED" },
-          });
+        if (newBookingStatus === "DELIVERED") {
+          // Reserved cylinders have now left the godown
+          await consumeReservation(bookingId, tx);
+          await settleCashOnDelivery(tx, bookingId);
+          await recordDeliveryProof(
+            tx,
+            deliveryAssignment.id,
+            bookingId,
+            proof,
+          );
         }
       });
 
@@ -293,8 +358,9 @@ export async function PUT(request: NextRequest) {
               user: {
                 select: { name: true, email: true, phone: true, address: true },
               },
-              payments: { orderBy: { createdAt: "desc" }, take: 1 },
+              payments: { orderBy: { createdAt: "desc" } },
               assignment: { include: { partner: true } },
+              cylinder: { select: { name: true } },
             },
           });
 
@@ -333,6 +399,14 @@ export async function PUT(request: NextRequest) {
       // Don't fail the request if email fails
     }
 
+    if (status === "OUT_FOR_DELIVERY") {
+      try {
+        await issueDeliveryOtp(bookingId);
+      } catch (otpError) {
+        console.error("Failed to issue delivery OTP:", otpError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       message: "Delivery status updated successfully",
@@ -343,238 +417,6 @@ export async function PUT(request: NextRequest) {
       },
     });
   } catch (error) {
-    console.error("Failed to update delivery status:", error);
-    return NextResponse.json(
-      { success: false, message: "Failed to update delivery status" },
-      { status: 500 },
-    );
-  }
-}
-
-// Helper function to generate invoice PDF (duplicated here for isolation)
-type InvoiceBooking = {
-  id: string;
-  quantity: number;
-  requestedAt: Date;
-  user?: { name?: string | null; email?: string | null; phone?: string | null; address?: string | null } | null;
-  userName?: string | null;
-  userEmail?: string | null;
-  userPhone?: string | null;
-  userAddress?: string | null;
-  paymentMethod?: string | null;
-  receiverName?: string | null;
-  receiverPhone?: string | null;
-};
-
-async function generateInvoicePDF(booking: InvoiceBooking): Promise<Uint8Array> {
-  const pricePerCylinder = 1100;
-  const subtotal = pricePerCylinder * booking.quantity;
-  const gst = subtotal * 0.18;
-  const total = subtotal + gst;
-
-  const invoiceHtml = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <title>Invoice - ${booking.id}</title>
-      <style>
-        @import url('https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap');
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body { font-family: 'Inter', 'Arial', sans-serif; font-size: 14px; line-height: 1.6; color: #1f2937; background: #ffffff; padding: 40px; }
-        .invoice-container { max-width: 800px; margin: 0 auto; background: white; border-radius: 12px; box-shadow: 0 4px 6px -1px rgba(0,0,0,0.1); overflow: hidden; }
-        .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 40px; text-align: center; }
-        .header h1 { font-size: 32px; font-weight: 700; margin-bottom: 8px; letter-spacing: -0.5px; }
-        .header .subtitle { font-size: 18px; font-weight: 300; opacity: 0.9; }
-        .content { padding: 40px; }
-        .invoice-meta { display: flex; justify-content: space-between; margin-bottom: 40px; flex-wrap: wrap; gap: 30px; }
-        .meta-section h3 { color: #374151; font-size: 16px; font-weight: 600; margin-bottom: 12px; border-bottom: 2px solid #e5e7eb; padding-bottom: 8px; }
-        .meta-section p { margin-bottom: 6px; color: #6b7280; }
-        .meta-section strong { color: #1f2937; font-weight: 500; }
-        .company-info { background: #f9fafb; padding: 30px; border-radius: 8px; margin-bottom: 30px; border-left: 4px solid #667eea; }
-        .company-info h3 { color: #667eea; font-size: 18px; font-weight: 600; margin-bottom: 15px; }
-        .company-details { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 15px; }
-        .company-detail { display: flex; align-items: center; gap: 8px; }
-        .company-detail .icon { width: 16px; height: 16px; background: #667eea; border-radius: 50%; display: inline-block; }
-        .status-badge { display: inline-block; padding: 6px 12px; border-radius: 20px; font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; background-color: #d1fae5; color: #065f46; }
-        .items-table { width: 100%; border-collapse: collapse; margin: 30px 0; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
-        .items-table th { background: #f8fafc; color: #374151; font-weight: 600; padding: 20px; text-align: left; border-bottom: 2px solid #e5e7eb; font-size: 14px; text-transform: uppercase; letter-spacing: 0.5px; }
-        .items-table td { padding: 20px; border-bottom: 1px solid #f3f4f6; color: #6b7280; }
-        .items-table tr:last-child td { border-bottom: none; }
-        .item-description { font-weight: 500; color: #1f2937; }
-        .totals { background: #f9fafb; padding: 30px; border-radius: 8px; margin-top: 30px; }
-        .totals-table { width: 100%; max-width: 400px; margin-left: auto; }
-        .totals-table tr { border-bottom: 1px solid #e5e7eb; }
-        .totals-table tr:last-child { border-bottom: 3px solid #667eea; border-top: 2px solid #e5e7eb; }
-        .totals-table td { padding: 12px 20px; font-size: 16px; }
-        .total-row { font-weight: 700; font-size: 18px; color: #1f2937; }
-        .footer { background: #f8fafc; padding: 30px; text-align: center; color: #6b7280; border-top: 1px solid #e5e7eb; margin-top: 40px; }
-        .footer h4 { color: #374151; font-size: 18px; font-weight: 600; margin-bottom: 15px; }
-        .footer p { margin-bottom: 8px; }
-        .payment-info { background: #fef7ff; border: 1px solid #e879f9; border-radius: 8px; padding: 20px; margin: 20px 0; }
-        .payment-info h4 { color: #a21caf; font-size: 16px; font-weight: 600; margin-bottom: 10px; }
-        @media print { body { padding: 0; } .invoice-container { box-shadow: none; } }
-      </style>
-    </head>
-    <body>
-      <div class="invoice-container">
-        <div class="header">
-          <h1>Gas Agency System</h1>
-          <div class="subtitle">Professional Gas Cylinder Service</div>
-        </div>
-        <div class="content">
-          <div class="company-info">
-            <h3>Company Information</h3>
-            <div class="company-details">
-              <div class="company-detail"><span class="icon"></span><strong>Gas Agency System Pvt. Ltd.</strong></div>
-              <div class="company-detail"><span class="icon"></span>123 Main Street, Business District, City 12345</div>
-              <div class="company-detail"><span class="icon"></span>Phone: +91-1234567890</div>
-              <div class="company-detail"><span class="icon"></span>Email: billing@gasagency.com</div>
-              <div class="company-detail"><span class="icon"></span>GST: 27ABCDE1234F1Z5</div>
-              <div class="company-detail"><span class="icon"></span>License: GA-2024-001234</div>
-            </div>
-          </div>
-          <div class="invoice-meta">
-            <div class="meta-section">
-              <h3>Invoice Details</h3>
-              <p><strong>Invoice Number:</strong> INV-${booking.id.slice(-8).toUpperCase()}</p>
-              <p><strong>Issue Date:</strong> ${new Date().toLocaleDateString("en-IN", { year: "numeric", month: "long", day: "numeric" })}</p>
-              <p><strong>Due Date:</strong> ${new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString("en-IN", { year: "numeric", month: "long", day: "numeric" })}</p>
-            </div>
-            <div class="meta-section">
-              <h3>Booking Information</h3>
-              <p><strong>Booking ID:</strong> ${booking.id.slice(-8).toUpperCase()}</p>
-              <p><strong>Status:</strong> <span class="status-badge">DELIVERED</span></p>
-              <p><strong>Requested:</strong> ${new Date(booking.requestedAt).toLocaleDateString("en-IN")}</p>
-              <p><strong>Delivered:</strong> ${new Date().toLocaleDateString("en-IN")}</p>
-            </div>
-          </div>
-          <div class="meta-section">
-            <h3>Customer Information</h3>
-            <p><strong>Name:</strong> ${booking.user?.name || booking.userName || "N/A"}</p>
-            <p><strong>Email:</strong> ${booking.user?.email || booking.userEmail || "N/A"}</p>
-            <p><strong>Phone:</strong> ${booking.user?.phone || booking.userPhone || "N/A"}</p>
-            <p><strong>Delivery Address:</strong> ${booking.user?.address || booking.userAddress || "N/A"}</p>
-            ${
-              booking.receiverName &&
-              booking.receiverName !== (booking.user?.name || booking.userName)
-                ? `<p><strong>Receiver:</strong> ${booking.receiverName} (${booking.receiverPhone || "N/A"})</p>`
-                : ""
-            }
-          </div>
-          <table class="items-table">
-            <thead>
-              <tr>
-                <th style="width: 50%">Description</th>
-                <th style="width: 15%; text-align: center;">Quantity</th>
-                <th style="width: 20%; text-align: right;">Unit Price</th>
-                <th style="width: 15%; text-align: right;">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              <tr>
-                <td class="item-description">Premium Gas Cylinder (14.2 kg)<br><small style="color: #9ca3af;">High-quality LPG cylinder with safety valve</small></td>
-                <td style="text-align: center; font-weight: 500;">${booking.quantity}</td>
-                <td style="text-align: right; font-weight: 500;">₹${pricePerCylinder.toLocaleString("en-IN")}</td>
-                <td style="text-align: right; font-weight: 600; color: #1f2937;">₹${subtotal.toLocaleString("en-IN")}</td>
-              </tr>
-            </tbody>
-          </table>
-          ${
-            booking.paymentMethod
-              ? `
-          <div class="payment-info">
-            <h4>Payment Information</h4>
-            <p><strong>Payment Method:</strong> ${booking.paymentMethod === "UPI" ? "UPI/Online Payment" : "Cash on Delivery"}</p>
-            <p><strong>Payment Status:</strong> SUCCESS</p>
-          </div>
-          `
-              : ""
-          }
-          <div class="totals">
-            <table class="totals-table">
-              <tr>
-                <td><strong>Subtotal:</strong></td>
-                <td style="text-align: right;"><strong>₹${subtotal.toLocaleString("en-IN")}</strong></td>
-              </tr>
-              <tr>
-                <td><strong>GST (18%):</strong></td>
-                <td style="text-align: right;"><strong>₹${gst.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong></td>
-              </tr>
-              <tr class="total-row">
-                <td><strong>Total Amount:</strong></td>
-                <td style="text-align: right;"><strong>₹${total.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong></td>
-              </tr>
-            </table>
-          </div>
-        </div>
-        <div class="footer">
-          <h4>Thank You for Your Business!</h4>
-          <p>For any queries regarding this invoice, please contact us at billing@gasagency.com</p>
-          <p>or call our customer service at +91-1234567890</p>
-          <br>
-          <p><small>This is a computer-generated invoice and does not require a physical signature.</small></p>
-          <p><small>Generated on ${new Date().toLocaleString("en-IN")} • Invoice ID: INV-${booking.id.slice(-8).toUpperCase()}</small></p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-
-  let browser;
-  let page;
-  try {
-    browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        "--no-sandbox",
-        "--disable-setuid-sandbox",
-        "--disable-dev-shm-usage",
-        "--disable-gpu",
-        "--no-first-run",
-        "--no-zygote",
-        "--single-process",
-        "--disable-web-security",
-        "--disable-features=VizDisplayCompositor",
-      ],
-    });
-    page = await browser.newPage();
-    await page.setViewport({ width: 1200, height: 800 });
-    await page.setContent(invoiceHtml, { waitUntil: ["domcontentloaded"] });
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    const pdfBuffer = await page.pdf({
-      format: "A4",
-      printBackground: true,
-      margin: { top: "20mm", right: "20mm", bottom: "20mm", left: "20mm" },
-      displayHeaderFooter: true,
-      headerTemplate: "<div></div>",
-      footerTemplate: `
-        <div style="font-size: 10px; color: #666; text-align: center; width: 100%;">
-          <span>Invoice INV-${booking.id?.slice(-8).toUpperCase() || "INVOICE"} • Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
-        </div>
-      `,
-      preferCSSPageSize: true,
-    });
-    return pdfBuffer;
-  } catch (error) {
-    console.error("PDF generation error:", error);
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error occurred";
-    throw new Error(`Failed to generate PDF: ${errorMessage}`);
-  } finally {
-    if (page) {
-      try {
-        await page.close();
-      } catch (e) {
-        console.error("Error closing page:", e);
-      }
-    }
-    if (browser) {
-      try {
-        await browser.close();
-      } catch (e) {
-        console.error("Error closing browser:", e);
-      }
-    }
+    return handleAPIError(error);
   }
 }
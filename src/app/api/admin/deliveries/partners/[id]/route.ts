@@ -7,6 +7,7 @@ import {
 } from "@/lib/api-middleware";
 import { z } from "zod";
 import { ConflictError, NotFoundError } from "@/lib/error-handler";
+import { linkPartnerLogin } from "@/lib/delivery";
 //
 
 const updateSchema = z.object({
@@ -21,6 +22,7 @@ const updateSchema = z.object({
   serviceArea: z.string().max(120).optional(),
   capacityPerDay: z.number().int().min(1).max(500).optional(),
   isActive: z.boolean().optional(),
+  loginPassword: z.string().min(8).max(100).optional(),
 });
 
 async function getPartnerHandler(
@@ -54,15 +56,18 @@ async function updatePartnerHandler(
   const id = awaited?.id as string | undefined;
   if (!id) throw new NotFoundError("Partner ID is required");
   const body = await parseRequestBody(request);
-  const payload = updateSchema.parse(body);
+  const { loginPassword, ...payload } = updateSchema.parse(body);
   const exists = await prisma.deliveryPartner.findUnique({
     where: { id },
     select: { id: true },
   });
   if (!exists) throw new NotFoundError("Partner not found");
-  const updated = await prisma.deliveryPartner.update({
-    where: { id },
-    data: payload,
+  const updated = await prisma.$transaction(async (tx) => {
+    const partner = await tx.deliveryPartner.update({
+      where: { id },
+      data: payload,
+    });
+    return linkPartnerLogin(tx, partner, loginPassword);
   });
   return successResponse(updated, "Partner updated");
 }
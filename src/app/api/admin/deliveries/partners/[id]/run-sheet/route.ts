@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withMiddleware } from "@/lib/api-middleware";
+import { generateRunSheetPdf } from "@/lib/dispatch";
+
+const querySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+// GET: the partner's run sheet PDF for a day
+async function runSheetPdfHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  const { date } = querySchema.parse({
+    date: request.nextUrl.searchParams.get("date"),
+  });
+
+  const pdf = await generateRunSheetPdf(date, params?.id || "");
+
+  const response = new NextResponse(pdf as unknown as BodyInit);
+  response.headers.set("Content-Type", "application/pdf");
+  response.headers.set(
+    "Content-Disposition",
+    `attachment; filename="run-sheet-${date}-${params?.id?.slice(-8)}.pdf"`,
+  );
+  response.headers.set("Content-Length", pdf.length.toString());
+  return response;
+}
+
+export const GET = withMiddleware(runSheetPdfHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+});
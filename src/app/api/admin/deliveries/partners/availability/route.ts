@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { getPartnerAvailability } from "@/lib/dispatch";
+
+const querySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+// GET: active partners with their booked and free capacity on a day
+async function getAvailabilityHandler(request: NextRequest) {
+  const { date } = querySchema.parse({
+    date: request.nextUrl.searchParams.get("date"),
+  });
+  const partners = await getPartnerAvailability(date);
+  return successResponse(partners, "Partner availability retrieved");
+}
+
+export const GET = withMiddleware(getAvailabilityHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
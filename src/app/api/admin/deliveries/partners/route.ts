@@ -7,6 +7,7 @@ import {
 } from "@/lib/api-middleware";
 import { z } from "zod";
 import type { Prisma } from "@prisma/client";
+import { linkPartnerLogin } from "@/lib/delivery";
 
 const listQuerySchema = z.object({
   page: z
@@ -42,6 +43,8 @@ const createSchema = z.object({
   serviceArea: z.string().max(120).optional(),
   capacityPerDay: z.number().int().min(1).max(500).optional().default(20),
   isActive: z.boolean().optional().default(true),
+  // Sets up a partner portal login for the partner's email
+  loginPassword: z.string().min(8).max(100).optional(),
 });
 
 async function listPartnersHandler(request: NextRequest) {
@@ -152,8 +155,11 @@ async function listPartnersHandler(request: NextRequest) {
 
 async function createPartnerHandler(request: NextRequest) {
   const body = await parseRequestBody(request);
-  const payload = createSchema.parse(body);
-  const created = await prisma.deliveryPartner.create({ data: payload });
+  const { loginPassword, ...payload } = createSchema.parse(body);
+  const created = await prisma.$transaction(async (tx) => {
+    const partner = await tx.deliveryPartner.create({ data: payload });
+    return linkPartnerLogin(tx, partner, loginPassword);
+  });
   return successResponse(created, "Delivery partner created", 201);
 }
 
@@ -0,0 +1,42 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { dispatchPlanSchema } from "@/lib/validation";
+import { acceptDispatchPlan, buildDispatchPlan } from "@/lib/dispatch";
+
+const querySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+});
+
+// GET: proposed partner assignments for a day's approved bookings
+async function getPlanHandler(request: NextRequest) {
+  const { date } = querySchema.parse({
+    date: request.nextUrl.searchParams.get("date"),
+  });
+  const plan = await buildDispatchPlan(date);
+  return successResponse(plan, "Dispatch plan generated");
+}
+
+// POST: accept a (possibly edited) plan and create all its assignments
+async function acceptPlanHandler(request: NextRequest) {
+  const { date, stops } = dispatchPlanSchema.parse(
+    await parseRequestBody(request),
+  );
+  const created = await acceptDispatchPlan(date, stops);
+  return successResponse(created, `${created.length} deliveries assigned`, 201);
+}
+
+export const GET = withMiddleware(getPlanHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(acceptPlanHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
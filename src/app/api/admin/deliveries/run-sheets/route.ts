@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { getRunSheets } from "@/lib/dispatch";
+
+const querySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  partnerId: z.string().min(1).optional(),
+});
+
+// GET: each partner's stops for a day in run-sheet order
+async function getRunSheetsHandler(request: NextRequest) {
+  const { date, partnerId } = querySchema.parse(
+    Object.fromEntries(request.nextUrl.searchParams.entries()),
+  );
+  const sheets = await getRunSheets(date, partnerId);
+  return successResponse(sheets, "Run sheets retrieved successfully");
+}
+
+export const GET = withMiddleware(getRunSheetsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
@@ -0,0 +1,67 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ConflictError, NotFoundError } from "@/lib/error-handler";
+import { slaTargetSchema } from "@/lib/validation";
+
+async function resolveId(context?: Record<string, unknown>) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("SLA target ID is required");
+  return params.id;
+}
+
+async function updateSlaTargetHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const payload = slaTargetSchema.parse(await parseRequestBody(request));
+
+  const existing = await prisma.deliverySlaTarget.findUnique({ where: { id } });
+  if (!existing) throw new NotFoundError("SLA target not found");
+
+  const clash = await prisma.deliverySlaTarget.findFirst({
+    where: {
+      id: { not: id },
+      area: { equals: payload.area, mode: "insensitive" },
+    },
+  });
+  if (clash) throw new ConflictError(`${clash.area} already has an SLA target`);
+
+  const updated = await prisma.deliverySlaTarget.update({
+    where: { id },
+    data: payload,
+  });
+  return successResponse(updated, "SLA target updated");
+}
+
+// Bookings keep the expected date they were promised, so removing a target
+// only affects future approvals and bookings without one.
+async function deleteSlaTargetHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const existing = await prisma.deliverySlaTarget.findUnique({ where: { id } });
+  if (!existing) throw new NotFoundError("SLA target not found");
+
+  await prisma.deliverySlaTarget.delete({ where: { id } });
+  return successResponse({ id }, "SLA target deleted");
+}
+
+export const PUT = withMiddleware(updateSlaTargetHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
+export const DELETE = withMiddleware(deleteSlaTargetHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ConflictError } from "@/lib/error-handler";
+import { slaTargetSchema } from "@/lib/validation";
+
+async function listSlaTargetsHandler() {
+  const targets = await prisma.deliverySlaTarget.findMany({
+    orderBy: { area: "asc" },
+  });
+  return successResponse(targets, "SLA targets retrieved");
+}
+
+async function createSlaTargetHandler(request: NextRequest) {
+  const payload = slaTargetSchema.parse(await parseRequestBody(request));
+
+  const existing = await prisma.deliverySlaTarget.findFirst({
+    where: { area: { equals: payload.area, mode: "insensitive" } },
+  });
+  if (existing) {
+    throw new ConflictError(`${existing.area} already has an SLA target`);
+  }
+
+  const created = await prisma.deliverySlaTarget.create({ data: payload });
+  return successResponse(created, "SLA target created", 201);
+}
+
+export const GET = withMiddleware(listSlaTargetsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createSlaTargetHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { getDeliveryMetrics } from "@/lib/delivery-analytics";
+import { getSlaBreaches, getSlaPolicy } from "@/lib/sla";
+
+const querySchema = z.object({
+  period: z.enum(["7d", "30d", "90d", "1y"]).optional(),
+});
+
+// GET: open bookings past their SLA and per-partner compliance for the period
+async function getSlaReportHandler(request: NextRequest) {
+  const { period } = querySchema.parse({
+    period: request.nextUrl.searchParams.get("period") || undefined,
+  });
+  const [breaches, metrics, policy] = await Promise.all([
+    getSlaBreaches(),
+    getDeliveryMetrics({ period }),
+    getSlaPolicy(),
+  ]);
+
+  return successResponse(
+    {
+      defaultHours: policy.defaultHours,
+      breaches,
+      overall: {
+        completedDeliveries: metrics.overview.completedDeliveries,
+        slaCompliance: metrics.overview.slaCompliance,
+      },
+      partners: metrics.partnerPerformance
+        .map((p) => ({
+          partnerId: p.partnerId,
+          partnerName: p.partnerName,
+          completedDeliveries: p.completedDeliveries,
+          slaCompliance: p.slaCompliance,
+        }))
+        .sort((a, b) => a.slaCompliance - b.slaCompliance),
+    },
+    "SLA report retrieved",
+  );
+}
+
+export const GET = withMiddleware(getSlaReportHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
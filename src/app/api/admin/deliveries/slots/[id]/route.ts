@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ConflictError, NotFoundError } from "@/lib/error-handler";
+import { deliverySlotSchema } from "@/lib/validation";
+import { SLOT_DAY_NAMES } from "@/lib/delivery-slots";
+
+async function resolveId(context?: Record<string, unknown>) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Delivery slot ID is required");
+  return params.id;
+}
+
+// Bookings keep the window they were given, so edits apply to new bookings
+async function updateSlotHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const payload = deliverySlotSchema.parse(await parseRequestBody(request));
+
+  const existing = await prisma.deliverySlot.findUnique({ where: { id } });
+  if (!existing) throw new NotFoundError("Delivery slot not found");
+
+  const clash = await prisma.deliverySlot.findFirst({
+    where: {
+      id: { not: id },
+      area: { equals: payload.area, mode: "insensitive" },
+      dayOfWeek: payload.dayOfWeek,
+      startTime: payload.startTime,
+    },
+  });
+  if (clash) {
+    throw new ConflictError(
+      `${clash.area} already has a ${clash.startTime} slot on ${SLOT_DAY_NAMES[clash.dayOfWeek]}`,
+    );
+  }
+
+  const updated = await prisma.deliverySlot.update({
+    where: { id },
+    data: payload,
+  });
+  return successResponse(updated, "Delivery slot updated");
+}
+
+async function deleteSlotHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const existing = await prisma.deliverySlot.findUnique({ where: { id } });
+  if (!existing) throw new NotFoundError("Delivery slot not found");
+
+  await prisma.deliverySlot.delete({ where: { id } });
+  return successResponse({ id }, "Delivery slot deleted");
+}
+
+export const PUT = withMiddleware(updateSlotHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
+export const DELETE = withMiddleware(deleteSlotHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ConflictError } from "@/lib/error-handler";
+import { deliverySlotSchema } from "@/lib/validation";
+import { SLOT_DAY_NAMES } from "@/lib/delivery-slots";
+
+async function listSlotsHandler() {
+  const slots = await prisma.deliverySlot.findMany({
+    orderBy: [{ area: "asc" }, { dayOfWeek: "asc" }, { startTime: "asc" }],
+  });
+  return successResponse(slots, "Delivery slots retrieved");
+}
+
+async function createSlotHandler(request: NextRequest) {
+  const payload = deliverySlotSchema.parse(await parseRequestBody(request));
+
+  const existing = await prisma.deliverySlot.findFirst({
+    where: {
+      area: { equals: payload.area, mode: "insensitive" },
+      dayOfWeek: payload.dayOfWeek,
+      startTime: payload.startTime,
+    },
+  });
+  if (existing) {
+    throw new ConflictError(
+      `${existing.area} already has a ${existing.startTime} slot on ${SLOT_DAY_NAMES[existing.dayOfWeek]}`,
+    );
+  }
+
+  const created = await prisma.deliverySlot.create({ data: payload });
+  return successResponse(created, "Delivery slot created", 201);
+}
+
+export const GET = withMiddleware(listSlotsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createSlotHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
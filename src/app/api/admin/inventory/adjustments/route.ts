@@ -7,6 +7,7 @@ import {
 } from "@/lib/api-middleware";
 import { z } from "zod";
 import { ConflictError } from "@/lib/error-handler";
+import { getStockForType } from "@/lib/stock";
 
 const adjustmentSchema = z.object({
   delta: z.number().int().min(-100000).max(100000),
@@ -16,11 +17,24 @@ const adjustmentSchema = z.object({
   adjustmentDate: z.string().optional(),
   batchId: z.string().optional(),
   bookingId: z.string().optional(),
+  cylinderType: z.string().max(50).optional(),
+  locationId: z.string().optional(),
 });
 
-async function getAdjustmentsHandler() {
+async function getAdjustmentsHandler(request: NextRequest) {
   try {
+    const cylinderType = request.nextUrl.searchParams.get("cylinderType");
+    const locationId = request.nextUrl.searchParams.get("locationId");
     const adjustments = await prisma.stockAdjustment.findMany({
+      where:
+        cylinderType || locationId
+          ? {
+              stock: {
+                ...(cylinderType ? { cylinderType } : {}),
+                ...(locationId ? { locationId } : {}),
+              },
+            }
+          : undefined,
       orderBy: { createdAt: "desc" },
       take: 50,
       include: {
@@ -38,6 +52,13 @@ async function getAdjustmentsHandler() {
             quantity: true,
           },
         },
+        stock: {
+          select: {
+            cylinderType: true,
+            locationId: true,
+            location: { select: { name: true } },
+          },
+        },
       },
     });
 
@@ -58,12 +79,12 @@ async function createAdjustmentHandler(request: NextRequest) {
         throw new ConflictError("Adjustment quantity change (delta) cannot be 0.");
       }
 
-      // Load current stock
-      const stock = await tx.cylinderStock.upsert({
-        where: { id: "default" },
-        update: {},
-        create: { id: "default", totalAvailable: 0 },
-      });
+      // Load current stock for the cylinder type at the location
+      const stock = await getStockForType(
+        tx,
+        validatedData.cylinderType,
+        validatedData.locationId
+      );
 
       if (stock.totalAvailable + validatedData.delta < 0) {
         throw new ConflictError(
@@ -74,7 +95,7 @@ async function createAdjustmentHandler(request: NextRequest) {
       // Create the adjustment record
       const adjustmentRecord = await tx.stockAdjustment.create({
         data: {
-          stockId: "default",
+          stockId: stock.id,
           delta: validatedData.delta,
           type: validatedData.type,
           reason: validatedData.reason,
@@ -86,7 +107,7 @@ async function createAdjustmentHandler(request: NextRequest) {
 
       // Update the stock
       await tx.cylinderStock.update({
-        where: { id: "default" },
+        where: { id: stock.id },
         data: {
           totalAvailable: {
             increment: validatedData.delta,
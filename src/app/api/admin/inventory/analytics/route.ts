@@ -1,23 +1,47 @@
 //
+import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { getCylinderTypes } from "@/lib/cylinder-types";
+import { DEFAULT_CYLINDER_TYPE } from "@/lib/pricing";
+import { getReservedByStock } from "@/lib/stock";
 
-async function getInventoryAnalyticsHandler() {
+async function getInventoryAnalyticsHandler(request: NextRequest) {
   try {
+    const params = request.nextUrl.searchParams;
+    const cylinderType = params.get("cylinderType") || DEFAULT_CYLINDER_TYPE;
+    // Optional location filter; across all locations transfers cancel out
+    const locationId = params.get("locationId");
+    const locationFilter = locationId ? { locationId } : {};
+    const adjustmentFilter = {
+      stock: { cylinderType, ...locationFilter },
+      ...(locationId ? {} : { type: { not: "TRANSFER" as const } }),
+    };
+
     // Get current stock status
-    const stock = await prisma.cylinderStock.findUnique({
-      where: { id: "default" },
-      include: {
-        adjustments: {
-          orderBy: { createdAt: "desc" },
-          take: 100,
-        },
-      },
-    });
+    const [stocks, stockAdjustments, reserved] = await Promise.all([
+      prisma.cylinderStock.findMany({
+        where: { cylinderType, ...locationFilter },
+        select: { id: true, totalAvailable: true },
+      }),
+      prisma.stockAdjustment.findMany({
+        where: adjustmentFilter,
+        orderBy: { createdAt: "desc" },
+        take: 100,
+      }),
+      getReservedByStock(prisma),
+    ]);
+    const currentStock = stocks.reduce((sum, s) => sum + s.totalAvailable, 0);
+    // Available stock excludes cylinders held for undelivered bookings
+    const reservedStock = stocks.reduce(
+      (sum, s) => sum + (reserved.get(s.id) || 0),
+      0,
+    );
 
     // Get batch statistics
     const batchStats = await prisma.cylinderBatch.groupBy({
       by: ["status"],
+      where: { cylinderType, ...locationFilter },
       _count: { id: true },
       _sum: { quantity: true },
     });
@@ -30,6 +54,7 @@ async function getInventoryAnalyticsHandler() {
       by: ["type"],
       where: {
         createdAt: { gte: sixMonthsAgo },
+        ...adjustmentFilter,
       },
       _sum: { delta: true },
       _count: { id: true },
@@ -37,6 +62,7 @@ async function getInventoryAnalyticsHandler() {
 
     // Get recent activity
     const recentActivity = await prisma.stockAdjustment.findMany({
+      where: adjustmentFilter,
       orderBy: { createdAt: "desc" },
       take: 10,
       include: {
@@ -49,20 +75,67 @@ async function getInventoryAnalyticsHandler() {
       },
     });
 
+    // Per-type breakdown: stock on hand, batches received and bookings
+    const [types, allStock, batchesByType, bookingsByType] = await Promise.all([
+      getCylinderTypes(prisma),
+      prisma.cylinderStock.findMany({
+        where: locationFilter,
+        select: { id: true, cylinderType: true, totalAvailable: true },
+      }),
+      prisma.cylinderBatch.groupBy({
+        by: ["cylinderType"],
+        where: locationFilter,
+        _sum: { quantity: true },
+      }),
+      prisma.booking.groupBy({
+        by: ["cylinderType"],
+        where: { status: { not: "CANCELLED" }, ...locationFilter },
+        _count: { id: true },
+        _sum: { quantity: true, totalAmount: true },
+      }),
+    ]);
+
+    const byType = types.map((type) => {
+      const bookings = bookingsByType.find((b) => b.cylinderType === type.code);
+      const held = allStock.filter((s) => s.cylinderType === type.code);
+      const available = held.reduce((sum, s) => sum + s.totalAvailable, 0);
+      const typeReserved = held.reduce(
+        (sum, s) => sum + (reserved.get(s.id) || 0),
+        0,
+      );
+      return {
+        cylinderType: type.code,
+        name: type.name,
+        isActive: type.isActive,
+        currentStock: available,
+        reserved: typeReserved,
+        onHand: available + typeReserved,
+        batchReceived:
+          batchesByType.find((b) => b.cylinderType === type.code)?._sum
+            .quantity || 0,
+        bookings: bookings?._count.id || 0,
+        cylindersBooked: bookings?._sum.quantity || 0,
+        bookingValue: bookings?._sum.totalAmount || 0,
+      };
+    });
+
     // Calculate metrics
-    const totalReceived =
-      stock?.adjustments
-        .filter((a) => a.delta > 0)
-        .reduce((sum, a) => sum + a.delta, 0) || 0;
+    const totalReceived = stockAdjustments
+      .filter((a) => a.delta > 0)
+      .reduce((sum, a) => sum + a.delta, 0);
 
     const totalIssued = Math.abs(
-      stock?.adjustments
+      stockAdjustments
         .filter((a) => a.delta < 0)
-        .reduce((sum, a) => sum + a.delta, 0) || 0,
+        .reduce((sum, a) => sum + a.delta, 0),
     );
 
     const analytics = {
-      currentStock: stock?.totalAvailable || 0,
+      cylinderType,
+      locationId,
+      currentStock,
+      reservedStock,
+      onHandStock: currentStock + reservedStock,
       totalReceived,
       totalIssued,
       batchStats: batchStats.map((stat) => ({
@@ -84,6 +157,7 @@ async function getInventoryAnalyticsHandler() {
         batch: activity.batch,
         booking: activity.booking,
       })),
+      byType,
     };
 
     return successResponse(analytics, "Analytics retrieved successfully");
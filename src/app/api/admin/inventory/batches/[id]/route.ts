@@ -7,6 +7,7 @@ import {
   successResponse,
 } from "@/lib/api-middleware";
 import { NotFoundError, ConflictError } from "@/lib/error-handler";
+import { getStockForType } from "@/lib/stock";
 //
 
 async function getBatchHandler(
@@ -29,6 +30,10 @@ async function getBatchHandler(
         id: true,
         supplier: true,
         invoiceNo: true,
+        cylinderType: true,
+        cylinder: { select: { name: true } },
+        locationId: true,
+        location: { select: { name: true } },
         quantity: true,
         receivedAt: true,
         notes: true,
@@ -80,11 +85,11 @@ async function updateBatchHandler(
 
       const diff = body.quantity - oldBatch.quantity;
       if (diff !== 0) {
-        const stock = await tx.cylinderStock.upsert({
-          where: { id: "default" },
-          update: {},
-          create: { id: "default", totalAvailable: 0 },
-        });
+        const stock = await getStockForType(
+          tx,
+          oldBatch.cylinderType,
+          oldBatch.locationId
+        );
 
         if (stock.totalAvailable + diff < 0) {
           throw new ConflictError(
@@ -94,14 +99,14 @@ async function updateBatchHandler(
 
         // Update stock
         await tx.cylinderStock.update({
-          where: { id: "default" },
+          where: { id: stock.id },
           data: { totalAvailable: { increment: diff } },
         });
 
         // Log adjustment
         await tx.stockAdjustment.create({
           data: {
-            stockId: "default",
+            stockId: stock.id,
             delta: diff,
             type: diff > 0 ? "RECEIVE" : "ISSUE",
             reason: `Batch quantity updated for supplier ${body.supplier}`,
@@ -149,17 +154,22 @@ async function deleteBatchHandler(
     const result = await prisma.$transaction(async (tx) => {
       const batch = await tx.cylinderBatch.findUnique({
         where: { id },
-        select: { quantity: true, supplier: true },
+        select: {
+          quantity: true,
+          supplier: true,
+          cylinderType: true,
+          locationId: true,
+        },
       });
 
       if (!batch) throw new NotFoundError("Batch not found");
 
       // Verify stock capacity before deletion
-      const stock = await tx.cylinderStock.upsert({
-        where: { id: "default" },
-        update: {},
-        create: { id: "default", totalAvailable: 0 },
-      });
+      const stock = await getStockForType(
+        tx,
+        batch.cylinderType,
+        batch.locationId
+      );
 
       if (stock.totalAvailable - batch.quantity < 0) {
         throw new ConflictError(
@@ -174,7 +184,7 @@ async function deleteBatchHandler(
 
       // Update stock (decrease by batch quantity)
       await tx.cylinderStock.update({
-        where: { id: "default" },
+        where: { id: stock.id },
         data: {
           totalAvailable: {
             decrement: batch.quantity,
@@ -185,7 +195,7 @@ async function deleteBatchHandler(
       // Log adjustment
       await tx.stockAdjustment.create({
         data: {
-          stockId: "default",
+          stockId: stock.id,
           delta: -batch.quantity,
           type: "ISSUE",
           reason: `Deleted cylinder batch from supplier ${batch.supplier}`,
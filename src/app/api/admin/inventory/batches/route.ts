@@ -5,16 +5,27 @@ import {
   parseRequestBody,
   successResponse,
 } from "@/lib/api-middleware";
+import { getStockForType } from "@/lib/stock";
 //
 
-async function getBatchesHandler() {
+async function getBatchesHandler(request: NextRequest) {
   try {
+    const cylinderType = request.nextUrl.searchParams.get("cylinderType");
+    const locationId = request.nextUrl.searchParams.get("locationId");
     const batches = await prisma.cylinderBatch.findMany({
+      where: {
+        ...(cylinderType ? { cylinderType } : {}),
+        ...(locationId ? { locationId } : {}),
+      },
       orderBy: { receivedAt: "desc" },
       select: {
         id: true,
         supplier: true,
         invoiceNo: true,
+        cylinderType: true,
+        cylinder: { select: { name: true } },
+        locationId: true,
+        location: { select: { name: true } },
         quantity: true,
         receivedAt: true,
         notes: true,
@@ -34,6 +45,8 @@ async function createBatchHandler(request: NextRequest) {
     const body = await parseRequestBody<{
       supplier: string;
       invoiceNo?: string;
+      cylinderType?: string;
+      locationId?: string;
       quantity: number;
       notes?: string;
       receivedAt: string;
@@ -48,10 +61,17 @@ async function createBatchHandler(request: NextRequest) {
     }
 
     const batch = await prisma.$transaction(async (tx) => {
+      const stock = await getStockForType(
+        tx,
+        body.cylinderType || undefined,
+        body.locationId
+      );
       const b = await tx.cylinderBatch.create({
         data: {
           supplier: body.supplier,
           invoiceNo: body.invoiceNo,
+          cylinderType: stock.cylinderType,
+          locationId: stock.locationId,
           quantity: body.quantity,
           notes: body.notes,
           receivedAt: new Date(body.receivedAt),
@@ -61,7 +81,7 @@ async function createBatchHandler(request: NextRequest) {
 
       // Update stock
       await tx.cylinderStock.update({
-        where: { id: "default" },
+        where: { id: stock.id },
         data: {
           totalAvailable: {
             increment: body.quantity,
@@ -72,10 +92,10 @@ async function createBatchHandler(request: NextRequest) {
       // Log stock adjustment
       await tx.stockAdjustment.create({
         data: {
-          stockId: "default",
+          stockId: stock.id,
           delta: body.quantity,
           type: "RECEIVE",
-          reason: `Cylinder batch received from ${body.supplier}`,
+          reason: `Cylinder batch received from ${body.supplier} at ${stock.location.name}`,
           batchId: b.id,
         },
       });
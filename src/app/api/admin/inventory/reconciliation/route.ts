@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { getCylinderReconciliation } from "@/lib/empty-cylinders";
+
+// Filled, empty and in-transit cylinders per location and type
+async function getReconciliationHandler(request: NextRequest) {
+  const locationId = request.nextUrl.searchParams.get("locationId");
+  const reconciliation = await getCylinderReconciliation(prisma, {
+    locationId,
+  });
+  return successResponse(reconciliation, "Reconciliation loaded");
+}
+
+export const GET = withMiddleware(getReconciliationHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
@@ -6,6 +6,9 @@ import {
   successResponse,
 } from "@/lib/api-middleware";
 import { z } from "zod";
+import { getReservedByStock, getStockForType } from "@/lib/stock";
+import { DEFAULT_CYLINDER_TYPE } from "@/lib/pricing";
+import { getStockLocations } from "@/lib/stock-locations";
 //
 
 const adjustSchema = z.object({
@@ -15,6 +18,8 @@ const adjustSchema = z.object({
     .enum(["RECEIVE", "ISSUE", "DAMAGE", "AUDIT", "CORRECTION"])
     .optional(),
   bookingId: z.string().optional(),
+  cylinderType: z.string().max(50).optional(),
+  locationId: z.string().optional(),
   batch: z
     .object({
       supplier: z.string().min(2).max(120),
@@ -24,33 +29,109 @@ const adjustSchema = z.object({
     .optional(),
 });
 
-async function getInventoryHandler() {
-  const stock = await prisma.cylinderStock.upsert({
-    where: { id: "default" },
-    update: {},
-    create: { id: "default", totalAvailable: 0 },
-    include: {
-      adjustments: { orderBy: { createdAt: "desc" }, take: 20 },
-      reservations: { take: 0 },
-    },
+// Without ?locationId the figures are totals across all locations; transfer
+// legs cancel out there and are left out of the adjustment history.
+async function getInventoryHandler(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const cylinderType = params.get("cylinderType") || DEFAULT_CYLINDER_TYPE;
+  const locationId = params.get("locationId");
+
+  const [stocks, adjustments, allStock, locations, reserved] = await Promise.all([
+    prisma.cylinderStock.findMany({
+      where: { cylinderType, ...(locationId ? { locationId } : {}) },
+    }),
+    prisma.stockAdjustment.findMany({
+      where: {
+        stock: { cylinderType, ...(locationId ? { locationId } : {}) },
+        ...(locationId ? {} : { type: { not: "TRANSFER" as const } }),
+      },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+    }),
+    prisma.cylinderStock.findMany({
+      include: { cylinder: { select: { name: true, sortOrder: true } } },
+      orderBy: { cylinder: { sortOrder: "asc" } },
+    }),
+    getStockLocations(prisma),
+    getReservedByStock(prisma),
+  ]);
+  const reservedOf = (stockId: string) => reserved.get(stockId) || 0;
+
+  const cylinder = await prisma.cylinderType.findUnique({
+    where: { code: cylinderType },
+    select: { name: true },
   });
-  return successResponse(stock, "Inventory loaded");
+
+  // Per-type totals at the selected location (or everywhere)
+  const byType = new Map<
+    string,
+    {
+      cylinderType: string;
+      name: string;
+      totalAvailable: number;
+      reserved: number;
+    }
+  >();
+  for (const s of allStock) {
+    if (locationId && s.locationId !== locationId) continue;
+    const entry = byType.get(s.cylinderType) || {
+      cylinderType: s.cylinderType,
+      name: s.cylinder.name,
+      totalAvailable: 0,
+      reserved: 0,
+    };
+    entry.totalAvailable += s.totalAvailable;
+    entry.reserved += reservedOf(s.id);
+    byType.set(s.cylinderType, entry);
+  }
+
+  const totalAvailable = stocks.reduce((sum, s) => sum + s.totalAvailable, 0);
+  const totalReserved = stocks.reduce((sum, s) => sum + reservedOf(s.id), 0);
+
+  return successResponse(
+    {
+      cylinderType,
+      locationId,
+      cylinder,
+      totalAvailable,
+      reserved: totalReserved,
+      onHand: totalAvailable + totalReserved,
+      adjustments,
+      byType: Array.from(byType.values()),
+      byLocation: locations.map((location) => {
+        const held = allStock.filter(
+          (s) =>
+            s.locationId === location.id && s.cylinderType === cylinderType,
+        );
+        return {
+          locationId: location.id,
+          name: location.name,
+          isActive: location.isActive,
+          totalAvailable: held.reduce((sum, s) => sum + s.totalAvailable, 0),
+          reserved: held.reduce((sum, s) => sum + reservedOf(s.id), 0),
+        };
+      }),
+    },
+    "Inventory loaded",
+  );
 }
 
 async function adjustInventoryHandler(request: NextRequest) {
   const payload = adjustSchema.parse(await parseRequestBody(request));
   const updated = await prisma.$transaction(async (tx) => {
-    await tx.cylinderStock.upsert({
-      where: { id: "default" },
-      update: {},
-      create: { id: "default", totalAvailable: 0 },
-    });
+    const stock = await getStockForType(
+      tx,
+      payload.cylinderType,
+      payload.locationId,
+    );
     let batchId: string | undefined = undefined;
     if (payload.batch && payload.delta > 0) {
       const b = await tx.cylinderBatch.create({
         data: {
           supplier: payload.batch.supplier,
           invoiceNo: payload.batch.invoiceNo,
+          cylinderType: stock.cylinderType,
+          locationId: stock.locationId,
           quantity: payload.delta,
           notes: payload.batch.notes,
         },
@@ -58,12 +139,12 @@ async function adjustInventoryHandler(request: NextRequest) {
       batchId = b.id;
     }
     const next = await tx.cylinderStock.update({
-      where: { id: "default" },
+      where: { id: stock.id },
       data: { totalAvailable: { increment: payload.delta } },
     });
     await tx.stockAdjustment.create({
       data: {
-        stockId: "default",
+        stockId: stock.id,
         delta: payload.delta,
         reason: payload.reason,
         type: payload.type || (payload.delta >= 0 ? "RECEIVE" : "ISSUE"),
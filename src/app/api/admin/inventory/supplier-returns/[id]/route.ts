@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { supplierReturnUpdateSchema } from "@/lib/validation";
+import { updateSupplierReturn } from "@/lib/empty-cylinders";
+
+// PUT: mark an in-transit return as received by the supplier, or cancel it
+async function updateSupplierReturnHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Supplier return ID is required");
+
+  const { action } = supplierReturnUpdateSchema.parse(
+    await parseRequestBody(request),
+  );
+  const batch = await prisma.$transaction((tx) =>
+    updateSupplierReturn(tx, params.id as string, action),
+  );
+  return successResponse(
+    batch,
+    action === "RECEIVE"
+      ? "Supplier return marked as received"
+      : "Supplier return cancelled",
+  );
+}
+
+export const PUT = withMiddleware(updateSupplierReturnHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
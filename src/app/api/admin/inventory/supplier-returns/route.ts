@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { supplierReturnSchema } from "@/lib/validation";
+import { dispatchSupplierReturn } from "@/lib/empty-cylinders";
+
+// Lists recent returns of empties to suppliers, newest first
+async function getSupplierReturnsHandler(request: NextRequest) {
+  const locationId = request.nextUrl.searchParams.get("locationId");
+  const batches = await prisma.supplierReturnBatch.findMany({
+    where: locationId ? { stock: { locationId } } : undefined,
+    orderBy: { dispatchedAt: "desc" },
+    take: 50,
+    include: {
+      stock: {
+        select: {
+          cylinderType: true,
+          cylinder: { select: { name: true } },
+          locationId: true,
+          location: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  return successResponse(
+    batches.map(({ stock, ...batch }) => ({
+      ...batch,
+      cylinderType: stock.cylinderType,
+      cylinderName: stock.cylinder.name,
+      locationId: stock.locationId,
+      locationName: stock.location.name,
+    })),
+    "Supplier returns retrieved successfully",
+  );
+}
+
+async function createSupplierReturnHandler(request: NextRequest) {
+  const payload = supplierReturnSchema.parse(await parseRequestBody(request));
+  const batch = await prisma.$transaction((tx) =>
+    dispatchSupplierReturn(tx, payload),
+  );
+  return successResponse(batch, "Empties dispatched to supplier", 201);
+}
+
+export const GET = withMiddleware(getSupplierReturnsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createSupplierReturnHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
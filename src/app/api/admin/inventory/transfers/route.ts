@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { stockTransferSchema } from "@/lib/validation";
+import { transferStock } from "@/lib/stock";
+
+// Lists recent transfers, pairing the outgoing and incoming adjustments
+async function getTransfersHandler(request: NextRequest) {
+  const locationId = request.nextUrl.searchParams.get("locationId");
+  const legs = await prisma.stockAdjustment.findMany({
+    where: {
+      type: "TRANSFER",
+      transferId: { not: null },
+      ...(locationId ? { stock: { locationId } } : {}),
+    },
+    orderBy: { createdAt: "desc" },
+    take: 100,
+    select: { transferId: true },
+  });
+  const transferIds = Array.from(
+    new Set(legs.map((l) => l.transferId as string)),
+  ).slice(0, 50);
+
+  const adjustments = await prisma.stockAdjustment.findMany({
+    where: { transferId: { in: transferIds } },
+    orderBy: { createdAt: "desc" },
+    include: {
+      stock: {
+        select: {
+          cylinderType: true,
+          cylinder: { select: { name: true } },
+          locationId: true,
+          location: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  const transfers = transferIds.flatMap((transferId) => {
+    const from = adjustments.find(
+      (a) => a.transferId === transferId && a.delta < 0,
+    );
+    const to = adjustments.find(
+      (a) => a.transferId === transferId && a.delta > 0,
+    );
+    if (!from || !to) return [];
+    return [
+      {
+        transferId,
+        cylinderType: from.stock.cylinderType,
+        cylinderName: from.stock.cylinder.name,
+        fromLocationId: from.stock.locationId,
+        fromLocationName: from.stock.location.name,
+        toLocationId: to.stock.locationId,
+        toLocationName: to.stock.location.name,
+        quantity: to.delta,
+        reason: from.reason,
+        notes: from.notes,
+        createdAt: from.createdAt,
+      },
+    ];
+  });
+
+  return successResponse(transfers, "Transfers retrieved successfully");
+}
+
+async function createTransferHandler(request: NextRequest) {
+  const payload = stockTransferSchema.parse(await parseRequestBody(request));
+  const result = await prisma.$transaction((tx) => transferStock(tx, payload));
+  return successResponse(result, "Stock transferred successfully", 201);
+}
+
+export const GET = withMiddleware(getTransfersHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createTransferHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { currentKycDocuments, kycDocumentSelect } from "@/lib/kyc";
+
+const querySchema = z.object({
+  status: z
+    .enum(["NOT_SUBMITTED", "SUBMITTED", "APPROVED", "REJECTED"])
+    .default("SUBMITTED"),
+});
+
+// GET: KYC review queue, oldest submissions first
+async function getQueueHandler(request: NextRequest) {
+  const { status } = querySchema.parse(
+    Object.fromEntries(new URL(request.url).searchParams.entries()),
+  );
+
+  const connections = await prisma.connection.findMany({
+    where: { kycStatus: status },
+    orderBy: { updatedAt: "asc" },
+    take: 100,
+    select: {
+      id: true,
+      consumerNumber: true,
+      holderName: true,
+      address: true,
+      connectionType: true,
+      status: true,
+      kycIdType: true,
+      kycIdNumber: true,
+      kycStatus: true,
+      kycReviewedAt: true,
+      kycRejectionReason: true,
+      transferredAt: true,
+      user: { select: { id: true, name: true, email: true, phone: true } },
+      kycDocuments: {
+        select: kycDocumentSelect,
+        orderBy: { createdAt: "desc" },
+      },
+    },
+  });
+
+  return successResponse(
+    connections.map(({ transferredAt, ...connection }) => ({
+      ...connection,
+      kycDocuments: currentKycDocuments(connection.kycDocuments, transferredAt),
+    })),
+    "KYC queue retrieved",
+  );
+}
+
+export const GET = withMiddleware(getQueueHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+
+const listQuerySchema = z.object({
+  bookingId: z.string().optional(),
+  upiTxnId: z.string().optional(),
+  outcome: z.enum(["PROCESSED", "DUPLICATE", "REJECTED"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Lists received UPI webhook deliveries, newest first
+async function listWebhookEventsHandler(request: NextRequest) {
+  const { bookingId, upiTxnId, outcome, limit } = listQuerySchema.parse(
+    Object.fromEntries(request.nextUrl.searchParams.entries()),
+  );
+
+  const events = await prisma.paymentWebhookEvent.findMany({
+    where: {
+      ...(bookingId ? { bookingId } : {}),
+      ...(upiTxnId ? { upiTxnId } : {}),
+      ...(outcome ? { outcome } : {}),
+    },
+    orderBy: { receivedAt: "desc" },
+    take: limit,
+  });
+
+  return successResponse(events);
+}
+
+export const GET = withMiddleware(listWebhookEventsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+});
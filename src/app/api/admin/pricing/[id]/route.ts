@@ -0,0 +1,101 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ConflictError, NotFoundError } from "@/lib/error-handler";
+import { priceListSchema } from "@/lib/validation";
+
+async function resolveId(context?: Record<string, unknown>) {
+  const raw = (context as unknown as { params?: { id?: string } | Promise<{ id?: string }> })?.params;
+  const awaited =
+    raw && typeof (raw as Promise<{ id?: string }>).then === "function"
+      ? await (raw as Promise<{ id?: string }>)
+      : (raw as { id?: string } | undefined);
+  const id = awaited?.id as string | undefined;
+  if (!id) throw new NotFoundError("Price list ID is required");
+  return id;
+}
+
+async function getPriceListHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const priceList = await prisma.priceList.findUnique({
+    where: { id },
+    include: {
+      items: { orderBy: { cylinderType: "asc" } },
+      _count: { select: { bookings: true } },
+    },
+  });
+  if (!priceList) throw new NotFoundError("Price list not found");
+  return successResponse(priceList, "Price list retrieved");
+}
+
+// Bookings keep their own price snapshot, so editing a list only affects
+// bookings created after the change.
+async function updatePriceListHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const body = await parseRequestBody(request);
+  const payload = priceListSchema.parse(body);
+
+  const exists = await prisma.priceList.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!exists) throw new NotFoundError("Price list not found");
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await tx.priceListItem.deleteMany({ where: { priceListId: id } });
+    return tx.priceList.update({
+      where: { id },
+      data: {
+        name: payload.name,
+        effectiveFrom: new Date(payload.effectiveFrom),
+        effectiveTo: payload.effectiveTo ? new Date(payload.effectiveTo) : null,
+        isActive: payload.isActive,
+        notes: payload.notes,
+        items: { create: payload.items },
+      },
+      include: { items: true },
+    });
+  });
+
+  return successResponse(updated, "Price list updated");
+}
+
+async function deletePriceListHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const bookings = await prisma.booking.count({ where: { priceListId: id } });
+  if (bookings > 0)
+    throw new ConflictError(
+      "Price list is referenced by existing bookings. Deactivate it instead.",
+    );
+  await prisma.priceList.delete({ where: { id } });
+  return successResponse(null, "Price list deleted");
+}
+
+export const GET = withMiddleware(getPriceListHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const PUT = withMiddleware(updatePriceListHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
+export const DELETE = withMiddleware(deletePriceListHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
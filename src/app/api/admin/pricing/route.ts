@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { priceListSchema } from "@/lib/validation";
+import { getActivePriceList } from "@/lib/pricing";
+
+async function listPriceListsHandler() {
+  const [priceLists, current] = await Promise.all([
+    prisma.priceList.findMany({
+      orderBy: { effectiveFrom: "desc" },
+      include: {
+        items: { orderBy: { cylinderType: "asc" } },
+        _count: { select: { bookings: true } },
+      },
+    }),
+    getActivePriceList(prisma),
+  ]);
+
+  return successResponse(
+    { priceLists, currentPriceListId: current?.id ?? null },
+    "Price lists retrieved",
+  );
+}
+
+async function createPriceListHandler(request: NextRequest) {
+  const body = await parseRequestBody(request);
+  const payload = priceListSchema.parse(body);
+
+  const created = await prisma.priceList.create({
+    data: {
+      name: payload.name,
+      effectiveFrom: new Date(payload.effectiveFrom),
+      effectiveTo: payload.effectiveTo ? new Date(payload.effectiveTo) : null,
+      isActive: payload.isActive,
+      notes: payload.notes,
+      items: { create: payload.items },
+    },
+    include: { items: true },
+  });
+
+  return successResponse(created, "Price list created", 201);
+}
+
+export const GET = withMiddleware(listPriceListsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createPriceListHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { systemSettingsSchema } from "@/lib/validation";
+import { getSystemSettings, updateSystemSettings } from "@/lib/settings";
+
+async function getRecentChanges() {
+  return prisma.systemSettingChange.findMany({
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    include: {
+      changedBy: { select: { id: true, name: true, email: true } },
+    },
+  });
+}
+
+async function getSettingsHandler() {
+  const [settings, history] = await Promise.all([
+    getSystemSettings(),
+    getRecentChanges(),
+  ]);
+  return successResponse({ settings, history }, "Settings retrieved");
+}
+
+async function updateSettingsHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } } | undefined;
+  if (!session?.user?.id) {
+    throw new NotFoundError("User session not found");
+  }
+
+  const body = await parseRequestBody(request);
+  const payload = systemSettingsSchema.parse(body);
+
+  const changedKeys = await updateSystemSettings(payload, session.user.id);
+  const [settings, history] = await Promise.all([
+    getSystemSettings(),
+    getRecentChanges(),
+  ]);
+
+  return successResponse(
+    { settings, history, changedKeys },
+    changedKeys.length > 0 ? "Settings updated" : "No changes to save",
+  );
+}
+
+export const GET = withMiddleware(getSettingsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const PUT = withMiddleware(updateSettingsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
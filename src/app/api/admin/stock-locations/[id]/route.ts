@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError, ValidationError } from "@/lib/error-handler";
+import { stockLocationUpdateSchema } from "@/lib/validation";
+
+async function resolveId(context?: Record<string, unknown>) {
+  const raw = (context as unknown as { params?: { id?: string } | Promise<{ id?: string }> })?.params;
+  const awaited =
+    raw && typeof (raw as Promise<{ id?: string }>).then === "function"
+      ? await (raw as Promise<{ id?: string }>)
+      : (raw as { id?: string } | undefined);
+  const id = awaited?.id as string | undefined;
+  if (!id) throw new NotFoundError("Stock location ID is required");
+  return id;
+}
+
+// Locations are never deleted because stock, batches and bookings reference
+// them; transfer the stock out and deactivate the location instead.
+async function updateStockLocationHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const id = await resolveId(context);
+  const payload = stockLocationUpdateSchema.parse(
+    await parseRequestBody(request),
+  );
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const existing = await tx.stockLocation.findUnique({ where: { id } });
+    if (!existing) throw new NotFoundError("Stock location not found");
+
+    if (existing.isDefault && (!payload.isDefault || !payload.isActive)) {
+      throw new ValidationError(
+        "Mark another location as default before changing this one",
+      );
+    }
+    if (payload.isDefault && !payload.isActive) {
+      throw new ValidationError("The default location must be active");
+    }
+
+    if (payload.isDefault && !existing.isDefault) {
+      await tx.stockLocation.updateMany({
+        where: { isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.stockLocation.update({ where: { id }, data: payload });
+  });
+
+  return successResponse(updated, "Stock location updated");
+}
+
+export const PUT = withMiddleware(updateStockLocationHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
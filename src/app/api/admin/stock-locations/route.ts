@@ -0,0 +1,64 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { ValidationError } from "@/lib/error-handler";
+import { stockLocationSchema } from "@/lib/validation";
+import { getStockLocations } from "@/lib/stock-locations";
+
+async function listStockLocationsHandler() {
+  const [locations, stocks] = await Promise.all([
+    getStockLocations(prisma),
+    prisma.cylinderStock.findMany({
+      select: { locationId: true, cylinderType: true, totalAvailable: true },
+    }),
+  ]);
+
+  const withStock = locations.map((location) => {
+    const held = stocks.filter((s) => s.locationId === location.id);
+    return {
+      ...location,
+      totalAvailable: held.reduce((sum, s) => sum + s.totalAvailable, 0),
+      byType: held.map((s) => ({
+        cylinderType: s.cylinderType,
+        totalAvailable: s.totalAvailable,
+      })),
+    };
+  });
+
+  return successResponse(withStock, "Stock locations retrieved");
+}
+
+async function createStockLocationHandler(request: NextRequest) {
+  const payload = stockLocationSchema.parse(await parseRequestBody(request));
+  if (payload.isDefault && !payload.isActive) {
+    throw new ValidationError("The default location must be active");
+  }
+
+  const created = await prisma.$transaction(async (tx) => {
+    // Only one location can be the default
+    if (payload.isDefault) {
+      await tx.stockLocation.updateMany({
+        where: { isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+    return tx.stockLocation.create({ data: payload });
+  });
+
+  return successResponse(created, "Stock location created", 201);
+}
+
+export const GET = withMiddleware(listStockLocationsHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(createStockLocationHandler, {
+  requireAuth: true,
+  requireAdmin: true,
+  validateContentType: true,
+});
@@ -35,7 +35,6 @@ async function getUserHandler(
       phone: true,
       address: true,
       role: true,
-      remainingQuota: true,
       emailVerified: true,
       createdAt: true,
       bookings: {
@@ -49,6 +48,19 @@ async function getUserHandler(
         orderBy: { createdAt: "desc" },
         take: 10,
       },
+      // Gas connections this login manages
+      connections: {
+        select: {
+          id: true,
+          consumerNumber: true,
+          holderName: true,
+          connectionType: true,
+          status: true,
+          remainingQuota: true,
+          quotaPeriod: true,
+        },
+        orderBy: { createdAt: "asc" },
+      },
       _count: { select: { bookings: true } },
     },
   });
@@ -102,13 +114,6 @@ async function updateUserHandler(
   const body = await parseRequestBody<Record<string, unknown>>(request);
 
   // Validation constraints
-  if (body.remainingQuota !== undefined) {
-    const quota = Number(body.remainingQuota);
-    if (isNaN(quota) || quota > 12 || quota < 0) {
-      throw new ConflictError("Quota must be less than or equal to 12.");
-    }
-  }
-
   if (body.phone !== undefined) {
     const phone = String(body.phone).trim();
     if (phone.length < 10 || phone.length > 13) {
@@ -128,7 +133,6 @@ async function updateUserHandler(
     "phone",
     "address",
     "role",
-    "remainingQuota",
   ] as const;
   const updates: Record<string, unknown> = {};
   for (const key of allowedFields) {
@@ -155,7 +159,6 @@ async function updateUserHandler(
       phone: true,
       address: true,
       role: true,
-      remainingQuota: true,
       updatedAt: true,
     },
   });
@@ -8,6 +8,7 @@ import {
 import { adminCreateUserSchema, paginationSchema } from "@/lib/validation";
 import { ConflictError } from "@/lib/error-handler";
 import { sanitizeInput } from "@/lib/security";
+import { createConnection } from "@/lib/connections";
 import { Prisma } from "@prisma/client";
 import crypto from "crypto";
 import { sendAdminInvitationEmail } from "@/lib/email";
@@ -24,7 +25,7 @@ const listQuerySchema = {
         ? (query.role as "USER" | "ADMIN")
         : undefined;
     const search = query.search?.trim();
-    type SortBy = "createdAt" | "name" | "email" | "remainingQuota";
+    type SortBy = "createdAt" | "name" | "email";
     const sortBy =
       ((query.sortBy as SortBy) || "createdAt") as SortBy;
     const sortOrder = (query.sortOrder === "asc" ? "asc" : "desc") as
@@ -38,7 +39,7 @@ const listQuerySchema = {
       limit: number;
       role?: "USER" | "ADMIN";
       search?: string;
-      sortBy: "createdAt" | "name" | "email" | "remainingQuota";
+      sortBy: "createdAt" | "name" | "email";
       sortOrder: "asc" | "desc";
     };
   },
@@ -58,6 +59,7 @@ async function listUsersHandler(request: NextRequest) {
       { email: { contains: search, mode: "insensitive" } },
       { userId: { contains: search, mode: "insensitive" } },
       { phone: { contains: search, mode: "insensitive" } },
+      { connections: { some: { consumerNumber: { contains: search } } } },
     ];
   }
 
@@ -75,15 +77,25 @@ async function listUsersHandler(request: NextRequest) {
       phone: true,
       address: true,
       role: true,
-      remainingQuota: true,
       createdAt: true,
-      _count: { select: { bookings: true } },
+      connections: {
+        where: { status: "ACTIVE" },
+        select: { remainingQuota: true },
+      },
+      _count: { select: { bookings: true, connections: true } },
     },
   });
 
   return successResponse(
     {
-      data: users,
+      // Quota left across the user's active connections
+      data: users.map(({ connections, ...user }) => ({
+        ...user,
+        remainingQuota: connections.reduce(
+          (sum, c) => sum + c.remainingQuota,
+          0,
+        ),
+      })),
       pagination: {
         page,
         limit,
@@ -176,10 +188,10 @@ async function createUserHandler(
   const generatedPassword = generateSecurePassword();
   const hashedPassword = await hashPassword(generatedPassword);
 
-  // Create user with the hashed password
+  // Create user with the hashed password; customers get their first connection
   const user = await prisma.$transaction(
     async (tx: Prisma.TransactionClient) => {
-      return tx.user.create({
+      const created = await tx.user.create({
         data: {
           name: sanitizeInput(name),
           userId: userId.toLowerCase(),
@@ -188,7 +200,6 @@ async function createUserHandler(
           address: sanitizeInput(address),
           role,
           password: hashedPassword,
-          remainingQuota: 12,
           emailVerificationToken,
           emailVerificationExpiry,
           resetToken,
@@ -202,10 +213,18 @@ async function createUserHandler(
           phone: true,
           address: true,
           role: true,
-          remainingQuota: true,
           createdAt: true,
         },
       });
+      if (created.role !== "USER") return created;
+
+      const connection = await createConnection(tx, {
+        userId: created.id,
+        holderName: created.name,
+        address: created.address,
+        status: "ACTIVE",
+      });
+      return { ...created, consumerNumber: connection.consumerNumber };
     },
   );
 
@@ -7,7 +7,9 @@ async function statsHandler() {
       prisma.user.count(),
       prisma.user.count({ where: { role: "ADMIN" } }),
       prisma.user.count({ where: { role: "USER" } }),
-      prisma.user.count({ where: { remainingQuota: { lte: 2 } } }),
+      prisma.connection.count({
+        where: { status: "ACTIVE", remainingQuota: { lte: 2 } },
+      }),
       prisma.booking.count(),
     ]);
   return successResponse(
@@ -4,18 +4,36 @@ import { hashPassword } from "@/lib/utils";
 import { sendWelcomeEmail, sendEmailVerification } from "@/lib/email";
 import { registerSchema } from "@/lib/validation";
 import {
-  withEmailRateLimit,
+  withMiddleware,
   parseRequestBody,
   successResponse,
 } from "@/lib/api-middleware";
 import { ConflictError, InternalServerError } from "@/lib/error-handler";
 import { sanitizeInput } from "@/lib/security";
+import { createConnection } from "@/lib/connections";
+import { uploadKycDocument } from "@/lib/kyc";
 import { Prisma } from "@prisma/client";
 import crypto from "crypto";
 
+// JSON, or multipart form data when KYC proofs are uploaded with the signup
+async function readRegistration(request: NextRequest) {
+  if (!request.headers.get("content-type")?.includes("multipart/form-data")) {
+    return { body: await parseRequestBody(request), proofs: [] };
+  }
+  const form = await request.formData();
+  const proofs = (["ID_PROOF", "ADDRESS_PROOF"] as const).flatMap((kind) => {
+    const file = form.get(kind === "ID_PROOF" ? "idProof" : "addressProof");
+    return file instanceof File && file.size > 0 ? [{ kind, file }] : [];
+  });
+  const body = Object.fromEntries(
+    [...form.entries()].filter(([, value]) => typeof value === "string"),
+  );
+  return { body, proofs };
+}
+
 async function registerHandler(request: NextRequest) {
   // Parse and validate request body
-  const body = await parseRequestBody(request);
+  const { body, proofs } = await readRegistration(request);
   const validatedData = registerSchema.parse(body);
   const { name, userId, email, phone, address, password } = validatedData;
 
@@ -58,10 +76,10 @@ async function registerHandler(request: NextRequest) {
   const verificationToken = crypto.randomBytes(32).toString("hex");
   const verificationExpiry = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
 
-  // Create user with transaction for data consistency
+  // Create user and their first connection in one transaction
   const user = await prisma.$transaction(
     async (tx: Prisma.TransactionClient) => {
-      return await tx.user.create({
+      const created = await tx.user.create({
         data: {
           name: sanitizeInput(name),
           userId: userId.toLowerCase(),
@@ -70,7 +88,6 @@ async function registerHandler(request: NextRequest) {
           address: sanitizeInput(address),
           password: hashedPassword,
           role: "USER",
-          remainingQuota: 12,
           emailVerificationToken: verificationToken,
           emailVerificationExpiry: verificationExpiry,
         },
@@ -82,13 +99,38 @@ async function registerHandler(request: NextRequest) {
           phone: true,
           address: true,
           role: true,
-          remainingQuota: true,
           createdAt: true,
         },
       });
+      const connection = await createConnection(tx, {
+        userId: created.id,
+        holderName: created.name,
+        address: created.address,
+        status: "ACTIVE",
+      });
+      return {
+        ...created,
+        connectionId: connection.id,
+        consumerNumber: connection.consumerNumber,
+        remainingQuota: connection.remainingQuota,
+      };
     },
   );
 
+  // The account stands even if a proof is rejected; it can be uploaded
+  // again from the profile
+  const kycErrors: string[] = [];
+  for (const { kind, file } of proofs) {
+    try {
+      await uploadKycDocument(user.connectionId, kind, file, user.id);
+    } catch (error) {
+      console.error(`KYC upload at registration failed (${kind}):`, error);
+      kycErrors.push(
+        `${kind === "ID_PROOF" ? "ID proof" : "Address proof"}: ${error instanceof Error ? error.message : "upload failed"}`,
+      );
+    }
+  }
+
   // Send emails asynchronously (non-blocking)
   Promise.allSettled([
     sendWelcomeEmail(email, name),
@@ -96,11 +138,14 @@ async function registerHandler(request: NextRequest) {
   ]);
 
   return successResponse(
-    user,
+    { ...user, kycErrors },
     "User registered successfully. Please check your email to verify your account.",
     201,
   );
 }
 
-// Export with middleware
-export const POST = withEmailRateLimit(registerHandler);
+// Export with middleware; the handler checks the content type itself
+export const POST = withMiddleware(registerHandler, {
+  rateLimit: { type: "email" },
+  validateContentType: false,
+});
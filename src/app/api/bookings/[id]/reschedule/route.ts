@@ -0,0 +1,58 @@
+import { NextRequest } from "next/server";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { deliveryRescheduleSchema } from "@/lib/validation";
+import {
+  getRescheduleOptions,
+  rescheduleDelivery,
+} from "@/lib/delivery-reattempt";
+
+async function resolveBooking(context?: Record<string, unknown>) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Booking ID is required");
+  const session = context?.session as { user: { id: string } };
+  return { bookingId: params.id, userId: session.user.id };
+}
+
+// GET: why the last attempt failed, the proposed date and the open days
+async function getOptionsHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const { bookingId, userId } = await resolveBooking(context);
+  const options = await getRescheduleOptions(bookingId, userId);
+  return successResponse(options, "Reschedule options retrieved");
+}
+
+// POST: the customer picks the day for the next attempt
+async function rescheduleHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const { bookingId, userId } = await resolveBooking(context);
+  const { date } = deliveryRescheduleSchema.parse(
+    await parseRequestBody(request),
+  );
+  const { assignment } = await rescheduleDelivery(bookingId, date, {
+    customerId: userId,
+  });
+  return successResponse(
+    { scheduledDate: assignment.scheduledDate, attempts: assignment.attempts },
+    "Delivery rescheduled",
+  );
+}
+
+export const GET = withMiddleware(getOptionsHandler, {
+  requireAuth: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(rescheduleHandler, {
+  requireAuth: true,
+  validateContentType: true,
+});
@@ -6,14 +6,31 @@ import {
   successResponse,
   parseRequestBody,
 } from "@/lib/api-middleware";
-import { NotFoundError, ConflictError } from "@/lib/error-handler";
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+} from "@/lib/error-handler";
 import {
   sendBookingApprovalEmail,
   sendBookingCancelledByAdminEmail,
   sendBookingCancelledByUserEmail,
 } from "@/lib/email";
 import { sanitizeInput } from "@/lib/security";
-import { restoreStock, adjustStockForBookingQuantityChange } from "@/lib/stock";
+import {
+  restoreStock,
+  adjustStockForBookingQuantityChange,
+  consumeReservation,
+} from "@/lib/stock";
+import {
+  calculatePaymentBalance,
+  rebalanceOpenPayment,
+  settleCashOnDelivery,
+} from "@/lib/payment-balance";
+import { getBookingPriceBreakdown } from "@/lib/pricing";
+import { requestCancellationRefund } from "@/lib/refunds";
+import { cancelDeliveryAssignment } from "@/lib/delivery";
+import { consumeQuota, restoreQuota } from "@/lib/quota";
 
 // Validation schemas
 const bookingUpdateSchema = z.object({
@@ -86,6 +103,10 @@ async function getBookingHandler(
       events: {
         orderBy: { createdAt: "desc" },
       },
+      cylinder: { select: { name: true } },
+      location: { select: { name: true } },
+      reservation: { select: { status: true, quantity: true } },
+      refillGapOverriddenBy: { select: { name: true } },
     },
   });
 
@@ -98,6 +119,10 @@ async function getBookingHandler(
     throw new NotFoundError("Access denied");
   }
 
+  const pricing = getBookingPriceBreakdown(booking);
+  // The booking's own payment, not the balance of a split one
+  const headline = booking.payments.find((p) => p.role !== "BALANCE");
+
   // Transform data for frontend
   const transformedBooking = {
     id: booking.id,
@@ -108,18 +133,47 @@ async function getBookingHandler(
     userAddress: booking.user.address,
     paymentMethod: booking.paymentMethod,
     quantity: booking.quantity,
+    cylinderType: booking.cylinderType,
+    cylinderName: booking.cylinder.name,
+    locationName: booking.location?.name,
+    cylinderReserved: booking.reservation?.status === "RESERVED",
+    reservationStatus: booking.reservation?.status,
     receiverName: booking.receiverName,
     receiverPhone: booking.receiverPhone,
     status: booking.status,
     requestedAt: booking.requestedAt,
     expectedDate: booking.expectedDate,
+    deliveryWindow: booking.deliveryWindow,
     deliveryDate: booking.deliveryDate,
     deliveredAt: booking.deliveredAt,
+    receivedByName: booking.receivedByName,
+    // Staff-only note on bookings made inside the refill gap
+    refillGapOverride:
+      session.user.role === "ADMIN" && booking.refillGapOverrideReason
+        ? {
+            reason: booking.refillGapOverrideReason,
+            by: booking.refillGapOverriddenBy?.name || null,
+          }
+        : null,
     notes: booking.notes,
     paymentStatus:
-      booking.payments[0]?.status ||
+      headline?.status ||
       (booking.status === "CANCELLED" ? "CANCELLED" : "PENDING"),
-    paymentAmount: booking.payments[0]?.amount,
+    paymentAmount: headline?.amount,
+    payments: booking.payments.map((p) => ({
+      id: p.id,
+      amount: p.amount,
+      method: p.method,
+      status: p.status,
+      upiTxnId: p.upiTxnId,
+      createdAt: p.createdAt,
+    })),
+    balance: calculatePaymentBalance(
+      pricing.total,
+      booking.payments,
+      booking.status,
+    ),
+    pricing,
     deliveryPartnerId: booking.assignment?.partnerId,
     deliveryPartnerName: booking.assignment?.partner?.name,
     createdAt: booking.createdAt,
@@ -163,7 +217,17 @@ async function updateBookingHandler(
   // Get current booking first
   const currentBooking = await prisma.booking.findUnique({
     where: { id: bookingId },
-    select: { quantity: true, userId: true, status: true, notes: true },
+    select: {
+      quantity: true,
+      userId: true,
+      connectionId: true,
+      status: true,
+      notes: true,
+      unitPrice: true,
+      deliveryCharge: true,
+      gstRate: true,
+      assignment: { select: { status: true } },
+    },
   });
 
   if (!currentBooking) {
@@ -200,14 +264,17 @@ async function updateBookingHandler(
       });
 
       // Restore user quota
-      await tx.user.update({
-        where: { id: currentBooking.userId },
-        data: { remainingQuota: { increment: currentBooking.quantity } },
+      await restoreQuota(tx, currentBooking.connectionId, currentBooking.quantity, {
+        reason: "Booking cancelled",
+        bookingId,
       });
 
       // Restore available stock
       await restoreStock(bookingId, currentBooking.quantity, tx);
 
+      // Take it off the delivery partner's list
+      await cancelDeliveryAssignment(tx, bookingId);
+
       // Create booking event
       await tx.bookingEvent.create({
         data: {
@@ -226,6 +293,14 @@ async function updateBookingHandler(
         data: { status: "CANCELLED" },
       });
 
+      // Successful payments are owed back to the customer
+      await requestCancellationRefund(tx, bookingId, {
+        reason: validatedData.cancellationReason
+          ? sanitizeInput(validatedData.cancellationReason)
+          : "Cancelled by customer",
+        requestedById: session.user.id,
+      });
+
       return cancelled;
     });
 
@@ -259,6 +334,19 @@ async function updateBookingHandler(
   // Admin flow - validate input
   const validatedData = bookingUpdateSchema.parse(body);
 
+  // Assigned deliveries close through the delivery screens with the
+  // customer's OTP
+  if (
+    validatedData.status === "DELIVERED" &&
+    currentBooking.status !== "DELIVERED" &&
+    currentBooking.assignment &&
+    currentBooking.assignment.status !== "DELIVERED"
+  ) {
+    throw new ValidationError(
+      "This booking has a delivery assignment. Mark it delivered with the customer's OTP from the delivery screen.",
+    );
+  }
+
   // Handle quantity changes with proper validation
   if (
     typeof validatedData.quantity === "number" &&
@@ -266,14 +354,16 @@ async function updateBookingHandler(
   ) {
     const quantityDiff = validatedData.quantity - currentBooking.quantity;
 
-    // Check if user has enough quota for increase
+    // Check if the connection has enough quota for increase
     if (quantityDiff > 0) {
-      const user = await prisma.user.findUnique({
-        where: { id: currentBooking.userId },
-        select: { remainingQuota: true },
-      });
-
-      if (!user || user.remainingQuota < quantityDiff) {
+      const connection = currentBooking.connectionId
+        ? await prisma.connection.findUnique({
+            where: { id: currentBooking.connectionId },
+            select: { remainingQuota: true },
+          })
+        : null;
+
+      if (!connection || connection.remainingQuota < quantityDiff) {
         throw new ConflictError("User quota exceeded");
       }
     }
@@ -286,6 +376,18 @@ async function updateBookingHandler(
 
   if (validatedData.quantity !== undefined)
     updateData.quantity = validatedData.quantity;
+
+  // Reprice at the booking's original rates when the quantity changes
+  const repriced =
+    typeof validatedData.quantity === "number" &&
+    validatedData.quantity !== currentBooking.quantity
+      ? getBookingPriceBreakdown(currentBooking, validatedData.quantity)
+      : null;
+  if (repriced) {
+    updateData.unitPrice = repriced.unitPrice;
+    updateData.gstAmount = repriced.gstAmount;
+    updateData.totalAmount = repriced.total;
+  }
   if (validatedData.paymentMethod !== undefined)
     updateData.paymentMethod = validatedData.paymentMethod;
   if (validatedData.receiverName !== undefined)
@@ -321,17 +423,18 @@ async function updateBookingHandler(
     ) {
       const quantityDiff = validatedData.quantity - currentBooking.quantity;
 
+      const quantityReason = `Booking quantity changed from ${currentBooking.quantity} to ${validatedData.quantity}`;
       if (quantityDiff > 0) {
         // Decrease user quota
-        await tx.user.update({
-          where: { id: currentBooking.userId },
-          data: { remainingQuota: { decrement: quantityDiff } },
+        await consumeQuota(tx, currentBooking.connectionId!, quantityDiff, {
+          reason: quantityReason,
+          bookingId,
         });
       } else if (quantityDiff < 0) {
         // Increase user quota
-        await tx.user.update({
-          where: { id: currentBooking.userId },
-          data: { remainingQuota: { increment: Math.abs(quantityDiff) } },
+        await restoreQuota(tx, currentBooking.connectionId, Math.abs(quantityDiff), {
+          reason: quantityReason,
+          bookingId,
         });
       }
 
@@ -361,22 +464,39 @@ async function updateBookingHandler(
         },
       });
 
+      // Reserved cylinders have left the godown once delivered
+      if (validatedData.status === "DELIVERED") {
+        await consumeReservation(bookingId, tx);
+        await settleCashOnDelivery(tx, bookingId);
+      }
+
       // Handle cancellation
       if (validatedData.status === "CANCELLED") {
         // Restore user quota
-        await tx.user.update({
-          where: { id: currentBooking.userId },
-          data: { remainingQuota: { increment: currentBooking.quantity } },
+        await restoreQuota(tx, currentBooking.connectionId, currentBooking.quantity, {
+          reason: "Booking cancelled",
+          bookingId,
         });
 
         // Restore available stock
         await restoreStock(bookingId, currentBooking.quantity, tx);
 
+        // Take it off the delivery partner's list
+        await cancelDeliveryAssignment(tx, bookingId);
+
         // Mark related payments as CANCELLED (except successful ones)
         await tx.payment.updateMany({
           where: { bookingId, status: { not: "SUCCESS" } },
           data: { status: "CANCELLED" },
         });
+
+        // Successful payments are owed back to the customer
+        await requestCancellationRefund(tx, bookingId, {
+          reason: validatedData.cancellationReason
+            ? sanitizeInput(validatedData.cancellationReason)
+            : "Cancelled by admin",
+          requestedById: session.user.id,
+        });
       }
 
       // Handle approval
@@ -389,15 +509,18 @@ async function updateBookingHandler(
       }
     }
 
-    // Update payment amount if quantity changed
-    if (
-      typeof validatedData.quantity === "number" &&
-      validatedData.quantity !== currentBooking.quantity
-    ) {
-      await tx.payment.updateMany({
-        where: { bookingId },
-        data: { amount: validatedData.quantity * 1100 },
-      });
+    // Update payment amount if quantity changed; split payments only
+    // resize the balance still due on delivery
+    if (repriced) {
+      const paymentCount = await tx.payment.count({ where: { bookingId } });
+      if (paymentCount > 1) {
+        await rebalanceOpenPayment(tx, bookingId, repriced.total);
+      } else {
+        await tx.payment.updateMany({
+          where: { bookingId },
+          data: { amount: repriced.total },
+        });
+      }
     }
 
     return updatedBooking;
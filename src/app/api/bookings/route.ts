@@ -10,6 +10,12 @@ import { bookingSchema, paginationSchema } from "@/lib/validation";
 import { ConflictError, NotFoundError } from "@/lib/error-handler";
 import { sendBookingRequestEmail } from "@/lib/email";
 import { deductStock } from "@/lib/stock";
+import { quoteBooking, toBookingPriceSnapshot } from "@/lib/pricing";
+import { assertBookableCylinderType } from "@/lib/cylinder-types";
+import { createBookingPayments } from "@/lib/payment-balance";
+import { reserveDeliverySlot } from "@/lib/delivery-slots";
+import { checkRefillGap, consumeQuota } from "@/lib/quota";
+import { resolveBookingConnection } from "@/lib/connections";
 import { Prisma, BookingStatus, PaymentMethod } from "@prisma/client";
 
 const listQuerySchema = z.object({
@@ -46,10 +52,14 @@ async function createBookingHandler(
   const {
     paymentMethod,
     quantity,
+    cylinderType,
     receiverName,
     receiverPhone,
     expectedDate,
+    deliverySlotId,
+    connectionId,
     notes,
+    advanceAmount,
   } = bookingSchema.parse(body);
 
   // Load user with minimal fields
@@ -61,7 +71,6 @@ async function createBookingHandler(
       email: true,
       phone: true,
       address: true,
-      remainingQuota: true,
     },
   });
 
@@ -69,41 +78,69 @@ async function createBookingHandler(
     throw new NotFoundError("User not found");
   }
 
-  // Fixed pricing
-
   // Create booking within transaction and atomically decrement quota if available
   const booking = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-    // Validate that user has enough quota for the requested quantity
-    if (user.remainingQuota < quantity) {
+    const connection = await resolveBookingConnection(
+      tx,
+      user.id,
+      connectionId,
+    );
+
+    // Validate that the connection has enough quota for the requested quantity
+    if (connection.remainingQuota < quantity) {
       throw new ConflictError(
-        `Insufficient quota. You have ${user.remainingQuota} cylinder(s) remaining, but requested ${quantity}.`,
+        `Insufficient quota. You have ${connection.remainingQuota} cylinder(s) remaining, but requested ${quantity}.`,
       );
     }
 
-    // Atomically decrement by the actual quantity
-    const updated = await tx.user.updateMany({
-      where: { id: user.id, remainingQuota: { gte: quantity } },
-      data: { remainingQuota: { decrement: quantity } },
-    });
+    // Enforce the minimum gap since the last delivery or open booking
+    await checkRefillGap(tx, connection.id);
 
-    if (updated.count === 0) {
-      throw new ConflictError("Insufficient quota to create a booking");
-    }
+    // Hold a place in the chosen delivery slot
+    const slot = deliverySlotId
+      ? await reserveDeliverySlot(
+          tx,
+          deliverySlotId,
+          expectedDate?.slice(0, 10),
+          connection.address,
+        )
+      : null;
+
+    // Price the booking against the current price list
+    const cylinder = await assertBookableCylinderType(tx, cylinderType);
+    const { priceListId, breakdown } = await quoteBooking(
+      tx,
+      quantity,
+      cylinder.code,
+    );
 
     const created = await tx.booking.create({
       data: {
         userId: user.id,
         userName: user.name,
+        userEmail: user.email,
+        userPhone: user.phone,
+        connectionId: connection.id,
+        userAddress: connection.address,
         paymentMethod: paymentMethod as PaymentMethod,
         status: "PENDING",
         notes: notes || undefined,
         ...(typeof quantity === "number" ? { quantity } : {}),
+        cylinderType: cylinder.code,
         ...(receiverName ? { receiverName } : {}),
         ...(receiverPhone ? { receiverPhone } : {}),
         ...(expectedDate ? { expectedDate: new Date(expectedDate) } : {}),
+        ...(slot || {}),
+        ...toBookingPriceSnapshot(breakdown, priceListId),
       },
     });
 
+    // Atomically take the quantity from the user's quota
+    await consumeQuota(tx, connection.id, quantity, {
+      reason: "Booking created",
+      bookingId: created.id,
+    });
+
     // Deduct available stock
     await deductStock(created.id, quantity, tx);
 
@@ -126,18 +163,11 @@ async function createBookingHandler(
       ],
     });
 
-    // Create payment record (PENDING) and compute amount
-    const unitPrice = 1100; // Fixed price per cylinder
-    const amountInRupees =
-      unitPrice * (typeof quantity === "number" ? quantity : 1);
-    await tx.payment.create({
-      data: {
-        bookingId: created.id,
-        amount: amountInRupees,
-        method: paymentMethod as PaymentMethod,
-        status: "PENDING",
-        createdAt: new Date(),
-      },
+    // Create payment records (PENDING) for the quoted amount
+    await createBookingPayments(tx, created.id, {
+      total: breakdown.total,
+      method: paymentMethod as PaymentMethod,
+      advanceAmount,
     });
 
     return created;
@@ -154,11 +184,12 @@ async function createBookingHandler(
       quantity,
       receiverName,
       receiverPhone,
-      expectedDate: expectedDate ? new Date(expectedDate) : undefined,
+      expectedDate: booking.expectedDate || undefined,
+      deliveryWindow: booking.deliveryWindow || undefined,
       notes: notes || undefined,
       userEmail: user.email,
       userPhone: user.phone,
-      userAddress: user.address,
+      userAddress: booking.userAddress || user.address,
     },
   });
 
@@ -207,7 +238,13 @@ async function listBookingsHandler(
     skip: (page - 1) * limit,
     take: limit,
     include: {
-      payments: { orderBy: { createdAt: "desc" }, take: 1 },
+      payments: {
+        // The booking's own payment, not the balance of a split one
+        where: { role: { not: "BALANCE" } },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
+      cylinder: { select: { name: true } },
     },
   });
 
@@ -220,12 +257,15 @@ async function listBookingsHandler(
     userAddress: b.userAddress,
     paymentMethod: b.paymentMethod,
     quantity: b.quantity,
+    cylinderType: b.cylinderType,
+    cylinderName: b.cylinder.name,
     receiverName: b.receiverName,
     receiverPhone: b.receiverPhone,
     status: b.status,
     requestedAt: b.requestedAt,
     deliveryDate: b.deliveryDate,
     expectedDate: b.expectedDate,
+    deliveryWindow: b.deliveryWindow,
     deliveredAt: b.deliveredAt,
     notes: b.notes,
     createdAt: b.createdAt,
@@ -234,6 +274,7 @@ async function listBookingsHandler(
       b.payments?.[0]?.status ||
       (b.status === "CANCELLED" ? "CANCELLED" : "PENDING"),
     paymentAmount: b.payments?.[0]?.amount || null,
+    totalAmount: b.totalAmount,
   }));
 
   return successResponse(
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { getSlotsForDate } from "@/lib/delivery-slots";
+
+const querySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  connectionId: z.string().optional(),
+});
+
+// Delivery slots for the area of the customer's connection on the chosen date
+async function getSlotsHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } };
+  const { date, connectionId } = querySchema.parse(
+    Object.fromEntries(new URL(request.url).searchParams.entries()),
+  );
+
+  // Bookings go to the connection's address; fall back to the profile's
+  const owner = connectionId
+    ? await prisma.connection.findFirst({
+        where: { id: connectionId, userId: session.user.id },
+        select: { address: true },
+      })
+    : await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { address: true },
+      });
+  if (!owner) {
+    throw new NotFoundError(
+      connectionId ? "Connection not found" : "User not found",
+    );
+  }
+
+  const slots = await getSlotsForDate(owner.address, date);
+  return successResponse(slots, "Delivery slots retrieved");
+}
+
+export const GET = withMiddleware(getSlotsHandler, {
+  requireAuth: true,
+  validateContentType: false,
+});
@@ -1,14 +1,59 @@
+import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { getCylinderTypes } from "@/lib/cylinder-types";
+import {
+  DEFAULT_CYLINDER_TYPE,
+  DEFAULT_UNIT_PRICE,
+  getActivePriceList,
+} from "@/lib/pricing";
+import { resolveLocationForAddress } from "@/lib/stock-locations";
 
-async function getStockHandler() {
-  const stock = await prisma.cylinderStock.upsert({
-    where: { id: "default" },
-    update: {},
-    create: { id: "default", totalAvailable: 0 },
+async function getStockHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } } | undefined;
+
+  // Bookings are allocated from the location serving the customer's address
+  const user = session?.user.id
+    ? await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { address: true },
+      })
+    : null;
+  const location = await resolveLocationForAddress(prisma, user?.address);
+
+  const [types, stocks, priceList] = await Promise.all([
+    getCylinderTypes(prisma, { activeOnly: true }),
+    prisma.cylinderStock.findMany({ where: { locationId: location.id } }),
+    getActivePriceList(prisma),
+  ]);
+
+  // Only types with a current price can be booked (the default type falls
+  // back to the legacy flat rate)
+  const bookable = types.flatMap((type) => {
+    const item = priceList?.items.find((i) => i.cylinderType === type.code);
+    if (!item && type.code !== DEFAULT_CYLINDER_TYPE) return [];
+    const stock = stocks.find((s) => s.cylinderType === type.code);
+    return [
+      {
+        code: type.code,
+        name: type.name,
+        weightKg: type.weightKg,
+        category: type.category,
+        totalAvailable: stock?.totalAvailable || 0,
+        unitPrice: item?.unitPrice ?? DEFAULT_UNIT_PRICE,
+        deliveryCharge: item?.deliveryCharge ?? 0,
+        gstRate: item?.gstRate ?? 0,
+      },
+    ];
   });
+
   return successResponse({
-    totalAvailable: stock.totalAvailable,
+    location: { id: location.id, name: location.name },
+    totalAvailable: bookable.reduce((sum, t) => sum + t.totalAvailable, 0),
+    types: bookable,
   });
 }
 
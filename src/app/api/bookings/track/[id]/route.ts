@@ -28,6 +28,7 @@ async function getTrackingHandler(
       paymentMethod: true,
       receiverName: true,
       expectedDate: true,
+      deliveryWindow: true,
       quantity: true,
       deliveryDate: true,
       deliveredAt: true,
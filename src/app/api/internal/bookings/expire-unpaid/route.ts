@@ -0,0 +1,28 @@
+import { NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { AuthenticationError } from "@/lib/error-handler";
+import { verifyCronSecret } from "@/lib/security";
+import { expireUnpaidUpiBookings } from "@/lib/booking-expiry";
+
+// POST: cancel UPI bookings left unpaid past the payment window.
+// Called by the scheduler with `Authorization: Bearer $CRON_SECRET`;
+// admins may also trigger it from a signed-in session.
+async function expireUnpaidHandler(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    const session = await getServerSession(authOptions);
+    if (session?.user?.role !== "ADMIN") {
+      throw new AuthenticationError("Invalid or missing cron secret");
+    }
+  }
+
+  const result = await expireUnpaidUpiBookings();
+
+  return successResponse(
+    result,
+    `Expired ${result.expired.length} of ${result.checked} unpaid UPI booking(s)`,
+  );
+}
+
+export const POST = withMiddleware(expireUnpaidHandler);
@@ -0,0 +1,27 @@
+import { NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { AuthenticationError } from "@/lib/error-handler";
+import { verifyCronSecret } from "@/lib/security";
+import { resetQuotaPeriod } from "@/lib/quota";
+
+// POST: start the current quota year for connections still on an earlier one.
+// Safe to run daily; connections already on the current year are left alone.
+async function resetQuotaHandler(request: NextRequest) {
+  if (!verifyCronSecret(request)) {
+    const session = await getServerSession(authOptions);
+    if (session?.user?.role !== "ADMIN") {
+      throw new AuthenticationError("Invalid or missing cron secret");
+    }
+  }
+
+  const result = await resetQuotaPeriod();
+
+  return successResponse(
+    result,
+    `Reset quota for ${result.reset.length} of ${result.checked} connection(s) for ${result.period}`,
+  );
+}
+
+export const POST = withMiddleware(resetQuotaHandler);
@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { getPartnerForUser } from "@/lib/delivery";
+import { issueDeliveryOtp } from "@/lib/delivery-proof";
+
+// POST: resend the delivery OTP to the customer of one of the partner's
+// deliveries
+async function resendOtpHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Assignment ID is required");
+
+  const session = context?.session as { user: { id: string } };
+  const partner = await getPartnerForUser(session.user.id);
+  const assignment = await prisma.deliveryAssignment.findUnique({
+    where: { id: params.id },
+    select: { bookingId: true, partnerId: true },
+  });
+  if (!assignment || assignment.partnerId !== partner.id) {
+    throw new NotFoundError("Delivery assignment not found");
+  }
+
+  const result = await issueDeliveryOtp(assignment.bookingId);
+  return successResponse(
+    result,
+    result.sent
+      ? "OTP sent to the customer"
+      : "OTP reset, but the customer email could not be reached",
+  );
+}
+
+export const POST = withMiddleware(resendOtpHandler, {
+  requirePartner: true,
+});
@@ -0,0 +1,63 @@
+import { NextRequest } from "next/server";
+import {
+  withMiddleware,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { partnerDeliveryStatusSchema } from "@/lib/validation";
+import {
+  getPartnerForUser,
+  updatePartnerDeliveryStatus,
+} from "@/lib/delivery";
+import { sendBookingInvoice } from "@/lib/invoice";
+
+// PUT: partner marks a delivery picked up, out for delivery, delivered (with
+// the customer's OTP) or failed (with a failure code)
+async function updateStatusHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  if (!params?.id) throw new NotFoundError("Assignment ID is required");
+
+  const session = context?.session as { user: { id: string } };
+  const partner = await getPartnerForUser(session.user.id);
+  const {
+    status,
+    failureCode,
+    reason,
+    notes,
+    otp,
+    emptiesCollected,
+    ...proof
+  } = partnerDeliveryStatusSchema.parse(await parseRequestBody(request));
+
+  const assignment = await updatePartnerDeliveryStatus(
+    partner.id,
+    params.id,
+    status,
+    {
+      failureCode: status === "FAILED" ? failureCode : undefined,
+      reason: status === "FAILED" ? reason : undefined,
+      notes,
+      updatedById: session.user.id,
+      otp: status === "DELIVERED" ? otp : undefined,
+      proof: status === "DELIVERED" ? proof : undefined,
+      emptiesCollected: status === "DELIVERED" ? emptiesCollected : undefined,
+    },
+  );
+
+  if (status === "DELIVERED") {
+    void sendBookingInvoice(assignment.bookingId);
+  }
+
+  return successResponse(assignment, "Delivery status updated");
+}
+
+export const PUT = withMiddleware(updateStatusHandler, {
+  requirePartner: true,
+  validateContentType: true,
+});
@@ -0,0 +1,118 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import {
+  getPartnerForUser,
+  OPEN_ASSIGNMENT_STATUSES,
+  PARTNER_STATUS_TRANSITIONS,
+} from "@/lib/delivery";
+import { getBookingPriceBreakdown } from "@/lib/pricing";
+import { calculatePaymentBalance } from "@/lib/payment-balance";
+
+const querySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+    .optional(),
+});
+
+// GET: the signed-in partner's deliveries for a day (default today). Today's
+// list also carries over unfinished deliveries from earlier days.
+async function listAssignmentsHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } };
+  const partner = await getPartnerForUser(session.user.id);
+  const { date } = querySchema.parse(
+    Object.fromEntries(new URL(request.url).searchParams.entries()),
+  );
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const start = date ? new Date(`${date}T00:00:00`) : today;
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+
+  const dayFilters: Prisma.DeliveryAssignmentWhereInput[] = [
+    { scheduledDate: { gte: start, lt: end } },
+    { scheduledDate: null, assignedAt: { gte: start, lt: end } },
+  ];
+  if (start.getTime() === today.getTime()) {
+    dayFilters.push({
+      status: { in: OPEN_ASSIGNMENT_STATUSES },
+      OR: [
+        { scheduledDate: { lt: start } },
+        { scheduledDate: null, assignedAt: { lt: start } },
+      ],
+    });
+  }
+
+  const assignments = await prisma.deliveryAssignment.findMany({
+    where: {
+      partnerId: partner.id,
+      OR: dayFilters,
+      // Cancelled bookings are off the list, even ones cancelled before
+      // assignments were closed with them
+      status: { not: "CANCELLED" },
+      booking: { status: { not: "CANCELLED" } },
+    },
+    include: {
+      booking: {
+        include: {
+          cylinder: { select: { name: true } },
+          payments: { select: { amount: true, method: true, status: true } },
+          user: { select: { phone: true } },
+        },
+      },
+    },
+    orderBy: [
+      { scheduledDate: "asc" },
+      { sequence: { sort: "asc", nulls: "last" } },
+      { assignedAt: "asc" },
+    ],
+  });
+
+  const data = assignments.map(({ booking, ...assignment }) => {
+    const total = getBookingPriceBreakdown(booking).total;
+    const balance = calculatePaymentBalance(
+      total,
+      booking.payments,
+      booking.status,
+    );
+    return {
+      id: assignment.id,
+      bookingId: booking.id,
+      status: assignment.status,
+      nextStatuses: PARTNER_STATUS_TRANSITIONS[assignment.status],
+      scheduledDate: assignment.scheduledDate,
+      scheduledTime: assignment.scheduledTime,
+      sequence: assignment.sequence,
+      priority: assignment.priority,
+      notes: assignment.notes,
+      failureReason: assignment.failureReason,
+      attempts: assignment.attempts,
+      assignedAt: assignment.assignedAt,
+      customerName: booking.receiverName || booking.userName,
+      customerPhone:
+        booking.receiverPhone || booking.userPhone || booking.user.phone,
+      address: booking.userAddress,
+      quantity: booking.quantity,
+      cylinderName: booking.cylinder.name,
+      bookingNotes: booking.notes,
+      amountToCollect: balance.outstanding,
+    };
+  });
+
+  return successResponse({
+    partner: { id: partner.id, name: partner.name },
+    date: start,
+    assignments: data,
+  });
+}
+
+export const GET = withMiddleware(listAssignmentsHandler, {
+  requirePartner: true,
+});
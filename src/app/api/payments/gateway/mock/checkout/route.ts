@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  successResponse,
+  parseRequestBody,
+} from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { completeMockCheckout, getGatewayByName } from "@/lib/payment-gateway";
+
+const mockCheckoutSchema = z.object({
+  orderId: z.string().min(1, "Order ID is required"),
+  outcome: z.enum(["SUCCESS", "FAILED"]),
+});
+
+// POST: stands in for the provider's hosted checkout when the mock gateway
+// is configured. Returns the signed callback for /api/payments/gateway/verify.
+async function mockCheckoutHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } } | undefined;
+  if (!session?.user?.id) {
+    throw new NotFoundError("User session not found");
+  }
+
+  const body = await parseRequestBody(request);
+  const { orderId, outcome } = mockCheckoutSchema.parse(body);
+
+  const payment = await prisma.payment.findUnique({
+    where: { gatewayOrderId: orderId },
+    select: { provider: true, booking: { select: { userId: true } } },
+  });
+  if (
+    payment?.provider !== "mock" ||
+    payment.booking.userId !== session.user.id
+  ) {
+    throw new NotFoundError("Payment order not found");
+  }
+
+  // Refuses to run in production
+  getGatewayByName("mock");
+
+  return successResponse(completeMockCheckout(orderId, outcome));
+}
+
+export const POST = withMiddleware(mockCheckoutHandler, {
+  requireAuth: true,
+  validateContentType: true,
+});
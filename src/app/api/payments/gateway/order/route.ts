@@ -0,0 +1,132 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  successResponse,
+  parseRequestBody,
+} from "@/lib/api-middleware";
+import { ConflictError, NotFoundError } from "@/lib/error-handler";
+import {
+  applyGatewayStatus,
+  getGatewayByName,
+  getPaymentGateway,
+} from "@/lib/payment-gateway";
+
+const createOrderSchema = z.object({
+  bookingId: z.string().min(1, "Booking ID is required"),
+});
+
+// POST: open a gateway order for the booking's outstanding UPI payment
+async function createOrderHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } } | undefined;
+  if (!session?.user?.id) {
+    throw new NotFoundError("User session not found");
+  }
+
+  const body = await parseRequestBody(request);
+  const { bookingId } = createOrderSchema.parse(body);
+
+  const gateway = await getPaymentGateway();
+  if (!gateway) {
+    throw new ConflictError("Online payments are not enabled");
+  }
+
+  const booking = await prisma.booking.findFirst({
+    where: {
+      id: bookingId,
+      userId: session.user.id,
+      paymentMethod: "UPI",
+      status: { not: "CANCELLED" },
+    },
+    include: {
+      payments: {
+        where: { method: "UPI" },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
+    },
+  });
+  if (!booking) {
+    throw new NotFoundError("Booking not found or not payable");
+  }
+
+  const latest = booking.payments[0];
+  if (!latest) {
+    throw new NotFoundError("Payment record not found for this booking");
+  }
+
+  // An order already opened for the payment is reused rather than replaced,
+  // so a late payment against it can still be matched
+  if (latest.status === "PENDING" && latest.provider && latest.gatewayOrderId) {
+    const previous = getGatewayByName(latest.provider);
+    latest.status = await applyGatewayStatus(
+      latest.gatewayOrderId,
+      await previous.fetchStatus(latest.gatewayOrderId),
+    );
+    if (latest.status === "PENDING") {
+      return successResponse(
+        previous.resumeOrder(latest.gatewayOrderId, latest.amount),
+        "Payment order reopened",
+      );
+    }
+  }
+  if (latest.status === "SUCCESS") {
+    throw new ConflictError("This booking is already paid");
+  }
+  if (latest.status === "CANCELLED") {
+    throw new ConflictError("This payment was cancelled");
+  }
+
+  // A failed attempt stays on record; the new order gets its own payment
+  const payment =
+    latest.status === "FAILED"
+      ? await prisma.payment.create({
+          data: {
+            bookingId: booking.id,
+            amount: latest.amount,
+            method: "UPI",
+            status: "PENDING",
+            role: latest.role,
+          },
+        })
+      : latest;
+
+  const order = await gateway.createOrder({
+    receipt: payment.id,
+    amount: payment.amount,
+    notes: { bookingId: booking.id },
+  });
+
+  const opened = await prisma.payment.updateMany({
+    where: { id: payment.id, gatewayOrderId: null },
+    data: { provider: order.provider, gatewayOrderId: order.orderId },
+  });
+  if (opened.count === 0) {
+    // Another request opened an order for this payment first
+    const current = await prisma.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+      select: { provider: true, gatewayOrderId: true },
+    });
+    if (!current.provider || !current.gatewayOrderId) {
+      throw new ConflictError("This payment can no longer be paid online");
+    }
+    return successResponse(
+      getGatewayByName(current.provider).resumeOrder(
+        current.gatewayOrderId,
+        payment.amount,
+      ),
+      "Payment order reopened",
+    );
+  }
+
+  return successResponse(order, "Payment order created");
+}
+
+export const POST = withMiddleware(createOrderHandler, {
+  requireAuth: true,
+  validateContentType: true,
+});
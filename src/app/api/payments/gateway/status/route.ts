@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { NotFoundError, ValidationError } from "@/lib/error-handler";
+import { applyGatewayStatus, getGatewayByName } from "@/lib/payment-gateway";
+
+// GET: refresh the booking's latest gateway payment from the provider, for
+// when the checkout callback never reached us
+async function paymentStatusHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as
+    | { user: { id: string; role?: string } }
+    | undefined;
+  if (!session?.user?.id) {
+    throw new NotFoundError("User session not found");
+  }
+
+  const bookingId = request.nextUrl.searchParams.get("bookingId");
+  if (!bookingId) throw new ValidationError("bookingId is required");
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      userId: true,
+      payments: {
+        where: { method: "UPI" },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
+    },
+  });
+  if (
+    !booking ||
+    (session.user.role !== "ADMIN" && booking.userId !== session.user.id)
+  ) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  const payment = booking.payments[0];
+  if (!payment) throw new NotFoundError("Payment record not found");
+
+  let status = payment.status;
+  if (payment.provider && payment.gatewayOrderId && status === "PENDING") {
+    const gateway = getGatewayByName(payment.provider);
+    status = await applyGatewayStatus(
+      payment.gatewayOrderId,
+      await gateway.fetchStatus(payment.gatewayOrderId),
+    );
+  }
+
+  return successResponse({
+    paymentId: payment.id,
+    provider: payment.provider,
+    status,
+  });
+}
+
+export const GET = withMiddleware(paymentStatusHandler, { requireAuth: true });
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import {
+  withMiddleware,
+  successResponse,
+  parseRequestBody,
+} from "@/lib/api-middleware";
+import { NotFoundError, ValidationError } from "@/lib/error-handler";
+import { applyGatewayStatus, getGatewayByName } from "@/lib/payment-gateway";
+
+const verifyCallbackSchema = z.object({
+  orderId: z.string().min(1, "Order ID is required"),
+  gatewayPaymentId: z.string().min(1, "Gateway payment ID is required"),
+  signature: z.string().min(1, "Signature is required"),
+});
+
+// POST: verify the signed checkout callback, then confirm the outcome with
+// the gateway before updating the payment
+async function verifyPaymentHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } } | undefined;
+  if (!session?.user?.id) {
+    throw new NotFoundError("User session not found");
+  }
+
+  const body = await parseRequestBody(request);
+  const callback = verifyCallbackSchema.parse(body);
+
+  const payment = await prisma.payment.findUnique({
+    where: { gatewayOrderId: callback.orderId },
+    select: { provider: true, booking: { select: { id: true, userId: true } } },
+  });
+  if (!payment?.provider || payment.booking.userId !== session.user.id) {
+    throw new NotFoundError("Payment order not found");
+  }
+
+  const gateway = getGatewayByName(payment.provider);
+  if (!gateway.verifyCallback(callback)) {
+    throw new ValidationError("Payment signature verification failed");
+  }
+
+  const status = await applyGatewayStatus(
+    callback.orderId,
+    await gateway.fetchStatus(callback.orderId),
+  );
+
+  return successResponse(
+    { bookingId: payment.booking.id, status },
+    status === "SUCCESS"
+      ? "Payment confirmed"
+      : `Payment ${status.toLowerCase()}`,
+  );
+}
+
+export const POST = withMiddleware(verifyPaymentHandler, {
+  requireAuth: true,
+  validateContentType: true,
+});
@@ -5,6 +5,14 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import type { Prisma } from "@prisma/client";
 import { deductStock } from "@/lib/stock";
+import { quoteBooking, toBookingPriceSnapshot } from "@/lib/pricing";
+import { assertBookableCylinderType } from "@/lib/cylinder-types";
+import { getSystemSettings } from "@/lib/settings";
+import { createBookingPayments } from "@/lib/payment-balance";
+import { reserveDeliverySlot } from "@/lib/delivery-slots";
+import { checkRefillGap, consumeQuota } from "@/lib/quota";
+import { resolveBookingConnection } from "@/lib/connections";
+import { upiBookingSchema } from "@/lib/validation";
 
 // POST: confirm UPI payment and then create booking + payment atomically
 export async function POST(request: NextRequest) {
@@ -17,50 +25,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body = await request.json();
+    // With a gateway configured, UPI bookings are created first and paid
+    // online from /user/pay/upi/[bookingId]
+    const { paymentGateway } = await getSystemSettings();
+    if (paymentGateway !== "manual") {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "Manual UPI references are not accepted. Please pay online.",
+        },
+        { status: 409 },
+      );
+    }
+
+    const parsed = upiBookingSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: parsed.error.issues[0]?.message || "Invalid booking details",
+        },
+        { status: 400 },
+      );
+    }
     const {
-      quantity,
+      quantity: qty,
+      cylinderType,
       receiverName,
       receiverPhone,
       expectedDate,
+      deliverySlotId,
+      connectionId,
       notes,
       upiTxnId,
-    } = body as {
-      quantity?: number;
-      receiverName?: string;
-      receiverPhone?: string;
-      expectedDate?: string;
-      notes?: string;
-      upiTxnId?: string;
-    };
-
-    if (
-      !upiTxnId ||
-      typeof upiTxnId !== "string" ||
-      upiTxnId.trim().length < 6
-    ) {
-      return NextResponse.json(
-        { success: false, message: "Valid upiTxnId is required" },
-        { status: 400 },
-      );
-    }
-
-    // Fixed pricing
-    const unitPrice = 1100; // Fixed price per cylinder
-    const qty = typeof quantity === "number" && quantity > 0 ? quantity : 1;
-    const amountInRupees = unitPrice * qty;
+      advanceAmount,
+    } = parsed.data;
 
     // Create booking and payment in transaction, with quota handling
     const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-      // Check and decrement quota
-      const updated = await tx.user.updateMany({
-        where: { id: session.user.id, remainingQuota: { gte: qty } },
-        data: { remainingQuota: { decrement: qty } },
-      });
-      if (updated.count === 0) {
-        throw new Error("Insufficient quota to create a booking");
-      }
-
       const user = await tx.user.findUnique({
         where: { id: session.user.id },
         select: {
@@ -73,23 +76,63 @@ export async function POST(request: NextRequest) {
       });
       if (!user) throw new Error("User not found");
 
+      const connection = await resolveBookingConnection(
+        tx,
+        user.id,
+        connectionId || undefined,
+      );
+
+      // Enforce the minimum gap since the last delivery or open booking
+      await checkRefillGap(tx, connection.id);
+
+      // Hold a place in the chosen delivery slot
+      const slot = deliverySlotId
+        ? await reserveDeliverySlot(
+            tx,
+            deliverySlotId,
+            expectedDate?.slice(0, 10),
+            connection.address,
+          )
+        : null;
+
+      // Price the booking against the current price list
+      const cylinder = await assertBookableCylinderType(
+        tx,
+        cylinderType || undefined,
+      );
+      const { priceListId, breakdown } = await quoteBooking(
+        tx,
+        qty,
+        cylinder.code,
+      );
+
       const booking = await tx.booking.create({
         data: {
           userId: user.id,
           userName: user.name,
           userEmail: user.email,
           userPhone: user.phone,
-          userAddress: user.address,
+          userAddress: connection.address,
+          connectionId: connection.id,
           quantity: qty,
+          cylinderType: cylinder.code,
           paymentMethod: "UPI",
           status: "PENDING",
           receiverName: receiverName || undefined,
           receiverPhone: receiverPhone || undefined,
           expectedDate: expectedDate ? new Date(expectedDate) : undefined,
           notes: notes || undefined,
+          ...(slot || {}),
+          ...toBookingPriceSnapshot(breakdown, priceListId),
         },
       });
 
+      // Check and decrement quota
+      await consumeQuota(tx, connection.id, qty, {
+        reason: "Booking created",
+        bookingId: booking.id,
+      });
+
       // Deduct available stock
       await deductStock(booking.id, qty, tx);
 
@@ -113,14 +156,11 @@ export async function POST(request: NextRequest) {
       });
 
       // Create payment as PENDING with provided reference/UPI id (verification/approval later)
-      const payment = await tx.payment.create({
-        data: {
-          bookingId: booking.id,
-          amount: amountInRupees,
-          method: "UPI",
-          status: "PENDING",
-          upiTxnId: upiTxnId.trim(),
-        },
+      const [payment] = await createBookingPayments(tx, booking.id, {
+        total: breakdown.total,
+        method: "UPI",
+        advanceAmount,
+        upiTxnId,
       });
 
       return { booking, payment };
@@ -142,11 +182,12 @@ export async function POST(request: NextRequest) {
             quantity: qty,
             receiverName: receiverName || "",
             receiverPhone: receiverPhone || "",
-            expectedDate: expectedDate ? new Date(expectedDate) : undefined,
+            expectedDate: result.booking.expectedDate || undefined,
+            deliveryWindow: result.booking.deliveryWindow || undefined,
             notes: notes || undefined,
             userEmail: user.email,
             userPhone: user.phone || undefined,
-            userAddress: user.address || undefined,
+            userAddress: result.booking.userAddress || undefined,
           },
         });
       }
@@ -78,6 +78,7 @@ async function retryPaymentHandler(
         amount: latestPayment.amount,
         method: "UPI",
         status: "PENDING",
+        role: latestPayment.role,
         upiTxnId: upiTxnId,
       },
     });
@@ -116,6 +117,7 @@ async function retryPaymentHandler(
 
 export const POST = withMiddleware(retryPaymentHandler, {
   requireAuth: true,
-  rateLimit: { type: "general", maxRequests: 5 }, // Limit retry attempts
+  // Limit retry attempts separately from the general API limit
+  rateLimit: { type: "general", maxRequests: 5, scope: "upi-retry" },
   validateContentType: true,
 });
@@ -3,6 +3,8 @@ import { prisma } from "@/lib/db";
 import { withMiddleware, parseRequestBody } from "@/lib/api-middleware";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { getBookingPriceBreakdown } from "@/lib/pricing";
+import { getSystemSettings } from "@/lib/settings";
 
 // GET: fetch invoice details and UPI info
 async function getUPIInvoice(request: NextRequest) {
@@ -23,6 +25,9 @@ async function getUPIInvoice(request: NextRequest) {
         paymentMethod: true,
         status: true,
         quantity: true,
+        unitPrice: true,
+        deliveryCharge: true,
+        gstRate: true,
         userId: true,
         user: {
           select: {
@@ -72,25 +77,22 @@ async function getUPIInvoice(request: NextRequest) {
       );
     }
 
+    // Split bookings also carry a cash-on-delivery payment for the balance
     const payment = await prisma.payment.findFirst({
-      where: { bookingId },
+      where: { bookingId, method: "UPI" },
+      orderBy: { createdAt: "desc" },
       select: { id: true, amount: true, status: true },
     });
 
-    const upiRegex = /^[a-zA-Z0-9._\-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{2,64}$/;
-    const rawEnvUpi = (
-      process.env.ADMIN_UPI_ID ||
-      process.env.UPI_ID ||
-      ""
-    ).trim();
-    const envUpi = rawEnvUpi && upiRegex.test(rawEnvUpi) ? rawEnvUpi : null;
+    const { adminUpiId, paymentGateway } = await getSystemSettings();
 
-    if (!envUpi) {
+    // Gateway checkout does not need the agency's UPI ID
+    if (!adminUpiId && paymentGateway === "manual") {
       return NextResponse.json(
         {
           success: false,
           message:
-            "Admin UPI ID is not configured or invalid. Please set a valid ADMIN_UPI_ID in environment.",
+            "Admin UPI ID is not configured or invalid. Please set it in admin settings or ADMIN_UPI_ID in environment.",
         },
         { status: 503 },
       );
@@ -98,7 +100,13 @@ async function getUPIInvoice(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: { booking, payment, adminUpiId: envUpi },
+      data: {
+        booking,
+        payment,
+        pricing: getBookingPriceBreakdown(booking),
+        adminUpiId,
+        gateway: paymentGateway,
+      },
     });
   } catch (error) {
     console.error("Failed to prepare UPI invoice:", error);
@@ -127,6 +135,18 @@ async function confirmUPIPayment(request: NextRequest) {
       );
     }
 
+    const { paymentGateway } = await getSystemSettings();
+    if (paymentGateway !== "manual") {
+      return NextResponse.json(
+        {
+          success: false,
+          message:
+            "Manual UPI references are not accepted. Please pay online.",
+        },
+        { status: 409 },
+      );
+    }
+
     // Verify booking eligibility
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
@@ -169,7 +189,7 @@ async function confirmUPIPayment(request: NextRequest) {
 
     // Find the latest payment record for this booking and update it
     const existing = await prisma.payment.findFirst({
-      where: { bookingId },
+      where: { bookingId, method: "UPI" },
       orderBy: { createdAt: "desc" },
       select: { id: true },
     });
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/db";
+import { handleUpiWebhook } from "@/lib/payment-webhook";
 
-// Minimal webhook mock: expects JSON { bookingId, status, upiTxnId } with header X-UPI-Signature matching WEBHOOK_SECRET
+// Gateway callback. Body: { bookingId, upiTxnId, status, amount, reason? }
+// Headers: X-UPI-Timestamp (unix seconds) and X-UPI-Signature, the hex
+// HMAC-SHA256 of `${timestamp}.${rawBody}` keyed with WEBHOOK_SECRET.
 export async function POST(request: NextRequest) {
   try {
     const secret = process.env.WEBHOOK_SECRET;
@@ -11,43 +13,25 @@ export async function POST(request: NextRequest) {
         { status: 503 },
       );
 
-    const signature =
-      request.headers.get("x-upi-signature") ||
-      request.headers.get("X-UPI-Signature");
-    if (!signature || signature !== secret) {
-      return NextResponse.json(
-        { success: false, message: "Unauthorized" },
-        { status: 401 },
-      );
-    }
-
-    const { bookingId, status, upiTxnId } = await request.json();
-    if (!bookingId || !status) {
-      return NextResponse.json(
-        { success: false, message: "Invalid payload" },
-        { status: 400 },
-      );
-    }
-
-    const payment = await prisma.payment.findFirst({
-      where: { bookingId },
-      orderBy: { createdAt: "desc" },
-    });
-    if (!payment)
-      return NextResponse.json(
-        { success: false, message: "Payment not found" },
-        { status: 404 },
-      );
-
-    const updated = await prisma.payment.update({
-      where: { id: payment.id },
-      data: {
-        status: status === 'SUCCESS' ? 'SUCCESS' : status === 'FAILED' ? 'FAILED' : 'PENDING',
-        upiTxnId: upiTxnId || payment.upiTxnId,
+    // Signature covers the exact bytes sent, so read the body as text
+    const rawBody = await request.text();
+    const result = await handleUpiWebhook(
+      rawBody,
+      {
+        signature: request.headers.get("x-upi-signature"),
+        timestamp: request.headers.get("x-upi-timestamp"),
       },
-    });
+      secret,
+    );
 
-    return NextResponse.json({ success: true, data: updated });
+    return NextResponse.json(
+      {
+        success: result.httpStatus < 400,
+        message: result.message,
+        data: { outcome: result.outcome, paymentId: result.paymentId },
+      },
+      { status: result.httpStatus },
+    );
   } catch (e) {
     console.error("Webhook error:", e);
     return NextResponse.json(
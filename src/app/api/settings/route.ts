@@ -1,26 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { resolveUnitPricing } from "@/lib/pricing";
+import { getSystemSettings } from "@/lib/settings";
 
 // GET: Fetch public system settings
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    void _request;
-    // Get UPI ID from environment variables
-    const upiRegex = /^[a-zA-Z0-9._\-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{2,64}$/;
-    const rawEnvUpi = (
-      process.env.ADMIN_UPI_ID ||
-      process.env.UPI_ID ||
-      ""
-    ).trim();
-    const adminUpiId = rawEnvUpi && upiRegex.test(rawEnvUpi) ? rawEnvUpi : null;
+    // Admin-managed settings (fall back to environment when unset)
+    const settings = await getSystemSettings();
 
-    // Fixed pricing
-    const pricePerCylinder = 1100;
+    // Current pricing from the active price list for the requested type
+    const cylinderType =
+      request.nextUrl.searchParams.get("cylinderType") || undefined;
+    const pricing = await resolveUnitPricing(prisma, cylinderType);
 
     return NextResponse.json({
       success: true,
       data: {
-        adminUpiId,
-        pricePerCylinder,
+        adminUpiId: settings.adminUpiId,
+        agencyName: settings.agencyName,
+        deliverySlaDays: settings.deliverySlaDays,
+        paymentGateway: settings.paymentGateway,
+        cylinderType: pricing.cylinderType,
+        pricePerCylinder: pricing.unitPrice,
+        deliveryCharge: pricing.deliveryCharge,
+        gstRate: pricing.gstRate,
       },
     });
   } catch (error) {
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { withMiddleware } from "@/lib/api-middleware";
+import { NotFoundError } from "@/lib/error-handler";
+import { kycDocumentHeaders, readKycDocument } from "@/lib/kyc";
+
+// GET: a proof the customer uploaded for one of their connections
+async function getDocumentHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const params = await (
+    context as unknown as {
+      params?: Promise<{ id?: string; documentId?: string }>;
+    }
+  )?.params;
+  const session = context?.session as { user: { id: string } };
+  if (!params?.id || !params.documentId) {
+    throw new NotFoundError("Document not found");
+  }
+
+  const connection = await prisma.connection.findFirst({
+    where: { id: params.id, userId: session.user.id },
+    select: { transferredAt: true },
+  });
+  if (!connection) throw new NotFoundError("Document not found");
+
+  // Proofs from before a transfer belong to the previous holder
+  const { document, data } = await readKycDocument(
+    params.id,
+    params.documentId,
+    connection.transferredAt,
+  );
+  return new NextResponse(new Uint8Array(data), {
+    headers: kycDocumentHeaders(document),
+  });
+}
+
+export const GET = withMiddleware(getDocumentHandler, { requireAuth: true });
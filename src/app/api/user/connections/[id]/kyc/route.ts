@@ -0,0 +1,78 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withMiddleware, successResponse } from "@/lib/api-middleware";
+import { NotFoundError, ValidationError } from "@/lib/error-handler";
+import {
+  kycDocumentSelect,
+  kycDocumentsSince,
+  parseKycDocumentKind,
+  uploadKycDocument,
+} from "@/lib/kyc";
+
+async function resolveConnection(context?: Record<string, unknown>) {
+  const params = await (
+    context as unknown as { params?: Promise<{ id?: string }> }
+  )?.params;
+  const session = context?.session as { user: { id: string } };
+  const connection = params?.id
+    ? await prisma.connection.findFirst({
+        where: { id: params.id, userId: session.user.id },
+        select: { id: true, transferredAt: true },
+      })
+    : null;
+  if (!connection) throw new NotFoundError("Connection not found");
+  return {
+    connectionId: connection.id,
+    transferredAt: connection.transferredAt,
+    userId: session.user.id,
+  };
+}
+
+// GET - KYC status of the connection and the proofs uploaded so far
+async function getKycHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const { connectionId, transferredAt } = await resolveConnection(context);
+  const kyc = await prisma.connection.findUniqueOrThrow({
+    where: { id: connectionId },
+    select: {
+      kycStatus: true,
+      kycReviewedAt: true,
+      kycRejectionReason: true,
+      kycDocuments: {
+        where: kycDocumentsSince(transferredAt),
+        select: kycDocumentSelect,
+        orderBy: { createdAt: "desc" },
+      },
+    },
+  });
+  return successResponse(kyc, "KYC retrieved");
+}
+
+// POST - Upload an ID or address proof as multipart form data (kind, file)
+async function uploadKycHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const { connectionId, userId } = await resolveConnection(context);
+
+  const form = await request.formData().catch(() => null);
+  const file = form?.get("file");
+  if (!(file instanceof File)) {
+    throw new ValidationError("Choose a file to upload", { field: "file" });
+  }
+  const kind = parseKycDocumentKind(form?.get("kind"));
+
+  const document = await uploadKycDocument(connectionId, kind, file, userId);
+  return successResponse(document, "Document uploaded", 201);
+}
+
+export const GET = withMiddleware(getKycHandler, {
+  requireAuth: true,
+  validateContentType: false,
+});
+export const POST = withMiddleware(uploadKycHandler, {
+  requireAuth: true,
+  validateContentType: false,
+});
@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  withAuth,
+  parseRequestBody,
+  successResponse,
+} from "@/lib/api-middleware";
+import { connectionSchema } from "@/lib/validation";
+import { createConnection, getUserConnections } from "@/lib/connections";
+
+// GET - The user's gas connections with quota and next refill date
+async function listConnectionsHandler(
+  _request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } } | undefined;
+  if (!session?.user?.id) {
+    throw new Error("Session not found");
+  }
+
+  const connections = await getUserConnections(session.user.id);
+  return successResponse(connections, "Connections retrieved");
+}
+
+// POST - Apply for another connection; an admin activates it after KYC
+async function applyConnectionHandler(
+  request: NextRequest,
+  context?: Record<string, unknown>,
+) {
+  const session = context?.session as { user: { id: string } } | undefined;
+  if (!session?.user?.id) {
+    throw new Error("Session not found");
+  }
+  const userId = session.user.id;
+
+  const payload = connectionSchema.parse(await parseRequestBody(request));
+  const connection = await prisma.$transaction((tx) =>
+    createConnection(tx, { ...payload, userId, status: "PENDING" }),
+  );
+
+  return successResponse(
+    connection,
+    "Connection requested. It can be booked once approved.",
+    201,
+  );
+}
+
+export const GET = withAuth(listConnectionsHandler);
+export const POST = withAuth(applyConnectionHandler);
@@ -4,6 +4,7 @@ import { profileUpdateSchema } from "@/lib/validation";
 import { withAuth, successResponse, errorResponse } from "@/lib/api-middleware";
 import { NotFoundError } from "@/lib/error-handler";
 import { sanitizeInput } from "@/lib/security";
+import { getTotalRemainingQuota } from "@/lib/connections";
 import { Prisma } from "@prisma/client";
 
 // GET - Get user profile
@@ -33,7 +34,6 @@ async function getProfileHandler(
       phone: true,
       address: true,
       role: true,
-      remainingQuota: true,
       emailVerified: true,
       createdAt: true,
       updatedAt: true,
@@ -46,7 +46,11 @@ async function getProfileHandler(
     throw new NotFoundError("User profile not found");
   }
 
-  return successResponse(user, "Profile retrieved successfully");
+  return successResponse(
+    // Quota left across the user's active connections
+    { ...user, remainingQuota: await getTotalRemainingQuota(user.id) },
+    "Profile retrieved successfully",
+  );
 }
 
 // PUT - Update user profile
@@ -92,7 +96,6 @@ async function updateProfileHandler(
           phone: true,
           address: true,
           role: true,
-          remainingQuota: true,
           updatedAt: true,
         },
       });
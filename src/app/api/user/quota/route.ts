@@ -1,8 +1,9 @@
 import { NextRequest } from "next/server";
-import { prisma } from "@/lib/db";
 import { withAuth, successResponse } from "@/lib/api-middleware";
+import { getQuotaLedger } from "@/lib/quota";
+import { getUserConnections } from "@/lib/connections";
 
-// GET - Get user's remaining quota
+// GET - Get user's remaining quota and quota history per connection
 async function getQuotaHandler(
   request: NextRequest,
   context?: Record<string, unknown>,
@@ -12,19 +13,32 @@ async function getQuotaHandler(
     throw new Error("Session not found");
   }
 
-  const user = await prisma.user.findUnique({
-    where: { id: session.user.id },
-    select: {
-      remainingQuota: true,
-    },
-  });
-
-  if (!user) {
-    throw new Error("User not found");
-  }
+  const connections = await getUserConnections(session.user.id);
 
   return successResponse(
-    { remainingQuota: user.remainingQuota },
+    {
+      // Quota left across active connections
+      remainingQuota: connections
+        .filter((c) => c.status === "ACTIVE")
+        .reduce((sum, c) => sum + c.remainingQuota, 0),
+      connections: await Promise.all(
+        connections.map(async (connection) => ({
+          id: connection.id,
+          consumerNumber: connection.consumerNumber,
+          holderName: connection.holderName,
+          status: connection.status,
+          // Bookings need an approved KYC
+          kycStatus: connection.kycStatus,
+          kycRejectionReason: connection.kycRejectionReason,
+          kycDocuments: connection.kycDocuments,
+          remainingQuota: connection.remainingQuota,
+          quotaPeriod: connection.quotaPeriod,
+          // Null when the connection may book now
+          nextEligibleDate: connection.nextEligibleDate,
+          ledger: await getQuotaLedger(connection.id),
+        })),
+      ),
+    },
     "Quota retrieved successfully",
   );
 }
@@ -0,0 +1,552 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { toast } from "react-hot-toast";
+import PartnerNavbar from "@/components/PartnerNavbar";
+import SignaturePad from "@/components/SignaturePad";
+import { Card, CardContent } from "@/components/ui";
+import {
+  MapPin,
+  Phone,
+  Package,
+  IndianRupee,
+  AlertCircle,
+  Camera,
+} from "lucide-react";
+import { formatCurrency } from "@/lib/utils";
+
+type DeliveryStatus =
+  | "ASSIGNED"
+  | "PICKED_UP"
+  | "OUT_FOR_DELIVERY"
+  | "DELIVERED"
+  | "FAILED";
+
+type Assignment = {
+  id: string;
+  bookingId: string;
+  status: DeliveryStatus;
+  nextStatuses: DeliveryStatus[];
+  scheduledDate?: string | null;
+  scheduledTime?: string | null;
+  sequence?: number | null;
+  priority?: string | null;
+  notes?: string | null;
+  failureReason?: string | null;
+  attempts: number;
+  customerName: string;
+  customerPhone: string;
+  address: string;
+  quantity: number;
+  cylinderName: string;
+  bookingNotes?: string | null;
+  amountToCollect: number;
+};
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  ASSIGNED: "bg-blue-100 text-blue-800",
+  PICKED_UP: "bg-yellow-100 text-yellow-800",
+  OUT_FOR_DELIVERY: "bg-purple-100 text-purple-800",
+  DELIVERED: "bg-green-100 text-green-800",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+const ACTION_LABELS: Record<DeliveryStatus, string> = {
+  ASSIGNED: "Assigned",
+  PICKED_UP: "Picked Up",
+  OUT_FOR_DELIVERY: "Out for Delivery",
+  DELIVERED: "Delivered",
+  FAILED: "Failed",
+};
+
+const FAILURE_CODES = [
+  { value: "CUSTOMER_ABSENT", label: "Customer not available" },
+  { value: "ADDRESS_NOT_FOUND", label: "Address not found" },
+  { value: "REFUSED", label: "Customer refused delivery" },
+  { value: "OTHER", label: "Other" },
+];
+
+type DeliveryProof = {
+  otp: string;
+  receivedByName: string;
+  signature: string;
+  photo: string;
+  emptiesCollected: string;
+};
+
+const EMPTY_PROOF: DeliveryProof = {
+  otp: "",
+  receivedByName: "",
+  signature: "",
+  photo: "",
+  emptiesCollected: "",
+};
+
+// Shrinks a camera photo to a JPEG data URL small enough to upload
+function readPhoto(file: File, maxSide = 1280): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    img.onload = () => {
+      const scale = Math.min(1, maxSide / Math.max(img.width, img.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext("2d")?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL("image/jpeg", 0.8));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read photo"));
+    };
+    img.src = url;
+  });
+}
+
+export default function PartnerDashboardPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [failing, setFailing] = useState<string | null>(null);
+  const [failureCode, setFailureCode] = useState("");
+  const [reason, setReason] = useState("");
+  const [delivering, setDelivering] = useState<string | null>(null);
+  const [proof, setProof] = useState<DeliveryProof>(EMPTY_PROOF);
+  const [resending, setResending] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === "loading") return;
+    if (!session) router.push("/login");
+    else if (session.user.role !== "DELIVERY_PARTNER") router.push("/user");
+  }, [session, status, router]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/partner/assignments?date=${date}`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        setAssignments(json.data.assignments || []);
+      } else {
+        toast.error(json.message || "Failed to load deliveries");
+      }
+    } catch (e) {
+      console.error("Failed to load deliveries", e);
+      toast.error("Failed to load deliveries");
+    } finally {
+      setLoading(false);
+    }
+  }, [date]);
+
+  useEffect(() => {
+    if (session?.user?.role === "DELIVERY_PARTNER") {
+      void load();
+    }
+  }, [session, load]);
+
+  const updateStatus = async (
+    assignment: Assignment,
+    next: DeliveryStatus,
+    extra: {
+      failureCode?: string;
+      reason?: string;
+      emptiesCollected?: number;
+    } & Partial<
+      Omit<DeliveryProof, "emptiesCollected">
+    > = {},
+  ) => {
+    setUpdating(assignment.id);
+    try {
+      const res = await fetch(
+        `/api/partner/assignments/${assignment.id}/status`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            status: next,
+            ...Object.fromEntries(
+              Object.entries(extra).filter(([, value]) => value),
+            ),
+          }),
+        },
+      );
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success(`Marked ${ACTION_LABELS[next].toLowerCase()}`);
+        setFailing(null);
+        setFailureCode("");
+        setReason("");
+        setDelivering(null);
+        setProof(EMPTY_PROOF);
+        if (next === "OUT_FOR_DELIVERY") {
+          toast("Delivery OTP sent to the customer");
+        }
+        await load();
+      } else {
+        toast.error(json.message || "Failed to update delivery");
+      }
+    } catch (e) {
+      console.error("Failed to update delivery", e);
+      toast.error("Failed to update delivery");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const resendOtp = async (assignment: Assignment) => {
+    setResending(assignment.id);
+    try {
+      const res = await fetch(`/api/partner/assignments/${assignment.id}/otp`, {
+        method: "POST",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success(json.message || "OTP sent to the customer");
+      } else {
+        toast.error(json.message || "Failed to resend OTP");
+      }
+    } catch (e) {
+      console.error("Failed to resend OTP", e);
+      toast.error("Failed to resend OTP");
+    } finally {
+      setResending(null);
+    }
+  };
+
+  const choosePhoto = async (file?: File) => {
+    if (!file) return;
+    try {
+      const photo = await readPhoto(file);
+      setProof((p) => ({ ...p, photo }));
+    } catch (e) {
+      console.error("Failed to read photo", e);
+      toast.error("Could not read that photo");
+    }
+  };
+
+  if (status === "loading") return null;
+  if (!session || session.user.role !== "DELIVERY_PARTNER") return null;
+
+  const open = assignments.filter(
+    (a) => a.status !== "DELIVERED" && a.status !== "FAILED",
+  );
+  const cashToCollect = open.reduce((sum, a) => sum + a.amountToCollect, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <PartnerNavbar />
+      <main className="max-w-3xl mx-auto py-4 px-4 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">My Deliveries</h1>
+            <p className="text-sm text-gray-600">
+              {open.length} pending • {formatCurrency(cashToCollect)} cash to
+              collect
+            </p>
+          </div>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="w-8 h-8 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : assignments.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">
+            No deliveries for this day.
+          </p>
+        ) : (
+          assignments.map((assignment) => (
+            <Card key={assignment.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {assignment.sequence ? `${assignment.sequence}. ` : ""}
+                      {assignment.customerName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      #{assignment.bookingId.slice(-8).toUpperCase()}
+                      {assignment.scheduledTime
+                        ? ` • ${assignment.scheduledTime}`
+                        : ""}
+                      {assignment.priority && assignment.priority !== "normal"
+                        ? ` • ${assignment.priority} priority`
+                        : ""}
+                    </p>
+                  </div>
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[assignment.status]}`}
+                  >
+                    {ACTION_LABELS[assignment.status]}
+                  </span>
+                </div>
+
+                <div className="space-y-1 text-sm text-gray-700">
+                  <p className="flex items-start gap-2">
+                    <MapPin className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                    {assignment.address}
+                  </p>
+                  <a
+                    href={`tel:${assignment.customerPhone}`}
+                    className="flex items-center gap-2 text-emerald-700"
+                  >
+                    <Phone className="w-4 h-4" />
+                    {assignment.customerPhone}
+                  </a>
+                  <p className="flex items-center gap-2">
+                    <Package className="w-4 h-4 text-gray-400" />
+                    {assignment.quantity} × {assignment.cylinderName}
+                  </p>
+                  {assignment.amountToCollect > 0 && (
+                    <p className="flex items-center gap-2 font-medium text-amber-700">
+                      <IndianRupee className="w-4 h-4" />
+                      Collect {formatCurrency(assignment.amountToCollect)} in
+                      cash
+                    </p>
+                  )}
+                  {(assignment.notes || assignment.bookingNotes) && (
+                    <p className="text-xs text-gray-500">
+                      {assignment.notes || assignment.bookingNotes}
+                    </p>
+                  )}
+                  {assignment.attempts > 1 && (
+                    <p className="text-xs font-medium text-orange-700">
+                      Reattempt: delivery attempt {assignment.attempts}
+                    </p>
+                  )}
+                  {assignment.failureReason && (
+                    <p className="flex items-center gap-2 text-xs text-red-600">
+                      <AlertCircle className="w-4 h-4" />
+                      {assignment.failureReason}
+                    </p>
+                  )}
+                </div>
+
+                {failing === assignment.id ? (
+                  <div className="space-y-2">
+                    <select
+                      value={failureCode}
+                      onChange={(e) => setFailureCode(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">Choose a reason…</option>
+                      {FAILURE_CODES.map((code) => (
+                        <option key={code.value} value={code.value}>
+                          {code.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      maxLength={300}
+                      placeholder={
+                        failureCode === "OTHER"
+                          ? "Describe what happened"
+                          : "Add a note (optional)"
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() =>
+                          void updateStatus(assignment, "FAILED", {
+                            failureCode,
+                            reason: reason.trim(),
+                          })
+                        }
+                        disabled={
+                          !failureCode ||
+                          (reason.trim().length < 3 &&
+                            (failureCode === "OTHER" ||
+                              reason.trim().length > 0)) ||
+                          updating === assignment.id
+                        }
+                        className="flex-1 px-3 py-2 rounded-lg bg-red-600 text-white text-sm hover:bg-red-700 disabled:opacity-50"
+                      >
+                        Confirm Failed Delivery
+                      </button>
+                      <button
+                        onClick={() => {
+                          setFailing(null);
+                          setFailureCode("");
+                          setReason("");
+                        }}
+                        className="px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        Back
+                      </button>
+                    </div>
+                  </div>
+                ) : delivering === assignment.id ? (
+                  <div className="space-y-2">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={proof.otp}
+                      onChange={(e) =>
+                        setProof((p) => ({
+                          ...p,
+                          otp: e.target.value.replace(/\D/g, "").slice(0, 6),
+                        }))
+                      }
+                      placeholder="6-digit OTP from customer"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-center text-lg tracking-widest"
+                    />
+                    <input
+                      type="text"
+                      value={proof.receivedByName}
+                      onChange={(e) =>
+                        setProof((p) => ({
+                          ...p,
+                          receivedByName: e.target.value,
+                        }))
+                      }
+                      maxLength={100}
+                      placeholder="Received by (name)"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <label className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                      Empty cylinders collected
+                      <input
+                        type="number"
+                        min={0}
+                        max={assignment.quantity}
+                        value={proof.emptiesCollected}
+                        onChange={(e) =>
+                          setProof((p) => ({
+                            ...p,
+                            emptiesCollected: e.target.value,
+                          }))
+                        }
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm text-center"
+                      />
+                    </label>
+                    <SignaturePad
+                      onChange={(signature) =>
+                        setProof((p) => ({ ...p, signature }))
+                      }
+                    />
+                    <label className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 cursor-pointer hover:bg-gray-50">
+                      <Camera className="w-4 h-4" />
+                      {proof.photo ? "Retake photo" : "Add photo (optional)"}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        className="hidden"
+                        onChange={(e) => void choosePhoto(e.target.files?.[0])}
+                      />
+                    </label>
+                    {proof.photo && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={proof.photo}
+                        alt="Delivery photo"
+                        className="h-24 rounded-lg object-cover"
+                      />
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() =>
+                          void updateStatus(assignment, "DELIVERED", {
+                            ...proof,
+                            receivedByName: proof.receivedByName.trim(),
+                            emptiesCollected:
+                              parseInt(proof.emptiesCollected) || undefined,
+                          })
+                        }
+                        disabled={
+                          proof.otp.length !== 6 ||
+                          proof.receivedByName.trim().length < 2 ||
+                          updating === assignment.id
+                        }
+                        className="flex-1 px-3 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+                      >
+                        {updating === assignment.id
+                          ? "Updating..."
+                          : "Confirm Delivery"}
+                      </button>
+                      <button
+                        onClick={() => void resendOtp(assignment)}
+                        disabled={resending === assignment.id}
+                        className="px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {resending === assignment.id ? "Sending..." : "Resend OTP"}
+                      </button>
+                      <button
+                        onClick={() => {
+                          setDelivering(null);
+                          setProof(EMPTY_PROOF);
+                        }}
+                        className="px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        Back
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  assignment.nextStatuses.length > 0 && (
+                    <div className="flex gap-2">
+                      {assignment.nextStatuses
+                        .filter((next) => next !== "FAILED")
+                        .map((next) => (
+                          <button
+                            key={next}
+                            onClick={() => {
+                              if (next === "DELIVERED") {
+                                setFailing(null);
+                                setProof({
+                                  ...EMPTY_PROOF,
+                                  emptiesCollected: String(assignment.quantity),
+                                });
+                                setDelivering(assignment.id);
+                              } else {
+                                void updateStatus(assignment, next);
+                              }
+                            }}
+                            disabled={updating === assignment.id}
+                            className="flex-1 px-3 py-2 rounded-lg bg-emerald-600 text-white text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+                          >
+                            {updating === assignment.id
+                              ? "Updating..."
+                              : `Mark ${ACTION_LABELS[next]}`}
+                          </button>
+                        ))}
+                      {assignment.nextStatuses.includes("FAILED") && (
+                        <button
+                          onClick={() => setFailing(assignment.id)}
+                          disabled={updating === assignment.id}
+                          className="px-3 py-2 rounded-lg border border-red-300 text-red-700 text-sm hover:bg-red-50 disabled:opacity-50"
+                        >
+                          Failed
+                        </button>
+                      )}
+                    </div>
+                  )
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
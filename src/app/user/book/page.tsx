@@ -13,28 +13,71 @@ import {
 } from "@/components/ui";
 import { Button } from "@/components/ui";
 import { Input } from "@/components/ui";
-import { CreditCard, MessageSquare, CheckCircle2 } from "lucide-react";
+import { CreditCard, MessageSquare, CheckCircle2, Clock } from "lucide-react";
 import { toast } from "react-hot-toast";
 import UserNavbar from "@/components/UserNavbar";
 
 type PaymentMethod = "UPI" | "COD";
 
+type DeliverySlotOption = {
+  id: string;
+  window: string;
+  remaining: number;
+};
+
+type BookingConnection = {
+  id: string;
+  consumerNumber: string;
+  holderName: string;
+  remainingQuota: number;
+  nextEligibleDate: string | null;
+};
+
+type CylinderOption = {
+  code: string;
+  name: string;
+  weightKg: number;
+  category: "DOMESTIC" | "COMMERCIAL";
+  totalAvailable: number;
+  unitPrice: number;
+};
+
 export default function BookCylinderPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
 
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("COD");
+  const [advanceAmount, setAdvanceAmount] = useState("");
   const [notes, setNotes] = useState("");
   const [quantity, setQuantity] = useState<number>(1);
   const [receiverName, setReceiverName] = useState("");
   const [receiverPhone, setReceiverPhone] = useState("");
   const [expectedDate, setExpectedDate] = useState<string>("");
+  const [slots, setSlots] = useState<DeliverySlotOption[]>([]);
+  const [slotArea, setSlotArea] = useState<string | null>(null);
+  const [deliverySlotId, setDeliverySlotId] = useState("");
+  const [slotsLoading, setSlotsLoading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
-  const [remainingQuota, setRemainingQuota] = useState<number | null>(null);
+  const [connections, setConnections] = useState<BookingConnection[]>([]);
+  const [awaitingKyc, setAwaitingKyc] = useState(false);
+  const [connectionId, setConnectionId] = useState("");
   const [quotaLoading, setQuotaLoading] = useState(true);
-  const [availableStock, setAvailableStock] = useState<number | null>(null);
+  const [totalStock, setTotalStock] = useState<number | null>(null);
+  const [cylinderTypes, setCylinderTypes] = useState<CylinderOption[]>([]);
+  const [cylinderType, setCylinderType] = useState("");
+  const [stockLocation, setStockLocation] = useState("");
   const [stockLoading, setStockLoading] = useState(true);
+  const [paymentGateway, setPaymentGateway] = useState("manual");
+
+  const selectedType = cylinderTypes.find((t) => t.code === cylinderType);
+  const availableStock = selectedType ? selectedType.totalAvailable : totalStock;
+
+  // Quota and refill gap belong to the connection being booked for
+  const selectedConnection = connections.find((c) => c.id === connectionId);
+  const remainingQuota = selectedConnection?.remainingQuota ?? 0;
+  const nextEligibleDate = selectedConnection?.nextEligibleDate || null;
+  const totalQuota = connections.reduce((sum, c) => sum + c.remainingQuota, 0);
 
   useEffect(() => {
     if (status === "loading") return;
@@ -45,22 +88,56 @@ export default function BookCylinderPage() {
 
   const loadProfile = useCallback(async () => {
     try {
-      const [profileRes, stockRes] = await Promise.all([
+      const [profileRes, stockRes, settingsRes, quotaRes] = await Promise.all([
         fetch("/api/user/profile"),
-        fetch("/api/bookings/stock")
+        fetch("/api/bookings/stock"),
+        fetch("/api/settings"),
+        fetch("/api/user/quota"),
       ]);
 
+      if (quotaRes.ok) {
+        const json = await quotaRes.json();
+        const active: (BookingConnection & { kycStatus: string })[] = (
+          json.data?.connections || []
+        ).filter((c: { status: string }) => c.status === "ACTIVE");
+        // Only connections with approved KYC can be booked
+        setAwaitingKyc(active.some((c) => c.kycStatus !== "APPROVED"));
+        const bookable = active.filter((c) => c.kycStatus === "APPROVED");
+        setConnections(bookable);
+        // Start on the first connection that still has quota
+        setConnectionId(
+          (prev) =>
+            prev ||
+            (bookable.find((c) => c.remainingQuota > 0) || bookable[0])?.id ||
+            "",
+        );
+      }
+
+      if (settingsRes.ok) {
+        const json = await settingsRes.json();
+        setPaymentGateway(json.data?.paymentGateway || "manual");
+      }
+
       if (profileRes.ok) {
         const json = await profileRes.json();
         const data = json.data || {};
         if (!receiverName) setReceiverName(data.name || "");
         if (!receiverPhone) setReceiverPhone(data.phone || "");
-        setRemainingQuota(data.remainingQuota || 0);
       }
 
       if (stockRes.ok) {
         const json = await stockRes.json();
-        setAvailableStock(json.data.totalAvailable);
+        const types: CylinderOption[] = json.data.types || [];
+        setTotalStock(json.data.totalAvailable);
+        setStockLocation(json.data.location?.name || "");
+        setCylinderTypes(types);
+        // Preselect the first type that is in stock
+        setCylinderType(
+          (prev) =>
+            prev ||
+            (types.find((t) => t.totalAvailable > 0) || types[0])?.code ||
+            "",
+        );
       }
     } catch {
       // no-op
@@ -74,6 +151,36 @@ export default function BookCylinderPage() {
     void loadProfile();
   }, [loadProfile]);
 
+  // Slots depend on the date and the area of the connection's address
+  useEffect(() => {
+    setDeliverySlotId("");
+    setSlots([]);
+    setSlotArea(null);
+    if (!expectedDate) return;
+    let cancelled = false;
+    setSlotsLoading(true);
+    const query = new URLSearchParams({ date: expectedDate });
+    if (connectionId) query.set("connectionId", connectionId);
+    fetch(`/api/bookings/slots?${query.toString()}`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((json) => {
+        if (cancelled || !json.success) return;
+        const options: DeliverySlotOption[] = json.data.slots || [];
+        setSlots(options);
+        setSlotArea(json.data.area);
+        setDeliverySlotId(options.find((s) => s.remaining > 0)?.id || "");
+      })
+      .catch((error) => console.error("Failed to load delivery slots:", error))
+      .finally(() => {
+        if (!cancelled) setSlotsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [expectedDate, connectionId]);
+
+  const selectedSlot = slots.find((s) => s.id === deliverySlotId);
+
   const formatInputDate = (d: Date) => d.toISOString().slice(0, 10);
   const minDate = useMemo(() => formatInputDate(new Date()), []);
   const maxDate = useMemo(() => {
@@ -92,6 +199,10 @@ export default function BookCylinderPage() {
     ) {
       e.receiverPhone = "Phone must be 10 digits";
     }
+    if (!selectedConnection) e.connectionId = "Choose a connection";
+    if (nextEligibleDate) {
+      e.quantity = `Your next refill can be booked from ${new Date(nextEligibleDate).toLocaleDateString()}`;
+    }
     if (quantity < 1) e.quantity = "Quantity must be at least 1";
     if (quantity > (remainingQuota || 0))
       e.quantity = `You can only book up to ${remainingQuota} cylinder(s)`;
@@ -101,6 +212,18 @@ export default function BookCylinderPage() {
     if (expectedDate && new Date(expectedDate) < new Date()) {
       e.expectedDate = "Expected date cannot be in the past";
     }
+    if (slots.length > 0 && !deliverySlotId) {
+      e.deliverySlotId = slots.some((s) => s.remaining > 0)
+        ? "Choose a delivery slot"
+        : "All slots are full on this date. Please choose another date";
+    }
+    if (
+      paymentMethod === "UPI" &&
+      advanceAmount.trim() &&
+      !/^[1-9][0-9]*$/.test(advanceAmount.trim())
+    ) {
+      e.advanceAmount = "Advance must be a whole amount in rupees";
+    }
     setErrors(e);
     return Object.keys(e).length === 0;
   };
@@ -109,31 +232,48 @@ export default function BookCylinderPage() {
     e.preventDefault();
     if (!validate()) return;
     setLoading(true);
+    // Only UPI bookings may pay part now and the rest on delivery
+    const advance =
+      paymentMethod === "UPI" && advanceAmount.trim()
+        ? Number(advanceAmount.trim())
+        : undefined;
     try {
-      if (paymentMethod === "UPI") {
+      if (paymentMethod === "UPI" && paymentGateway === "manual") {
         // Redirect to pre-payment page with necessary details via query params
         const params = new URLSearchParams({
           quantity: String(quantity),
+          connectionId,
+          cylinderType,
+          cylinderName: selectedType?.name || "",
           receiverName: receiverName.trim(),
           receiverPhone: receiverPhone.replace(/\s/g, ""),
           expectedDate: expectedDate || "",
           notes: notes.trim(),
         });
+        if (advance) params.set("advanceAmount", String(advance));
+        if (selectedSlot) {
+          params.set("deliverySlotId", selectedSlot.id);
+          params.set("deliveryWindow", selectedSlot.window);
+        }
         router.push(`/user/pay/upi/new?${params.toString()}`);
         return;
       }
 
-      // COD: Create booking immediately
+      // COD, or UPI through the payment gateway: create booking immediately
       const res = await fetch("/api/bookings", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           paymentMethod,
           quantity,
+          connectionId: connectionId || undefined,
+          cylinderType: cylinderType || undefined,
           receiverName: receiverName.trim(),
           receiverPhone: receiverPhone.replace(/\s/g, ""),
           expectedDate: expectedDate || undefined,
+          deliverySlotId: deliverySlotId || undefined,
           notes: notes.trim() || undefined,
+          advanceAmount: advance,
         }),
       });
       const data = await res.json();
@@ -141,6 +281,11 @@ export default function BookCylinderPage() {
         toast.error(data.message || "Failed to create booking");
         return;
       }
+      if (paymentMethod === "UPI") {
+        toast.success("Booking created. Complete your payment to confirm.");
+        router.push(`/user/pay/upi/${data.data.id}`);
+        return;
+      }
       toast.success("Booking created successfully");
       router.push("/user/bookings");
     } catch (err) {
@@ -162,8 +307,8 @@ export default function BookCylinderPage() {
     );
   }
 
-  // Check if user has quota remaining
-  if (remainingQuota !== null && remainingQuota <= 0) {
+  // Check if user has quota remaining on any active connection
+  if (totalQuota <= 0) {
     return (
       <div className="min-h-screen bg-gray-50">
         <UserNavbar />
@@ -185,11 +330,18 @@ export default function BookCylinderPage() {
               </svg>
             </div>
             <h1 className="text-3xl font-bold text-gray-900 mb-4">
-              Yearly Booking Limit Reached
+              {connections.length === 0
+                ? awaitingKyc
+                  ? "KYC Verification Pending"
+                  : "No Active Gas Connection"
+                : "Yearly Booking Limit Reached"}
             </h1>
             <p className="text-lg text-gray-600 mb-8">
-              We cannot accept new bookings from you at this time. Your yearly
-              quota of gas cylinders has been exhausted.
+              {connections.length === 0
+                ? awaitingKyc
+                  ? "Bookings open once the ID and address proofs for your connection are approved. You can upload them from your profile."
+                  : "Bookings can be made once one of your gas connections has been approved."
+                : "We cannot accept new bookings from you at this time. Your yearly quota of gas cylinders has been exhausted."}
             </p>
             <div className="space-y-4">
               <button
@@ -213,7 +365,7 @@ export default function BookCylinderPage() {
   }
 
   // Check if cylinder stock is available
-  if (availableStock !== null && availableStock <= 0) {
+  if (totalStock !== null && totalStock <= 0) {
     return (
       <div className="min-h-screen bg-gray-50">
         <UserNavbar />
@@ -275,6 +427,25 @@ export default function BookCylinderPage() {
                     </span>{" "}
                     cylinder(s) remaining this year
                   </p>
+                  {connections.length > 1 && (
+                    <select
+                      value={connectionId}
+                      onChange={(e) => setConnectionId(e.target.value)}
+                      className="mt-2 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                    >
+                      {connections.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.consumerNumber} · {c.holderName} (
+                          {c.remainingQuota} left)
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {errors.connectionId && (
+                    <p className="text-sm text-red-600 mt-1">
+                      {errors.connectionId}
+                    </p>
+                  )}
                 </div>
                 <div className="text-right">
                   <div className="text-2xl font-bold text-blue-600">
@@ -283,7 +454,7 @@ export default function BookCylinderPage() {
                   <div className="text-xs text-gray-500">Remaining</div>
                 </div>
               </div>
-              {remainingQuota !== null && remainingQuota <= 2 && (
+              {remainingQuota <= 2 && (
                 <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
                   <p className="text-sm text-yellow-800">
                     ⚠️ You&apos;re running low on cylinders. Only {remainingQuota}{" "}
@@ -291,6 +462,14 @@ export default function BookCylinderPage() {
                   </p>
                 </div>
               )}
+              {nextEligibleDate && (
+                <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm text-yellow-800">
+                    Your next refill can be booked from{" "}
+                    {new Date(nextEligibleDate).toLocaleDateString()}.
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -366,8 +545,80 @@ export default function BookCylinderPage() {
                       {errors.paymentMethod}
                     </p>
                   )}
+                  {paymentMethod === "UPI" && (
+                    <div className="mt-4">
+                      <label
+                        htmlFor="advanceAmount"
+                        className="block text-sm font-medium text-gray-700 mb-1"
+                      >
+                        Pay an advance only (optional)
+                      </label>
+                      <input
+                        id="advanceAmount"
+                        type="number"
+                        min={1}
+                        inputMode="numeric"
+                        value={advanceAmount}
+                        onChange={(e) => setAdvanceAmount(e.target.value)}
+                        placeholder="Full amount"
+                        className="w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Leave empty to pay in full. Any balance is collected as
+                        cash on delivery.
+                      </p>
+                      {errors.advanceAmount && (
+                        <p className="mt-1 text-sm text-red-600">
+                          {errors.advanceAmount}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </section>
 
+                {/* Cylinder type */}
+                {cylinderTypes.length > 1 && (
+                  <section>
+                    <h3 className="text-sm font-medium text-gray-700 mb-2">
+                      Cylinder Type
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                      {cylinderTypes.map((type) => (
+                        <button
+                          key={type.code}
+                          type="button"
+                          aria-pressed={cylinderType === type.code}
+                          disabled={type.totalAvailable <= 0}
+                          onClick={() => {
+                            setCylinderType(type.code);
+                            setQuantity(1);
+                          }}
+                          className={`p-4 border rounded-lg text-left hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                            cylinderType === type.code
+                              ? "border-blue-600 ring-2 ring-blue-200 bg-blue-50/30"
+                              : "border-gray-200"
+                          }`}
+                        >
+                          <p className="font-semibold text-gray-900 flex items-center gap-2">
+                            {type.name}
+                            {cylinderType === type.code && (
+                              <CheckCircle2 className="w-4 h-4 text-blue-600" />
+                            )}
+                          </p>
+                          <p className="text-sm text-gray-600">
+                            ₹{type.unitPrice} per cylinder
+                          </p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {type.totalAvailable > 0
+                              ? `${type.totalAvailable} in stock`
+                              : "Out of stock"}
+                          </p>
+                        </button>
+                      ))}
+                    </div>
+                  </section>
+                )}
+
                 {/* Details under payment method */}
                 <section className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
@@ -400,6 +651,7 @@ export default function BookCylinderPage() {
                     )}
                     <p className="mt-1 text-xs text-gray-500">
                       Maximum: {Math.min(remainingQuota || 0, availableStock || 0)} cylinder(s) available
+                      {stockLocation && ` · delivered from ${stockLocation}`}
                     </p>
                   </div>
 
@@ -425,6 +677,56 @@ export default function BookCylinderPage() {
                     )}
                   </div>
 
+                  {expectedDate && (slotsLoading || slotArea) && (
+                    <div className="md:col-span-2">
+                      <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-blue-600" />
+                        Delivery Slot{slotArea ? ` · ${slotArea}` : ""}
+                      </h3>
+                      {slotsLoading ? (
+                        <p className="text-sm text-gray-500">
+                          Loading slots...
+                        </p>
+                      ) : slots.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          No delivery slots on this day. We will schedule your
+                          delivery after approval.
+                        </p>
+                      ) : (
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                          {slots.map((slot) => (
+                            <button
+                              key={slot.id}
+                              type="button"
+                              aria-pressed={deliverySlotId === slot.id}
+                              disabled={slot.remaining <= 0}
+                              onClick={() => setDeliverySlotId(slot.id)}
+                              className={`p-3 border rounded-lg text-left hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                deliverySlotId === slot.id
+                                  ? "border-blue-600 ring-2 ring-blue-200 bg-blue-50/30"
+                                  : "border-gray-200"
+                              }`}
+                            >
+                              <p className="font-semibold text-gray-900 text-sm">
+                                {slot.window}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {slot.remaining > 0
+                                  ? `${slot.remaining} left`
+                                  : "Full"}
+                              </p>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {errors.deliverySlotId && (
+                        <p className="mt-2 text-sm text-red-600">
+                          {errors.deliverySlotId}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <div>
                     <Input
                       label="Receiver Name"
@@ -6,6 +6,8 @@ import { useSession } from "next-auth/react";
 import UserNavbar from "@/components/UserNavbar";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
 import { formatCurrency } from "@/lib/utils";
+import type { PriceBreakdown } from "@/lib/pricing";
+import type { PaymentBalance } from "@/lib/payment-balance";
 
 type Booking = {
   id: string;
@@ -14,9 +16,20 @@ type Booking = {
   userPhone: string;
   userAddress: string;
   quantity: number;
+  cylinderName?: string;
   paymentMethod: "COD" | "UPI";
   paymentStatus?: "PENDING" | "SUCCESS" | "FAILED" | "CANCELLED";
-  paymentAmount?: number; // in paise
+  paymentAmount?: number; // in rupees
+  pricing: PriceBreakdown;
+  payments?: {
+    id: string;
+    amount: number;
+    method: "COD" | "UPI";
+    status: "PENDING" | "SUCCESS" | "FAILED" | "CANCELLED";
+    upiTxnId?: string | null;
+    createdAt: string;
+  }[];
+  balance?: PaymentBalance;
   createdAt: string;
 };
 
@@ -70,10 +83,9 @@ export default function ReceiptPage() {
     );
   }
 
-  const amountRupees =
-    typeof booking.paymentAmount === "number"
-      ? booking.paymentAmount
-      : undefined;
+  const receivedPayments = (booking.payments ?? []).filter(
+    (p) => p.status === "SUCCESS",
+  );
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -122,7 +134,12 @@ export default function ReceiptPage() {
                       Payment Info
                     </h3>
                     <div className="text-sm text-gray-700">
-                      <p>Method: {booking.paymentMethod}</p>
+                      <p>
+                        Method:{" "}
+                        {booking.balance && booking.balance.methods.length > 1
+                          ? booking.balance.methods.join(" + ")
+                          : booking.paymentMethod}
+                      </p>
                       <p>Status: {booking.paymentStatus}</p>
                     </div>
                   </div>
@@ -139,14 +156,64 @@ export default function ReceiptPage() {
                     </thead>
                     <tbody>
                       <tr>
-                        <td className="px-4 py-3">Gas Cylinder</td>
+                        <td className="px-4 py-3">
+                          Gas Cylinder{booking.cylinderName ? ` (${booking.cylinderName})` : ""} @ {formatCurrency(booking.pricing.unitPrice)}
+                        </td>
                         <td className="px-4 py-3">{booking.quantity}</td>
                         <td className="px-4 py-3">
-                          {amountRupees != null
-                            ? formatCurrency(amountRupees)
-                            : "-"}
+                          {formatCurrency(booking.pricing.subtotal)}
+                        </td>
+                      </tr>
+                      {booking.pricing.deliveryCharge > 0 && (
+                        <tr>
+                          <td className="px-4 py-3" colSpan={2}>
+                            Delivery Charge
+                          </td>
+                          <td className="px-4 py-3">
+                            {formatCurrency(booking.pricing.deliveryCharge)}
+                          </td>
+                        </tr>
+                      )}
+                      {booking.pricing.gstRate > 0 && (
+                        <tr>
+                          <td className="px-4 py-3" colSpan={2}>
+                            GST ({booking.pricing.gstRate}%)
+                          </td>
+                          <td className="px-4 py-3">
+                            {formatCurrency(booking.pricing.gstAmount)}
+                          </td>
+                        </tr>
+                      )}
+                      <tr className="border-t font-semibold">
+                        <td className="px-4 py-3" colSpan={2}>
+                          Total
+                        </td>
+                        <td className="px-4 py-3">
+                          {formatCurrency(booking.pricing.total)}
                         </td>
                       </tr>
+                      {receivedPayments.map((p) => (
+                        <tr key={p.id}>
+                          <td className="px-4 py-3 text-gray-600" colSpan={2}>
+                            Paid via {p.method === "UPI" ? "UPI" : "Cash"} on{" "}
+                            {new Date(p.createdAt).toLocaleDateString()}
+                            {p.upiTxnId ? ` (Ref: ${p.upiTxnId})` : ""}
+                          </td>
+                          <td className="px-4 py-3 text-gray-600">
+                            -{formatCurrency(p.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                      {booking.balance && (
+                        <tr className="border-t font-semibold">
+                          <td className="px-4 py-3" colSpan={2}>
+                            Outstanding Balance
+                          </td>
+                          <td className="px-4 py-3">
+                            {formatCurrency(booking.balance.outstanding)}
+                          </td>
+                        </tr>
+                      )}
                     </tbody>
                   </table>
                 </div>
@@ -13,6 +13,7 @@ import {
   CardFooter,
 } from "@/components/ui";
 import { formatCurrency } from "@/lib/utils";
+import type { PriceBreakdown } from "@/lib/pricing";
 import QRCode from "qrcode";
 import { toast } from "react-hot-toast";
 
@@ -24,9 +25,41 @@ type Invoice = {
     user: { name: string; email: string; address: string; phone: string };
   };
   payment: { id: string; amount: number; status: string };
+  pricing: PriceBreakdown;
   adminUpiId?: string | null;
+  gateway?: "manual" | "mock" | "razorpay";
 };
 
+type GatewayOrder = {
+  provider: "mock" | "razorpay";
+  orderId: string;
+  amount: number;
+  checkout: Record<string, string | number>;
+};
+
+type GatewayCallback = {
+  orderId: string;
+  gatewayPaymentId: string;
+  signature: string;
+};
+
+// Minimal surface of Razorpay's checkout.js used below
+type RazorpayCheckout = new (options: Record<string, unknown>) => {
+  open: () => void;
+  on: (event: string, handler: () => void) => void;
+};
+
+const loadRazorpayScript = () =>
+  new Promise<boolean>((resolve) => {
+    const w = window as unknown as { Razorpay?: RazorpayCheckout };
+    if (w.Razorpay) return resolve(true);
+    const script = document.createElement("script");
+    script.src = "https://checkout.razorpay.com/v1/checkout.js";
+    script.onload = () => resolve(true);
+    script.onerror = () => resolve(false);
+    document.body.appendChild(script);
+  });
+
 export default function UPIPaymentPage() {
   const { data: session, status } = useSession();
   const params = useParams();
@@ -42,6 +75,8 @@ export default function UPIPaymentPage() {
   const [upiAppLoading, setUpiAppLoading] = useState(false);
   const isTxnValid = /^[A-Za-z0-9\-_.]{6,}$/.test((txnId || "").trim());
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [paying, setPaying] = useState(false);
+  const [mockOrderId, setMockOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     if (status === "loading") return;
@@ -138,6 +173,126 @@ export default function UPIPaymentPage() {
     }
   };
 
+  const verifyGatewayPayment = async (callback: GatewayCallback) => {
+    try {
+      const res = await fetch("/api/payments/gateway/verify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(callback),
+      });
+      const json = await res.json();
+      if (json.success && json.data.status === "SUCCESS") {
+        toast.success("Payment confirmed");
+        router.push("/user/bookings");
+      } else if (json.success && json.data.status === "PENDING") {
+        toast("Payment is processing. Use Refresh to check its status.");
+      } else {
+        toast.error(json.message || "Payment failed. Please try again.");
+      }
+    } catch (e) {
+      console.error("Payment verification error", e);
+      toast.error("Could not verify payment. Use Refresh to check status.");
+    } finally {
+      setPaying(false);
+      setMockOrderId(null);
+    }
+  };
+
+  const startGatewayPayment = async () => {
+    setPaying(true);
+    try {
+      const res = await fetch("/api/payments/gateway/order", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ bookingId }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.message || "Could not start payment");
+        setPaying(false);
+        return;
+      }
+      const order = json.data as GatewayOrder;
+
+      if (order.provider === "mock") {
+        setMockOrderId(order.orderId);
+        return;
+      }
+
+      if (!(await loadRazorpayScript())) {
+        toast.error("Could not load the payment window. Please retry.");
+        setPaying(false);
+        return;
+      }
+      const Razorpay = (window as unknown as { Razorpay: RazorpayCheckout })
+        .Razorpay;
+      const checkout = new Razorpay({
+        key: order.checkout.keyId,
+        amount: order.checkout.amount,
+        currency: "INR",
+        order_id: order.orderId,
+        name: "Gas Agency",
+        description: `Booking ${bookingId}`,
+        prefill: {
+          name: invoice?.booking.user.name,
+          email: invoice?.booking.user.email,
+          contact: invoice?.booking.user.phone,
+        },
+        method: { upi: true },
+        handler: (response: Record<string, string>) =>
+          void verifyGatewayPayment({
+            orderId: response.razorpay_order_id,
+            gatewayPaymentId: response.razorpay_payment_id,
+            signature: response.razorpay_signature,
+          }),
+        modal: { ondismiss: () => setPaying(false) },
+      });
+      checkout.open();
+    } catch (e) {
+      console.error("Gateway payment error", e);
+      toast.error("Could not start payment. Please try again.");
+      setPaying(false);
+    }
+  };
+
+  const completeMockPayment = async (outcome: "SUCCESS" | "FAILED") => {
+    if (!mockOrderId) return;
+    try {
+      const res = await fetch("/api/payments/gateway/mock/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: mockOrderId, outcome }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.message || "Mock checkout failed");
+        setPaying(false);
+        setMockOrderId(null);
+        return;
+      }
+      await verifyGatewayPayment(json.data as GatewayCallback);
+    } catch (e) {
+      console.error("Mock checkout error", e);
+      setPaying(false);
+      setMockOrderId(null);
+    }
+  };
+
+  const refreshInvoice = async () => {
+    try {
+      if (invoice?.gateway && invoice.gateway !== "manual") {
+        await fetch(
+          `/api/payments/gateway/status?bookingId=${encodeURIComponent(bookingId)}`,
+        );
+      }
+      const res = await fetch(
+        `/api/payments/upi?bookingId=${encodeURIComponent(bookingId)}`,
+      );
+      const json = await res.json();
+      if (json.success) setInvoice(json.data);
+    } catch {}
+  };
+
   if (status === "loading") return null;
   if (loading) {
     return (
@@ -219,8 +374,12 @@ export default function UPIPaymentPage() {
   }
 
   const qty = invoice.booking.quantity || 1;
-  const unitPrice = 1100; // Assuming a default unit price if not available in settings
-  const total = unitPrice * qty;
+  const { unitPrice, deliveryCharge, gstRate, gstAmount, total } =
+    invoice.pricing;
+  const useGateway = Boolean(invoice.gateway && invoice.gateway !== "manual");
+  const isPaid = invoice.payment?.status === "SUCCESS";
+  // With an advance booking only part of the total is paid over UPI
+  const amountDue = invoice.payment?.amount ?? total;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -258,10 +417,29 @@ export default function UPIPaymentPage() {
                       <span className="text-gray-500">Unit Price:</span>{" "}
                       {formatCurrency(unitPrice)}
                     </p>
+                    {deliveryCharge > 0 && (
+                      <p>
+                        <span className="text-gray-500">Delivery Charge:</span>{" "}
+                        {formatCurrency(deliveryCharge)}
+                      </p>
+                    )}
+                    {gstRate > 0 && (
+                      <p>
+                        <span className="text-gray-500">GST ({gstRate}%):</span>{" "}
+                        {formatCurrency(gstAmount)}
+                      </p>
+                    )}
                     <p className="font-semibold">
                       <span className="text-gray-500">Total:</span>{" "}
                       {formatCurrency(total)}
                     </p>
+                    {amountDue < total && (
+                      <p>
+                        <span className="text-gray-500">Advance via UPI:</span>{" "}
+                        {formatCurrency(amountDue)} (balance{" "}
+                        {formatCurrency(total - amountDue)} payable on delivery)
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="rounded-lg border border-gray-200 bg-white p-4">
@@ -289,106 +467,171 @@ export default function UPIPaymentPage() {
                 </div>
               </div>
 
-              {/* UPI QR */}
-              <div className="rounded-lg border border-gray-200 bg-white p-4">
-                <h3 className="text-sm font-medium text-gray-700 mb-3">
-                  Scan to Pay (UPI)
-                </h3>
-                <div className="flex flex-col md:flex-row items-center md:items-start gap-6">
-                  <div className="flex flex-col items-center gap-3">
-                    {qrDataUrl ? (
-                      <Image
-                        src={qrDataUrl}
-                        alt="UPI QR"
-                        width={192}
-                        height={192}
-                        className="w-48 h-48 rounded-md border"
-                      />
-                    ) : (
-                      <div className="w-48 h-48 rounded-md border flex items-center justify-center text-gray-500 text-sm">
-                        QR unavailable
+              {useGateway && (
+                <div className="rounded-lg border border-gray-200 bg-white p-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">
+                    Pay Online
+                  </h3>
+                  {isPaid ? (
+                    <p className="text-sm text-green-700">
+                      This booking is paid. Thank you!
+                    </p>
+                  ) : mockOrderId ? (
+                    <div className="space-y-3">
+                      <p className="text-sm text-gray-600">
+                        Test checkout: choose how this payment of{" "}
+                        {formatCurrency(amountDue)} should end.
+                      </p>
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => void completeMockPayment("SUCCESS")}
+                          className="px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700"
+                        >
+                          Simulate Success
+                        </button>
+                        <button
+                          onClick={() => void completeMockPayment("FAILED")}
+                          className="px-4 py-2 rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+                        >
+                          Simulate Failure
+                        </button>
                       </div>
-                    )}
+                    </div>
+                  ) : (
+                    <div className="space-y-3">
+                      {invoice.payment?.status === "FAILED" && (
+                        <p className="text-sm text-red-600">
+                          Your last payment attempt failed. You can try again.
+                        </p>
+                      )}
+                      <button
+                        onClick={() => void startGatewayPayment()}
+                        disabled={paying}
+                        className="inline-flex items-center h-10 px-4 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {paying ? (
+                          <>
+                            <span className="mr-2 inline-block w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                            Processing...
+                          </>
+                        ) : (
+                          `Pay ${formatCurrency(amountDue)} with UPI`
+                        )}
+                      </button>
+                      <p className="text-xs text-gray-500">
+                        Your payment is confirmed automatically; no transaction
+                        ID is needed.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* UPI QR */}
+              {!useGateway && (
+                <div className="rounded-lg border border-gray-200 bg-white p-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">
+                    Scan to Pay (UPI)
+                  </h3>
+                  <div className="flex flex-col md:flex-row items-center md:items-start gap-6">
+                    <div className="flex flex-col items-center gap-3">
+                      {qrDataUrl ? (
+                        <Image
+                          src={qrDataUrl}
+                          alt="UPI QR"
+                          width={192}
+                          height={192}
+                          className="w-48 h-48 rounded-md border"
+                        />
+                      ) : (
+                        <div className="w-48 h-48 rounded-md border flex items-center justify-center text-gray-500 text-sm">
+                          QR unavailable
+                        </div>
+                      )}
+                      <button
+                        onClick={() => {
+                          if (upiUrl) {
+                            setUpiAppLoading(true);
+                            window.location.href = upiUrl;
+                          }
+                        }}
+                        disabled={!upiUrl || upiAppLoading}
+                        className="px-4 py-2 rounded-lg bg-[#00baf2] text-white hover:bg-[#00a3d6] disabled:opacity-50"
+                      >
+                        {upiAppLoading ? (
+                          <>
+                            <span className="mr-2 inline-block w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                            Opening...
+                          </>
+                        ) : (
+                          "Pay with UPI App"
+                        )}
+                      </button>
+                    </div>
+                    <div className="text-sm text-gray-700">
+                      <p>
+                        <span className="text-gray-500">UPI ID:</span>{" "}
+                        {invoice?.adminUpiId || "N/A"}
+                      </p>
+                      <p>
+                        <span className="text-gray-500">Amount:</span>{" "}
+                        {formatCurrency(amountDue)}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-2">
+                        After payment, enter the Transaction ID below if
+                        prompted.
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Confirmation */}
+              {!useGateway && (
+                <div className="rounded-lg border border-gray-200 bg-white p-4">
+                  <h3 className="text-sm font-medium text-gray-700 mb-3">
+                    Confirm Payment
+                  </h3>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (isTxnValid && !submitting) {
+                        confirmPayment();
+                      }
+                    }}
+                    className="flex items-center gap-3"
+                  >
+                    <input
+                      value={txnId}
+                      onChange={(e) => setTxnId(e.target.value)}
+                      placeholder="Enter UPI Transaction ID"
+                      disabled={submitting}
+                      className="flex-1 h-10 rounded-md border border-gray-300 bg-white px-3 text-sm text-gray-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-50 disabled:bg-gray-50"
+                    />
                     <button
-                      onClick={() => {
-                        if (upiUrl) {
-                          setUpiAppLoading(true);
-                          window.location.href = upiUrl;
-                        }
-                      }}
-                      disabled={!upiUrl || upiAppLoading}
-                      className="px-4 py-2 rounded-lg bg-[#00baf2] text-white hover:bg-[#00a3d6] disabled:opacity-50"
+                      type="submit"
+                      disabled={!isTxnValid || submitting}
+                      aria-busy={submitting}
+                      className="inline-flex items-center h-10 px-4 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
                     >
-                      {upiAppLoading ? (
+                      {submitting ? (
                         <>
                           <span className="mr-2 inline-block w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                          Opening...
+                          Processing...
                         </>
                       ) : (
-                        "Pay with UPI App"
+                        "Confirm"
                       )}
                     </button>
-                  </div>
-                  <div className="text-sm text-gray-700">
-                    <p>
-                      <span className="text-gray-500">UPI ID:</span>{" "}
-                      {invoice?.adminUpiId || "N/A"}
+                  </form>
+                  {txnId && !isTxnValid && (
+                    <p className="mt-2 text-xs text-red-600">
+                      Enter a valid reference ID (min 6 characters; letters,
+                      numbers, - _ . allowed).
                     </p>
-                    <p>
-                      <span className="text-gray-500">Amount:</span>{" "}
-                      {formatCurrency(total)}
-                    </p>
-                    <p className="text-xs text-gray-500 mt-2">
-                      After payment, enter the Transaction ID below if prompted.
-                    </p>
-                  </div>
+                  )}
                 </div>
-              </div>
-
-              {/* Confirmation */}
-              <div className="rounded-lg border border-gray-200 bg-white p-4">
-                <h3 className="text-sm font-medium text-gray-700 mb-3">
-                  Confirm Payment
-                </h3>
-                <form
-                  onSubmit={(e) => {
-                    e.preventDefault();
-                    if (isTxnValid && !submitting) {
-                      confirmPayment();
-                    }
-                  }}
-                  className="flex items-center gap-3"
-                >
-                  <input
-                    value={txnId}
-                    onChange={(e) => setTxnId(e.target.value)}
-                    placeholder="Enter UPI Transaction ID"
-                    disabled={submitting}
-                    className="flex-1 h-10 rounded-md border border-gray-300 bg-white px-3 text-sm text-gray-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-50 disabled:bg-gray-50"
-                  />
-                  <button
-                    type="submit"
-                    disabled={!isTxnValid || submitting}
-                    aria-busy={submitting}
-                    className="inline-flex items-center h-10 px-4 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
-                  >
-                    {submitting ? (
-                      <>
-                        <span className="mr-2 inline-block w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                        Processing...
-                      </>
-                    ) : (
-                      "Confirm"
-                    )}
-                  </button>
-                </form>
-                {txnId && !isTxnValid && (
-                  <p className="mt-2 text-xs text-red-600">
-                    Enter a valid reference ID (min 6 characters; letters,
-                    numbers, - _ . allowed).
-                  </p>
-                )}
-              </div>
+              )}
             </CardContent>
             <CardFooter className="flex items-center justify-between">
               <button
@@ -398,15 +641,7 @@ export default function UPIPaymentPage() {
                 Back to History
               </button>
               <button
-                onClick={async () => {
-                  try {
-                    const res = await fetch(
-                      `/api/payments/upi?bookingId=${encodeURIComponent(bookingId)}`,
-                    );
-                    const json = await res.json();
-                    if (json.success) setInvoice(json.data);
-                  } catch {}
-                }}
+                onClick={() => void refreshInvoice()}
                 className="text-sm text-gray-600 hover:text-gray-800"
               >
                 Refresh
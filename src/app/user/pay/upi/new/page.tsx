@@ -8,6 +8,7 @@ import UserNavbar from "@/components/UserNavbar";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui";
 import QRCode from "qrcode";
 import { toast } from "react-hot-toast";
+import { calculatePriceBreakdown, DEFAULT_UNIT_PRICE } from "@/lib/pricing";
 
 function PrePaymentUPIContent() {
   const { data: session, status } = useSession();
@@ -20,15 +21,26 @@ function PrePaymentUPIContent() {
 
   // Form data from query params
   const quantity = parseInt(searchParams.get("quantity") || "1", 10);
+  const connectionId = searchParams.get("connectionId") || "";
+  const cylinderType = searchParams.get("cylinderType") || "";
+  const cylinderName = searchParams.get("cylinderName") || "";
   const receiverName = searchParams.get("receiverName") || "";
   const receiverPhone = searchParams.get("receiverPhone") || "";
   const expectedDate = searchParams.get("expectedDate") || "";
+  const deliverySlotId = searchParams.get("deliverySlotId") || "";
+  const deliveryWindow = searchParams.get("deliveryWindow") || "";
   const notes = searchParams.get("notes") || "";
+  const advanceParam = parseInt(searchParams.get("advanceAmount") || "", 10);
 
   const [txnId, setTxnId] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [qrDataUrl, setQrDataUrl] = useState("");
   const [adminUpiId, setAdminUpiId] = useState<string | null>(null);
+  const [pricing, setPricing] = useState({
+    unitPrice: DEFAULT_UNIT_PRICE,
+    deliveryCharge: 0,
+    gstRate: 0,
+  });
   const [settingsLoading, setSettingsLoading] = useState(true);
 
   const isTxnValid = useMemo(() => {
@@ -49,11 +61,18 @@ function PrePaymentUPIContent() {
     const loadData = async () => {
       try {
         // Load settings (including UPI ID)
-        const settingsRes = await fetch("/api/settings");
+        const settingsRes = await fetch(
+          `/api/settings?cylinderType=${encodeURIComponent(cylinderType)}`,
+        );
         if (settingsRes.ok) {
           const settingsJson = await settingsRes.json();
           if (settingsJson.success) {
             setAdminUpiId(settingsJson.data.adminUpiId);
+            setPricing({
+              unitPrice: settingsJson.data.pricePerCylinder,
+              deliveryCharge: settingsJson.data.deliveryCharge || 0,
+              gstRate: settingsJson.data.gstRate || 0,
+            });
           }
         }
 
@@ -73,17 +92,23 @@ function PrePaymentUPIContent() {
       }
     };
     void loadData();
-  }, [session, status, router]);
+  }, [session, status, router, cylinderType]);
 
-  const unitPrice = 1100; // Fixed price per cylinder
-  const total = unitPrice * quantity;
+  const { unitPrice, deliveryCharge, gstRate, gstAmount, total } = useMemo(
+    () => calculatePriceBreakdown(pricing, quantity),
+    [pricing, quantity],
+  );
+  // An advance smaller than the total leaves the rest as cash on delivery
+  const advanceAmount =
+    advanceParam > 0 && advanceParam < total ? advanceParam : undefined;
+  const amountDue = advanceAmount ?? total;
 
   useEffect(() => {
     const build = async () => {
       if (!adminUpiId) return;
       const payeeName = encodeURIComponent("Gas Agency");
       const txnNote = encodeURIComponent(`Pre-Booking`);
-      const url = `upi://pay?pa=${encodeURIComponent(adminUpiId)}&pn=${payeeName}&am=${total.toFixed(2)}&cu=INR&tn=${txnNote}`;
+      const url = `upi://pay?pa=${encodeURIComponent(adminUpiId)}&pn=${payeeName}&am=${amountDue.toFixed(2)}&cu=INR&tn=${txnNote}`;
       try {
         const data = await QRCode.toDataURL(url, {
           width: 220,
@@ -96,7 +121,7 @@ function PrePaymentUPIContent() {
       }
     };
     void build();
-  }, [adminUpiId, total]);
+  }, [adminUpiId, amountDue]);
 
   const submitWithPayment = async () => {
     if (!txnId.trim()) {
@@ -120,11 +145,15 @@ function PrePaymentUPIContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           quantity,
+          connectionId: connectionId || undefined,
+          cylinderType: cylinderType || undefined,
           receiverName,
           receiverPhone,
           expectedDate,
+          deliverySlotId: deliverySlotId || undefined,
           notes,
           upiTxnId: txnId.trim(),
+          advanceAmount,
         }),
       });
       const json = await res.json();
@@ -316,13 +345,39 @@ function PrePaymentUPIContent() {
                 <h3 className="text-sm font-medium text-gray-700 mb-3">
                   Order Summary
                 </h3>
+                {cylinderName && (
+                  <p className="text-sm text-gray-700">
+                    Cylinder: {cylinderName}
+                  </p>
+                )}
                 <p className="text-sm text-gray-700">Quantity: {quantity}</p>
+                {expectedDate && deliveryWindow && (
+                  <p className="text-sm text-gray-700">
+                    Delivery: {expectedDate}, {deliveryWindow}
+                  </p>
+                )}
                 <p className="text-sm text-gray-700">
                   Unit Price: ₹{unitPrice}
                 </p>
+                {deliveryCharge > 0 && (
+                  <p className="text-sm text-gray-700">
+                    Delivery Charge: ₹{deliveryCharge}
+                  </p>
+                )}
+                {gstRate > 0 && (
+                  <p className="text-sm text-gray-700">
+                    GST ({gstRate}%): ₹{gstAmount}
+                  </p>
+                )}
                 <p className="text-sm font-semibold text-gray-900">
                   Total: ₹{total}
                 </p>
+                {advanceAmount && (
+                  <p className="text-sm text-gray-700">
+                    Advance now: ₹{advanceAmount} (₹{total - advanceAmount}{" "}
+                    payable on delivery)
+                  </p>
+                )}
               </div>
 
               <div className="rounded-lg border border-gray-200 bg-white p-4">
@@ -361,7 +416,7 @@ function PrePaymentUPIContent() {
                       </p>
                       <p>
                         <span className="text-gray-500">Amount:</span> ₹
-                        {total.toFixed(2)}
+                        {amountDue.toFixed(2)}
                       </p>
                     </div>
                   </div>
@@ -13,9 +13,44 @@ import {
   CardFooter,
 } from "@/components/ui";
 import { formatDate, getStatusColor } from "@/lib/utils";
-import { User, Mail, Phone, MapPin, ArrowLeft } from "lucide-react";
+import { User, Mail, Phone, MapPin, ArrowLeft, Flame } from "lucide-react";
 import UserNavbar from "@/components/UserNavbar";
- 
+import QuotaLedgerTable, {
+  type QuotaLedgerEntry,
+} from "@/components/QuotaLedgerTable";
+import KycDocumentList, {
+  KycStatusBadge,
+  type KycDocument,
+  type KycStatus,
+} from "@/components/KycDocumentList";
+import { toast } from "react-hot-toast";
+
+type QuotaConnection = {
+  id: string;
+  consumerNumber: string;
+  holderName: string;
+  status: "PENDING" | "ACTIVE" | "SUSPENDED" | "CLOSED";
+  kycStatus: KycStatus;
+  kycRejectionReason: string | null;
+  kycDocuments: KycDocument[];
+  remainingQuota: number;
+  quotaPeriod: string | null;
+  nextEligibleDate: string | null;
+  ledger: QuotaLedgerEntry[];
+};
+
+const CONNECTION_STATUS_STYLES: Record<QuotaConnection["status"], string> = {
+  PENDING: "bg-yellow-100 text-yellow-800",
+  ACTIVE: "bg-green-100 text-green-800",
+  SUSPENDED: "bg-orange-100 text-orange-800",
+  CLOSED: "bg-gray-100 text-gray-600",
+};
+
+const emptyApplication = {
+  holderName: "",
+  address: "",
+  connectionType: "DOMESTIC",
+};
 
 export default function UserProfilePage() {
   const { data: session, status } = useSession();
@@ -29,6 +64,10 @@ export default function UserProfilePage() {
     address: "",
     remainingQuota: 0, // Added for quota display
   });
+  const [connections, setConnections] = useState<QuotaConnection[]>([]);
+  const [application, setApplication] = useState(emptyApplication);
+  const [applying, setApplying] = useState(false);
+  const [uploadingKyc, setUploadingKyc] = useState<string | null>(null);
   const [bookingsLoading, setBookingsLoading] = useState(true);
   const [bookings, setBookings] = useState<
     Array<{
@@ -97,6 +136,18 @@ export default function UserProfilePage() {
     }
   }, []);
 
+  const loadQuotaHistoryCb = useCallback(async () => {
+    try {
+      const response = await fetch("/api/user/quota");
+      if (response.ok) {
+        const json = await response.json();
+        setConnections(json.data?.connections || []);
+      }
+    } catch {
+      // no-op
+    }
+  }, []);
+
   const loadRecentBookingsCb = useCallback(async () => {
     try {
       setBookingsLoading(true);
@@ -125,11 +176,79 @@ export default function UserProfilePage() {
 
     // Load user data
     loadUserProfileCb();
+    void loadQuotaHistoryCb();
     void loadRecentBookingsCb();
-  }, [session, status, router, loadUserProfileCb, loadRecentBookingsCb]);
+  }, [
+    session,
+    status,
+    router,
+    loadUserProfileCb,
+    loadQuotaHistoryCb,
+    loadRecentBookingsCb,
+  ]);
 
   // Removed unused form handlers to satisfy linter
 
+  const applyForConnection = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setApplying(true);
+    try {
+      const response = await fetch("/api/user/connections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(application),
+      });
+      const json = await response.json();
+      if (!response.ok || !json.success) {
+        toast.error(json.message || "Failed to apply for a connection");
+        return;
+      }
+      toast.success(json.message || "Connection requested");
+      setApplication(emptyApplication);
+      await loadQuotaHistoryCb();
+    } catch {
+      toast.error("Failed to apply for a connection");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const uploadKycDocument = async (
+    connectionId: string,
+    e: React.FormEvent<HTMLFormElement>,
+  ) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const file = (form.elements.namedItem("file") as HTMLInputElement)
+      .files?.[0];
+    if (!file) {
+      toast.error("Choose a file to upload");
+      return;
+    }
+
+    setUploadingKyc(connectionId);
+    try {
+      const response = await fetch(`/api/user/connections/${connectionId}/kyc`, {
+        method: "POST",
+        body: new FormData(form),
+      });
+      const json = await response.json();
+      if (!response.ok || !json.success) {
+        toast.error(json.message || "Failed to upload document");
+        return;
+      }
+      toast.success(json.message || "Document uploaded");
+      form.reset();
+      await loadQuotaHistoryCb();
+    } catch {
+      toast.error("Failed to upload document");
+    } finally {
+      setUploadingKyc(null);
+    }
+  };
+
+  const quotaPeriod = connections.find((c) => c.quotaPeriod)?.quotaPeriod;
+
   if (status === "loading") {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -165,7 +284,8 @@ export default function UserProfilePage() {
                     <span className="font-semibold text-blue-600 text-lg">
                       {formData.remainingQuota || 0}
                     </span>{" "}
-                    cylinder(s) remaining this year
+                    cylinder(s) remaining{" "}
+                    {quotaPeriod ? `in quota year ${quotaPeriod}` : "this year"}
                   </p>
                   {formData.remainingQuota !== undefined &&
                     formData.remainingQuota <= 2 && (
@@ -189,12 +309,142 @@ export default function UserProfilePage() {
                     {formData.remainingQuota || 0}
                   </div>
                   <div className="text-sm text-gray-500">Remaining</div>
-                  <div className="text-xs text-gray-400 mt-1">of 12 total</div>
+                  <div className="text-xs text-gray-400 mt-1">
+                    across active connections
+                  </div>
                 </div>
               </div>
             </CardContent>
           </Card>
 
+          {/* Connections and their quota history */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Flame className="w-5 h-5 mr-2" />
+                My Gas Connections
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {connections.length === 0 && (
+                <p className="text-sm text-gray-600">No connections yet.</p>
+              )}
+              {connections.map((c) => (
+                <div key={c.id} className="space-y-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {c.consumerNumber} · {c.holderName}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {c.remainingQuota} cylinder(s) left
+                        {c.quotaPeriod && ` in ${c.quotaPeriod}`}
+                        {c.nextEligibleDate &&
+                          ` · next refill from ${new Date(c.nextEligibleDate).toLocaleDateString()}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <KycStatusBadge status={c.kycStatus} />
+                      <span
+                        className={`px-2 py-1 text-xs font-medium rounded-full ${CONNECTION_STATUS_STYLES[c.status]}`}
+                      >
+                        {c.status}
+                      </span>
+                    </div>
+                  </div>
+                  {c.kycStatus !== "APPROVED" && (
+                    <div className="rounded-lg bg-gray-50 p-3 space-y-3">
+                      <p className="text-sm text-gray-600">
+                        {c.kycStatus === "SUBMITTED"
+                          ? "Your documents are being reviewed. You can book once they are approved."
+                          : "Upload an ID proof and an address proof (JPEG, PNG, GIF or PDF, up to 5MB) to start booking on this connection."}
+                      </p>
+                      {c.kycRejectionReason && c.kycStatus === "REJECTED" && (
+                        <p className="text-sm text-red-600">
+                          Rejected: {c.kycRejectionReason}
+                        </p>
+                      )}
+                      <KycDocumentList
+                        documents={c.kycDocuments}
+                        hrefBase={`/api/user/connections/${c.id}/kyc`}
+                      />
+                      <form
+                        onSubmit={(e) => void uploadKycDocument(c.id, e)}
+                        className="flex flex-wrap items-center gap-2"
+                      >
+                        <select
+                          name="kind"
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900"
+                        >
+                          <option value="ID_PROOF">ID proof</option>
+                          <option value="ADDRESS_PROOF">Address proof</option>
+                        </select>
+                        <input
+                          type="file"
+                          name="file"
+                          accept="image/jpeg,image/png,image/gif,application/pdf"
+                          className="text-sm text-gray-700"
+                        />
+                        <Button
+                          type="submit"
+                          size="sm"
+                          disabled={uploadingKyc === c.id}
+                        >
+                          {uploadingKyc === c.id ? "Uploading..." : "Upload"}
+                        </Button>
+                      </form>
+                    </div>
+                  )}
+                  <QuotaLedgerTable entries={c.ledger} />
+                </div>
+              ))}
+
+              <form
+                onSubmit={applyForConnection}
+                className="space-y-3 pt-4 border-t border-gray-100"
+              >
+                <h3 className="text-sm font-semibold text-gray-900">
+                  Apply for another connection
+                </h3>
+                <Input
+                  label="Holder Name"
+                  value={application.holderName}
+                  onChange={(e) =>
+                    setApplication({ ...application, holderName: e.target.value })
+                  }
+                  required
+                />
+                <Input
+                  label="Installation Address"
+                  value={application.address}
+                  onChange={(e) =>
+                    setApplication({ ...application, address: e.target.value })
+                  }
+                  required
+                />
+                <select
+                  value={application.connectionType}
+                  onChange={(e) =>
+                    setApplication({
+                      ...application,
+                      connectionType: e.target.value,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900"
+                >
+                  <option value="DOMESTIC">Domestic</option>
+                  <option value="COMMERCIAL">Commercial</option>
+                </select>
+                <p className="text-xs text-gray-500">
+                  New connections can be booked once our staff approve them.
+                </p>
+                <Button type="submit" disabled={applying}>
+                  {applying ? "Submitting..." : "Apply"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
           {/* Back Button */}
           <div className="mb-6">
             <button
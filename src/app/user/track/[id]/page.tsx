@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import UserNavbar from "@/components/UserNavbar";
@@ -13,7 +13,9 @@ import {
   Ban,
   ClipboardList,
   ArrowLeft,
+  CalendarClock,
 } from "lucide-react";
+import { toast } from "react-hot-toast";
 
 type BookingStatusStr =
   | "PENDING"
@@ -27,7 +29,8 @@ type DeliveryStatusStr =
   | "PICKED_UP"
   | "OUT_FOR_DELIVERY"
   | "DELIVERED"
-  | "FAILED";
+  | "FAILED"
+  | "CANCELLED";
 
 // Helper function to get delivery status colors
 const getDeliveryStatusColor = (status: DeliveryStatusStr) => {
@@ -72,6 +75,128 @@ type DeliveryAssignment = {
   } | null;
 };
 
+type RescheduleOptions = {
+  canReschedule: boolean;
+  failureReason: string | null;
+  attempts: number;
+  maxAttempts: number;
+  proposedDate: string | null;
+  availableDates: string[];
+};
+
+// Lets the customer pick the day for the next attempt of a failed delivery
+function RescheduleDelivery({
+  bookingId,
+  onRescheduled,
+}: {
+  bookingId: string;
+  onRescheduled: (scheduledDate: string) => void;
+}) {
+  const [options, setOptions] = useState<RescheduleOptions | null>(null);
+  const [date, setDate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}/reschedule`, {
+        cache: "no-store",
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        const data = json.data as RescheduleOptions;
+        setOptions(data);
+        const proposed = data.proposedDate
+          ? new Date(data.proposedDate).toLocaleDateString("en-CA")
+          : "";
+        setDate(
+          data.availableDates.includes(proposed)
+            ? proposed
+            : data.availableDates[0] || "",
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load reschedule options:", error);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const confirm = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}/reschedule`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date }),
+      });
+      const json = await res.json();
+      if (res.ok && json.success) {
+        toast.success("Delivery rescheduled");
+        onRescheduled(json.data.scheduledDate);
+      } else {
+        toast.error(json.message || "Could not reschedule the delivery");
+        await load();
+      }
+    } catch (error) {
+      console.error("Failed to reschedule delivery:", error);
+      toast.error("Could not reschedule the delivery");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!options?.canReschedule) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-orange-50 border border-orange-200 rounded-lg">
+      <h3 className="text-lg font-medium text-orange-900 mb-2 flex items-center gap-2">
+        <CalendarClock className="w-5 h-5" />
+        We missed you
+      </h3>
+      <p className="text-sm text-orange-800 mb-1">
+        {options.failureReason || "Your delivery could not be completed."}
+      </p>
+      <p className="text-xs text-orange-700 mb-4">
+        Attempt {options.attempts} of {options.maxAttempts}. If the last attempt
+        fails, the booking is cancelled and any payment refunded.
+      </p>
+      {options.availableDates.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm text-gray-900"
+          >
+            {options.availableDates.map((d) => (
+              <option key={d} value={d}>
+                {new Date(`${d}T00:00:00`).toLocaleDateString(undefined, {
+                  weekday: "short",
+                  day: "numeric",
+                  month: "short",
+                })}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void confirm()}
+            disabled={!date || saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Confirm Delivery Date"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-700">
+          No delivery days are open this week. Our team will contact you to
+          arrange the next attempt.
+        </p>
+      )}
+    </div>
+  );
+}
+
 export default function TrackBookingPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -89,6 +214,7 @@ export default function TrackBookingPage() {
     paymentMethod?: string;
     receiverName?: string;
     expectedDate?: string | null;
+    deliveryWindow?: string | null;
   } | null>(null);
 
   useEffect(() => {
@@ -109,6 +235,7 @@ export default function TrackBookingPage() {
             paymentMethod: json.data.booking.paymentMethod,
             receiverName: json.data.booking.receiverName,
             expectedDate: json.data.booking.expectedDate,
+            deliveryWindow: json.data.booking.deliveryWindow,
           });
         }
       } finally {
@@ -190,9 +317,28 @@ export default function TrackBookingPage() {
                       ? new Date(meta.expectedDate).toLocaleDateString()
                       : "Not specified"}
                   </p>
+                  {meta?.deliveryWindow && (
+                    <p className="text-xs text-gray-500">
+                      Slot {meta.deliveryWindow}
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {deliveryAssignment?.status === "FAILED" &&
+                booking.status === "APPROVED" && (
+                  <RescheduleDelivery
+                    bookingId={booking.id}
+                    onRescheduled={(scheduledDate) =>
+                      setDeliveryAssignment((prev) =>
+                        prev
+                          ? { ...prev, status: "ASSIGNED", scheduledDate }
+                          : prev,
+                      )
+                    }
+                  />
+                )}
+
               {/* Delivery Tracking Section */}
               {deliveryAssignment && (
                 <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
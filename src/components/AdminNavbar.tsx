@@ -4,7 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useEffect, useRef, useState } from "react";
 import { useSession, signOut } from "next-auth/react";
-import { Shield, Menu, LogOut, Users, Calendar, Package, ChevronDown, Key } from "lucide-react";
+import { Shield, Menu, LogOut, Users, Calendar, Package, ChevronDown, Key, IndianRupee, Settings, Warehouse, Flame, FileCheck } from "lucide-react";
 import { getInitials } from "@/lib/utils";
 
 export default function AdminNavbar() {
@@ -209,6 +209,72 @@ export default function AdminNavbar() {
                     </span>
                     <span className="flex-1">Contacts</span>
                   </Link>
+                  <Link
+                    href="/admin/connections"
+                    className="group flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                    role="menuitem"
+                    onClick={() => setOpen(false)}
+                  >
+                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-purple-50 text-purple-600">
+                      <Flame className="w-4 h-4" />
+                    </span>
+                    <span className="flex-1">Connections</span>
+                  </Link>
+                  <Link
+                    href="/admin/kyc"
+                    className="group flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                    role="menuitem"
+                    onClick={() => setOpen(false)}
+                  >
+                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-purple-50 text-purple-600">
+                      <FileCheck className="w-4 h-4" />
+                    </span>
+                    <span className="flex-1">KYC Review</span>
+                  </Link>
+                  <Link
+                    href="/admin/cylinder-types"
+                    className="group flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                    role="menuitem"
+                    onClick={() => setOpen(false)}
+                  >
+                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-purple-50 text-purple-600">
+                      <Package className="w-4 h-4" />
+                    </span>
+                    <span className="flex-1">Cylinder Types</span>
+                  </Link>
+                  <Link
+                    href="/admin/stock-locations"
+                    className="group flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                    role="menuitem"
+                    onClick={() => setOpen(false)}
+                  >
+                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-purple-50 text-purple-600">
+                      <Warehouse className="w-4 h-4" />
+                    </span>
+                    <span className="flex-1">Stock Locations</span>
+                  </Link>
+                  <Link
+                    href="/admin/pricing"
+                    className="group flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                    role="menuitem"
+                    onClick={() => setOpen(false)}
+                  >
+                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-purple-50 text-purple-600">
+                      <IndianRupee className="w-4 h-4" />
+                    </span>
+                    <span className="flex-1">Pricing</span>
+                  </Link>
+                  <Link
+                    href="/admin/settings"
+                    className="group flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                    role="menuitem"
+                    onClick={() => setOpen(false)}
+                  >
+                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-purple-50 text-purple-600">
+                      <Settings className="w-4 h-4" />
+                    </span>
+                    <span className="flex-1">Settings</span>
+                  </Link>
                   <button
                     onClick={() => void handleResetPassword()}
                     disabled={resettingPassword}
@@ -326,6 +392,48 @@ export default function AdminNavbar() {
               >
                 Contacts
               </Link>
+              <Link
+                href="/admin/connections"
+                className="block px-4 py-3 rounded-lg hover:bg-gray-50"
+                onClick={() => setMobileOpen(false)}
+              >
+                Connections
+              </Link>
+              <Link
+                href="/admin/kyc"
+                className="block px-4 py-3 rounded-lg hover:bg-gray-50"
+                onClick={() => setMobileOpen(false)}
+              >
+                KYC Review
+              </Link>
+              <Link
+                href="/admin/cylinder-types"
+                className="block px-4 py-3 rounded-lg hover:bg-gray-50"
+                onClick={() => setMobileOpen(false)}
+              >
+                Cylinder Types
+              </Link>
+              <Link
+                href="/admin/stock-locations"
+                className="block px-4 py-3 rounded-lg hover:bg-gray-50"
+                onClick={() => setMobileOpen(false)}
+              >
+                Stock Locations
+              </Link>
+              <Link
+                href="/admin/pricing"
+                className="block px-4 py-3 rounded-lg hover:bg-gray-50"
+                onClick={() => setMobileOpen(false)}
+              >
+                Pricing
+              </Link>
+              <Link
+                href="/admin/settings"
+                className="block px-4 py-3 rounded-lg hover:bg-gray-50"
+                onClick={() => setMobileOpen(false)}
+              >
+                Settings
+              </Link>
               <button
                 className="w-full text-left block px-4 py-3 rounded-lg hover:bg-gray-50 font-normal disabled:opacity-50"
                 disabled={resettingPassword}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type CylinderTypeOption = {
+  id: string;
+  code: string;
+  name: string;
+  weightKg: number;
+  category: "DOMESTIC" | "COMMERCIAL";
+  isActive: boolean;
+  totalAvailable: number;
+};
+
+type Props = {
+  value: string;
+  onChange: (code: string, type?: CylinderTypeOption) => void;
+  className?: string;
+  showStock?: boolean;
+  includeInactive?: boolean;
+  disabled?: boolean;
+};
+
+/**
+ * Admin dropdown over the cylinder catalogue. Selects the first type when
+ * no value is set yet.
+ */
+export default function CylinderTypeSelect({
+  value,
+  onChange,
+  className,
+  showStock = false,
+  includeInactive = false,
+  disabled = false,
+}: Props) {
+  const [types, setTypes] = useState<CylinderTypeOption[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/cylinder-types", {
+          cache: "no-store",
+        });
+        const json = await res.json();
+        if (res.ok && json.success) {
+          const list = (json.data as CylinderTypeOption[]).filter(
+            (t) => includeInactive || t.isActive,
+          );
+          setTypes(list);
+          if (!value && list[0]) onChange(list[0].code, list[0]);
+        }
+      } catch (error) {
+        console.error("Failed to load cylinder types:", error);
+      }
+    };
+    void load();
+    // Load once; the parent owns the selected value
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) =>
+        onChange(
+          e.target.value,
+          types.find((t) => t.code === e.target.value),
+        )
+      }
+      className={
+        className ||
+        "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200"
+      }
+    >
+      {types.length === 0 && <option value={value}>{value || "Loading..."}</option>}
+      {types.map((type) => (
+        <option key={type.code} value={type.code}>
+          {type.name}
+          {!type.isActive ? " (inactive)" : ""}
+          {showStock ? ` — ${type.totalAvailable} in stock` : ""}
+        </option>
+      ))}
+    </select>
+  );
+}
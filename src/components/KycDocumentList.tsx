@@ -0,0 +1,77 @@
+"use client";
+
+export type KycStatus = "NOT_SUBMITTED" | "SUBMITTED" | "APPROVED" | "REJECTED";
+
+export type KycDocument = {
+  id: string;
+  kind: "ID_PROOF" | "ADDRESS_PROOF";
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+};
+
+const STATUS_LABELS: Record<KycStatus, string> = {
+  NOT_SUBMITTED: "KYC not submitted",
+  SUBMITTED: "KYC under review",
+  APPROVED: "KYC approved",
+  REJECTED: "KYC rejected",
+};
+
+const STATUS_STYLES: Record<KycStatus, string> = {
+  NOT_SUBMITTED: "bg-gray-100 text-gray-700",
+  SUBMITTED: "bg-blue-100 text-blue-800",
+  APPROVED: "bg-green-100 text-green-800",
+  REJECTED: "bg-red-100 text-red-800",
+};
+
+const KIND_LABELS: Record<KycDocument["kind"], string> = {
+  ID_PROOF: "ID proof",
+  ADDRESS_PROOF: "Address proof",
+};
+
+export function KycStatusBadge({ status }: { status: KycStatus }) {
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+type Props = {
+  documents: KycDocument[];
+  /** Documents open at `${hrefBase}/${id}`. */
+  hrefBase: string;
+};
+
+/**
+ * Uploaded KYC proofs, newest first, each opening in a new tab.
+ */
+export default function KycDocumentList({ documents, hrefBase }: Props) {
+  if (documents.length === 0) {
+    return <p className="text-sm text-gray-500">No documents uploaded.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {documents.map((doc) => (
+        <li key={doc.id} className="flex items-center justify-between gap-3">
+          <a
+            href={`${hrefBase}/${doc.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline truncate"
+          >
+            {KIND_LABELS[doc.kind]}: {doc.fileName}
+          </a>
+          <span className="text-xs text-gray-400 whitespace-nowrap">
+            {Math.ceil(doc.size / 1024)} KB ·{" "}
+            {new Date(doc.createdAt).toLocaleDateString()}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import Link from "next/link";
+import { useSession, signOut } from "next-auth/react";
+import { Flame, LogOut, Truck } from "lucide-react";
+import { getInitials } from "@/lib/utils";
+
+// Compact header for the phone-sized partner portal
+export default function PartnerNavbar() {
+  const { data: session } = useSession();
+
+  return (
+    <header className="bg-gradient-to-r from-emerald-800 via-emerald-700 to-emerald-600 text-white shadow">
+      <div className="max-w-3xl mx-auto px-4">
+        <div className="flex h-14 items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Flame className="w-5 h-5" />
+            <Link href="/partner" className="font-bold tracking-wide">
+              Deliveries
+            </Link>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Link
+              href="/partner"
+              className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-sm text-white/90 hover:bg-white/10"
+            >
+              <Truck className="w-4 h-4" />
+              Today
+            </Link>
+            <div
+              className="inline-flex items-center justify-center w-8 h-8 rounded-full bg-white/20 text-sm font-semibold ring-2 ring-white/30"
+              title={session?.user?.name || "Partner"}
+            >
+              {getInitials(session?.user?.name || "P")}
+            </div>
+            <button
+              onClick={() => void signOut({ callbackUrl: "/login" })}
+              className="inline-flex items-center rounded-md p-1.5 text-white/90 hover:bg-white/10"
+              aria-label="Sign out"
+            >
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
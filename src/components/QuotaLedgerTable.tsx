@@ -0,0 +1,92 @@
+"use client";
+
+export type QuotaLedgerEntry = {
+  id: string;
+  type: "CONSUME" | "RESTORE" | "GRANT" | "RESET";
+  change: number;
+  balance: number;
+  period: string;
+  reason: string;
+  bookingId: string | null;
+  createdAt: string;
+  createdBy: { name: string } | null;
+};
+
+const TYPE_LABELS: Record<QuotaLedgerEntry["type"], string> = {
+  CONSUME: "Booked",
+  RESTORE: "Returned",
+  GRANT: "Adjusted",
+  RESET: "New year",
+};
+
+type Props = {
+  entries: QuotaLedgerEntry[];
+  /** Shows which admin made manual changes. */
+  showAuthor?: boolean;
+};
+
+/**
+ * Quota history, newest first: every change with the balance it left.
+ */
+export default function QuotaLedgerTable({
+  entries,
+  showAuthor = false,
+}: Props) {
+  if (entries.length === 0) {
+    return (
+      <p className="text-center py-4 text-sm text-gray-500">
+        No quota changes yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-80 overflow-y-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+            <th className="py-2 pr-3 font-medium">Date</th>
+            <th className="py-2 pr-3 font-medium">Change</th>
+            <th className="py-2 pr-3 font-medium">Balance</th>
+            <th className="py-2 font-medium">Reason</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id} className="border-b border-gray-100 align-top">
+              <td className="py-2 pr-3 text-gray-700 whitespace-nowrap">
+                {new Date(entry.createdAt).toLocaleDateString()}
+                <div className="text-xs text-gray-400">{entry.period}</div>
+              </td>
+              <td
+                className={`py-2 pr-3 font-medium whitespace-nowrap ${
+                  entry.change < 0 ? "text-red-600" : "text-green-600"
+                }`}
+              >
+                {entry.change > 0 ? `+${entry.change}` : entry.change}
+                <div className="text-xs font-normal text-gray-400">
+                  {TYPE_LABELS[entry.type]}
+                </div>
+              </td>
+              <td className="py-2 pr-3 text-gray-900">{entry.balance}</td>
+              <td className="py-2 text-gray-700">
+                {entry.reason}
+                {entry.bookingId && (
+                  <span className="text-xs text-gray-400">
+                    {" "}
+                    #{entry.bookingId.slice(-8).toUpperCase()}
+                  </span>
+                )}
+                {showAuthor && entry.createdBy && (
+                  <div className="text-xs text-gray-400">
+                    by {entry.createdBy.name}
+                  </div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
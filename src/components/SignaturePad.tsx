@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+type Props = {
+  /** Called with a PNG data URL after each stroke, or "" when cleared. */
+  onChange: (dataUrl: string) => void;
+  className?: string;
+};
+
+/**
+ * Finger/mouse signature box for proof of delivery.
+ */
+export default function SignaturePad({ onChange, className }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // Match the drawing buffer to the rendered size so strokes line up
+    canvas.width = canvas.offsetWidth;
+    canvas.height = canvas.offsetHeight;
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+      ctx.lineWidth = 2;
+      ctx.lineCap = "round";
+      ctx.strokeStyle = "#111827";
+    }
+  }, []);
+
+  const point = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const start = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = point(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const move = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext("2d");
+    if (!ctx) return;
+    const { x, y } = point(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    hasInk.current = true;
+  };
+
+  const end = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    if (hasInk.current) onChange(e.currentTarget.toDataURL("image/png"));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+    hasInk.current = false;
+    onChange("");
+  };
+
+  return (
+    <div className={className}>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+        className="w-full h-32 rounded-lg border border-dashed border-gray-300 bg-white touch-none"
+      />
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>Customer signature (optional)</span>
+        <button type="button" onClick={clear} className="hover:text-gray-700">
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+export type StockLocationOption = {
+  id: string;
+  code: string;
+  name: string;
+  address?: string | null;
+  serviceAreas: string[];
+  isDefault: boolean;
+  isActive: boolean;
+  totalAvailable: number;
+  byType: { cylinderType: string; totalAvailable: number }[];
+};
+
+type Props = {
+  value: string;
+  onChange: (id: string, location?: StockLocationOption) => void;
+  className?: string;
+  includeInactive?: boolean;
+  disabled?: boolean;
+  /** Shows stock of this cylinder type next to each location. */
+  stockForType?: string;
+  /** Adds an empty option (e.g. "All locations") instead of auto-selecting. */
+  emptyLabel?: string;
+};
+
+/**
+ * Admin dropdown over stock locations. Selects the default location when no
+ * value is set and no empty option is offered.
+ */
+export default function StockLocationSelect({
+  value,
+  onChange,
+  className,
+  includeInactive = false,
+  disabled = false,
+  stockForType,
+  emptyLabel,
+}: Props) {
+  const [locations, setLocations] = useState<StockLocationOption[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch("/api/admin/stock-locations", {
+          cache: "no-store",
+        });
+        const json = await res.json();
+        if (res.ok && json.success) {
+          const list = (json.data as StockLocationOption[]).filter(
+            (l) => includeInactive || l.isActive,
+          );
+          setLocations(list);
+          if (!value && emptyLabel === undefined && list[0]) {
+            onChange(list[0].id, list[0]);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to load stock locations:", error);
+      }
+    };
+    void load();
+    // Load once; the parent owns the selected value
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const stockLabel = (location: StockLocationOption) => {
+    if (!stockForType) return "";
+    const held =
+      location.byType.find((t) => t.cylinderType === stockForType)
+        ?.totalAvailable || 0;
+    return ` — ${held} in stock`;
+  };
+
+  return (
+    <select
+      value={value}
+      disabled={disabled}
+      onChange={(e) =>
+        onChange(
+          e.target.value,
+          locations.find((l) => l.id === e.target.value),
+        )
+      }
+      className={
+        className ||
+        "w-full border border-gray-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-all duration-200"
+      }
+    >
+      {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+      {emptyLabel === undefined && locations.length === 0 && (
+        <option value={value}>{value || "Loading..."}</option>
+      )}
+      {locations.map((location) => (
+        <option key={location.id} value={location.id}>
+          {location.name}
+          {!location.isActive ? " (inactive)" : ""}
+          {stockLabel(location)}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -9,19 +9,23 @@ import {
 import {
   getClientIP,
   checkRateLimit,
-  checkLoginRateLimit,
-  checkEmailRateLimit,
   validateCSRFTokenFromRequest,
+  RATE_LIMITS,
 } from "./security";
 
 // Middleware options
 interface MiddlewareOptions {
   requireAuth?: boolean;
   requireAdmin?: boolean;
+  requirePartner?: boolean;
   requireCSRF?: boolean;
   rateLimit?: {
     type: "general" | "login" | "email";
+    // Override the type's limit for this route
     maxRequests?: number;
+    windowMs?: number;
+    // Routes with the same scope share one limit; defaults to the type
+    scope?: string;
   };
   validateContentType?: boolean;
 }
@@ -59,35 +63,31 @@ export function withMiddleware(
 
       // Rate limiting
       if (options.rateLimit) {
-        const clientIP = getClientIP(request);
-        let rateLimitPassed = false;
+        const { type, scope = type } = options.rateLimit;
+        const result = await checkRateLimit(
+          `${scope}:${getClientIP(request)}`,
+          {
+            maxRequests:
+              options.rateLimit.maxRequests ?? RATE_LIMITS[type].maxRequests,
+            windowMs: options.rateLimit.windowMs ?? RATE_LIMITS[type].windowMs,
+          },
+        );
 
-        switch (options.rateLimit.type) {
-          case "login":
-            rateLimitPassed = checkLoginRateLimit(clientIP);
-            break;
-          case "email":
-            rateLimitPassed = checkEmailRateLimit(clientIP);
-            break;
-          case "general":
-          default:
-            rateLimitPassed = checkRateLimit(
-              clientIP,
-              options.rateLimit.maxRequests,
-            );
-            break;
-        }
-
-        if (!rateLimitPassed) {
+        if (!result.allowed) {
           throw new RateLimitError(
             "Too many requests. Please try again later.",
+            Math.ceil(result.retryAfterMs / 1000),
           );
         }
       }
 
       // Authentication check
       let session = null;
-      if (options.requireAuth || options.requireAdmin) {
+      if (
+        options.requireAuth ||
+        options.requireAdmin ||
+        options.requirePartner
+      ) {
         session = await getServerSession(authOptions);
 
         if (!session?.user?.id) {
@@ -106,13 +106,28 @@ export function withMiddleware(
           );
         }
 
+        // Delivery partner role check
+        if (
+          options.requirePartner &&
+          session.user.role !== "DELIVERY_PARTNER"
+        ) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: "INSUFFICIENT_PERMISSIONS",
+              message: "Delivery partner access required",
+            },
+            { status: 403 },
+          );
+        }
+
         // CSRF protection for state-changing operations
         if (
           options.requireCSRF &&
           ["POST", "PUT", "PATCH", "DELETE"].includes(request.method)
         ) {
           const sessionId = session.user.id;
-          if (!validateCSRFTokenFromRequest(request, sessionId)) {
+          if (!(await validateCSRFTokenFromRequest(request, sessionId))) {
             return NextResponse.json(
               {
                 success: false,
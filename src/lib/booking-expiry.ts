@@ -0,0 +1,132 @@
+import { prisma } from "./db";
+import { getSystemSettings } from "./settings";
+import { restoreStock } from "./stock";
+import { restoreQuota } from "./quota";
+import { sendCancellationEmail } from "./email";
+import { cancelDeliveryAssignment } from "./delivery";
+
+export interface ExpiryRunResult {
+  cutoff: Date;
+  windowHours: number;
+  checked: number;
+  expired: string[];
+  failed: { bookingId: string; error: string }[];
+}
+
+/**
+ * Cancels UPI bookings that are still PENDING with no payment made within
+ * the configured window. Bookings where the user has submitted a UPI
+ * reference are left for admin review, and those with an open gateway order
+ * wait for the gateway to report. The window restarts whenever a new
+ * payment attempt is created (e.g. a retry).
+ */
+export async function expireUnpaidUpiBookings(
+  options: { now?: Date; windowHours?: number } = {},
+): Promise<ExpiryRunResult> {
+  const now = options.now || new Date();
+  const windowHours =
+    options.windowHours ?? (await getSystemSettings()).upiPaymentWindowHours;
+  const cutoff = new Date(now.getTime() - windowHours * 60 * 60 * 1000);
+
+  const candidates = await prisma.booking.findMany({
+    where: {
+      status: "PENDING",
+      paymentMethod: "UPI",
+      createdAt: { lt: cutoff },
+      payments: {
+        none: {
+          OR: [
+            { status: "SUCCESS" },
+            { upiTxnId: { not: null } },
+            { createdAt: { gte: cutoff } },
+            // The customer may still complete an open gateway checkout
+            { status: "PENDING", gatewayOrderId: { not: null } },
+          ],
+        },
+      },
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const result: ExpiryRunResult = {
+    cutoff,
+    windowHours,
+    checked: candidates.length,
+    expired: [],
+    failed: [],
+  };
+
+  for (const { id } of candidates) {
+    try {
+      const cancelled = await expireBooking(id, windowHours);
+      if (!cancelled) continue;
+      result.expired.push(id);
+
+      if (cancelled.user.email) {
+        void sendCancellationEmail(
+          cancelled.user.email,
+          cancelled.user.name,
+          id,
+          `Payment was not received within ${windowHours} hours of booking.`,
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to expire booking ${id}:`, error);
+      result.failed.push({
+        bookingId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+async function expireBooking(bookingId: string, windowHours: number) {
+  return prisma.$transaction(async (tx) => {
+    // Claim the booking so a concurrent payment or cancellation wins cleanly
+    const claimed = await tx.booking.updateMany({
+      where: { id: bookingId, status: "PENDING" },
+      data: { status: "CANCELLED", updatedAt: new Date() },
+    });
+    if (claimed.count === 0) return null;
+
+    const booking = await tx.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      select: {
+        connectionId: true,
+        quantity: true,
+        user: { select: { name: true, email: true } },
+      },
+    });
+
+    // Restore user quota
+    await restoreQuota(tx, booking.connectionId, booking.quantity, {
+      reason: "Booking expired: UPI payment not received",
+      bookingId,
+    });
+
+    // Restore available stock
+    await restoreStock(bookingId, booking.quantity, tx);
+
+    // Take it off the delivery partner's list
+    await cancelDeliveryAssignment(tx, bookingId);
+
+    await tx.bookingEvent.create({
+      data: {
+        bookingId,
+        status: "CANCELLED",
+        title: "Booking expired",
+        description: `Cancelled automatically: UPI payment not received within ${windowHours} hours.`,
+      },
+    });
+
+    await tx.payment.updateMany({
+      where: { bookingId, status: { not: "SUCCESS" } },
+      data: { status: "CANCELLED" },
+    });
+
+    return booking;
+  });
+}
@@ -0,0 +1,212 @@
+import type { ConnectionType, Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { getSystemSettings } from "./settings";
+import { getCurrentQuotaPeriod, getNextEligibleBookingDate } from "./quota";
+import { currentKycDocuments, kycDocumentSelect } from "./kyc";
+import { ConflictError, NotFoundError, ValidationError } from "./error-handler";
+
+// Ten digits; connections migrated from customer accounts start with 1
+async function generateConsumerNumber(tx: Prisma.TransactionClient) {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const consumerNumber = String(
+      2_000_000_000 + Math.floor(Math.random() * 8_000_000_000),
+    );
+    const taken = await tx.connection.findUnique({
+      where: { consumerNumber },
+      select: { id: true },
+    });
+    if (!taken) return consumerNumber;
+  }
+  throw new ConflictError("Could not allocate a consumer number, please retry");
+}
+
+/**
+ * Opens a connection for a login with a full year's quota. Connections
+ * customers apply for themselves stay PENDING until an admin activates them.
+ */
+export async function createConnection(
+  tx: Prisma.TransactionClient,
+  data: {
+    userId: string;
+    holderName: string;
+    address: string;
+    connectionType?: ConnectionType;
+    status?: "PENDING" | "ACTIVE";
+    kycIdType?: string;
+    kycIdNumber?: string;
+  },
+) {
+  const { defaultAnnualQuota } = await getSystemSettings();
+  const period = await getCurrentQuotaPeriod();
+  return tx.connection.create({
+    data: {
+      ...data,
+      consumerNumber: await generateConsumerNumber(tx),
+      remainingQuota: defaultAnnualQuota,
+      quotaPeriod: period.label,
+    },
+  });
+}
+
+/**
+ * The connection a booking is made against: the one given, or the owner's
+ * only active connection. It must belong to the user, be active and have its
+ * KYC approved.
+ */
+export async function resolveBookingConnection(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  connectionId?: string,
+) {
+  const connections = await tx.connection.findMany({
+    where: connectionId
+      ? { id: connectionId, userId }
+      : { userId, status: "ACTIVE" },
+    take: 2,
+  });
+  if (!connectionId && connections.length > 1) {
+    throw new ValidationError("Choose the connection to book for", {
+      field: "connectionId",
+    });
+  }
+
+  const [connection] = connections;
+  if (!connection) {
+    throw new ValidationError(
+      connectionId ? "Connection not found" : "No active gas connection",
+      { field: "connectionId" },
+    );
+  }
+  if (connection.status !== "ACTIVE") {
+    throw new ConflictError(
+      `Connection ${connection.consumerNumber} is ${connection.status.toLowerCase()} and cannot be booked`,
+    );
+  }
+  if (connection.kycStatus !== "APPROVED") {
+    throw new ConflictError(
+      `KYC for connection ${connection.consumerNumber} is not approved yet. Bookings open once your ID and address proofs are verified.`,
+      { kyc: true, kycStatus: connection.kycStatus },
+    );
+  }
+  return connection;
+}
+
+/**
+ * A login's connections, oldest first, with the date each may book again.
+ */
+export async function getUserConnections(userId: string) {
+  const connections = await prisma.connection.findMany({
+    where: { userId },
+    include: {
+      kycDocuments: {
+        select: kycDocumentSelect,
+        orderBy: { createdAt: "desc" },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  const now = new Date();
+  return Promise.all(
+    connections.map(async (connection) => {
+      const next = await getNextEligibleBookingDate(prisma, connection.id);
+      return {
+        ...connection,
+        kycDocuments: currentKycDocuments(
+          connection.kycDocuments,
+          connection.transferredAt,
+        ),
+        nextEligibleDate: next && next > now ? next : null,
+      };
+    }),
+  );
+}
+
+/**
+ * Quota left across a login's active connections.
+ */
+export async function getTotalRemainingQuota(userId: string) {
+  const { _sum } = await prisma.connection.aggregate({
+    where: { userId, status: "ACTIVE" },
+    _sum: { remainingQuota: true },
+  });
+  return _sum.remainingQuota || 0;
+}
+
+/**
+ * Hands a connection to another customer login, e.g. when a house is sold.
+ * Bookings and quota stay with the connection; the new holder's KYC details
+ * replace the old ones and their proofs have to be approved again.
+ */
+export async function transferConnection(
+  connectionId: string,
+  data: {
+    // Email or user ID of the receiving customer
+    toUser: string;
+    holderName?: string;
+    kycIdType?: string;
+    kycIdNumber?: string;
+    reason: string;
+    createdById?: string;
+  },
+) {
+  return prisma.$transaction(async (tx) => {
+    const connection = await tx.connection.findUnique({
+      where: { id: connectionId },
+    });
+    if (!connection) throw new NotFoundError("Connection not found");
+    if (connection.status === "CLOSED") {
+      throw new ConflictError("Closed connections cannot be transferred");
+    }
+
+    const identifier = data.toUser.trim();
+    const toUser = await tx.user.findFirst({
+      where: {
+        role: "USER",
+        OR: [
+          { email: identifier.toLowerCase() },
+          { userId: identifier.toLowerCase() },
+        ],
+      },
+      select: { id: true, name: true },
+    });
+    if (!toUser) {
+      throw new ValidationError("No customer account with that email or ID", {
+        field: "toUser",
+      });
+    }
+    if (toUser.id === connection.userId) {
+      throw new ValidationError("The connection already belongs to them", {
+        field: "toUser",
+      });
+    }
+
+    const toHolder = data.holderName?.trim() || toUser.name;
+    await tx.connectionTransfer.create({
+      data: {
+        connectionId,
+        fromUserId: connection.userId,
+        toUserId: toUser.id,
+        fromHolder: connection.holderName,
+        toHolder,
+        reason: data.reason,
+        createdById: data.createdById,
+      },
+    });
+
+    return tx.connection.update({
+      where: { id: connectionId },
+      data: {
+        userId: toUser.id,
+        holderName: toHolder,
+        kycIdType: data.kycIdType || null,
+        kycIdNumber: data.kycIdNumber || null,
+        // The new holder submits their own proofs before booking
+        transferredAt: new Date(),
+        kycStatus: "NOT_SUBMITTED",
+        kycReviewedAt: null,
+        kycReviewedById: null,
+        kycRejectionReason: null,
+      },
+    });
+  });
+}
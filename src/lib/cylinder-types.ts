@@ -0,0 +1,41 @@
+import { Prisma } from "@prisma/client";
+import { ValidationError } from "./error-handler";
+import { DEFAULT_CYLINDER_TYPE, getActivePriceList } from "./pricing";
+
+/**
+ * Lists the cylinder catalogue in display order.
+ */
+export async function getCylinderTypes(
+  tx: Prisma.TransactionClient,
+  options: { activeOnly?: boolean } = {},
+) {
+  return tx.cylinderType.findMany({
+    where: options.activeOnly ? { isActive: true } : undefined,
+    orderBy: [{ sortOrder: "asc" }, { weightKg: "asc" }],
+  });
+}
+
+/**
+ * Ensures a cylinder type can be booked right now: it must exist, be active,
+ * and (apart from the legacy default type) have a price in the current list.
+ */
+export async function assertBookableCylinderType(
+  tx: Prisma.TransactionClient,
+  code: string = DEFAULT_CYLINDER_TYPE,
+) {
+  const type = await tx.cylinderType.findUnique({ where: { code } });
+  if (!type || !type.isActive) {
+    throw new ValidationError("Selected cylinder type is not available");
+  }
+
+  if (code !== DEFAULT_CYLINDER_TYPE) {
+    const priceList = await getActivePriceList(tx);
+    if (!priceList?.items.some((item) => item.cylinderType === code)) {
+      throw new ValidationError(
+        `${type.name} cylinders cannot be booked until a price is configured`,
+      );
+    }
+  }
+
+  return type;
+}
@@ -0,0 +1,212 @@
+import type {
+  BookingStatus,
+  DeliveryAssignmentStatus,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "./db";
+import type { Sheet } from "./spreadsheet";
+import { computeBookingSla, getSlaPolicy, type SlaPolicy } from "./sla";
+
+export type AnalyticsFilters = {
+  period?: string | null;
+  partnerId?: string | null;
+  area?: string | null;
+};
+
+/**
+ * Start of a reporting period ("7d", "30d", "90d" or "1y"); unknown periods
+ * fall back to 30 days.
+ */
+export function getPeriodStart(period?: string | null, now = new Date()) {
+  const day = 24 * 60 * 60 * 1000;
+  switch (period) {
+    case "7d":
+      return new Date(now.getTime() - 7 * day);
+    case "90d":
+      return new Date(now.getTime() - 90 * day);
+    case "1y":
+      return new Date(now.getFullYear() - 1, now.getMonth(), now.getDate());
+    default:
+      return new Date(now.getTime() - 30 * day);
+  }
+}
+
+type MetricRow = {
+  status: DeliveryAssignmentStatus;
+  assignedAt: Date;
+  updatedAt: Date;
+  booking: {
+    status: BookingStatus;
+    userAddress: string | null;
+    requestedAt: Date;
+    expectedDate: Date | null;
+    deliveryWindow: string | null;
+    deliveredAt: Date | null;
+  };
+};
+
+// Totals, success rate (%), average hours from assignment to delivery and
+// the share of deliveries made within their SLA (%)
+function summarize(rows: MetricRow[], policy: SlaPolicy) {
+  const delivered = rows.filter((r) => r.status === "DELIVERED");
+  const onTime = delivered.filter(
+    (r) => computeBookingSla(r.booking, policy)?.state === "MET",
+  );
+  const hours = delivered.reduce(
+    (sum, r) =>
+      sum +
+      ((r.booking.deliveredAt || r.updatedAt).getTime() -
+        r.assignedAt.getTime()),
+    0,
+  );
+  return {
+    totalDeliveries: rows.length,
+    completedDeliveries: delivered.length,
+    failedDeliveries: rows.filter((r) => r.status === "FAILED").length,
+    successRate:
+      rows.length > 0 ? Math.round((delivered.length / rows.length) * 100) : 0,
+    averageDeliveryTime:
+      delivered.length > 0
+        ? Math.round(hours / delivered.length / (1000 * 60 * 60))
+        : 0,
+    slaCompliance:
+      delivered.length > 0
+        ? Math.round((onTime.length / delivered.length) * 100)
+        : 0,
+  };
+}
+
+/**
+ * Delivery performance for assignments made in the period: overall, per
+ * partner and per partner service area.
+ */
+export async function getDeliveryMetrics(filters: AnalyticsFilters = {}) {
+  const since = getPeriodStart(filters.period);
+  const where: Prisma.DeliveryAssignmentWhereInput = {
+    assignedAt: { gte: since },
+    ...(filters.partnerId ? { partnerId: filters.partnerId } : {}),
+    ...(filters.area ? { partner: { serviceArea: filters.area } } : {}),
+  };
+
+  const [assignments, areas, totalPartners, activePartners, policy] =
+    await Promise.all([
+      prisma.deliveryAssignment.findMany({
+        where,
+        select: {
+          partnerId: true,
+          status: true,
+          assignedAt: true,
+          updatedAt: true,
+          partner: { select: { name: true, serviceArea: true } },
+          booking: {
+            select: {
+              status: true,
+              userAddress: true,
+              requestedAt: true,
+              expectedDate: true,
+              deliveryWindow: true,
+              deliveredAt: true,
+            },
+          },
+        },
+      }),
+      prisma.deliveryPartner.groupBy({
+        by: ["serviceArea"],
+        where: { serviceArea: { not: null }, isActive: true },
+        _count: { id: true },
+      }),
+      prisma.deliveryPartner.count(),
+      prisma.deliveryPartner.count({ where: { isActive: true } }),
+      getSlaPolicy(),
+    ]);
+
+  const byPartner = new Map<string, typeof assignments>();
+  for (const a of assignments) {
+    byPartner.set(a.partnerId, [...(byPartner.get(a.partnerId) || []), a]);
+  }
+
+  return {
+    since,
+    overview: {
+      ...summarize(assignments, policy),
+      totalPartners,
+      activePartners,
+    },
+    partnerPerformance: [...byPartner.entries()].map(([partnerId, rows]) => ({
+      partnerId,
+      partnerName: rows[0].partner.name,
+      ...summarize(rows, policy),
+    })),
+    areaStats: areas.map((area) => ({
+      area: area.serviceArea as string,
+      activePartners: area._count.id,
+      ...summarize(
+        assignments.filter((a) => a.partner.serviceArea === area.serviceArea),
+        policy,
+      ),
+    })),
+  };
+}
+
+/**
+ * The metrics laid out as Overview, Partners and Areas sheets for export.
+ */
+export function deliveryMetricsSheets(
+  metrics: Awaited<ReturnType<typeof getDeliveryMetrics>>,
+  filters: AnalyticsFilters,
+): Sheet[] {
+  const { overview } = metrics;
+  const columns = [
+    "Total Deliveries",
+    "Completed",
+    "Failed",
+    "Success Rate (%)",
+    "Avg Delivery Time (hours)",
+    "SLA Compliance (%)",
+  ];
+  const values = (m: ReturnType<typeof summarize>) => [
+    m.totalDeliveries,
+    m.completedDeliveries,
+    m.failedDeliveries,
+    m.successRate,
+    m.averageDeliveryTime,
+    m.slaCompliance,
+  ];
+
+  return [
+    {
+      name: "Overview",
+      rows: [
+        ["Period", filters.period || "30d"],
+        ["From", metrics.since.toISOString().split("T")[0]],
+        ["Partner", filters.partnerId || "All"],
+        ["Area", filters.area || "All"],
+        [],
+        [...columns, "Partners", "Active Partners"],
+        [...values(overview), overview.totalPartners, overview.activePartners],
+      ],
+    },
+    {
+      name: "Partners",
+      rows: [
+        ["Partner ID", "Partner", ...columns],
+        ...metrics.partnerPerformance.map((p) => [
+          p.partnerId,
+          p.partnerName,
+          ...values(p),
+        ]),
+      ],
+    },
+    {
+      name: "Areas",
+      rows: [
+        ["Area", "Active Partners", ...columns],
+        ...metrics.areaStats.map((a) => [
+          a.area,
+          a.activePartners,
+          ...values(a),
+        ]),
+      ],
+    },
+  ];
+}
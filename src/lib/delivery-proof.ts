@@ -0,0 +1,211 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import type { DeliveryProofKind, Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { sendDeliveryOtpEmail } from "./email";
+import { validateFileUpload } from "./security";
+import {
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from "./error-handler";
+
+const OTP_TTL_MS = 24 * 60 * 60 * 1000;
+const OTP_RESEND_INTERVAL_MS = 60 * 1000;
+const MAX_OTP_ATTEMPTS = 5;
+// Accepted image types with the bytes their files start with
+const PROOF_SIGNATURES: Record<string, string> = {
+  "image/png": "89504e470d0a1a0a",
+  "image/jpeg": "ffd8ff",
+};
+
+export type DeliveryProofInput = {
+  receivedByName?: string;
+  // Images arrive from the browser as base64 data URLs
+  signature?: string;
+  photo?: string;
+};
+
+// Salted with the booking so equal codes never share a hash
+const hashOtp = (bookingId: string, otp: string) =>
+  createHash("sha256").update(`${bookingId}:${otp}`).digest("hex");
+
+/**
+ * Generates a fresh delivery OTP for an open delivery and emails it to the
+ * customer. Any earlier OTP stops working.
+ */
+export async function issueDeliveryOtp(bookingId: string) {
+  const assignment = await prisma.deliveryAssignment.findUnique({
+    where: { bookingId },
+    select: {
+      id: true,
+      status: true,
+      otpExpiresAt: true,
+      booking: {
+        select: {
+          userEmail: true,
+          userName: true,
+          user: { select: { email: true } },
+        },
+      },
+    },
+  });
+  if (!assignment) throw new NotFoundError("Delivery assignment not found");
+  if (assignment.status === "DELIVERED" || assignment.status === "FAILED") {
+    throw new ValidationError("This delivery is already closed");
+  }
+  const lastIssuedAt = assignment.otpExpiresAt
+    ? assignment.otpExpiresAt.getTime() - OTP_TTL_MS
+    : 0;
+  if (Date.now() - lastIssuedAt < OTP_RESEND_INTERVAL_MS) {
+    throw new RateLimitError(
+      "An OTP was just sent. Please wait a minute before sending another.",
+    );
+  }
+
+  const otp = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const expiresAt = new Date(Date.now() + OTP_TTL_MS);
+  await prisma.deliveryAssignment.update({
+    where: { id: assignment.id },
+    data: {
+      otpHash: hashOtp(bookingId, otp),
+      otpExpiresAt: expiresAt,
+      otpAttempts: 0,
+      otpVerifiedAt: null,
+    },
+  });
+
+  // Older self-service bookings did not copy the customer's email
+  const { userName } = assignment.booking;
+  const userEmail =
+    assignment.booking.userEmail || assignment.booking.user.email;
+  const sent = userEmail
+    ? await sendDeliveryOtpEmail(userEmail, userName, bookingId, otp, expiresAt)
+    : false;
+  if (!sent) {
+    console.error(`Delivery OTP for booking ${bookingId} could not be emailed`);
+  }
+
+  return { sent, expiresAt };
+}
+
+/**
+ * Checks the OTP the customer gave at the door. Wrong attempts are counted
+ * and the OTP locks after a few of them.
+ */
+export async function verifyDeliveryOtp(bookingId: string, otp: string) {
+  const assignment = await prisma.deliveryAssignment.findUnique({
+    where: { bookingId },
+    select: {
+      id: true,
+      otpHash: true,
+      otpExpiresAt: true,
+      otpAttempts: true,
+    },
+  });
+  if (!assignment) throw new NotFoundError("Delivery assignment not found");
+  if (!assignment.otpHash || !assignment.otpExpiresAt) {
+    throw new ValidationError(
+      "No delivery OTP has been sent for this booking. Send one first.",
+      { field: "otp" },
+    );
+  }
+  if (assignment.otpAttempts >= MAX_OTP_ATTEMPTS) {
+    throw new ValidationError(
+      "Too many wrong OTP attempts. Send a new OTP to the customer.",
+      { field: "otp" },
+    );
+  }
+  if (assignment.otpExpiresAt < new Date()) {
+    throw new ValidationError(
+      "The delivery OTP has expired. Send a new OTP to the customer.",
+      { field: "otp" },
+    );
+  }
+
+  const matches = timingSafeEqual(
+    Buffer.from(hashOtp(bookingId, otp)),
+    Buffer.from(assignment.otpHash),
+  );
+  if (!matches) {
+    const { otpAttempts } = await prisma.deliveryAssignment.update({
+      where: { id: assignment.id },
+      data: { otpAttempts: { increment: 1 } },
+      select: { otpAttempts: true },
+    });
+    throw new ValidationError("Incorrect delivery OTP", {
+      field: "otp",
+      attemptsLeft: Math.max(MAX_OTP_ATTEMPTS - otpAttempts, 0),
+    });
+  }
+}
+
+function parseProofImage(kind: DeliveryProofKind, dataUrl: string) {
+  const match = /^data:(image\/[a-z]+);base64,([A-Za-z0-9+/]+={0,2})$/.exec(
+    dataUrl,
+  );
+  const label = kind === "SIGNATURE" ? "Signature" : "Photo";
+  if (!match || !PROOF_SIGNATURES[match[1]]) {
+    throw new ValidationError(`${label} must be a PNG or JPEG image`, {
+      field: kind.toLowerCase(),
+    });
+  }
+
+  const data = Buffer.from(match[2], "base64");
+  const signature = PROOF_SIGNATURES[match[1]];
+  if (data.toString("hex", 0, signature.length / 2) !== signature) {
+    throw new ValidationError(`${label} content does not match its type`, {
+      field: kind.toLowerCase(),
+    });
+  }
+  const extension = match[1] === "image/png" ? "png" : "jpg";
+  const check = validateFileUpload(
+    new File([data], `${kind.toLowerCase()}.${extension}`, { type: match[1] }),
+  );
+  if (!check.isValid) {
+    throw new ValidationError(`${label}: ${check.errors.join(", ")}`, {
+      field: kind.toLowerCase(),
+    });
+  }
+
+  return { kind, mimeType: match[1], data };
+}
+
+/**
+ * Stores the receiver's name on the booking and any signature or photo taken
+ * at the door. Runs inside the transaction that closes the delivery.
+ */
+export async function recordDeliveryProof(
+  tx: Prisma.TransactionClient,
+  assignmentId: string,
+  bookingId: string,
+  proof: DeliveryProofInput,
+) {
+  const images = [
+    proof.signature ? parseProofImage("SIGNATURE", proof.signature) : null,
+    proof.photo ? parseProofImage("PHOTO", proof.photo) : null,
+  ].filter((image) => image !== null);
+
+  if (proof.receivedByName) {
+    await tx.booking.update({
+      where: { id: bookingId },
+      data: { receivedByName: proof.receivedByName },
+    });
+  }
+  if (images.length > 0) {
+    await tx.deliveryProof.createMany({
+      data: images.map((image) => ({ assignmentId, ...image })),
+    });
+  }
+}
+
+/**
+ * Response headers for a stored signature or photo. The browser must not
+ * guess another type from its content.
+ */
+export function deliveryProofHeaders(proof: { mimeType: string }) {
+  return {
+    "Content-Type": proof.mimeType,
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, max-age=3600",
+  };
+}
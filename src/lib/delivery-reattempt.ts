@@ -0,0 +1,265 @@
+import type { DeliveryFailureCode, Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { getSystemSettings } from "./settings";
+import { checkPartnerCapacity, getDayRange, getPartnerLoad } from "./dispatch";
+import { sendDeliveryStatusEmail } from "./email";
+import { ConflictError, NotFoundError, ValidationError } from "./error-handler";
+
+export const DELIVERY_FAILURE_LABELS: Record<DeliveryFailureCode, string> = {
+  CUSTOMER_ABSENT: "Customer not available",
+  ADDRESS_NOT_FOUND: "Address not found",
+  REFUSED: "Customer refused delivery",
+  OTHER: "Other",
+};
+
+// How many days ahead a failed delivery can be moved to
+const RESCHEDULE_WINDOW_DAYS = 7;
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Failure reason shown to staff and the customer: the code's label, with the
+ * partner's note when one was given.
+ */
+export function describeFailure(code: DeliveryFailureCode, note?: string) {
+  if (code === "OTHER") return note || DELIVERY_FAILURE_LABELS.OTHER;
+  return note
+    ? `${DELIVERY_FAILURE_LABELS[code]} - ${note}`
+    : DELIVERY_FAILURE_LABELS[code];
+}
+
+/**
+ * Days from tomorrow, within the reschedule window, on which the partner
+ * still has capacity.
+ */
+export async function getReattemptDates(
+  tx: Prisma.TransactionClient,
+  partner: { id: string; capacityPerDay: number },
+  from = new Date(),
+) {
+  const dates: string[] = [];
+  for (let day = 1; day <= RESCHEDULE_WINDOW_DAYS; day++) {
+    const start = new Date(
+      from.getFullYear(),
+      from.getMonth(),
+      from.getDate() + day,
+    );
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    const load = await getPartnerLoad(tx, start, end);
+    if ((load.get(partner.id) || 0) < partner.capacityPerDay) {
+      dates.push(toDateString(start));
+    }
+  }
+  return dates;
+}
+
+/**
+ * Decides what follows a failed attempt. The booking is cancelled when the
+ * customer refused it or the attempt limit is reached; otherwise the first
+ * day the same partner has room is proposed for the next attempt.
+ */
+export async function planReattempt(
+  assignment: { attempts: number; partnerId: string },
+  failureCode: DeliveryFailureCode,
+) {
+  const { maxDeliveryAttempts } = await getSystemSettings();
+  if (failureCode === "REFUSED" || assignment.attempts >= maxDeliveryAttempts) {
+    return {
+      cancel: true,
+      maxAttempts: maxDeliveryAttempts,
+      proposedDate: null,
+    };
+  }
+
+  const partner = await prisma.deliveryPartner.findUniqueOrThrow({
+    where: { id: assignment.partnerId },
+    select: { id: true, capacityPerDay: true },
+  });
+  const [first] = await getReattemptDates(prisma, partner);
+  return {
+    cancel: false,
+    maxAttempts: maxDeliveryAttempts,
+    proposedDate: first ? getDayRange(first).start : null,
+  };
+}
+
+/**
+ * Reattempt details for the customer's tracking page.
+ */
+export async function getRescheduleOptions(bookingId: string, userId: string) {
+  const assignment = await prisma.deliveryAssignment.findUnique({
+    where: { bookingId },
+    include: {
+      booking: { select: { userId: true, status: true } },
+      partner: { select: { id: true, capacityPerDay: true } },
+    },
+  });
+  if (!assignment || assignment.booking.userId !== userId) {
+    throw new NotFoundError("Booking not found");
+  }
+
+  const { maxDeliveryAttempts } = await getSystemSettings();
+  const canReschedule =
+    assignment.status === "FAILED" && assignment.booking.status === "APPROVED";
+
+  return {
+    canReschedule,
+    failureCode: assignment.failureCode,
+    failureReason: assignment.failureReason,
+    attempts: assignment.attempts,
+    maxAttempts: maxDeliveryAttempts,
+    proposedDate: assignment.proposedDate,
+    availableDates: canReschedule
+      ? await getReattemptDates(prisma, assignment.partner)
+      : [],
+  };
+}
+
+/**
+ * Books the next attempt of a failed delivery. Customers may pick any day in
+ * the reschedule window the partner has room on; admins may pick today,
+ * another partner, or go over capacity.
+ */
+export async function rescheduleDelivery(
+  bookingId: string,
+  date: string,
+  options: {
+    // Set when the customer reschedules; limits them to their own booking
+    customerId?: string;
+    partnerId?: string;
+    allowOverCapacity?: boolean;
+  } = {},
+) {
+  const { start } = getDayRange(date);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (
+    start < today ||
+    (options.customerId && start.getTime() === today.getTime())
+  ) {
+    throw new ValidationError("Choose a later date for the next attempt", {
+      field: "date",
+    });
+  }
+
+  const { maxDeliveryAttempts } = await getSystemSettings();
+
+  const result = await prisma.$transaction(async (tx) => {
+    const assignment = await tx.deliveryAssignment.findUnique({
+      where: { bookingId },
+      include: {
+        booking: { include: { user: { select: { email: true } } } },
+        partner: true,
+      },
+    });
+    if (
+      !assignment ||
+      (options.customerId && assignment.booking.userId !== options.customerId)
+    ) {
+      throw new NotFoundError("Booking not found");
+    }
+    if (
+      assignment.status !== "FAILED" ||
+      assignment.booking.status !== "APPROVED"
+    ) {
+      throw new ConflictError("This delivery is not waiting to be rescheduled");
+    }
+
+    const partner =
+      options.partnerId && options.partnerId !== assignment.partnerId
+        ? await tx.deliveryPartner.findUnique({
+            where: { id: options.partnerId },
+          })
+        : assignment.partner;
+    if (!partner || !partner.isActive) {
+      throw new ValidationError("Delivery partner is not available", {
+        field: "partnerId",
+      });
+    }
+
+    if (options.customerId) {
+      const last = new Date(today);
+      last.setDate(last.getDate() + RESCHEDULE_WINDOW_DAYS);
+      if (start > last) {
+        throw new ValidationError(
+          `Choose a date within the next ${RESCHEDULE_WINDOW_DAYS} days`,
+          { field: "date" },
+        );
+      }
+    }
+
+    // Locks the partner so concurrent reschedules cannot overfill the day
+    let warning: string | null;
+    try {
+      warning = await checkPartnerCapacity(tx, partner, start, {
+        allowOverCapacity: !options.customerId && options.allowOverCapacity,
+      });
+    } catch (error) {
+      if (options.customerId && error instanceof ConflictError) {
+        throw new ConflictError(
+          "No deliveries are left on that day. Please choose another date.",
+        );
+      }
+      throw error;
+    }
+
+    const attempt = assignment.attempts + 1;
+    const updated = await tx.deliveryAssignment.update({
+      where: { id: assignment.id },
+      data: {
+        partnerId: partner.id,
+        status: "ASSIGNED",
+        scheduledDate: start,
+        sequence: null,
+        attempts: attempt,
+        failureCode: null,
+        failureReason: null,
+        proposedDate: null,
+        otpHash: null,
+        otpExpiresAt: null,
+        otpAttempts: 0,
+      },
+    });
+
+    await tx.booking.update({
+      where: { id: bookingId },
+      data: { deliveryDate: start },
+    });
+
+    await tx.bookingEvent.create({
+      data: {
+        bookingId,
+        status: "APPROVED",
+        title: "Delivery Rescheduled",
+        description: [
+          `Attempt ${attempt} of ${maxDeliveryAttempts} scheduled for ${start.toLocaleDateString()} with ${partner.name}${options.customerId ? " at the customer's request" : ""}.`,
+          warning,
+        ]
+          .filter(Boolean)
+          .join(" "),
+      },
+    });
+
+    return { assignment: updated, booking: assignment.booking, warning };
+  });
+
+  // Customers see their choice on screen; tell them when staff move it
+  const userEmail = result.booking.userEmail || result.booking.user.email;
+  if (!options.customerId && userEmail) {
+    try {
+      await sendDeliveryStatusEmail(
+        userEmail,
+        result.booking.userName,
+        bookingId,
+        "ASSIGNED",
+        `Your delivery has been rescheduled to ${start.toLocaleDateString()}.`,
+      );
+    } catch (emailError) {
+      console.error("Failed to send reschedule email:", emailError);
+    }
+  }
+
+  return { assignment: result.assignment, warning: result.warning };
+}
@@ -0,0 +1,156 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { ConflictError, ValidationError } from "./error-handler";
+import { findAreaInAddress, getDayRange } from "./dispatch";
+
+export const SLOT_DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Window text stored on bookings and assignments, e.g. "09:00-12:00".
+ */
+export function formatSlotWindow(slot: { startTime: string; endTime: string }) {
+  return `${slot.startTime}-${slot.endTime}`;
+}
+
+// Bookings already holding each slot on the day; cancelled ones free it
+async function getSlotLoad(
+  tx: Prisma.TransactionClient,
+  slotIds: string[],
+  start: Date,
+  end: Date,
+) {
+  const rows = await tx.booking.groupBy({
+    by: ["deliverySlotId"],
+    where: {
+      deliverySlotId: { in: slotIds },
+      expectedDate: { gte: start, lt: end },
+      status: { not: "CANCELLED" },
+    },
+    _count: { id: true },
+  });
+  return new Map(rows.map((r) => [r.deliverySlotId as string, r._count.id]));
+}
+
+// Whether the slot's window on the day starting at dayStart is already over
+function hasSlotEnded(
+  slot: { endTime: string },
+  dayStart: Date,
+  now = new Date(),
+) {
+  const [hours, minutes] = slot.endTime.split(":").map(Number);
+  const endsAt = new Date(dayStart);
+  endsAt.setHours(hours, minutes);
+  return endsAt <= now;
+}
+
+/**
+ * Active slots for the area found in the address on a YYYY-MM-DD date, with
+ * how many bookings each can still take. The area is null when no slot area
+ * matches the address; such customers book without a slot.
+ */
+export async function getSlotsForDate(address: string | null, date: string) {
+  const { start, end } = getDayRange(date);
+  const areas = await prisma.deliverySlot.findMany({
+    where: { isActive: true },
+    distinct: ["area"],
+    select: { area: true },
+  });
+  const area = findAreaInAddress(
+    address,
+    areas.map((a) => a.area),
+  );
+  if (!area) return { area: null, date, slots: [] };
+
+  const slots = await prisma.deliverySlot.findMany({
+    where: { area, dayOfWeek: start.getDay(), isActive: true },
+    orderBy: { startTime: "asc" },
+  });
+  const load = await getSlotLoad(
+    prisma,
+    slots.map((s) => s.id),
+    start,
+    end,
+  );
+
+  return {
+    area,
+    date,
+    slots: slots.map((slot) => {
+      const booked = load.get(slot.id) || 0;
+      const ended = hasSlotEnded(slot, start);
+      return {
+        id: slot.id,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+        window: formatSlotWindow(slot),
+        capacity: slot.capacity,
+        booked,
+        remaining: ended ? 0 : Math.max(slot.capacity - booked, 0),
+      };
+    }),
+  };
+}
+
+/**
+ * Checks a slot picked at booking time: it must be active, serve the
+ * customer's area on that weekday, not be over yet and still have room. Run
+ * inside the booking transaction; the slot row stays locked until it commits
+ * so concurrent bookings cannot overfill it. Returns the expected date and
+ * window to store.
+ */
+export async function reserveDeliverySlot(
+  tx: Prisma.TransactionClient,
+  slotId: string,
+  date: string | undefined,
+  address: string | null,
+) {
+  if (!date) {
+    throw new ValidationError("Choose a delivery date for the slot", {
+      field: "expectedDate",
+    });
+  }
+  const { start, end } = getDayRange(date);
+
+  // Bookings for the same slot wait here until this transaction ends
+  await tx.$queryRaw`SELECT "id" FROM "delivery_slots" WHERE "id" = ${slotId} FOR UPDATE`;
+
+  const slot = await tx.deliverySlot.findUnique({ where: { id: slotId } });
+  if (
+    !slot ||
+    !slot.isActive ||
+    slot.dayOfWeek !== start.getDay() ||
+    findAreaInAddress(address, [slot.area]) !== slot.area
+  ) {
+    throw new ValidationError("This delivery slot is not available", {
+      field: "deliverySlotId",
+    });
+  }
+
+  if (hasSlotEnded(slot, start)) {
+    throw new ValidationError("This delivery slot has already passed", {
+      field: "deliverySlotId",
+    });
+  }
+
+  const booked = (await getSlotLoad(tx, [slot.id], start, end)).get(slot.id);
+  if ((booked || 0) >= slot.capacity) {
+    throw new ConflictError(
+      "This delivery slot is full. Please choose another slot or date.",
+      { field: "deliverySlotId" },
+    );
+  }
+
+  return {
+    deliverySlotId: slot.id,
+    deliveryWindow: formatSlotWindow(slot),
+    expectedDate: start,
+  };
+}
@@ -0,0 +1,421 @@
+import type {
+  BookingStatus,
+  DeliveryAssignmentStatus,
+  DeliveryFailureCode,
+  DeliveryPartner,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "./db";
+import { sendDeliveryReattemptEmail, sendDeliveryStatusEmail } from "./email";
+import { consumeReservation, restoreStock } from "./stock";
+import { restoreQuota } from "./quota";
+import { settleCashOnDelivery } from "./payment-balance";
+import { recordEmptyReturn } from "./empty-cylinders";
+import { requestCancellationRefund } from "./refunds";
+import {
+  issueDeliveryOtp,
+  recordDeliveryProof,
+  verifyDeliveryOtp,
+  type DeliveryProofInput,
+} from "./delivery-proof";
+import { describeFailure, planReattempt } from "./delivery-reattempt";
+import { generateUserId, hashPassword } from "./utils";
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "./error-handler";
+
+// Steps a delivery partner may take from each assignment status. Admins can
+// set any status.
+export const PARTNER_STATUS_TRANSITIONS: Record<
+  DeliveryAssignmentStatus,
+  DeliveryAssignmentStatus[]
+> = {
+  ASSIGNED: ["PICKED_UP", "FAILED"],
+  PICKED_UP: ["OUT_FOR_DELIVERY", "FAILED"],
+  OUT_FOR_DELIVERY: ["DELIVERED", "FAILED"],
+  DELIVERED: [],
+  FAILED: [],
+  CANCELLED: [],
+};
+
+// Assignments still on a partner's list
+export const OPEN_ASSIGNMENT_STATUSES: DeliveryAssignmentStatus[] = [
+  "ASSIGNED",
+  "PICKED_UP",
+  "OUT_FOR_DELIVERY",
+];
+
+// Booking status that follows each delivery status. A failed delivery puts
+// the booking back to APPROVED for another attempt, or cancels it.
+const BOOKING_STATUS_FOR_DELIVERY: Partial<
+  Record<DeliveryAssignmentStatus, BookingStatus>
+> = {
+  PICKED_UP: "APPROVED",
+  OUT_FOR_DELIVERY: "OUT_FOR_DELIVERY",
+  DELIVERED: "DELIVERED",
+};
+
+const statusLabel = (status: string) => status.toLowerCase().replace("_", " ");
+
+/**
+ * Takes a cancelled booking off its partner's list. Run it in the transaction
+ * that cancels the booking.
+ */
+export async function cancelDeliveryAssignment(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+) {
+  await tx.deliveryAssignment.updateMany({
+    where: { bookingId, status: { in: OPEN_ASSIGNMENT_STATUSES } },
+    data: { status: "CANCELLED", otpHash: null },
+  });
+}
+
+/**
+ * Moves a booking's delivery assignment to a new status and keeps the booking,
+ * stock, payments and customer in step. Closing a delivery needs the OTP the
+ * customer received when it went out for delivery; a failed delivery needs a
+ * failure code and is offered for another attempt until the limit is reached.
+ */
+export async function updateDeliveryStatus(
+  bookingId: string,
+  newStatus: DeliveryAssignmentStatus,
+  options: {
+    notes?: string;
+    failureCode?: DeliveryFailureCode;
+    failureReason?: string;
+    updatedById?: string;
+    // Only apply if the assignment is still in this status
+    fromStatus?: DeliveryAssignmentStatus;
+    otp?: string;
+    proof?: DeliveryProofInput;
+    emptiesCollected?: number;
+  } = {},
+) {
+  const assignment = await prisma.deliveryAssignment.findUnique({
+    where: { bookingId },
+    include: {
+      booking: { include: { user: { select: { email: true } } } },
+    },
+  });
+  if (!assignment) throw new NotFoundError("Delivery assignment not found");
+
+  const { booking } = assignment;
+  // The account's email when the booking has no copy of its own
+  const userEmail = booking.userEmail || booking.user.email;
+  if (
+    booking.status === "CANCELLED" ||
+    booking.status === "DELIVERED" ||
+    assignment.status === "CANCELLED"
+  ) {
+    throw new ConflictError(
+      `This booking is already ${statusLabel(
+        booking.status === "DELIVERED" ? booking.status : "CANCELLED",
+      )}`,
+    );
+  }
+
+  let failureReason: string | null = null;
+  let reattempt: Awaited<ReturnType<typeof planReattempt>> | null = null;
+  if (newStatus === "FAILED") {
+    if (!options.failureCode) {
+      throw new ValidationError("Choose why the delivery failed", {
+        field: "failureCode",
+      });
+    }
+    failureReason = describeFailure(options.failureCode, options.failureReason);
+    reattempt = await planReattempt(assignment, options.failureCode);
+  }
+
+  const newBookingStatus = reattempt
+    ? reattempt.cancel
+      ? "CANCELLED"
+      : "APPROVED"
+    : (BOOKING_STATUS_FOR_DELIVERY[newStatus] ?? booking.status);
+  const bookingChanged = newBookingStatus !== booking.status;
+
+  if (newStatus === "DELIVERED") {
+    if (!options.otp) {
+      throw new ValidationError(
+        "The customer's delivery OTP is required to mark this delivered",
+        { field: "otp" },
+      );
+    }
+    if (!options.proof?.receivedByName) {
+      throw new ValidationError(
+        "Enter the name of the person who received the cylinder",
+        { field: "receivedByName" },
+      );
+    }
+    await verifyDeliveryOtp(bookingId, options.otp);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const claimed = await tx.deliveryAssignment.updateMany({
+      where: {
+        bookingId,
+        // A cancellation running meanwhile closes the assignment first
+        status: options.fromStatus ?? { not: "CANCELLED" },
+        booking: { status: { notIn: ["CANCELLED", "DELIVERED"] } },
+      },
+      data: {
+        status: newStatus,
+        failureCode: newStatus === "FAILED" ? options.failureCode : null,
+        failureReason,
+        proposedDate: reattempt?.proposedDate ?? null,
+        ...(newStatus === "DELIVERED"
+          ? { otpHash: null, otpVerifiedAt: new Date() }
+          : {}),
+      },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError(
+        "Delivery status was changed meanwhile. Refresh and try again.",
+      );
+    }
+
+    if (newStatus === "DELIVERED" && options.proof) {
+      await recordDeliveryProof(tx, assignment.id, bookingId, options.proof);
+    }
+
+    if (bookingChanged) {
+      await tx.booking.update({
+        where: { id: bookingId },
+        data: {
+          status: newBookingStatus,
+          ...(newBookingStatus === "DELIVERED"
+            ? { deliveredAt: new Date() }
+            : {}),
+        },
+      });
+
+      if (newBookingStatus === "DELIVERED") {
+        // Reserved cylinders have now left the godown
+        await consumeReservation(bookingId, tx);
+        await settleCashOnDelivery(tx, bookingId);
+      }
+
+      if (newBookingStatus === "CANCELLED") {
+        // Restore user quota
+        await restoreQuota(tx, booking.connectionId, booking.quantity, {
+          reason: "Booking cancelled after failed delivery",
+          bookingId,
+        });
+
+        // Restore available stock
+        await restoreStock(bookingId, booking.quantity, tx);
+
+        // Mark related payments as CANCELLED (except successful ones)
+        await tx.payment.updateMany({
+          where: { bookingId, status: { not: "SUCCESS" } },
+          data: { status: "CANCELLED" },
+        });
+
+        // Successful payments are owed back to the customer
+        await requestCancellationRefund(tx, bookingId, {
+          reason: failureReason
+            ? `Delivery failed: ${failureReason}`
+            : "Delivery failed",
+          requestedById: options.updatedById,
+        });
+      }
+    }
+
+    await tx.bookingEvent.create({
+      data: {
+        bookingId,
+        status: newBookingStatus,
+        title: `Delivery ${statusLabel(newStatus)}`,
+        description: [
+          `Delivery status updated to ${newStatus}.`,
+          bookingChanged
+            ? `Booking status changed to ${newBookingStatus}.`
+            : null,
+          failureReason ? `Reason: ${failureReason}` : null,
+          reattempt
+            ? `Attempt ${assignment.attempts} of ${reattempt.maxAttempts}.`
+            : null,
+          reattempt && !reattempt.cancel
+            ? reattempt.proposedDate
+              ? `Next attempt proposed for ${reattempt.proposedDate.toLocaleDateString()}.`
+              : "Waiting for a new delivery date."
+            : null,
+          newStatus === "DELIVERED"
+            ? `Confirmed with customer OTP, received by ${options.proof?.receivedByName}.`
+            : null,
+        ]
+          .filter(Boolean)
+          .join(" "),
+      },
+    });
+
+    if (newStatus === "DELIVERED" && options.emptiesCollected) {
+      await recordEmptyReturn(tx, bookingId, options.emptiesCollected, {
+        recordedById: options.updatedById,
+      });
+    }
+
+    return tx.deliveryAssignment.findUniqueOrThrow({ where: { bookingId } });
+  });
+
+  // Send email notification to customer about delivery status update
+  try {
+    if (userEmail && reattempt && !reattempt.cancel) {
+      // Offers the proposed date and a link to pick another one
+      await sendDeliveryReattemptEmail(userEmail, booking.userName, bookingId, {
+        reason: failureReason!,
+        attempts: assignment.attempts,
+        maxAttempts: reattempt.maxAttempts,
+        proposedDate: reattempt.proposedDate,
+      });
+    } else if (userEmail) {
+      await sendDeliveryStatusEmail(
+        userEmail,
+        booking.userName,
+        bookingId,
+        newStatus,
+        options.notes ||
+          (failureReason
+            ? `We could not deliver your cylinder: ${failureReason}. Your booking has been cancelled.`
+            : `Your delivery status has been updated to ${statusLabel(newStatus)}.`),
+      );
+    }
+  } catch (emailError) {
+    console.error("Failed to send delivery status email:", emailError);
+    // Don't fail the request if email fails
+  }
+
+  if (newStatus === "OUT_FOR_DELIVERY") {
+    try {
+      await issueDeliveryOtp(bookingId);
+    } catch (otpError) {
+      // Staff can resend the OTP from the delivery screens
+      console.error("Failed to issue delivery OTP:", otpError);
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Resolves the delivery partner record behind a partner portal login.
+ */
+export async function getPartnerForUser(userId: string) {
+  const partner = await prisma.deliveryPartner.findUnique({
+    where: { userId },
+  });
+  if (!partner) {
+    throw new AuthorizationError(
+      "This login is not linked to a delivery partner",
+    );
+  }
+  if (!partner.isActive) {
+    throw new AuthorizationError("This delivery partner is inactive");
+  }
+  return partner;
+}
+
+/**
+ * Applies a status change requested by the partner the assignment belongs to.
+ */
+export async function updatePartnerDeliveryStatus(
+  partnerId: string,
+  assignmentId: string,
+  newStatus: DeliveryAssignmentStatus,
+  options: {
+    failureCode?: DeliveryFailureCode;
+    reason?: string;
+    notes?: string;
+    updatedById?: string;
+    otp?: string;
+    proof?: DeliveryProofInput;
+    emptiesCollected?: number;
+  } = {},
+) {
+  const assignment = await prisma.deliveryAssignment.findUnique({
+    where: { id: assignmentId },
+    select: { bookingId: true, partnerId: true, status: true },
+  });
+  if (!assignment || assignment.partnerId !== partnerId) {
+    throw new NotFoundError("Delivery assignment not found");
+  }
+  if (!PARTNER_STATUS_TRANSITIONS[assignment.status].includes(newStatus)) {
+    throw new ValidationError(
+      `Cannot move a ${statusLabel(assignment.status)} delivery to ${statusLabel(newStatus)}`,
+    );
+  }
+
+  return updateDeliveryStatus(assignment.bookingId, newStatus, {
+    notes: options.notes,
+    failureCode: options.failureCode,
+    failureReason: options.reason,
+    updatedById: options.updatedById,
+    fromStatus: assignment.status,
+    otp: options.otp,
+    proof: options.proof,
+    emptiesCollected: options.emptiesCollected,
+  });
+}
+
+/**
+ * Creates or updates the portal login of a delivery partner. The partner's
+ * email is the login; admins set the password. Without a password an existing
+ * login is only kept in sync with the partner's details.
+ */
+export async function linkPartnerLogin(
+  tx: Prisma.TransactionClient,
+  partner: DeliveryPartner,
+  password?: string,
+) {
+  if (!password && !partner.userId) return partner;
+  if (!partner.email) {
+    throw new ValidationError("An email is required for the partner login");
+  }
+
+  const account = {
+    email: partner.email,
+    name: partner.name,
+    phone: partner.phone,
+    ...(password ? { password: await hashPassword(password) } : {}),
+  };
+
+  if (partner.userId) {
+    await tx.user.update({ where: { id: partner.userId }, data: account });
+    return partner;
+  }
+
+  const existing = await tx.user.findUnique({
+    where: { email: partner.email },
+    select: { id: true, role: true, deliveryPartner: { select: { id: true } } },
+  });
+  if (
+    existing &&
+    (existing.role !== "DELIVERY_PARTNER" || existing.deliveryPartner)
+  ) {
+    throw new ConflictError("This email already belongs to another account", {
+      field: "email",
+      code: "EMAIL_EXISTS",
+    });
+  }
+
+  const user = existing
+    ? await tx.user.update({ where: { id: existing.id }, data: account })
+    : await tx.user.create({
+        data: {
+          ...account,
+          userId: generateUserId().toLowerCase(),
+          address: partner.serviceArea || "",
+          role: "DELIVERY_PARTNER",
+          // Created by an admin, so there is nothing to verify
+          emailVerified: new Date(),
+        },
+      });
+
+  return tx.deliveryPartner.update({
+    where: { id: partner.id },
+    data: { userId: user.id },
+  });
+}
@@ -0,0 +1,558 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { sendDeliveryAssignedEmail } from "./email";
+import { ConflictError, NotFoundError, ValidationError } from "./error-handler";
+import { getStockLocations } from "./stock-locations";
+import { getBookingPriceBreakdown } from "./pricing";
+import { calculatePaymentBalance } from "./payment-balance";
+import { getSystemSettings } from "./settings";
+import { escapeHTML } from "./security";
+import { renderPdfFromHtml } from "./pdf";
+
+export const UNZONED_AREA = "Unzoned";
+
+/**
+ * Splits a partner's service area ("Kothrud, Baner; Aundh") into area names.
+ */
+export function partnerServiceAreas(serviceArea?: string | null) {
+  return (serviceArea || "")
+    .split(/[,;]/)
+    .map((area) => area.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Start and end of a YYYY-MM-DD day in server time.
+ */
+export function getDayRange(date: string) {
+  const start = new Date(`${date}T00:00:00`);
+  if (Number.isNaN(start.getTime())) {
+    throw new ValidationError("Invalid date", { field: "date" });
+  }
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+}
+
+/**
+ * Longest of the area names found in the address, like
+ * resolveLocationForAddress; null when none match.
+ */
+export function findAreaInAddress(address: string | null, areas: string[]) {
+  const haystack = (address || "").toLowerCase();
+  let best: string | null = null;
+  for (const area of areas) {
+    const needle = area.toLowerCase();
+    if (haystack.includes(needle) && (!best || needle.length > best.length)) {
+      best = area;
+    }
+  }
+  return best;
+}
+
+/**
+ * Deliveries each partner already carries on a day. Assignments without a
+ * scheduled date count on the day they were made.
+ */
+export async function getPartnerLoad(
+  tx: Prisma.TransactionClient,
+  start: Date,
+  end: Date,
+) {
+  const rows = await tx.deliveryAssignment.groupBy({
+    by: ["partnerId"],
+    where: {
+      OR: [
+        { scheduledDate: { gte: start, lt: end } },
+        { scheduledDate: null, assignedAt: { gte: start, lt: end } },
+      ],
+      // Cancelled bookings free their slot
+      status: { not: "CANCELLED" },
+      booking: { status: { not: "CANCELLED" } },
+    },
+    _count: { _all: true },
+  });
+  return new Map(rows.map((row) => [row.partnerId, row._count._all]));
+}
+
+/**
+ * Makes sure a partner can take `count` more deliveries on the day starting
+ * at `start`. Going over capacity is refused unless the admin overrides it,
+ * in which case the warning to show is returned. The partner stays locked
+ * until the transaction ends, so run it in the one creating the assignments.
+ */
+export async function checkPartnerCapacity(
+  tx: Prisma.TransactionClient,
+  partner: { id: string; name: string; capacityPerDay: number },
+  start: Date,
+  options: { count?: number; allowOverCapacity?: boolean } = {},
+) {
+  await tx.$queryRaw`SELECT "id" FROM "delivery_partners" WHERE "id" = ${partner.id} FOR UPDATE`;
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  const assigned = (await getPartnerLoad(tx, start, end)).get(partner.id) || 0;
+  const free = partner.capacityPerDay - assigned;
+  if ((options.count ?? 1) <= free) return null;
+
+  const message = `${partner.name} has ${Math.max(free, 0)} of ${partner.capacityPerDay} deliveries left on ${start.toLocaleDateString()}`;
+  if (!options.allowOverCapacity) {
+    throw new ConflictError(message, {
+      partnerId: partner.id,
+      capacityPerDay: partner.capacityPerDay,
+      assigned,
+      overCapacity: true,
+    });
+  }
+  return `${message}; assigned over capacity`;
+}
+
+/**
+ * Active partners with their deliveries and free capacity on a day.
+ */
+export async function getPartnerAvailability(date: string) {
+  const { start, end } = getDayRange(date);
+  const [partners, load] = await Promise.all([
+    prisma.deliveryPartner.findMany({
+      where: { isActive: true },
+      orderBy: { name: "asc" },
+    }),
+    getPartnerLoad(prisma, start, end),
+  ]);
+  return partners.map((partner) => {
+    const assigned = load.get(partner.id) || 0;
+    return {
+      id: partner.id,
+      name: partner.name,
+      phone: partner.phone,
+      vehicleNumber: partner.vehicleNumber,
+      serviceArea: partner.serviceArea,
+      capacityPerDay: partner.capacityPerDay,
+      assigned,
+      available: Math.max(partner.capacityPerDay - assigned, 0),
+    };
+  });
+}
+
+/**
+ * Proposes assignments for approved, unassigned bookings due by the given
+ * day. Bookings are grouped by the area their address falls in and each group
+ * is packed onto the partners covering it, fullest remaining capacity first.
+ * Partners without a service area are used for areas nobody covers.
+ */
+export async function buildDispatchPlan(date: string) {
+  const { start, end } = getDayRange(date);
+  const [bookings, partners, locations, load] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        status: "APPROVED",
+        assignment: { is: null },
+        OR: [{ expectedDate: null }, { expectedDate: { lt: end } }],
+      },
+      include: {
+        cylinder: { select: { name: true } },
+        user: { select: { phone: true } },
+      },
+      orderBy: [{ expectedDate: "asc" }, { requestedAt: "asc" }],
+    }),
+    prisma.deliveryPartner.findMany({
+      where: { isActive: true },
+      orderBy: { name: "asc" },
+    }),
+    getStockLocations(prisma, { activeOnly: true }),
+    getPartnerLoad(prisma, start, end),
+  ]);
+
+  const partnerAreas = new Map(
+    partners.map((p) => [p.id, partnerServiceAreas(p.serviceArea)]),
+  );
+  const knownAreas = new Map<string, string>();
+  for (const area of [
+    ...[...partnerAreas.values()].flat(),
+    ...locations.flatMap((l) => l.serviceAreas.map((a) => a.trim())),
+  ]) {
+    if (area) knownAreas.set(area.toLowerCase(), area);
+  }
+
+  const groups = new Map<string, typeof bookings>();
+  for (const booking of bookings) {
+    const area =
+      findAreaInAddress(booking.userAddress, [...knownAreas.values()]) ||
+      UNZONED_AREA;
+    groups.set(area, [...(groups.get(area) || []), booking]);
+  }
+
+  const remaining = new Map(
+    partners.map((p) => [
+      p.id,
+      Math.max(p.capacityPerDay - (load.get(p.id) || 0), 0),
+    ]),
+  );
+  const generalists = partners.filter(
+    (p) => partnerAreas.get(p.id)!.length === 0,
+  );
+
+  const planned = [...groups.entries()]
+    .sort(([a], [b]) =>
+      a === UNZONED_AREA ? 1 : b === UNZONED_AREA ? -1 : a.localeCompare(b),
+    )
+    .map(([area, areaBookings]) => {
+      const covering = partners.filter((p) =>
+        partnerAreas
+          .get(p.id)!
+          .some((a) => a.toLowerCase() === area.toLowerCase()),
+      );
+      const candidates = covering.length > 0 ? covering : generalists;
+
+      // Customers with an earlier delivery slot come first
+      const stops = [...areaBookings]
+        .sort(
+          (a, b) =>
+            (a.deliveryWindow || "~").localeCompare(b.deliveryWindow || "~") ||
+            (a.userAddress || "").localeCompare(b.userAddress || ""),
+        )
+        .map((booking) => {
+          // Keep filling the partner with the most room so the area stays batched
+          const partner = candidates
+            .filter((p) => remaining.get(p.id)! > 0)
+            .sort((a, b) => remaining.get(b.id)! - remaining.get(a.id)!)[0];
+          if (partner)
+            remaining.set(partner.id, remaining.get(partner.id)! - 1);
+          return {
+            bookingId: booking.id,
+            customerName: booking.receiverName || booking.userName,
+            phone:
+              booking.receiverPhone || booking.userPhone || booking.user.phone,
+            address: booking.userAddress,
+            quantity: booking.quantity,
+            cylinderName: booking.cylinder.name,
+            expectedDate: booking.expectedDate,
+            deliveryWindow: booking.deliveryWindow,
+            partnerId: partner?.id ?? null,
+            reason: partner
+              ? null
+              : candidates.length === 0
+                ? "No active partner covers this area"
+                : "Partners for this area are at capacity",
+          };
+        });
+
+      return { area, stops };
+    });
+
+  return {
+    date,
+    partners: partners.map((p) => ({
+      id: p.id,
+      name: p.name,
+      phone: p.phone,
+      areas: partnerAreas.get(p.id)!,
+      capacityPerDay: p.capacityPerDay,
+      assigned: load.get(p.id) || 0,
+    })),
+    groups: planned,
+    unplaced: planned.reduce(
+      (sum, group) => sum + group.stops.filter((s) => !s.partnerId).length,
+      0,
+    ),
+  };
+}
+
+/**
+ * Creates the assignments of an accepted plan in one transaction. Each
+ * partner's stops are numbered in the order given, after any stops the
+ * partner already has that day.
+ */
+export async function acceptDispatchPlan(
+  date: string,
+  stops: { bookingId: string; partnerId: string }[],
+) {
+  const { start, end } = getDayRange(date);
+  const partnerIds = [...new Set(stops.map((s) => s.partnerId))];
+
+  const created = await prisma.$transaction(
+    async (tx) => {
+      const partners = await tx.deliveryPartner.findMany({
+        where: { id: { in: partnerIds }, isActive: true },
+      });
+      if (partners.length !== partnerIds.length) {
+        throw new ValidationError("One or more partners are not active");
+      }
+
+      const lastSequence = await tx.deliveryAssignment.groupBy({
+        by: ["partnerId"],
+        where: {
+          partnerId: { in: partnerIds },
+          scheduledDate: { gte: start, lt: end },
+        },
+        _max: { sequence: true },
+      });
+      const nextSequence = new Map(
+        partners.map((p) => [
+          p.id,
+          (lastSequence.find((r) => r.partnerId === p.id)?._max.sequence ?? 0) +
+            1,
+        ]),
+      );
+
+      for (const partner of partners) {
+        await checkPartnerCapacity(tx, partner, start, {
+          count: stops.filter((s) => s.partnerId === partner.id).length,
+        });
+      }
+
+      const results = [];
+      for (const stop of stops) {
+        const booking = await tx.booking.findUnique({
+          where: { id: stop.bookingId },
+          select: {
+            status: true,
+            userEmail: true,
+            userName: true,
+            deliveryWindow: true,
+            assignment: { select: { id: true } },
+          },
+        });
+        if (!booking || booking.status !== "APPROVED" || booking.assignment) {
+          throw new ConflictError(
+            `Booking ${stop.bookingId} is no longer waiting for a delivery partner`,
+            { bookingId: stop.bookingId },
+          );
+        }
+        const partner = partners.find((p) => p.id === stop.partnerId)!;
+        const sequence = nextSequence.get(partner.id)!;
+        nextSequence.set(partner.id, sequence + 1);
+
+        await tx.deliveryAssignment.create({
+          data: {
+            bookingId: stop.bookingId,
+            partnerId: partner.id,
+            status: "ASSIGNED",
+            priority: "normal",
+            scheduledDate: start,
+            scheduledTime: booking.deliveryWindow,
+            sequence,
+          },
+        });
+        await tx.booking.update({
+          where: { id: stop.bookingId },
+          data: { deliveryDate: start },
+        });
+        await tx.bookingEvent.create({
+          data: {
+            bookingId: stop.bookingId,
+            status: "APPROVED",
+            title: "Delivery Assigned",
+            description: `Delivery assigned to ${partner.name} for ${start.toLocaleDateString()} (stop ${sequence}).`,
+          },
+        });
+        results.push({ ...stop, sequence, booking, partner });
+      }
+      return results;
+    },
+    // Large plans create many rows; the default 5s is too tight
+    { timeout: 30000 },
+  );
+
+  for (const { bookingId, booking, partner } of created) {
+    if (!booking.userEmail) continue;
+    try {
+      await sendDeliveryAssignedEmail(
+        booking.userEmail,
+        booking.userName,
+        bookingId,
+        { name: partner.name, phone: partner.phone },
+        start.toLocaleDateString(),
+        "During the day",
+      );
+    } catch (emailError) {
+      console.error("Failed to send delivery assignment email:", emailError);
+    }
+  }
+
+  return created.map(({ bookingId, partnerId, sequence }) => ({
+    bookingId,
+    partnerId,
+    sequence,
+  }));
+}
+
+/**
+ * A day's deliveries per partner in stop order.
+ */
+export async function getRunSheets(date: string, partnerId?: string | null) {
+  const { start, end } = getDayRange(date);
+  const assignments = await prisma.deliveryAssignment.findMany({
+    where: {
+      ...(partnerId ? { partnerId } : {}),
+      OR: [
+        { scheduledDate: { gte: start, lt: end } },
+        { scheduledDate: null, assignedAt: { gte: start, lt: end } },
+      ],
+      status: { not: "CANCELLED" },
+      booking: { status: { not: "CANCELLED" } },
+    },
+    include: {
+      partner: {
+        select: { id: true, name: true, phone: true, vehicleNumber: true },
+      },
+      booking: {
+        include: {
+          cylinder: { select: { name: true } },
+          payments: { select: { amount: true, method: true, status: true } },
+          user: { select: { phone: true } },
+        },
+      },
+    },
+    orderBy: [
+      { partner: { name: "asc" } },
+      { sequence: { sort: "asc", nulls: "last" } },
+      { assignedAt: "asc" },
+    ],
+  });
+
+  const sheets = new Map<
+    string,
+    {
+      partner: (typeof assignments)[number]["partner"];
+      stops: {
+        assignmentId: string;
+        sequence: number | null;
+        bookingId: string;
+        status: string;
+        customerName: string;
+        phone: string | null;
+        address: string | null;
+        quantity: number;
+        cylinderName: string;
+        scheduledTime: string | null;
+        codDue: number;
+      }[];
+    }
+  >();
+  for (const { partner, booking, ...assignment } of assignments) {
+    const sheet = sheets.get(partner.id) || { partner, stops: [] };
+    sheet.stops.push({
+      assignmentId: assignment.id,
+      sequence: assignment.sequence,
+      bookingId: booking.id,
+      status: assignment.status,
+      customerName: booking.receiverName || booking.userName,
+      phone: booking.receiverPhone || booking.userPhone || booking.user.phone,
+      address: booking.userAddress,
+      quantity: booking.quantity,
+      cylinderName: booking.cylinder.name,
+      scheduledTime: assignment.scheduledTime,
+      // Whatever is still unpaid is collected at the door
+      codDue: calculatePaymentBalance(
+        getBookingPriceBreakdown(booking).total,
+        booking.payments,
+        booking.status,
+      ).outstanding,
+    });
+    sheets.set(partner.id, sheet);
+  }
+  return [...sheets.values()];
+}
+
+/**
+ * One partner's run sheet for a day as a PDF, with a signature column for
+ * each stop and the cash to collect.
+ */
+export async function generateRunSheetPdf(date: string, partnerId: string) {
+  const partner = await prisma.deliveryPartner.findUnique({
+    where: { id: partnerId },
+  });
+  if (!partner) throw new NotFoundError("Delivery partner not found");
+
+  const [sheet] = await getRunSheets(date, partnerId);
+  const stops = sheet?.stops || [];
+  const agency = await getSystemSettings();
+  const day = getDayRange(date).start.toLocaleDateString("en-IN");
+  const rupees = (amount: number) => `₹${amount.toLocaleString("en-IN")}`;
+  const totals = stops.reduce(
+    (sum, stop) => ({
+      quantity: sum.quantity + stop.quantity,
+      codDue: sum.codDue + stop.codDue,
+    }),
+    { quantity: 0, codDue: 0 },
+  );
+
+  const rows = stops
+    .map(
+      (stop, index) => `
+          <tr>
+            <td>${stop.sequence ?? index + 1}</td>
+            <td>${escapeHTML(stop.customerName)}<div class="muted">#${stop.bookingId.slice(-8).toUpperCase()}${stop.scheduledTime ? ` · ${escapeHTML(stop.scheduledTime)}` : ""}</div></td>
+            <td>${escapeHTML(stop.address || "-")}</td>
+            <td>${escapeHTML(stop.phone || "-")}</td>
+            <td>${stop.quantity} x ${escapeHTML(stop.cylinderName)}</td>
+            <td class="amount">${stop.codDue > 0 ? rupees(stop.codDue) : "Paid"}</td>
+            <td class="signature"></td>
+          </tr>`,
+    )
+    .join("");
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="utf-8">
+      <title>Run Sheet - ${escapeHTML(partner.name)} - ${day}</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: Arial, sans-serif; font-size: 11px; line-height: 1.4; color: #333; }
+        .header { display: flex; justify-content: space-between; border-bottom: 2px solid #333; padding-bottom: 12px; margin-bottom: 16px; }
+        .company-name { font-size: 18px; font-weight: bold; text-transform: uppercase; }
+        .title { font-size: 16px; font-weight: bold; text-transform: uppercase; text-align: right; }
+        .muted { font-size: 10px; color: #666; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border: 1px solid #ccc; padding: 6px; text-align: left; vertical-align: top; }
+        th { background: #f5f5f5; text-transform: uppercase; font-size: 10px; }
+        tr { page-break-inside: avoid; }
+        .amount { text-align: right; white-space: nowrap; }
+        .signature { width: 110px; height: 42px; }
+        .totals { margin-top: 12px; text-align: right; font-size: 12px; font-weight: bold; }
+        .sign-off { display: flex; justify-content: space-between; margin-top: 40px; }
+        .sign-off div { width: 40%; border-top: 1px solid #333; padding-top: 4px; text-align: center; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div>
+          <div class="company-name">${escapeHTML(agency.agencyName)}</div>
+          <div class="muted">${escapeHTML(agency.agencyAddress)}</div>
+        </div>
+        <div>
+          <div class="title">Delivery Run Sheet</div>
+          <div class="muted" style="text-align: right;">
+            ${day}<br>
+            ${escapeHTML(partner.name)} • ${escapeHTML(partner.phone)}${partner.vehicleNumber ? ` • ${escapeHTML(partner.vehicleNumber)}` : ""}
+          </div>
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr><th>#</th><th>Customer</th><th>Address</th><th>Phone</th><th>Quantity</th><th class="amount">COD Due</th><th>Signature</th></tr>
+        </thead>
+        <tbody>
+          ${rows || `<tr><td colspan="7" style="text-align: center;">No deliveries scheduled</td></tr>`}
+        </tbody>
+      </table>
+
+      <div class="totals">
+        ${stops.length} stop(s) • ${totals.quantity} cylinder(s) • Cash to collect: ${rupees(totals.codDue)}
+      </div>
+
+      <div class="sign-off">
+        <div>Dispatched by</div>
+        <div>Delivery partner</div>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return renderPdfFromHtml(html, {
+    footer: `Run Sheet ${escapeHTML(partner.name)} ${day}`,
+  });
+}
@@ -1,5 +1,6 @@
 import nodemailer from "nodemailer";
 import { EmailTemplate } from "@/types";
+import { getSystemSettings } from "./settings";
 
 // Email configuration - supports both SMTP_* and EMAIL_SERVER_* env names
 const envHost =
@@ -34,6 +35,17 @@ const emailConfig = {
 // Create transporter
 const transporter = nodemailer.createTransport(emailConfig);
 
+// Sender address from admin settings, falling back to the SMTP env config
+async function resolveFromAddress(): Promise<string> {
+  try {
+    const { emailFrom } = await getSystemSettings();
+    return emailFrom || envFrom;
+  } catch (error) {
+    console.error("Failed to load email sender setting:", error);
+    return envFrom;
+  }
+}
+
 // Verify transporter connection
 export const verifyEmailConnection = async () => {
   try {
@@ -81,7 +93,7 @@ export async function sendEmailWithAttachment(
     }
 
     const mailOptions = {
-      from: envFrom,
+      from: await resolveFromAddress(),
       to,
       subject,
       text: html.replace(/<[^>]*>/g, ""), // Strip HTML for text version
@@ -157,7 +169,7 @@ export async function sendEmail(
     }
 
     const mailOptions = {
-      from: envFrom,
+      from: await resolveFromAddress(),
       to,
       subject,
       text: text || html.replace(/<[^>]*>/g, ""), // Strip HTML for text version
@@ -286,6 +298,98 @@ const getStatusColor = (status: string) => {
   }
 };
 
+// Send the OTP the customer hands to the delivery partner at the door
+export async function sendDeliveryOtpEmail(
+  email: string,
+  userName: string,
+  bookingId: string,
+  otp: string,
+  expiresAt: Date,
+): Promise<boolean> {
+  const subject = `Your Delivery OTP - Booking ${bookingId}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">Your Cylinder Is Out for Delivery</h2>
+      <p>Dear ${userName},</p>
+      <p>Share this OTP with the delivery partner only after you receive your cylinder.</p>
+      <div style="background: #e9d5ff; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #8b5cf6; text-align: center;">
+        <p style="margin: 0;"><strong>Booking ID:</strong> ${bookingId}</p>
+        <p style="font-size: 32px; letter-spacing: 8px; font-weight: bold; color: #6b21a8; margin: 16px 0;">${otp}</p>
+        <p style="margin: 0; color: #6b7280;">Valid until ${expiresAt.toLocaleString()}</p>
+      </div>
+      <p>Never share this OTP over the phone. Our staff will not ask for it before delivery.</p>
+    </div>
+  `;
+  return sendEmail(email, subject, html);
+}
+
+// Tell the customer a delivery attempt failed and how to pick a new date
+export async function sendDeliveryReattemptEmail(
+  email: string,
+  userName: string,
+  bookingId: string,
+  details: {
+    reason: string;
+    attempts: number;
+    maxAttempts: number;
+    proposedDate: Date | null;
+  },
+): Promise<boolean> {
+  const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000";
+  const rescheduleLink = `${baseUrl}/user/track/${bookingId}`;
+  const attemptsLeft = details.maxAttempts - details.attempts;
+  const subject = `Delivery Attempt Failed - Booking ${bookingId}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">We Missed You</h2>
+      <p>Dear ${userName},</p>
+      <p>We could not deliver your gas cylinder today.</p>
+      <div style="background: #fee2e2; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #ef4444;">
+        <p><strong>Booking ID:</strong> ${bookingId}</p>
+        <p><strong>Reason:</strong> ${details.reason}</p>
+        <p><strong>Attempt:</strong> ${details.attempts} of ${details.maxAttempts}</p>
+        ${details.proposedDate ? `<p><strong>Proposed next attempt:</strong> ${details.proposedDate.toLocaleDateString()}</p>` : ""}
+      </div>
+      <p>Confirm the proposed date or choose another day that suits you:</p>
+      <p style="text-align: center; margin: 30px 0;">
+        <a href="${rescheduleLink}" style="background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Reschedule Delivery</a>
+      </p>
+      <p>${
+        attemptsLeft === 1
+          ? "This is your last delivery attempt; if it fails too, the booking will be cancelled and any payment refunded."
+          : `The booking is cancelled and any payment refunded if ${attemptsLeft} more attempts fail.`
+      }</p>
+    </div>
+  `;
+  return sendEmail(email, subject, html);
+}
+
+// Tell the customer whether the KYC of their connection was approved
+export async function sendKycReviewEmail(
+  email: string,
+  userName: string,
+  consumerNumber: string,
+  approved: boolean,
+  reason?: string | null,
+): Promise<boolean> {
+  const baseUrl = process.env.NEXTAUTH_URL || "http://localhost:3000";
+  const subject = `KYC ${approved ? "Approved" : "Rejected"} - Connection ${consumerNumber}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">KYC ${approved ? "Approved" : "Needs Attention"}</h2>
+      <p>Dear ${userName},</p>
+      <p>${
+        approved
+          ? `The documents for gas connection ${consumerNumber} have been verified. You can now book cylinders for it.`
+          : `We could not verify the documents for gas connection ${consumerNumber}.`
+      }</p>
+      ${reason ? `<div style="background: #fee2e2; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #ef4444;"><p><strong>Reason:</strong> ${reason}</p></div>` : ""}
+      ${approved ? "" : `<p>Please upload new ID and address proofs from <a href="${baseUrl}/user/profile">your profile</a>.</p>`}
+    </div>
+  `;
+  return sendEmail(email, subject, html);
+}
+
 // Send payment confirmed email
 export async function sendPaymentConfirmedEmail(
   userEmail: string,
@@ -341,6 +445,64 @@ export async function sendPaymentIssueEmail(
   return await sendEmail(userEmail, subject, html);
 }
 
+// Send refund status email; the credit note is attached once completed
+export async function sendRefundStatusEmail(
+  userEmail: string,
+  userName: string,
+  bookingId: string,
+  refund: {
+    amount: number;
+    status: "REQUESTED" | "PROCESSING" | "COMPLETED" | "FAILED";
+    creditNoteNumber: string;
+    reference?: string | null;
+    failureReason?: string | null;
+  },
+  creditNotePdf?: Buffer,
+): Promise<boolean> {
+  const headings = {
+    REQUESTED: "Refund Initiated",
+    PROCESSING: "Refund In Progress",
+    COMPLETED: "Refund Completed",
+    FAILED: "Refund Failed",
+  };
+  const messages = {
+    REQUESTED:
+      "A refund has been initiated for your booking. It is usually credited within 5-6 business working days.",
+    PROCESSING:
+      "Your refund has been sent to your bank or payment provider and should reflect in your account shortly.",
+    COMPLETED:
+      "Your refund has been completed. The credit note for this refund is attached for your records.",
+    FAILED:
+      "We could not complete your refund. Our team will retry or contact you for alternate account details.",
+  };
+  const subject = `${headings[refund.status]} - Booking ${bookingId}`;
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #2563eb;">${headings[refund.status]}</h2>
+      <p>Dear ${userName},</p>
+      <p>${messages[refund.status]}</p>
+      <div style="background: #eff6ff; padding: 20px; border-radius: 8px; margin: 20px 0; border: 1px solid #bfdbfe;">
+        <h3>Refund Details:</h3>
+        <p><strong>Booking ID:</strong> ${bookingId}</p>
+        <p><strong>Credit Note:</strong> ${refund.creditNoteNumber}</p>
+        <p><strong>Amount:</strong> ₹${refund.amount}</p>
+        ${refund.reference ? `<p><strong>Reference:</strong> ${refund.reference}</p>` : ""}
+        <p><strong>Status:</strong> ${refund.status}</p>
+        ${refund.failureReason ? `<p><strong>Reason:</strong> ${refund.failureReason}</p>` : ""}
+      </div>
+      <p>If you have any questions about this refund, please contact our support team.</p>
+    </div>
+  `;
+  if (creditNotePdf) {
+    return await sendEmailWithAttachment(userEmail, subject, html, {
+      filename: `credit-note-${refund.creditNoteNumber}.pdf`,
+      content: creditNotePdf,
+      contentType: "application/pdf",
+    });
+  }
+  return await sendEmail(userEmail, subject, html);
+}
+
 // Email templates
 export const emailTemplates = {
   welcome: (userName: string): EmailTemplate => ({
@@ -649,6 +811,7 @@ export const emailTemplates = {
       receiverName?: string;
       receiverPhone?: string;
       expectedDate?: Date;
+      deliveryWindow?: string;
       notes?: string;
       userEmail?: string;
       userPhone?: string;
@@ -668,6 +831,7 @@ export const emailTemplates = {
           ${details.receiverName ? `<p><strong>Receiver Name:</strong> ${details.receiverName}</p>` : ""}
           ${details.receiverPhone ? `<p><strong>Receiver Phone:</strong> ${details.receiverPhone}</p>` : ""}
           <p><strong>Expected Delivery (requested):</strong> ${details.expectedDate ? details.expectedDate.toLocaleDateString() : "Not specified"}</p>
+          ${details.deliveryWindow ? `<p><strong>Delivery Slot:</strong> ${details.deliveryWindow}</p>` : ""}
           ${details.notes ? `<p><strong>Notes:</strong> ${details.notes}</p>` : ""}
         </div>
         <div style="background-color: #eff6ff; padding: 15px; border-radius: 8px; margin: 16px 0; border: 1px solid #bfdbfe;">
@@ -680,7 +844,7 @@ export const emailTemplates = {
         <p>Best regards,<br>Gas Agency Team</p>
       </div>
     `,
-    text: `Booking Request Received - Hello ${userName}. Booking ID: ${details.id}. Payment: ${details.paymentMethod}. Quantity: ${details.quantity}. Receiver: ${details.receiverName || "-"} (${details.receiverPhone || "-"}). Expected (requested): ${details.expectedDate ? details.expectedDate.toLocaleDateString() : "Not specified"}. Notes: ${details.notes || "-"} | Profile -> Email: ${details.userEmail || "-"}, Phone: ${details.userPhone || "-"}, Address: ${details.userAddress || "-"}`,
+    text: `Booking Request Received - Hello ${userName}. Booking ID: ${details.id}. Payment: ${details.paymentMethod}. Quantity: ${details.quantity}. Receiver: ${details.receiverName || "-"} (${details.receiverPhone || "-"}). Expected (requested): ${details.expectedDate ? details.expectedDate.toLocaleDateString() : "Not specified"}${details.deliveryWindow ? ` (${details.deliveryWindow})` : ""}. Notes: ${details.notes || "-"} | Profile -> Email: ${details.userEmail || "-"}, Phone: ${details.userPhone || "-"}, Address: ${details.userAddress || "-"}`,
   }),
   contactAcknowledgement: (
     userName: string,
@@ -876,6 +1040,7 @@ export const sendBookingRequestEmail = async (params: {
     receiverName?: string;
     receiverPhone?: string;
     expectedDate?: Date;
+    deliveryWindow?: string;
     notes?: string;
     userEmail?: string;
     userPhone?: string;
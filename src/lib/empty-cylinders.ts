@@ -0,0 +1,221 @@
+import { Prisma } from "@prisma/client";
+import { ConflictError, NotFoundError, ValidationError } from "./error-handler";
+import { getStockForType, getReservedByStock } from "./stock";
+
+/**
+ * Records empties a customer handed back against a delivered booking and adds
+ * them to the empties count of the godown the booking was served from.
+ */
+export async function recordEmptyReturn(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  quantity: number,
+  options: { notes?: string; recordedById?: string } = {},
+) {
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      status: true,
+      quantity: true,
+      cylinderType: true,
+      locationId: true,
+      reservation: { select: { stockId: true } },
+    },
+  });
+  if (!booking) throw new NotFoundError("Booking not found");
+  if (booking.status !== "DELIVERED") {
+    throw new ValidationError(
+      "Empty cylinders can only be collected for delivered bookings",
+    );
+  }
+
+  const returned = await tx.emptyCylinderReturn.aggregate({
+    where: { bookingId },
+    _sum: { quantity: true },
+  });
+  const due = booking.quantity - (returned._sum.quantity || 0);
+  if (quantity > due) {
+    throw new ValidationError(
+      due > 0
+        ? `Only ${due} empty cylinder(s) are still due for this booking`
+        : "All empty cylinders for this booking have already been returned",
+      { field: "quantity" },
+    );
+  }
+
+  const stockId =
+    booking.reservation?.stockId ||
+    (await getStockForType(tx, booking.cylinderType, booking.locationId)).id;
+  await tx.cylinderStock.update({
+    where: { id: stockId },
+    data: { emptyCount: { increment: quantity } },
+  });
+
+  const record = await tx.emptyCylinderReturn.create({
+    data: {
+      bookingId,
+      stockId,
+      quantity,
+      notes: options.notes,
+      recordedById: options.recordedById,
+    },
+  });
+  await tx.bookingEvent.create({
+    data: {
+      bookingId,
+      status: "DELIVERED",
+      title: "Empty cylinders returned",
+      description: `${quantity} empty cylinder(s) collected from the customer.`,
+    },
+  });
+
+  return record;
+}
+
+/**
+ * Sends empties from a godown back to the supplier. They count as in transit
+ * until the supplier acknowledges them.
+ */
+export async function dispatchSupplierReturn(
+  tx: Prisma.TransactionClient,
+  params: {
+    cylinderType: string;
+    locationId: string;
+    supplier: string;
+    quantity: number;
+    reference?: string;
+    notes?: string;
+  },
+) {
+  const stock = await getStockForType(tx, params.cylinderType, params.locationId);
+
+  // Guarded decrement so two dispatches cannot overdraw the empties
+  const taken = await tx.cylinderStock.updateMany({
+    where: { id: stock.id, emptyCount: { gte: params.quantity } },
+    data: { emptyCount: { decrement: params.quantity } },
+  });
+  if (taken.count === 0) {
+    throw new ConflictError(
+      `Not enough empties at ${stock.location.name}. Available: ${stock.emptyCount}, requested: ${params.quantity}.`,
+    );
+  }
+
+  return tx.supplierReturnBatch.create({
+    data: {
+      stockId: stock.id,
+      supplier: params.supplier,
+      quantity: params.quantity,
+      reference: params.reference,
+      notes: params.notes,
+    },
+  });
+}
+
+/**
+ * Closes an in-transit supplier return. Cancelling puts the empties back at
+ * the godown they left from.
+ */
+export async function updateSupplierReturn(
+  tx: Prisma.TransactionClient,
+  id: string,
+  action: "RECEIVE" | "CANCEL",
+) {
+  const batch = await tx.supplierReturnBatch.findUnique({ where: { id } });
+  if (!batch) throw new NotFoundError("Supplier return not found");
+
+  const claimed = await tx.supplierReturnBatch.updateMany({
+    where: { id, status: "IN_TRANSIT" },
+    data:
+      action === "RECEIVE"
+        ? { status: "RECEIVED", receivedAt: new Date() }
+        : { status: "CANCELLED" },
+  });
+  if (claimed.count === 0) {
+    throw new ConflictError("This supplier return is no longer in transit");
+  }
+
+  if (action === "CANCEL") {
+    await tx.cylinderStock.update({
+      where: { id: batch.stockId },
+      data: { emptyCount: { increment: batch.quantity } },
+    });
+  }
+
+  return tx.supplierReturnBatch.findUniqueOrThrow({ where: { id } });
+}
+
+/**
+ * Filled, empty and in-transit cylinders per location and cylinder type,
+ * with the empties still due back from customers.
+ */
+export async function getCylinderReconciliation(
+  tx: Prisma.TransactionClient,
+  options: { locationId?: string | null } = {},
+) {
+  const stockWhere = options.locationId
+    ? { locationId: options.locationId }
+    : {};
+  const [stocks, reserved, inTransit, delivered, returned] = await Promise.all([
+    tx.cylinderStock.findMany({
+      where: stockWhere,
+      include: {
+        cylinder: { select: { name: true, sortOrder: true } },
+        location: { select: { name: true } },
+      },
+      orderBy: [{ location: { name: "asc" } }, { cylinder: { sortOrder: "asc" } }],
+    }),
+    getReservedByStock(tx),
+    tx.supplierReturnBatch.groupBy({
+      by: ["stockId"],
+      where: { status: "IN_TRANSIT", stock: stockWhere },
+      _sum: { quantity: true },
+    }),
+    // Only bookings with a reservation know which godown served them
+    tx.stockReservation.groupBy({
+      by: ["stockId"],
+      where: { status: "CONSUMED", stock: stockWhere },
+      _sum: { quantity: true },
+    }),
+    tx.emptyCylinderReturn.groupBy({
+      by: ["stockId"],
+      where: {
+        stock: stockWhere,
+        booking: { reservation: { is: { status: "CONSUMED" } } },
+      },
+      _sum: { quantity: true },
+    }),
+  ]);
+  const sumOf = (
+    rows: { stockId: string; _sum: { quantity: number | null } }[],
+    stockId: string,
+  ) => rows.find((r) => r.stockId === stockId)?._sum.quantity || 0;
+
+  const rows = stocks.map((stock) => ({
+    stockId: stock.id,
+    locationId: stock.locationId,
+    locationName: stock.location.name,
+    cylinderType: stock.cylinderType,
+    cylinderName: stock.cylinder.name,
+    filled: stock.totalAvailable,
+    reserved: reserved.get(stock.id) || 0,
+    empty: stock.emptyCount,
+    inTransit: sumOf(inTransit, stock.id),
+    emptiesDue: Math.max(
+      sumOf(delivered, stock.id) - sumOf(returned, stock.id),
+      0,
+    ),
+  }));
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      filled: sum.filled + row.filled,
+      reserved: sum.reserved + row.reserved,
+      empty: sum.empty + row.empty,
+      inTransit: sum.inTransit + row.inTransit,
+      emptiesDue: sum.emptiesDue + row.emptiesDue,
+    }),
+    { filled: 0, reserved: 0, empty: 0, inTransit: 0, emptiesDue: 0 },
+  );
+
+  return { rows, totals };
+}
@@ -71,7 +71,10 @@ export class RateLimitError extends Error {
   public statusCode = 429;
   public code = "RATE_LIMIT_ERROR";
 
-  constructor(message: string = "Too many requests") {
+  constructor(
+    message: string = "Too many requests",
+    public retryAfter?: number, // seconds
+  ) {
     super(message);
     this.name = "RateLimitError";
   }
@@ -235,7 +238,12 @@ export function handleAPIError(error: unknown): NextResponse {
         error: error.code,
         message: error.message,
       },
-      { status: error.statusCode },
+      {
+        status: error.statusCode,
+        headers: error.retryAfter
+          ? { "Retry-After": String(error.retryAfter) }
+          : undefined,
+      },
     );
   }
 
@@ -0,0 +1,231 @@
+import { randomBytes } from "crypto";
+import type { KycDocumentKind } from "@prisma/client";
+import { prisma } from "./db";
+import { validateFileUpload } from "./security";
+import { sendKycReviewEmail } from "./email";
+import { getFileStorage, getStorageByName } from "./storage";
+import { ConflictError, NotFoundError, ValidationError } from "./error-handler";
+
+export const KYC_DOCUMENT_KINDS: KycDocumentKind[] = [
+  "ID_PROOF",
+  "ADDRESS_PROOF",
+];
+
+// Stored extension and the leading bytes (hex) a real file of the type has
+const FILE_TYPES: Record<string, { extension: string; signatures: string[] }> =
+  {
+    "image/jpeg": { extension: "jpg", signatures: ["ffd8ff"] },
+    "image/png": { extension: "png", signatures: ["89504e470d0a1a0a"] },
+    "image/gif": {
+      extension: "gif",
+      signatures: ["474946383761", "474946383961"], // GIF87a, GIF89a
+    },
+    "application/pdf": { extension: "pdf", signatures: ["255044462d"] }, // %PDF-
+  };
+
+function hasFileSignature(data: Buffer, mimeType: string) {
+  return !!FILE_TYPES[mimeType]?.signatures.some(
+    (signature) => data.toString("hex", 0, signature.length / 2) === signature,
+  );
+}
+
+// Document fields safe to send to the browser
+export const kycDocumentSelect = {
+  id: true,
+  kind: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  createdAt: true,
+} as const;
+
+// Proofs uploaded by the current holder, i.e. since the last transfer
+export function kycDocumentsSince(transferredAt: Date | null) {
+  return transferredAt ? { createdAt: { gt: transferredAt } } : {};
+}
+
+export function currentKycDocuments<T extends { createdAt: Date }>(
+  documents: T[],
+  transferredAt: Date | null,
+) {
+  return transferredAt
+    ? documents.filter((d) => d.createdAt > transferredAt)
+    : documents;
+}
+
+export function parseKycDocumentKind(value: unknown): KycDocumentKind {
+  if (!KYC_DOCUMENT_KINDS.includes(value as KycDocumentKind)) {
+    throw new ValidationError("Choose ID proof or address proof", {
+      field: "kind",
+    });
+  }
+  return value as KycDocumentKind;
+}
+
+/**
+ * Stores an ID or address proof for a connection. Once both kinds are on
+ * file (since the last rejection, if any) the KYC goes to the review queue.
+ */
+export async function uploadKycDocument(
+  connectionId: string,
+  kind: KycDocumentKind,
+  file: File,
+  uploadedById?: string,
+) {
+  const connection = await prisma.connection.findUnique({
+    where: { id: connectionId },
+    select: { kycStatus: true, kycReviewedAt: true, transferredAt: true },
+  });
+  if (!connection) throw new NotFoundError("Connection not found");
+  if (connection.kycStatus === "APPROVED") {
+    throw new ConflictError("KYC for this connection is already approved");
+  }
+
+  const check = validateFileUpload(file);
+  if (!check.isValid) {
+    throw new ValidationError(check.errors.join(", "), { field: kind });
+  }
+
+  // The browser's type comes from the file name, so check the content too
+  const data = Buffer.from(await file.arrayBuffer());
+  if (!hasFileSignature(data, file.type)) {
+    throw new ValidationError("File content does not match its type", {
+      field: kind,
+    });
+  }
+
+  const storage = getFileStorage();
+  const storageKey = `kyc/${connectionId}/${randomBytes(12).toString("hex")}.${FILE_TYPES[file.type].extension}`;
+  await storage.put(storageKey, data, file.type);
+
+  const document = await prisma.kycDocument.create({
+    data: {
+      connectionId,
+      kind,
+      fileName: file.name.slice(0, 200),
+      mimeType: file.type,
+      size: file.size,
+      storage: storage.name,
+      storageKey,
+      uploadedById,
+    },
+    select: kycDocumentSelect,
+  });
+
+  const rejectedAt =
+    connection.kycStatus === "REJECTED" ? connection.kycReviewedAt : null;
+  const since =
+    rejectedAt &&
+    (!connection.transferredAt || rejectedAt > connection.transferredAt)
+      ? rejectedAt
+      : connection.transferredAt;
+  const kinds = await prisma.kycDocument.findMany({
+    where: { connectionId, ...kycDocumentsSince(since) },
+    distinct: ["kind"],
+    select: { kind: true },
+  });
+  if (
+    connection.kycStatus !== "SUBMITTED" &&
+    kinds.length === KYC_DOCUMENT_KINDS.length
+  ) {
+    await prisma.connection.update({
+      where: { id: connectionId },
+      data: { kycStatus: "SUBMITTED" },
+    });
+  }
+
+  return document;
+}
+
+/**
+ * Reads a stored proof back from the backend it was written to. Pass the
+ * connection's transfer date to hide proofs of an earlier holder.
+ */
+export async function readKycDocument(
+  connectionId: string,
+  documentId: string,
+  transferredAt: Date | null = null,
+) {
+  const document = await prisma.kycDocument.findFirst({
+    where: {
+      id: documentId,
+      connectionId,
+      ...kycDocumentsSince(transferredAt),
+    },
+  });
+  if (!document) throw new NotFoundError("Document not found");
+
+  const data = await getStorageByName(document.storage).get(
+    document.storageKey,
+  );
+  return { document, data };
+}
+
+/**
+ * Response headers for serving a proof. Only images and PDFs open in the
+ * browser; anything else is downloaded, and the type is never sniffed.
+ */
+export function kycDocumentHeaders(document: {
+  mimeType: string;
+  fileName: string;
+}) {
+  const inline =
+    document.mimeType.startsWith("image/") ||
+    document.mimeType === "application/pdf";
+  return {
+    "Content-Type": document.mimeType,
+    "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${encodeURIComponent(document.fileName)}"`,
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, no-store",
+  };
+}
+
+/**
+ * Approves or rejects a connection's KYC and emails the holder. Approving
+ * also activates a connection still waiting for it.
+ */
+export async function reviewKyc(
+  connectionId: string,
+  review: { approve: boolean; reason?: string; reviewedById: string },
+) {
+  const connection = await prisma.connection.findUnique({
+    where: { id: connectionId },
+    select: {
+      status: true,
+      kycStatus: true,
+      consumerNumber: true,
+      user: { select: { email: true, name: true } },
+    },
+  });
+  if (!connection) throw new NotFoundError("Connection not found");
+  if (connection.kycStatus === "APPROVED" && review.approve) {
+    throw new ConflictError("KYC for this connection is already approved");
+  }
+  if (!review.approve && !review.reason?.trim()) {
+    throw new ValidationError("Give a reason for rejecting the KYC", {
+      field: "reason",
+    });
+  }
+
+  const updated = await prisma.connection.update({
+    where: { id: connectionId },
+    data: {
+      kycStatus: review.approve ? "APPROVED" : "REJECTED",
+      kycReviewedAt: new Date(),
+      kycReviewedById: review.reviewedById,
+      kycRejectionReason: review.approve ? null : review.reason?.trim(),
+      ...(review.approve && connection.status === "PENDING"
+        ? { status: "ACTIVE" as const }
+        : {}),
+    },
+  });
+
+  void sendKycReviewEmail(
+    connection.user.email,
+    connection.user.name,
+    connection.consumerNumber,
+    review.approve,
+    updated.kycRejectionReason,
+  );
+  return updated;
+}
@@ -0,0 +1,169 @@
+import type { PaymentMethod, PaymentStatus, Prisma } from "@prisma/client";
+import { ValidationError } from "./error-handler";
+
+// A booking may be settled by several payments, e.g. an advance over UPI
+// with the balance collected as cash on delivery.
+
+export interface PaymentBalance {
+  total: number;
+  paid: number;
+  pending: number;
+  outstanding: number;
+  methods: PaymentMethod[];
+}
+
+type BalancePayment = {
+  amount: number;
+  method: PaymentMethod;
+  status: PaymentStatus;
+};
+
+/**
+ * Totals a booking's payments against its price. Nothing is outstanding on
+ * a cancelled booking; overpayments are handled as refunds.
+ */
+export function calculatePaymentBalance(
+  total: number,
+  payments: BalancePayment[],
+  bookingStatus?: string,
+): PaymentBalance {
+  const sum = (status: PaymentStatus) =>
+    payments
+      .filter((p) => p.status === status)
+      .reduce((acc, p) => acc + p.amount, 0);
+  const paid = sum("SUCCESS");
+  const live = payments.filter(
+    (p) => p.status === "SUCCESS" || p.status === "PENDING",
+  );
+
+  return {
+    total,
+    paid,
+    pending: sum("PENDING"),
+    outstanding:
+      bookingStatus === "CANCELLED" ? 0 : Math.max(0, total - paid),
+    methods: Array.from(new Set(live.map((p) => p.method))),
+  };
+}
+
+/**
+ * "UPI", "COD" or "UPI + COD" for bookings settled in parts.
+ */
+export function describeSettlement(
+  balance: Pick<PaymentBalance, "methods">,
+  fallback: PaymentMethod,
+) {
+  return balance.methods.length > 0 ? balance.methods.join(" + ") : fallback;
+}
+
+/**
+ * Creates the opening payment rows of a new booking. With an advance, the
+ * UPI payment covers the advance and the balance is due as cash on delivery.
+ */
+export async function createBookingPayments(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  input: {
+    total: number;
+    method: PaymentMethod;
+    advanceAmount?: number;
+    upiTxnId?: string;
+  },
+) {
+  const { total, method, advanceAmount, upiTxnId } = input;
+
+  if (advanceAmount === undefined || advanceAmount === total) {
+    return [
+      await tx.payment.create({
+        data: {
+          bookingId,
+          amount: total,
+          method,
+          status: "PENDING",
+          role: "FULL",
+          upiTxnId,
+        },
+      }),
+    ];
+  }
+
+  if (method !== "UPI") {
+    throw new ValidationError("An advance can only be paid by UPI");
+  }
+  if (advanceAmount < 1 || advanceAmount > total) {
+    throw new ValidationError(`Advance must be between ₹1 and ₹${total}`);
+  }
+
+  const advance = await tx.payment.create({
+    data: {
+      bookingId,
+      amount: advanceAmount,
+      method: "UPI",
+      status: "PENDING",
+      role: "ADVANCE",
+      upiTxnId,
+    },
+  });
+  const balance = await tx.payment.create({
+    data: {
+      bookingId,
+      amount: total - advanceAmount,
+      method: "COD",
+      status: "PENDING",
+      role: "BALANCE",
+    },
+  });
+  return [advance, balance];
+}
+
+/**
+ * Resizes the open cash-on-delivery payment so paid and pending payments
+ * add up to the booking total, e.g. after a payment is recorded or the
+ * booking is repriced. The open payment is cancelled once nothing is due.
+ */
+export async function rebalanceOpenPayment(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  total: number,
+) {
+  const payments = await tx.payment.findMany({
+    where: { bookingId, status: { in: ["SUCCESS", "PENDING"] } },
+    orderBy: { createdAt: "desc" },
+  });
+  const open = payments.find(
+    (p) => p.status === "PENDING" && p.method === "COD",
+  );
+  if (!open) return null;
+
+  const covered = payments
+    .filter((p) => p.id !== open.id)
+    .reduce((acc, p) => acc + p.amount, 0);
+  const due = Math.max(0, total - covered);
+  if (due === open.amount) return open;
+
+  return tx.payment.update({
+    where: { id: open.id },
+    data: due > 0 ? { amount: due } : { status: "CANCELLED" },
+  });
+}
+
+/**
+ * Marks pending cash-on-delivery payments as collected once the booking is
+ * delivered. Returns the amount collected.
+ */
+export async function settleCashOnDelivery(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+) {
+  const open = await tx.payment.findMany({
+    where: { bookingId, method: "COD", status: "PENDING" },
+    select: { id: true, amount: true },
+  });
+  if (open.length === 0) return 0;
+
+  await tx.payment.updateMany({
+    where: { id: { in: open.map((p) => p.id) } },
+    data: { status: "SUCCESS" },
+  });
+  return open.reduce((acc, p) => acc + p.amount, 0);
+}
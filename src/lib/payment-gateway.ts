@@ -0,0 +1,445 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { BookingStatus, PaymentStatus, Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { getSystemSettings, type PaymentGatewayName } from "./settings";
+import { InternalServerError, ValidationError } from "./error-handler";
+import { sendPaymentConfirmedEmail, sendPaymentIssueEmail } from "./email";
+import { requestCancellationRefund } from "./refunds";
+
+export type GatewayProvider = Exclude<PaymentGatewayName, "manual">;
+export type GatewayPaymentStatus = "PENDING" | "SUCCESS" | "FAILED";
+
+export interface GatewayOrder {
+  provider: GatewayProvider;
+  orderId: string;
+  amount: number; // in rupees (INR)
+  currency: "INR";
+  /** Public values the browser needs to open the provider's checkout. */
+  checkout: Record<string, string | number>;
+}
+
+/** What the provider's checkout hands back to the browser on completion. */
+export interface GatewayCallback {
+  orderId: string;
+  gatewayPaymentId: string;
+  signature: string;
+}
+
+export interface GatewayStatus {
+  status: GatewayPaymentStatus;
+  gatewayPaymentId?: string;
+  reason?: string;
+}
+
+export interface GatewayRefund {
+  refundId: string;
+  status: "PENDING" | "PROCESSED" | "FAILED";
+}
+
+export interface PaymentGateway {
+  readonly name: GatewayProvider;
+  createOrder(input: {
+    receipt: string;
+    amount: number;
+    notes?: Record<string, string>;
+  }): Promise<GatewayOrder>;
+  /** Checkout values for an order created earlier and still open. */
+  resumeOrder(orderId: string, amount: number): GatewayOrder;
+  verifyCallback(callback: GatewayCallback): boolean;
+  fetchStatus(orderId: string): Promise<GatewayStatus>;
+  refund(input: {
+    gatewayPaymentId: string;
+    amount: number;
+    reason?: string;
+  }): Promise<GatewayRefund>;
+}
+
+function hmacHex(secret: string, value: string) {
+  return createHmac("sha256", secret).update(value).digest("hex");
+}
+
+function safeEqualHex(provided: string, expected: string) {
+  const a = Buffer.from(provided, "hex");
+  const b = Buffer.from(expected, "hex");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Mock gateway: keeps orders in memory and lets the checkout be completed
+// from the app itself. Meant for local development and demos only.
+// State lives on globalThis because route handlers may not share modules.
+type MockOrder = GatewayStatus & { amount: number };
+const globalForMock = globalThis as unknown as {
+  mockGateway: { orders: Map<string, MockOrder>; secret: string } | undefined;
+};
+const mockState = (globalForMock.mockGateway ??= {
+  orders: new Map<string, MockOrder>(),
+  secret: process.env.MOCK_GATEWAY_SECRET || randomBytes(32).toString("hex"),
+});
+const mockOrders = mockState.orders;
+const mockSecret = mockState.secret;
+
+const mockGateway: PaymentGateway = {
+  name: "mock",
+
+  async createOrder({ amount }) {
+    const orderId = `order_mock_${randomBytes(8).toString("hex")}`;
+    mockOrders.set(orderId, { amount, status: "PENDING" });
+    return {
+      provider: "mock",
+      orderId,
+      amount,
+      currency: "INR",
+      checkout: { orderId, amount },
+    };
+  },
+
+  resumeOrder(orderId, amount) {
+    return {
+      provider: "mock",
+      orderId,
+      amount,
+      currency: "INR",
+      checkout: { orderId, amount },
+    };
+  },
+
+  verifyCallback({ orderId, gatewayPaymentId, signature }) {
+    return safeEqualHex(
+      signature,
+      hmacHex(mockSecret, `${orderId}|${gatewayPaymentId}`),
+    );
+  },
+
+  async fetchStatus(orderId) {
+    const order = mockOrders.get(orderId);
+    if (!order) return { status: "PENDING" };
+    return {
+      status: order.status,
+      gatewayPaymentId: order.gatewayPaymentId,
+      reason: order.reason,
+    };
+  },
+
+  async refund() {
+    return {
+      refundId: `rfnd_mock_${randomBytes(8).toString("hex")}`,
+      status: "PROCESSED",
+    };
+  },
+};
+
+/**
+ * Simulates the customer finishing the mock checkout and returns the signed
+ * callback a real gateway would give the browser.
+ */
+export function completeMockCheckout(
+  orderId: string,
+  outcome: "SUCCESS" | "FAILED",
+): GatewayCallback {
+  const order = mockOrders.get(orderId);
+  if (!order) throw new ValidationError("Unknown or expired mock order");
+
+  const gatewayPaymentId = `pay_mock_${randomBytes(8).toString("hex")}`;
+  mockOrders.set(orderId, {
+    ...order,
+    status: outcome,
+    gatewayPaymentId,
+    reason: outcome === "FAILED" ? "Declined in mock checkout" : undefined,
+  });
+  return {
+    orderId,
+    gatewayPaymentId,
+    signature: hmacHex(mockSecret, `${orderId}|${gatewayPaymentId}`),
+  };
+}
+
+// Razorpay-style adapter over the REST API. Amounts are sent in paise.
+const RAZORPAY_API = "https://api.razorpay.com/v1";
+
+function createRazorpayGateway(
+  keyId: string,
+  keySecret: string,
+): PaymentGateway {
+  const request = async <T>(path: string, init: RequestInit = {}) => {
+    const res = await fetch(`${RAZORPAY_API}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString("base64")}`,
+        "Content-Type": "application/json",
+      },
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new InternalServerError(
+        `Payment gateway request failed: ${json?.error?.description || res.status}`,
+      );
+    }
+    return json as T;
+  };
+
+  const toOrder = (orderId: string, amount: number): GatewayOrder => ({
+    provider: "razorpay",
+    orderId,
+    amount,
+    currency: "INR",
+    checkout: { keyId, orderId, amount: amount * 100 },
+  });
+
+  return {
+    name: "razorpay",
+
+    async createOrder({ receipt, amount, notes }) {
+      const order = await request<{ id: string }>("/orders", {
+        method: "POST",
+        body: JSON.stringify({
+          amount: amount * 100,
+          currency: "INR",
+          receipt,
+          notes,
+        }),
+      });
+      return toOrder(order.id, amount);
+    },
+
+    resumeOrder: toOrder,
+
+    verifyCallback({ orderId, gatewayPaymentId, signature }) {
+      return safeEqualHex(
+        signature,
+        hmacHex(keySecret, `${orderId}|${gatewayPaymentId}`),
+      );
+    },
+
+    async fetchStatus(orderId) {
+      const { items } = await request<{
+        items: { id: string; status: string; error_description?: string }[];
+      }>(`/orders/${orderId}/payments`);
+      const captured = items.find((p) => p.status === "captured");
+      if (captured) return { status: "SUCCESS", gatewayPaymentId: captured.id };
+      if (items.length > 0 && items.every((p) => p.status === "failed")) {
+        return {
+          status: "FAILED",
+          gatewayPaymentId: items[0].id,
+          reason: items[0].error_description,
+        };
+      }
+      return { status: "PENDING" };
+    },
+
+    async refund({ gatewayPaymentId, amount, reason }) {
+      const refund = await request<{ id: string; status: string }>(
+        `/payments/${gatewayPaymentId}/refund`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            amount: amount * 100,
+            notes: reason ? { reason } : undefined,
+          }),
+        },
+      );
+      return {
+        refundId: refund.id,
+        status:
+          refund.status === "processed"
+            ? "PROCESSED"
+            : refund.status === "failed"
+              ? "FAILED"
+              : "PENDING",
+      };
+    },
+  };
+}
+
+/**
+ * Returns the adapter for a provider. Payments remember their provider, so
+ * in-flight payments keep working after the configured gateway changes.
+ */
+export function getGatewayByName(name: string): PaymentGateway {
+  if (name === "mock") {
+    if (process.env.NODE_ENV === "production") {
+      throw new InternalServerError(
+        "The mock payment gateway is disabled in production",
+      );
+    }
+    return mockGateway;
+  }
+  if (name === "razorpay") {
+    const keyId = process.env.RAZORPAY_KEY_ID;
+    const keySecret = process.env.RAZORPAY_KEY_SECRET;
+    if (!keyId || !keySecret) {
+      throw new InternalServerError(
+        "RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET must be set to use Razorpay",
+      );
+    }
+    return createRazorpayGateway(keyId, keySecret);
+  }
+  throw new InternalServerError(`Unknown payment gateway: ${name}`);
+}
+
+/**
+ * The configured gateway, or null when UPI payments are reviewed manually.
+ */
+export async function getPaymentGateway(): Promise<PaymentGateway | null> {
+  const { paymentGateway } = await getSystemSettings();
+  return paymentGateway === "manual" ? null : getGatewayByName(paymentGateway);
+}
+
+// Statuses a payment may move to once the gateway (or its webhook) reports
+export const PAYMENT_STATUS_TRANSITIONS: Record<
+  PaymentStatus,
+  PaymentStatus[]
+> = {
+  PENDING: ["PENDING", "SUCCESS", "FAILED"],
+  // A late capture after a reported failure still means we were paid
+  FAILED: ["SUCCESS"],
+  SUCCESS: [],
+  // Money captured after the booking was cancelled is refunded
+  CANCELLED: ["SUCCESS"],
+};
+
+/**
+ * Opens a refund for a payment captured after its booking was cancelled, e.g.
+ * a gateway order paid after the booking expired. Does nothing otherwise.
+ */
+export async function refundLateCapture(
+  tx: Prisma.TransactionClient,
+  booking: { id: string; status: BookingStatus },
+  previousStatus: PaymentStatus,
+) {
+  if (booking.status !== "CANCELLED" && previousStatus !== "CANCELLED") {
+    return [];
+  }
+  return requestCancellationRefund(tx, booking.id, {
+    reason: "Payment received after the booking was cancelled",
+  });
+}
+
+/**
+ * Logs a confirmed or failed payment on the booking timeline.
+ */
+export async function recordPaymentOutcomeEvent(
+  tx: Prisma.TransactionClient,
+  booking: { id: string; status: BookingStatus },
+  outcome: {
+    status: "SUCCESS" | "FAILED";
+    amount: number;
+    reference: string;
+    reason?: string;
+  },
+) {
+  await tx.bookingEvent.create({
+    data: {
+      bookingId: booking.id,
+      status: booking.status,
+      title:
+        outcome.status === "SUCCESS"
+          ? "UPI payment confirmed"
+          : "UPI payment failed",
+      description:
+        outcome.status === "SUCCESS"
+          ? `Payment of ₹${outcome.amount} confirmed by gateway. Ref: ${outcome.reference}`
+          : `Gateway reported payment failure${outcome.reason ? `: ${outcome.reason}` : ""}. Ref: ${outcome.reference}`,
+    },
+  });
+}
+
+/**
+ * Emails the customer about a confirmed or failed payment (non-blocking).
+ */
+export function notifyPaymentOutcome(
+  user: { name: string | null; email: string | null },
+  bookingId: string,
+  outcome: {
+    status: "SUCCESS" | "FAILED";
+    amount: number;
+    reference: string;
+    reason?: string;
+  },
+) {
+  if (!user.email) return;
+  if (outcome.status === "SUCCESS") {
+    void sendPaymentConfirmedEmail(
+      user.email,
+      user.name || "Customer",
+      bookingId,
+      outcome.amount,
+      outcome.reference,
+    );
+  } else {
+    void sendPaymentIssueEmail(
+      user.email,
+      user.name || "Customer",
+      bookingId,
+      outcome.reason || "Payment failed at the payment gateway",
+      outcome.reference,
+    );
+  }
+}
+
+/**
+ * Applies a status reported by the gateway to the payment holding the order.
+ * Returns the payment's status afterwards.
+ */
+export async function applyGatewayStatus(
+  orderId: string,
+  result: GatewayStatus,
+): Promise<PaymentStatus> {
+  const payment = await prisma.payment.findUnique({
+    where: { gatewayOrderId: orderId },
+    include: {
+      booking: {
+        select: {
+          id: true,
+          status: true,
+          user: { select: { name: true, email: true } },
+        },
+      },
+    },
+  });
+  if (!payment) throw new ValidationError("Unknown payment order");
+
+  if (
+    result.status === "PENDING" ||
+    result.status === payment.status ||
+    !PAYMENT_STATUS_TRANSITIONS[payment.status].includes(result.status)
+  ) {
+    return payment.status;
+  }
+
+  const outcome = {
+    status: result.status,
+    amount: payment.amount,
+    reference: result.gatewayPaymentId || orderId,
+    reason: result.reason,
+  };
+
+  const applied = await prisma.$transaction(async (tx) => {
+    // Guard on the status we read so the callback, status polling and
+    // webhooks apply the outcome once
+    const claimed = await tx.payment.updateMany({
+      where: { id: payment.id, status: payment.status },
+      data: {
+        status: result.status,
+        gatewayPaymentId: result.gatewayPaymentId,
+        upiTxnId: payment.upiTxnId || result.gatewayPaymentId,
+      },
+    });
+    if (claimed.count === 0) return false;
+    await recordPaymentOutcomeEvent(tx, payment.booking, outcome);
+    if (result.status === "SUCCESS") {
+      await refundLateCapture(tx, payment.booking, payment.status);
+    }
+    return true;
+  });
+
+  if (!applied) {
+    const current = await prisma.payment.findUnique({
+      where: { id: payment.id },
+      select: { status: true },
+    });
+    return current?.status || payment.status;
+  }
+
+  notifyPaymentOutcome(payment.booking.user, payment.booking.id, outcome);
+  return result.status;
+}
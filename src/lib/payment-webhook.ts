@@ -0,0 +1,284 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { WebhookEventOutcome } from "@prisma/client";
+import { prisma } from "./db";
+import {
+  PAYMENT_STATUS_TRANSITIONS,
+  notifyPaymentOutcome,
+  recordPaymentOutcomeEvent,
+  refundLateCapture,
+} from "./payment-gateway";
+
+// Deliveries signed further than this from our clock are treated as replays
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const webhookPayloadSchema = z.object({
+  bookingId: z.string().min(1, "bookingId is required"),
+  upiTxnId: z
+    .string()
+    .trim()
+    .min(6, "upiTxnId must be at least 6 characters")
+    .max(50, "upiTxnId is too long")
+    .regex(/^[A-Za-z0-9_-]+$/, "upiTxnId contains invalid characters"),
+  status: z.enum(["SUCCESS", "FAILED", "PENDING"]),
+  amount: z.number().int().positive("amount must be a positive integer"),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export interface WebhookResult {
+  httpStatus: number;
+  outcome: WebhookEventOutcome;
+  message: string;
+  paymentId?: string;
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${rawBody}`, hex encoded. Gateways (and
+ * our own test tooling) sign with this; the header carries the result.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  rawBody: string,
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest("hex");
+}
+
+/**
+ * Returns why a delivery fails verification, or null when it is valid.
+ */
+export function verifyWebhookSignature(params: {
+  secret: string;
+  rawBody: string;
+  signature: string | null;
+  timestamp: string | null;
+  now?: Date;
+}): string | null {
+  const { secret, rawBody, signature, timestamp } = params;
+  if (!signature || !timestamp) return "Missing signature or timestamp";
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt)) return "Invalid timestamp";
+  const nowSeconds = Math.floor((params.now || new Date()).getTime() / 1000);
+  if (Math.abs(nowSeconds - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    return "Timestamp outside tolerance";
+  }
+
+  const expected = Buffer.from(
+    signWebhookPayload(secret, timestamp, rawBody),
+    "hex",
+  );
+  const provided = Buffer.from(signature.replace(/^sha256=/, ""), "hex");
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return "Signature mismatch";
+  }
+  return null;
+}
+
+async function recordEvent(
+  rawBody: string,
+  result: WebhookResult,
+  details: {
+    signatureValid: boolean;
+    bookingId?: string;
+    upiTxnId?: string;
+    status?: string;
+    amount?: number;
+  },
+): Promise<WebhookResult> {
+  try {
+    await prisma.paymentWebhookEvent.create({
+      data: {
+        ...details,
+        paymentId: result.paymentId,
+        outcome: result.outcome,
+        message: result.message,
+        payload: rawBody,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to record webhook event:", error);
+  }
+  return result;
+}
+
+/**
+ * Verifies and applies one UPI webhook delivery. Every delivery is stored
+ * in the webhook event log with its outcome; processing is idempotent per
+ * UPI transaction ID and status.
+ */
+export async function handleUpiWebhook(
+  rawBody: string,
+  headers: { signature: string | null; timestamp: string | null },
+  secret: string,
+): Promise<WebhookResult> {
+  const signatureError = verifyWebhookSignature({
+    secret,
+    rawBody,
+    ...headers,
+  });
+  if (signatureError) {
+    return recordEvent(
+      rawBody,
+      { httpStatus: 401, outcome: "REJECTED", message: signatureError },
+      { signatureValid: false },
+    );
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(rawBody);
+  } catch {
+    json = undefined;
+  }
+  const parsed = webhookPayloadSchema.safeParse(json);
+  if (!parsed.success) {
+    return recordEvent(
+      rawBody,
+      {
+        httpStatus: 400,
+        outcome: "REJECTED",
+        message: parsed.error.issues[0]?.message || "Invalid payload",
+      },
+      { signatureValid: true },
+    );
+  }
+
+  const payload = parsed.data;
+  const details = {
+    signatureValid: true,
+    bookingId: payload.bookingId,
+    upiTxnId: payload.upiTxnId,
+    status: payload.status,
+    amount: payload.amount,
+  };
+  const reject = (httpStatus: number, message: string, paymentId?: string) =>
+    recordEvent(
+      rawBody,
+      { httpStatus, outcome: "REJECTED", message, paymentId },
+      details,
+    );
+  const duplicate = (paymentId?: string) =>
+    recordEvent(
+      rawBody,
+      {
+        httpStatus: 200,
+        outcome: "DUPLICATE",
+        message: "Event already processed",
+        paymentId,
+      },
+      details,
+    );
+
+  const alreadyProcessed = await prisma.paymentWebhookEvent.findFirst({
+    where: {
+      upiTxnId: payload.upiTxnId,
+      status: payload.status,
+      outcome: "PROCESSED",
+    },
+    select: { paymentId: true },
+  });
+  if (alreadyProcessed) {
+    return duplicate(alreadyProcessed.paymentId || undefined);
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: payload.bookingId },
+    select: {
+      id: true,
+      status: true,
+      user: { select: { name: true, email: true } },
+      payments: { orderBy: { createdAt: "desc" } },
+    },
+  });
+  if (!booking) return reject(404, "Booking not found");
+
+  const usedElsewhere = await prisma.payment.findFirst({
+    where: {
+      upiTxnId: payload.upiTxnId,
+      bookingId: { not: booking.id },
+      status: { in: ["PENDING", "SUCCESS"] },
+    },
+    select: { id: true },
+  });
+  if (usedElsewhere) {
+    return reject(409, "UPI transaction ID belongs to another booking");
+  }
+
+  const payment =
+    booking.payments.find((p) => p.upiTxnId === payload.upiTxnId) ||
+    booking.payments.find((p) => p.method === "UPI") ||
+    booking.payments[0];
+  if (!payment) return reject(404, "Payment not found for booking");
+  if (payment.method !== "UPI") {
+    return reject(400, "Booking is not using UPI payment", payment.id);
+  }
+  if (payment.amount !== payload.amount) {
+    return reject(
+      400,
+      `Amount ₹${payload.amount} does not match payment amount ₹${payment.amount}`,
+      payment.id,
+    );
+  }
+
+  if (payment.status === payload.status && payment.status !== "PENDING") {
+    return duplicate(payment.id);
+  }
+  if (!PAYMENT_STATUS_TRANSITIONS[payment.status].includes(payload.status)) {
+    return reject(409, `Payment is already ${payment.status}`, payment.id);
+  }
+
+  const applied = await prisma.$transaction(async (tx) => {
+    // Guard on the status we read so concurrent deliveries apply once
+    const claimed = await tx.payment.updateMany({
+      where: { id: payment.id, status: payment.status },
+      data: { status: payload.status, upiTxnId: payload.upiTxnId },
+    });
+    if (claimed.count === 0) return false;
+
+    if (payload.status !== "PENDING") {
+      await recordPaymentOutcomeEvent(tx, booking, {
+        status: payload.status,
+        amount: payload.amount,
+        reference: payload.upiTxnId,
+        reason: payload.reason,
+      });
+    }
+    if (payload.status === "SUCCESS") {
+      await refundLateCapture(tx, booking, payment.status);
+    }
+
+    await tx.paymentWebhookEvent.create({
+      data: {
+        ...details,
+        paymentId: payment.id,
+        outcome: "PROCESSED",
+        message: `Payment ${payment.status} → ${payload.status}`,
+        payload: rawBody,
+      },
+    });
+    return true;
+  });
+  if (!applied) return duplicate(payment.id);
+
+  if (payload.status !== "PENDING") {
+    notifyPaymentOutcome(booking.user, booking.id, {
+      status: payload.status,
+      amount: payload.amount,
+      reference: payload.upiTxnId,
+      reason: payload.reason,
+    });
+  }
+
+  return {
+    httpStatus: 200,
+    outcome: "PROCESSED",
+    message: "Payment updated",
+    paymentId: payment.id,
+  };
+}
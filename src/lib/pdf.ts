@@ -0,0 +1,69 @@
+import puppeteer from "puppeteer";
+
+/**
+ * Renders a self-contained HTML document to an A4 PDF.
+ */
+export async function renderPdfFromHtml(
+  html: string,
+  options: { footer?: string } = {},
+): Promise<Buffer> {
+  let browser;
+  let page;
+
+  try {
+    browser = await puppeteer.launch({
+      headless: true,
+      args: [
+        "--no-sandbox",
+        "--disable-setuid-sandbox",
+        "--disable-dev-shm-usage",
+        "--disable-gpu",
+        "--no-first-run",
+        "--disable-web-security",
+      ],
+    });
+
+    page = await browser.newPage();
+    await page.setViewport({ width: 794, height: 1123 }); // A4 in pixels
+    await page.setContent(html, { waitUntil: "domcontentloaded" });
+
+    const pdf = await page.pdf({
+      format: "A4",
+      printBackground: true,
+      margin: { top: "15mm", right: "15mm", bottom: "15mm", left: "15mm" },
+      ...(options.footer
+        ? {
+            displayHeaderFooter: true,
+            headerTemplate: "<div></div>",
+            footerTemplate: `
+              <div style="font-size: 9px; color: #666; text-align: center; width: 100%;">
+                <span>${options.footer} • Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+              </div>
+            `,
+          }
+        : {}),
+    });
+
+    return Buffer.from(pdf);
+  } catch (error) {
+    console.error("PDF generation error:", error);
+    throw new Error(
+      `Failed to generate PDF: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  } finally {
+    if (page) {
+      try {
+        await page.close();
+      } catch (e) {
+        console.error("Error closing page:", e);
+      }
+    }
+    if (browser) {
+      try {
+        await browser.close();
+      } catch (e) {
+        console.error("Error closing browser:", e);
+      }
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import type { Prisma } from "@prisma/client";
+
+// Legacy flat rate, used when no price list is configured and for bookings
+// created before price snapshots were stored.
+export const DEFAULT_CYLINDER_TYPE = "DOMESTIC_14_2";
+export const DEFAULT_UNIT_PRICE = 1100;
+
+export interface UnitPricing {
+  priceListId: string | null;
+  cylinderType: string;
+  unitPrice: number;
+  deliveryCharge: number;
+  gstRate: number;
+}
+
+export interface PriceBreakdown {
+  unitPrice: number;
+  quantity: number;
+  subtotal: number;
+  deliveryCharge: number;
+  gstRate: number;
+  gstAmount: number;
+  total: number;
+}
+
+type PricedBooking = {
+  quantity: number;
+  unitPrice?: number | null;
+  deliveryCharge?: number | null;
+  gstRate?: number | null;
+};
+
+/**
+ * Finds the active price list in effect at the given moment.
+ */
+export async function getActivePriceList(
+  tx: Prisma.TransactionClient,
+  at: Date = new Date(),
+) {
+  return tx.priceList.findFirst({
+    where: {
+      isActive: true,
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+    },
+    orderBy: { effectiveFrom: "desc" },
+    include: { items: true },
+  });
+}
+
+/**
+ * Resolves the unit price, delivery charge and GST rate for a cylinder type.
+ * Falls back to the legacy flat rate when no price list covers the date.
+ */
+export async function resolveUnitPricing(
+  tx: Prisma.TransactionClient,
+  cylinderType: string = DEFAULT_CYLINDER_TYPE,
+  at: Date = new Date(),
+): Promise<UnitPricing> {
+  const priceList = await getActivePriceList(tx, at);
+  const item = priceList?.items.find((i) => i.cylinderType === cylinderType);
+
+  if (!priceList || !item) {
+    return {
+      priceListId: null,
+      cylinderType,
+      unitPrice: DEFAULT_UNIT_PRICE,
+      deliveryCharge: 0,
+      gstRate: 0,
+    };
+  }
+
+  return {
+    priceListId: priceList.id,
+    cylinderType,
+    unitPrice: item.unitPrice,
+    deliveryCharge: item.deliveryCharge,
+    gstRate: item.gstRate,
+  };
+}
+
+/**
+ * Computes subtotal, GST and total for a quantity. GST applies to the
+ * cylinder subtotal plus delivery charge and is rounded to whole rupees.
+ */
+export function calculatePriceBreakdown(
+  pricing: Pick<UnitPricing, "unitPrice" | "deliveryCharge" | "gstRate">,
+  quantity: number,
+): PriceBreakdown {
+  const subtotal = pricing.unitPrice * quantity;
+  const taxable = subtotal + pricing.deliveryCharge;
+  const gstAmount = Math.round((taxable * pricing.gstRate) / 100);
+
+  return {
+    unitPrice: pricing.unitPrice,
+    quantity,
+    subtotal,
+    deliveryCharge: pricing.deliveryCharge,
+    gstRate: pricing.gstRate,
+    gstAmount,
+    total: taxable + gstAmount,
+  };
+}
+
+/**
+ * Quotes a new booking against the price list currently in effect.
+ */
+export async function quoteBooking(
+  tx: Prisma.TransactionClient,
+  quantity: number,
+  cylinderType: string = DEFAULT_CYLINDER_TYPE,
+) {
+  const pricing = await resolveUnitPricing(tx, cylinderType);
+  return {
+    priceListId: pricing.priceListId,
+    breakdown: calculatePriceBreakdown(pricing, quantity),
+  };
+}
+
+/**
+ * Booking columns that freeze a quote onto the booking row.
+ */
+export function toBookingPriceSnapshot(
+  breakdown: PriceBreakdown,
+  priceListId: string | null,
+) {
+  return {
+    priceListId,
+    unitPrice: breakdown.unitPrice,
+    deliveryCharge: breakdown.deliveryCharge,
+    gstRate: breakdown.gstRate,
+    gstAmount: breakdown.gstAmount,
+    totalAmount: breakdown.total,
+  };
+}
+
+/**
+ * Rebuilds the price breakdown of an existing booking from its snapshot,
+ * optionally for a different quantity (e.g. when a booking is edited).
+ */
+export function getBookingPriceBreakdown(
+  booking: PricedBooking,
+  quantity: number = booking.quantity,
+): PriceBreakdown {
+  return calculatePriceBreakdown(
+    {
+      unitPrice: booking.unitPrice ?? DEFAULT_UNIT_PRICE,
+      deliveryCharge: booking.deliveryCharge ?? 0,
+      gstRate: booking.gstRate ?? 0,
+    },
+    quantity,
+  );
+}
@@ -0,0 +1,289 @@
+import type { Prisma, QuotaEntryType } from "@prisma/client";
+import { prisma } from "./db";
+import { getSystemSettings } from "./settings";
+import { ConflictError } from "./error-handler";
+
+type LedgerDetails = {
+  reason: string;
+  bookingId?: string;
+  // Admin who made a manual change
+  createdById?: string;
+};
+
+export interface QuotaResetResult {
+  period: string;
+  annualQuota: number;
+  adopted: number;
+  checked: number;
+  reset: string[];
+  failed: { connectionId: string; error: string }[];
+}
+
+/**
+ * The quota year containing the date, starting on the 1st of startMonth
+ * (1-12). Years spanning two calendar years are labelled like "2026-27".
+ */
+export function getQuotaPeriod(startMonth: number, date = new Date()) {
+  const startYear =
+    date.getMonth() + 1 >= startMonth
+      ? date.getFullYear()
+      : date.getFullYear() - 1;
+  return {
+    label:
+      startMonth === 1
+        ? String(startYear)
+        : `${startYear}-${String(startYear + 1).slice(-2)}`,
+    start: new Date(startYear, startMonth - 1, 1),
+    end: new Date(startYear + 1, startMonth - 1, 1),
+  };
+}
+
+export async function getCurrentQuotaPeriod(now = new Date()) {
+  const { quotaYearStartMonth } = await getSystemSettings();
+  return getQuotaPeriod(quotaYearStartMonth, now);
+}
+
+// Writes the ledger row for a change already applied to the connection
+async function recordQuotaChange(
+  tx: Prisma.TransactionClient,
+  connectionId: string,
+  type: QuotaEntryType,
+  change: number,
+  details: LedgerDetails,
+) {
+  const connection = await tx.connection.findUniqueOrThrow({
+    where: { id: connectionId },
+    select: { remainingQuota: true, quotaPeriod: true },
+  });
+  return tx.quotaLedgerEntry.create({
+    data: {
+      connectionId,
+      type,
+      change,
+      balance: connection.remainingQuota,
+      period: connection.quotaPeriod || (await getCurrentQuotaPeriod()).label,
+      reason: details.reason,
+      bookingId: details.bookingId,
+      createdById: details.createdById,
+    },
+  });
+}
+
+/**
+ * Takes cylinders from the connection's remaining quota. Throws when the
+ * quota is too small, so run it inside the transaction that creates the
+ * booking.
+ */
+export async function consumeQuota(
+  tx: Prisma.TransactionClient,
+  connectionId: string,
+  quantity: number,
+  details: LedgerDetails,
+) {
+  const updated = await tx.connection.updateMany({
+    where: { id: connectionId, remainingQuota: { gte: quantity } },
+    data: { remainingQuota: { decrement: quantity } },
+  });
+  if (updated.count === 0) {
+    throw new ConflictError("Insufficient quota to create a booking");
+  }
+  await recordQuotaChange(tx, connectionId, "CONSUME", -quantity, details);
+}
+
+/**
+ * Gives cylinders back, e.g. when a booking is cancelled. Bookings made
+ * before connections existed may have none; there is nothing to restore.
+ */
+export async function restoreQuota(
+  tx: Prisma.TransactionClient,
+  connectionId: string | null,
+  quantity: number,
+  details: LedgerDetails,
+) {
+  if (!connectionId) return;
+  await tx.connection.update({
+    where: { id: connectionId },
+    data: { remainingQuota: { increment: quantity } },
+  });
+  await recordQuotaChange(tx, connectionId, "RESTORE", quantity, details);
+}
+
+/**
+ * Sets the remaining quota by hand (admin grant or correction).
+ */
+export async function setQuota(
+  tx: Prisma.TransactionClient,
+  connectionId: string,
+  quota: number,
+  details: LedgerDetails,
+) {
+  const connection = await tx.connection.findUniqueOrThrow({
+    where: { id: connectionId },
+    select: { remainingQuota: true },
+  });
+  const change = quota - connection.remainingQuota;
+  if (change === 0) return;
+
+  await tx.connection.update({
+    where: { id: connectionId },
+    data: { remainingQuota: quota },
+  });
+  await recordQuotaChange(tx, connectionId, "GRANT", change, details);
+}
+
+/**
+ * When the connection may book again: the minimum refill gap after its
+ * latest delivery, or after the request date of a booking still open, so
+ * several bookings cannot be queued up before the first is delivered. Null
+ * when the gap is turned off or the connection has no bookings yet.
+ */
+export async function getNextEligibleBookingDate(
+  tx: Prisma.TransactionClient,
+  connectionId: string,
+) {
+  const { minRefillGapDays } = await getSystemSettings();
+  if (minRefillGapDays <= 0) return null;
+
+  const [delivered, open] = await Promise.all([
+    tx.booking.findFirst({
+      where: { connectionId, status: "DELIVERED", deliveredAt: { not: null } },
+      orderBy: { deliveredAt: "desc" },
+      select: { deliveredAt: true },
+    }),
+    tx.booking.findFirst({
+      where: {
+        connectionId,
+        status: { in: ["PENDING", "APPROVED", "OUT_FOR_DELIVERY"] },
+      },
+      orderBy: { requestedAt: "desc" },
+      select: { requestedAt: true },
+    }),
+  ]);
+  const last = [delivered?.deliveredAt, open?.requestedAt]
+    .filter((date): date is Date => !!date)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+  if (!last) return null;
+
+  const next = new Date(last);
+  next.setDate(next.getDate() + minRefillGapDays);
+  return next;
+}
+
+/**
+ * Refuses a booking made inside the connection's minimum refill gap. Admins
+ * may override it; the date that was overridden is returned so it can be
+ * recorded on the booking. The connection stays locked until the
+ * transaction ends, so run it in the one creating the booking.
+ */
+export async function checkRefillGap(
+  tx: Prisma.TransactionClient,
+  connectionId: string,
+  options: { allowOverride?: boolean } = {},
+) {
+  // Concurrent bookings for the connection wait here and see this one
+  await tx.$queryRaw`SELECT "id" FROM "connections" WHERE "id" = ${connectionId} FOR UPDATE`;
+  const nextEligibleAt = await getNextEligibleBookingDate(tx, connectionId);
+  if (!nextEligibleAt || nextEligibleAt <= new Date()) return null;
+
+  if (!options.allowOverride) {
+    throw new ConflictError(
+      `The next refill can be booked from ${nextEligibleAt.toLocaleDateString()}`,
+      { refillGap: true, nextEligibleAt },
+    );
+  }
+  return nextEligibleAt;
+}
+
+/**
+ * Latest ledger entries for a connection, newest first.
+ */
+export async function getQuotaLedger(connectionId: string, take = 50) {
+  return prisma.quotaLedgerEntry.findMany({
+    where: { connectionId },
+    orderBy: { createdAt: "desc" },
+    take,
+    select: {
+      id: true,
+      type: true,
+      change: true,
+      balance: true,
+      period: true,
+      reason: true,
+      bookingId: true,
+      createdAt: true,
+      createdBy: { select: { name: true } },
+    },
+  });
+}
+
+/**
+ * Starts the current quota year for connections still on an earlier one:
+ * their remaining quota is set to the default annual quota, without carrying
+ * over what was left. Connections without a quota year yet join the current
+ * one without a reset. Closed connections are left alone.
+ */
+export async function resetQuotaPeriod(
+  options: { now?: Date } = {},
+): Promise<QuotaResetResult> {
+  const { defaultAnnualQuota, quotaYearStartMonth } = await getSystemSettings();
+  const period = getQuotaPeriod(quotaYearStartMonth, options.now);
+
+  const adopted = await prisma.connection.updateMany({
+    where: { status: { not: "CLOSED" }, quotaPeriod: null },
+    data: { quotaPeriod: period.label },
+  });
+
+  const due = await prisma.connection.findMany({
+    where: { status: { not: "CLOSED" }, quotaPeriod: { not: period.label } },
+    select: { id: true },
+  });
+
+  const result: QuotaResetResult = {
+    period: period.label,
+    annualQuota: defaultAnnualQuota,
+    adopted: adopted.count,
+    checked: due.length,
+    reset: [],
+    failed: [],
+  };
+
+  for (const { id } of due) {
+    try {
+      const reset = await prisma.$transaction(async (tx) => {
+        const connection = await tx.connection.findUniqueOrThrow({
+          where: { id },
+          select: { remainingQuota: true, quotaPeriod: true },
+        });
+        // Claim the connection so overlapping runs reset it once
+        const claimed = await tx.connection.updateMany({
+          where: { id, quotaPeriod: connection.quotaPeriod },
+          data: {
+            remainingQuota: defaultAnnualQuota,
+            quotaPeriod: period.label,
+          },
+        });
+        if (claimed.count === 0) return false;
+
+        await recordQuotaChange(
+          tx,
+          id,
+          "RESET",
+          defaultAnnualQuota - connection.remainingQuota,
+          {
+            reason: `Quota year ${period.label} started (${connection.remainingQuota} unused from ${connection.quotaPeriod})`,
+          },
+        );
+        return true;
+      });
+      if (reset) result.reset.push(id);
+    } catch (error) {
+      console.error(`Failed to reset quota for connection ${id}:`, error);
+      result.failed.push({
+        connectionId: id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
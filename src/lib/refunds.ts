@@ -0,0 +1,506 @@
+import type { Prisma, RefundStatus } from "@prisma/client";
+import { prisma } from "./db";
+import { getGatewayByName } from "./payment-gateway";
+import { getSystemSettings } from "./settings";
+import { escapeHTML } from "./security";
+import { renderPdfFromHtml } from "./pdf";
+import { sendRefundStatusEmail } from "./email";
+import { ConflictError, NotFoundError, ValidationError } from "./error-handler";
+
+export type RefundAction = "PROCESS" | "COMPLETE" | "FAIL";
+
+export const REFUND_STATUS_TRANSITIONS: Record<RefundStatus, RefundStatus[]> = {
+  REQUESTED: ["PROCESSING", "COMPLETED", "FAILED"],
+  PROCESSING: ["COMPLETED", "FAILED"],
+  COMPLETED: [],
+  // Failed refunds stay on record; the balance can be refunded again
+  FAILED: [],
+};
+
+export interface RefundSummary {
+  paid: number;
+  refunded: number;
+  pending: number;
+  refundable: number;
+}
+
+type AmountWithStatus<S> = { amount: number; status: S };
+
+// Refunds still counting against the paid amount
+const isOpenOrDone = (status: RefundStatus) => status !== "FAILED";
+
+export function creditNoteNumber(refundId: string) {
+  return `CN-${refundId.slice(-8).toUpperCase()}`;
+}
+
+export function summarizeRefunds(
+  payments: AmountWithStatus<string>[],
+  refunds: AmountWithStatus<RefundStatus>[],
+): RefundSummary {
+  const sum = (items: { amount: number }[]) =>
+    items.reduce((total, item) => total + item.amount, 0);
+  const paid = sum(payments.filter((p) => p.status === "SUCCESS"));
+  const refunded = sum(refunds.filter((r) => r.status === "COMPLETED"));
+  const pending = sum(
+    refunds.filter(
+      (r) => r.status === "REQUESTED" || r.status === "PROCESSING",
+    ),
+  );
+  return {
+    paid,
+    refunded,
+    pending,
+    refundable: Math.max(0, paid - refunded - pending),
+  };
+}
+
+/**
+ * Successful payments on a booking with what is still refundable on each,
+ * newest first.
+ */
+async function getRefundablePayments(
+  db: Prisma.TransactionClient,
+  bookingId: string,
+) {
+  const payments = await db.payment.findMany({
+    where: { bookingId, status: "SUCCESS" },
+    include: { refunds: { select: { amount: true, status: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+  return payments.map((payment) => ({
+    payment,
+    refundable:
+      payment.amount -
+      payment.refunds
+        .filter((r) => isOpenOrDone(r.status))
+        .reduce((total, r) => total + r.amount, 0),
+  }));
+}
+
+export async function getBookingRefunds(bookingId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      id: true,
+      status: true,
+      paymentMethod: true,
+      payments: {
+        select: {
+          id: true,
+          amount: true,
+          status: true,
+          method: true,
+          upiTxnId: true,
+          provider: true,
+          gatewayPaymentId: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+      },
+      refunds: {
+        include: {
+          requestedBy: { select: { name: true } },
+          processedBy: { select: { name: true } },
+        },
+        orderBy: { createdAt: "desc" },
+      },
+    },
+  });
+  if (!booking) throw new NotFoundError("Booking not found");
+
+  return {
+    ...booking,
+    refunds: booking.refunds.map((refund) => ({
+      ...refund,
+      creditNoteNumber: creditNoteNumber(refund.id),
+    })),
+    summary: summarizeRefunds(booking.payments, booking.refunds),
+  };
+}
+
+/**
+ * Opens a refund against a successful payment. Without a paymentId the
+ * newest payment with enough refundable balance is used.
+ */
+export async function createRefund(
+  tx: Prisma.TransactionClient,
+  input: {
+    bookingId: string;
+    amount: number;
+    paymentId?: string;
+    reason?: string;
+    requestedById?: string;
+  },
+) {
+  const candidates = await getRefundablePayments(tx, input.bookingId);
+  const totalRefundable = candidates.reduce((t, c) => t + c.refundable, 0);
+  if (totalRefundable <= 0) {
+    throw new ConflictError("Nothing left to refund on this booking");
+  }
+
+  const target = input.paymentId
+    ? candidates.find((c) => c.payment.id === input.paymentId)
+    : candidates.find((c) => c.refundable >= input.amount);
+  if (input.paymentId && !target) {
+    throw new ValidationError(
+      "Payment is not a successful payment of this booking",
+    );
+  }
+  if (!target || input.amount > target.refundable) {
+    throw new ValidationError(
+      `Refund amount exceeds the refundable balance of ₹${target?.refundable ?? totalRefundable}`,
+    );
+  }
+
+  const booking = await tx.booking.findUniqueOrThrow({
+    where: { id: input.bookingId },
+    select: { status: true },
+  });
+  const refund = await tx.refund.create({
+    data: {
+      bookingId: input.bookingId,
+      paymentId: target.payment.id,
+      amount: input.amount,
+      reason: input.reason,
+      requestedById: input.requestedById,
+    },
+  });
+  await tx.bookingEvent.create({
+    data: {
+      bookingId: input.bookingId,
+      status: booking.status,
+      title: "Refund requested",
+      description: `Refund of ₹${input.amount} requested (${creditNoteNumber(refund.id)})${input.reason ? `: ${input.reason}` : ""}`,
+    },
+  });
+  return refund;
+}
+
+/**
+ * Called when a booking is cancelled: requests refunds for everything still
+ * refundable on its successful payments. Returns the refunds created.
+ */
+export async function requestCancellationRefund(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  options: { reason?: string; requestedById?: string } = {},
+) {
+  const candidates = await getRefundablePayments(tx, bookingId);
+  const created = [];
+  for (const { payment, refundable } of candidates) {
+    if (refundable <= 0) continue;
+    created.push(
+      await createRefund(tx, {
+        bookingId,
+        paymentId: payment.id,
+        amount: refundable,
+        reason: options.reason || "Booking cancelled",
+        requestedById: options.requestedById,
+      }),
+    );
+  }
+  return created;
+}
+
+const REFUND_EVENT_TITLES: Record<RefundStatus, string> = {
+  REQUESTED: "Refund requested",
+  PROCESSING: "Refund processing",
+  COMPLETED: "Refund completed",
+  FAILED: "Refund failed",
+};
+
+/**
+ * Moves a refund to its next status. PROCESS sends gateway payments back
+ * through their provider; manual refunds are marked PROCESSING until the
+ * admin records the transfer reference with COMPLETE.
+ */
+export async function updateRefundStatus(
+  refundId: string,
+  action: RefundAction,
+  details: {
+    processedById?: string;
+    reference?: string;
+    failureReason?: string;
+  } = {},
+) {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: {
+      payment: true,
+      booking: { select: { id: true, status: true } },
+    },
+  });
+  if (!refund) throw new NotFoundError("Refund not found");
+
+  let from = refund.status;
+  let next: {
+    status: RefundStatus;
+    gatewayRefundId?: string;
+    reference?: string;
+    failureReason?: string;
+  };
+
+  if (action === "FAIL") {
+    if (!details.failureReason) {
+      throw new ValidationError("A failure reason is required");
+    }
+    next = { status: "FAILED", failureReason: details.failureReason };
+  } else if (action === "COMPLETE") {
+    if (!details.reference && !refund.gatewayRefundId && !refund.reference) {
+      throw new ValidationError(
+        "Enter the UPI/bank reference of the refund transfer",
+      );
+    }
+    next = {
+      status: "COMPLETED",
+      reference: details.reference || refund.reference || undefined,
+    };
+  } else if (refund.payment.provider && refund.payment.gatewayPaymentId) {
+    // Claim before calling the provider so money is sent back only once
+    const claimed = await prisma.refund.updateMany({
+      where: { id: refund.id, status: "REQUESTED" },
+      data: { status: "PROCESSING", processedById: details.processedById },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError(`Refund is already ${refund.status}`);
+    }
+    from = "PROCESSING";
+
+    try {
+      const result = await getGatewayByName(refund.payment.provider).refund({
+        gatewayPaymentId: refund.payment.gatewayPaymentId,
+        amount: refund.amount,
+        reason: refund.reason || undefined,
+      });
+      next = {
+        status:
+          result.status === "PROCESSED"
+            ? "COMPLETED"
+            : result.status === "FAILED"
+              ? "FAILED"
+              : "PROCESSING",
+        gatewayRefundId: result.refundId,
+        failureReason:
+          result.status === "FAILED"
+            ? "Rejected by payment gateway"
+            : undefined,
+      };
+    } catch (error) {
+      next = {
+        status: "FAILED",
+        failureReason:
+          error instanceof Error ? error.message : "Payment gateway error",
+      };
+    }
+  } else {
+    next = { status: "PROCESSING", reference: details.reference };
+  }
+
+  // A gateway refund still pending at the provider stays PROCESSING
+  if (
+    next.status !== from &&
+    !REFUND_STATUS_TRANSITIONS[from].includes(next.status)
+  ) {
+    throw new ConflictError(`Cannot move a ${from} refund to ${next.status}`);
+  }
+  if (next.status === from && !next.gatewayRefundId) {
+    throw new ConflictError(`Refund is already ${from}`);
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Guard on the status we read so concurrent admin actions apply once
+    const claimed = await tx.refund.updateMany({
+      where: { id: refund.id, status: from },
+      data: {
+        ...next,
+        processedById: details.processedById,
+        ...(next.status === "COMPLETED" && { completedAt: new Date() }),
+      },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError("Refund was updated by someone else; reload");
+    }
+
+    const reference =
+      next.gatewayRefundId || next.reference || refund.reference;
+    await tx.bookingEvent.create({
+      data: {
+        bookingId: refund.bookingId,
+        status: refund.booking.status,
+        title: REFUND_EVENT_TITLES[next.status],
+        description: `Refund of ₹${refund.amount} (${creditNoteNumber(refund.id)}) ${next.status.toLowerCase()}${reference ? `. Ref: ${reference}` : ""}${next.failureReason ? `: ${next.failureReason}` : ""}`,
+      },
+    });
+
+    return tx.refund.findUniqueOrThrow({ where: { id: refund.id } });
+  });
+
+  void notifyRefundStatus(updated.id);
+  return updated;
+}
+
+async function loadCreditNoteRefund(refundId: string) {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: {
+      payment: true,
+      booking: {
+        select: {
+          id: true,
+          userName: true,
+          userEmail: true,
+          userAddress: true,
+          userPhone: true,
+          quantity: true,
+          cylinder: { select: { name: true } },
+          user: {
+            select: { name: true, email: true, address: true, phone: true },
+          },
+        },
+      },
+    },
+  });
+  if (!refund) throw new NotFoundError("Refund not found");
+  return refund;
+}
+
+/**
+ * Credit note for a completed refund, referencing the booking's invoice.
+ */
+export async function generateCreditNotePdf(refundId: string) {
+  const refund = await loadCreditNoteRefund(refundId);
+  if (refund.status !== "COMPLETED") {
+    throw new ConflictError("Credit notes are issued once a refund completes");
+  }
+
+  const agency = await getSystemSettings();
+  const number = creditNoteNumber(refund.id);
+  const { booking } = refund;
+  const customer = {
+    name: booking.user?.name || booking.userName,
+    address: booking.user?.address || booking.userAddress || "N/A",
+    phone: booking.user?.phone || booking.userPhone || "N/A",
+    email: booking.user?.email || booking.userEmail || "N/A",
+  };
+  const issuedOn = (refund.completedAt || refund.updatedAt).toLocaleDateString(
+    "en-IN",
+  );
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="utf-8">
+      <title>Credit Note - ${number}</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: Arial, sans-serif; font-size: 12px; line-height: 1.4; color: #333; }
+        .header { text-align: center; margin-bottom: 24px; border-bottom: 2px solid #333; padding-bottom: 16px; }
+        .company-name { font-size: 22px; font-weight: bold; text-transform: uppercase; }
+        .muted { font-size: 11px; color: #666; }
+        .title { font-size: 18px; font-weight: bold; text-transform: uppercase; text-align: center; margin: 16px 0; }
+        .details { display: flex; justify-content: space-between; margin-bottom: 24px; }
+        .details > div { width: 45%; }
+        .details h3 { font-size: 13px; text-transform: uppercase; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-bottom: 8px; }
+        .row { display: flex; justify-content: space-between; margin-bottom: 4px; font-size: 11px; }
+        .label { font-weight: bold; color: #555; }
+        table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+        th, td { border: 1px solid #ddd; padding: 8px; font-size: 11px; text-align: left; }
+        th { background: #f5f5f5; text-transform: uppercase; }
+        .amount { text-align: right; }
+        .total { text-align: right; font-size: 14px; font-weight: bold; border-top: 2px solid #333; padding-top: 8px; }
+        .footer { margin-top: 40px; text-align: center; font-size: 10px; color: #666; border-top: 1px solid #ccc; padding-top: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="company-name">${escapeHTML(agency.agencyName)}</div>
+        <div>${escapeHTML(agency.agencyAddress)}</div>
+        ${agency.agencyGstin ? `<div class="muted">GSTIN: ${escapeHTML(agency.agencyGstin)}</div>` : ""}
+      </div>
+
+      <div class="title">Credit Note</div>
+
+      <div class="details">
+        <div>
+          <h3>Issued To</h3>
+          <div class="row"><span class="label">Name:</span><span>${escapeHTML(customer.name)}</span></div>
+          <div class="row"><span class="label">Address:</span><span>${escapeHTML(customer.address)}</span></div>
+          <div class="row"><span class="label">Phone:</span><span>${escapeHTML(customer.phone)}</span></div>
+          <div class="row"><span class="label">Email:</span><span>${escapeHTML(customer.email)}</span></div>
+        </div>
+        <div>
+          <h3>Credit Note Details</h3>
+          <div class="row"><span class="label">Credit Note #:</span><span>${number}</span></div>
+          <div class="row"><span class="label">Date:</span><span>${issuedOn}</span></div>
+          <div class="row"><span class="label">Against Invoice:</span><span>INV-${booking.id.slice(-8).toUpperCase()}</span></div>
+          <div class="row"><span class="label">Booking ID:</span><span>${booking.id}</span></div>
+        </div>
+      </div>
+
+      <table>
+        <thead>
+          <tr><th>Description</th><th>Original Payment</th><th>Refund Reference</th><th class="amount">Amount</th></tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>Refund for ${booking.quantity} x ${booking.cylinder.name}${refund.reason ? ` - ${escapeHTML(refund.reason)}` : ""}</td>
+            <td>${refund.payment.method} ₹${refund.payment.amount.toLocaleString("en-IN")}${refund.payment.upiTxnId ? ` (${escapeHTML(refund.payment.upiTxnId)})` : ""}</td>
+            <td>${escapeHTML(refund.gatewayRefundId || refund.reference || "-")}</td>
+            <td class="amount">₹${refund.amount.toLocaleString("en-IN")}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div class="total">Total Credit: ₹${refund.amount.toLocaleString("en-IN")}</div>
+
+      <div class="footer">
+        <p>This credit note reduces the amount payable on the invoice referenced above.</p>
+        <p>This is a computer-generated document and does not require a physical signature.</p>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return {
+    number,
+    pdf: await renderPdfFromHtml(html, { footer: `Credit Note ${number}` }),
+  };
+}
+
+/**
+ * Emails the customer about a refund's current status (best effort). The
+ * credit note is attached once the refund completes.
+ */
+export async function notifyRefundStatus(refundId: string) {
+  try {
+    const refund = await loadCreditNoteRefund(refundId);
+    const email = refund.booking.user?.email || refund.booking.userEmail;
+    if (!email) return;
+
+    let creditNote: Buffer | undefined;
+    if (refund.status === "COMPLETED") {
+      try {
+        creditNote = (await generateCreditNotePdf(refund.id)).pdf;
+      } catch (error) {
+        console.error("Failed to generate credit note:", error);
+      }
+    }
+
+    await sendRefundStatusEmail(
+      email,
+      refund.booking.user?.name || refund.booking.userName || "Customer",
+      refund.bookingId,
+      {
+        amount: refund.amount,
+        status: refund.status,
+        creditNoteNumber: creditNoteNumber(refund.id),
+        reference: refund.gatewayRefundId || refund.reference,
+        failureReason: refund.failureReason,
+      },
+      creditNote,
+    );
+  } catch (error) {
+    console.error("Failed to send refund email:", error);
+  }
+}
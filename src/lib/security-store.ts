@@ -0,0 +1,250 @@
+import Redis from "ioredis";
+import { prisma } from "./db";
+import { InternalServerError } from "./error-handler";
+
+export type SecurityStoreName = "memory" | "postgres" | "redis";
+
+// Whether the request was counted, and the requests in the current fixed
+// window and the one before it
+export interface WindowCounts {
+  allowed: boolean;
+  current: number;
+  previous: number;
+}
+
+/**
+ * Shared state behind rate limits and CSRF tokens. The memory store only
+ * works for a single instance and forgets everything on restart.
+ */
+export interface SecurityStore {
+  readonly name: SecurityStoreName;
+  // Counts a request in the window starting at windowStart (ms since epoch)
+  // unless previous * previousWeight + current would go over maxRequests.
+  // Rejected requests are not counted.
+  consume(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+    maxRequests: number,
+    previousWeight: number,
+  ): Promise<WindowCounts>;
+  setToken(key: string, token: string, ttlMs: number): Promise<void>;
+  // Null once the token has expired
+  getToken(key: string): Promise<string | null>;
+  deleteToken(key: string): Promise<void>;
+}
+
+const CLEANUP_INTERVAL = 5 * 60 * 1000;
+
+// Maps in this process, swept every few minutes
+function createMemoryStore(): SecurityStore {
+  const buckets = new Map<string, { count: number; expiresAt: number }>();
+  const tokens = new Map<string, { token: string; expiresAt: number }>();
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (now > bucket.expiresAt) buckets.delete(key);
+    }
+    for (const [key, record] of tokens) {
+      if (now > record.expiresAt) tokens.delete(key);
+    }
+  }, CLEANUP_INTERVAL);
+  sweep.unref?.();
+
+  return {
+    name: "memory",
+
+    async consume(key, windowStart, windowMs, maxRequests, previousWeight) {
+      const currentKey = `${key}:${windowStart}`;
+      const bucket = buckets.get(currentKey) || {
+        count: 0,
+        expiresAt: windowStart + 2 * windowMs,
+      };
+      const previous =
+        buckets.get(`${key}:${windowStart - windowMs}`)?.count || 0;
+      if (previous * previousWeight + bucket.count + 1 > maxRequests) {
+        return { allowed: false, current: bucket.count, previous };
+      }
+      bucket.count++;
+      buckets.set(currentKey, bucket);
+      return { allowed: true, current: bucket.count, previous };
+    },
+
+    async setToken(key, token, ttlMs) {
+      tokens.set(key, { token, expiresAt: Date.now() + ttlMs });
+    },
+
+    async getToken(key) {
+      const record = tokens.get(key);
+      if (!record) return null;
+      if (Date.now() > record.expiresAt) {
+        tokens.delete(key);
+        return null;
+      }
+      return record.token;
+    },
+
+    async deleteToken(key) {
+      tokens.delete(key);
+    },
+  };
+}
+
+// rate_limit_buckets and csrf_tokens tables; expired rows are deleted every
+// few minutes by whichever request comes along
+function createPostgresStore(): SecurityStore {
+  let lastCleanup = 0;
+  const cleanup = () => {
+    const now = Date.now();
+    if (now - lastCleanup < CLEANUP_INTERVAL) return;
+    lastCleanup = now;
+    const expired = { expiresAt: { lt: new Date(now) } };
+    void Promise.all([
+      prisma.rateLimitBucket.deleteMany({ where: expired }),
+      prisma.csrfToken.deleteMany({ where: expired }),
+    ]).catch((error) => {
+      console.error("Failed to clean up security store:", error);
+    });
+  };
+
+  return {
+    name: "postgres",
+
+    async consume(key, windowStart, windowMs, maxRequests, previousWeight) {
+      cleanup();
+      const start = new Date(windowStart);
+      const previousBucket = await prisma.rateLimitBucket.findUnique({
+        where: {
+          key_windowStart: {
+            key,
+            windowStart: new Date(windowStart - windowMs),
+          },
+        },
+        select: { count: true },
+      });
+      const previous = previousBucket?.count || 0;
+
+      // Most requests the current window may already hold for this one to fit
+      const room = maxRequests - previous * previousWeight - 1;
+      if (room >= 0) {
+        // Counts only while under the limit, in one statement so concurrent
+        // requests cannot both take the last place
+        const counted = await prisma.$queryRaw<{ count: number }[]>`
+          INSERT INTO "rate_limit_buckets" ("key", "windowStart", "count", "expiresAt")
+          VALUES (${key}, ${start}, 1, ${new Date(windowStart + 2 * windowMs)})
+          ON CONFLICT ("key", "windowStart")
+          DO UPDATE SET "count" = "rate_limit_buckets"."count" + 1
+          WHERE "rate_limit_buckets"."count" <= ${room}
+          RETURNING "count"`;
+        if (counted.length > 0) {
+          return { allowed: true, current: counted[0].count, previous };
+        }
+      }
+
+      const bucket = await prisma.rateLimitBucket.findUnique({
+        where: { key_windowStart: { key, windowStart: start } },
+        select: { count: true },
+      });
+      return { allowed: false, current: bucket?.count || 0, previous };
+    },
+
+    async setToken(key, token, ttlMs) {
+      cleanup();
+      const expiresAt = new Date(Date.now() + ttlMs);
+      await prisma.csrfToken.upsert({
+        where: { sessionId: key },
+        create: { sessionId: key, token, expiresAt },
+        update: { token, expiresAt },
+      });
+    },
+
+    async getToken(key) {
+      const record = await prisma.csrfToken.findUnique({
+        where: { sessionId: key },
+      });
+      if (!record || record.expiresAt < new Date()) return null;
+      return record.token;
+    },
+
+    async deleteToken(key) {
+      await prisma.csrfToken.deleteMany({ where: { sessionId: key } });
+    },
+  };
+}
+
+// Reads both windows and counts the request in one atomic step
+const CONSUME_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[1]) or "0")
+local previous = tonumber(redis.call("GET", KEYS[2]) or "0")
+if previous * tonumber(ARGV[2]) + current + 1 > tonumber(ARGV[1]) then
+  return {0, current, previous}
+end
+current = redis.call("INCR", KEYS[1])
+redis.call("PEXPIRE", KEYS[1], ARGV[3])
+return {1, current, previous}
+`;
+
+// Redis at REDIS_URL (redis:// or rediss://); keys expire on their own
+function createRedisStore(url: string): SecurityStore {
+  const redis = new Redis(url, { maxRetriesPerRequest: 1 });
+  redis.on("error", (error) => {
+    console.error("Redis security store error:", error);
+  });
+
+  return {
+    name: "redis",
+
+    async consume(key, windowStart, windowMs, maxRequests, previousWeight) {
+      const [allowed, current, previous] = (await redis.eval(
+        CONSUME_SCRIPT,
+        2,
+        `${key}:${windowStart}`,
+        `${key}:${windowStart - windowMs}`,
+        maxRequests,
+        previousWeight,
+        2 * windowMs,
+      )) as [number, number, number];
+      return { allowed: allowed === 1, current, previous };
+    },
+
+    async setToken(key, token, ttlMs) {
+      await redis.set(key, token, "PX", ttlMs);
+    },
+
+    async getToken(key) {
+      return redis.get(key);
+    },
+
+    async deleteToken(key) {
+      await redis.del(key);
+    },
+  };
+}
+
+let store: SecurityStore | undefined;
+
+/**
+ * The store selected by SECURITY_STORE (memory, postgres or redis; default
+ * memory). Use postgres or redis when running more than one instance.
+ */
+export function getSecurityStore(): SecurityStore {
+  if (store) return store;
+
+  const name = process.env.SECURITY_STORE || "memory";
+  if (name === "memory") {
+    store = createMemoryStore();
+  } else if (name === "postgres") {
+    store = createPostgresStore();
+  } else if (name === "redis") {
+    if (!process.env.REDIS_URL) {
+      throw new InternalServerError(
+        "REDIS_URL must be set to use the Redis security store",
+      );
+    }
+    store = createRedisStore(process.env.REDIS_URL);
+  } else {
+    throw new InternalServerError(`Unknown security store: ${name}`);
+  }
+  return store;
+}
@@ -1,17 +1,27 @@
 import { NextRequest } from "next/server";
-import { randomBytes, createHash } from "crypto";
+import { randomBytes, createHash, timingSafeEqual } from "crypto";
+import { getSecurityStore } from "./security-store";
 
-// Rate limiting store (in production, use Redis or similar)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+// Rate limiting configuration: requests allowed per sliding window
+export interface RateLimitRule {
+  maxRequests: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Requests left in the window
+  remaining: number;
+  // How long to wait before trying again when not allowed
+  retryAfterMs: number;
+}
 
-// CSRF token store (in production, use Redis or similar)
-const csrfTokenStore = new Map<string, { token: string; expires: number }>();
+export const RATE_LIMITS = {
+  general: { maxRequests: 100, windowMs: 15 * 60 * 1000 }, // 100 requests per 15 minutes
+  login: { maxRequests: 5, windowMs: 15 * 60 * 1000 }, // 5 login attempts per 15 minutes
+  email: { maxRequests: 3, windowMs: 60 * 60 * 1000 }, // 3 email requests per hour
+} satisfies Record<string, RateLimitRule>;
 
-// Rate limiting configuration
-const RATE_LIMIT_WINDOW = 15 * 60 * 1000; // 15 minutes
-const MAX_REQUESTS_PER_WINDOW = 100; // 100 requests per 15 minutes
-const MAX_LOGIN_ATTEMPTS = 5; // 5 login attempts per 15 minutes
-const MAX_EMAIL_REQUESTS = 3; // 3 email requests per hour
 const CSRF_TOKEN_EXPIRY = 30 * 60 * 1000; // 30 minutes
 
 // Get client IP address
@@ -35,87 +45,100 @@ export function getClientIP(request: NextRequest): string {
   return "unknown";
 }
 
-// Rate limiting for general API endpoints
-export function checkRateLimit(
+/**
+ * Counts a request against `identifier` and checks it with a sliding window:
+ * the current fixed window plus the previous one, weighted by how much of it
+ * still overlaps. Rejected requests are not counted. Store errors are thrown,
+ * so an unreachable store never turns rate limiting off.
+ */
+export async function checkRateLimit(
   identifier: string,
-  maxRequests: number = MAX_REQUESTS_PER_WINDOW,
-): boolean {
+  rule: RateLimitRule = RATE_LIMITS.general,
+): Promise<RateLimitResult> {
+  const { maxRequests, windowMs } = rule;
   const now = Date.now();
-  const key = `rate_limit:${identifier}`;
-  const record = rateLimitStore.get(key);
-
-  if (!record || now > record.resetTime) {
-    rateLimitStore.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
-    return true;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const previousWeight = 1 - (now - windowStart) / windowMs;
+
+  const { allowed, current, previous } = await getSecurityStore().consume(
+    `rate_limit:${identifier}`,
+    windowStart,
+    windowMs,
+    maxRequests,
+    previousWeight,
+  );
+  if (allowed) {
+    return {
+      allowed,
+      remaining: Math.floor(maxRequests - previous * previousWeight - current),
+      retryAfterMs: 0,
+    };
   }
 
-  if (record.count >= maxRequests) {
-    return false;
-  }
-
-  record.count++;
-  return true;
+  // When the next request fits again, assuming no further requests: later in
+  // this window if it still has room, otherwise in the next one
+  const room = maxRequests - 1;
+  const retryAt =
+    current <= room
+      ? windowStart + (1 - (room - current) / previous) * windowMs
+      : windowStart + (2 - room / current) * windowMs;
+  return {
+    allowed,
+    remaining: 0,
+    retryAfterMs: Math.max(0, Math.ceil(retryAt - now)),
+  };
 }
 
 // Rate limiting for login attempts
-export function checkLoginRateLimit(identifier: string): boolean {
-  return checkRateLimit(`login:${identifier}`, MAX_LOGIN_ATTEMPTS);
+export function checkLoginRateLimit(identifier: string) {
+  return checkRateLimit(`login:${identifier}`, RATE_LIMITS.login);
 }
 
 // Rate limiting for email requests (password reset, verification)
-export function checkEmailRateLimit(identifier: string): boolean {
-  const now = Date.now();
-  const key = `email_rate_limit:${identifier}`;
-  const record = rateLimitStore.get(key);
-  const emailWindow = 60 * 60 * 1000; // 1 hour
-
-  if (!record || now > record.resetTime) {
-    rateLimitStore.set(key, { count: 1, resetTime: now + emailWindow });
-    return true;
-  }
-
-  if (record.count >= MAX_EMAIL_REQUESTS) {
-    return false;
-  }
-
-  record.count++;
-  return true;
+export function checkEmailRateLimit(identifier: string) {
+  return checkRateLimit(`email:${identifier}`, RATE_LIMITS.email);
 }
 
 // CSRF token generation
-export function generateCSRFToken(sessionId: string): string {
+export async function generateCSRFToken(sessionId: string): Promise<string> {
   const token = randomBytes(32).toString("hex");
-  const expires = Date.now() + CSRF_TOKEN_EXPIRY;
-
-  csrfTokenStore.set(sessionId, { token, expires });
+  await getSecurityStore().setToken(
+    `csrf:${sessionId}`,
+    token,
+    CSRF_TOKEN_EXPIRY,
+  );
   return token;
 }
 
-// CSRF token validation
-export function validateCSRFToken(sessionId: string, token: string): boolean {
-  const record = csrfTokenStore.get(sessionId);
-
-  if (!record) {
-    return false;
-  }
-
-  if (Date.now() > record.expires) {
-    csrfTokenStore.delete(sessionId);
+// CSRF token validation; fails closed if the store is unreachable
+export async function validateCSRFToken(
+  sessionId: string,
+  token: string,
+): Promise<boolean> {
+  let stored: string | null;
+  try {
+    stored = await getSecurityStore().getToken(`csrf:${sessionId}`);
+  } catch (error) {
+    console.error("CSRF token lookup failed:", error);
     return false;
   }
 
-  if (record.token !== token) {
+  if (!stored) {
     return false;
   }
 
-  return true;
+  // Compare digests so differing lengths don't leak through timing
+  return timingSafeEqual(
+    createHash("sha256").update(token).digest(),
+    createHash("sha256").update(stored).digest(),
+  );
 }
 
 // CSRF token validation for requests
-export function validateCSRFTokenFromRequest(
+export async function validateCSRFTokenFromRequest(
   request: NextRequest,
   sessionId: string,
-): boolean {
+): Promise<boolean> {
   const origin = request.headers.get("origin");
   const referer = request.headers.get("referer");
   const csrfToken =
@@ -128,23 +151,13 @@ export function validateCSRFTokenFromRequest(
   }
 
   // Validate token
-  if (!csrfToken || !validateCSRFToken(sessionId, csrfToken)) {
+  if (!csrfToken || !(await validateCSRFToken(sessionId, csrfToken))) {
     return false;
   }
 
   return true;
 }
 
-// Clean up expired CSRF tokens
-export function cleanupCSRFTokens(): void {
-  const now = Date.now();
-  for (const [sessionId, record] of csrfTokenStore.entries()) {
-    if (now > record.expires) {
-      csrfTokenStore.delete(sessionId);
-    }
-  }
-}
-
 // Input sanitization
 export function sanitizeInput(input: string): string {
   return input
@@ -282,18 +295,16 @@ export function hashSensitiveData(data: string): string {
   return createHash("sha256").update(data).digest("hex");
 }
 
-// Clean up old rate limit records (run periodically)
-export function cleanupRateLimitStore(): void {
-  const now = Date.now();
-  for (const [key, record] of rateLimitStore.entries()) {
-    if (now > record.resetTime) {
-      rateLimitStore.delete(key);
-    }
-  }
-}
-
-// Set up periodic cleanup
-if (typeof window === "undefined") {
-  setInterval(cleanupRateLimitStore, 5 * 60 * 1000); // Clean up every 5 minutes
-  setInterval(cleanupCSRFTokens, 10 * 60 * 1000); // Clean up CSRF tokens every 10 minutes
+// Check the bearer token sent by scheduled jobs against CRON_SECRET
+export function verifyCronSecret(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const header = request.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  // Compare digests so differing lengths don't leak through timing
+  return timingSafeEqual(
+    createHash("sha256").update(token).digest(),
+    createHash("sha256").update(secret).digest(),
+  );
 }
@@ -0,0 +1,177 @@
+import { prisma } from "./db";
+
+export type PaymentGatewayName = "manual" | "mock" | "razorpay";
+
+export const PAYMENT_GATEWAYS: PaymentGatewayName[] = [
+  "manual",
+  "mock",
+  "razorpay",
+];
+
+export interface SystemSettings {
+  adminUpiId: string | null;
+  agencyName: string;
+  agencyAddress: string;
+  agencyGstin: string;
+  defaultAnnualQuota: number;
+  // Month (1-12) the yearly quota resets in; 4 = April-March
+  quotaYearStartMonth: number;
+  // Days a customer waits after a delivery before booking again; 0 = off
+  minRefillGapDays: number;
+  deliverySlaDays: number;
+  maxDeliveryAttempts: number;
+  upiPaymentWindowHours: number;
+  paymentGateway: PaymentGatewayName;
+  emailFrom: string;
+}
+
+export type SystemSettingKey = keyof SystemSettings;
+
+export const UPI_ID_REGEX =
+  /^[a-zA-Z0-9._\-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{2,64}$/;
+
+const NUMERIC_KEYS: SystemSettingKey[] = [
+  "defaultAnnualQuota",
+  "quotaYearStartMonth",
+  "minRefillGapDays",
+  "deliverySlaDays",
+  "maxDeliveryAttempts",
+  "upiPaymentWindowHours",
+];
+
+// Settings are read on most booking and email paths, so keep them briefly
+// in memory. Updates through updateSystemSettings clear the cache.
+const CACHE_TTL_MS = 30 * 1000;
+let cache: { value: SystemSettings; expiresAt: number } | null = null;
+
+/**
+ * Values used when a setting has never been saved. These mirror the
+ * environment configuration the app used before settings moved to the DB.
+ */
+export function getDefaultSettings(): SystemSettings {
+  const rawUpi = (
+    process.env.ADMIN_UPI_ID ||
+    process.env.UPI_ID ||
+    ""
+  ).trim();
+
+  return {
+    adminUpiId: rawUpi && UPI_ID_REGEX.test(rawUpi) ? rawUpi : null,
+    agencyName: process.env.AGENCY_NAME || "Gas Agency System",
+    agencyAddress:
+      process.env.AGENCY_ADDRESS ||
+      "123 Main Street, Business District, City 12345",
+    agencyGstin: process.env.AGENCY_GSTIN || "",
+    defaultAnnualQuota: 12,
+    quotaYearStartMonth: 4,
+    minRefillGapDays: 15,
+    deliverySlaDays: 2,
+    maxDeliveryAttempts: 3,
+    upiPaymentWindowHours:
+      parseInt(process.env.UPI_PAYMENT_WINDOW_HOURS || "", 10) || 24,
+    paymentGateway: PAYMENT_GATEWAYS.includes(
+      process.env.PAYMENT_GATEWAY as PaymentGatewayName,
+    )
+      ? (process.env.PAYMENT_GATEWAY as PaymentGatewayName)
+      : "manual",
+    emailFrom:
+      process.env.SMTP_FROM ||
+      process.env.EMAIL_FROM ||
+      process.env.SMTP_USER ||
+      process.env.EMAIL_SERVER_USER ||
+      "",
+  };
+}
+
+function serialize(value: SystemSettings[SystemSettingKey]): string {
+  return value === null ? "" : String(value);
+}
+
+function deserialize<K extends SystemSettingKey>(
+  key: K,
+  raw: string,
+  fallback: SystemSettings[K],
+): SystemSettings[K] {
+  if (NUMERIC_KEYS.includes(key)) {
+    const parsed = parseInt(raw, 10);
+    return (isNaN(parsed) ? fallback : parsed) as SystemSettings[K];
+  }
+  if (key === "adminUpiId") {
+    return (raw && UPI_ID_REGEX.test(raw) ? raw : null) as SystemSettings[K];
+  }
+  if (key === "paymentGateway") {
+    return (
+      PAYMENT_GATEWAYS.includes(raw as PaymentGatewayName) ? raw : fallback
+    ) as SystemSettings[K];
+  }
+  return raw as SystemSettings[K];
+}
+
+/**
+ * Loads settings from the database, falling back to defaults per key.
+ */
+export async function getSystemSettings(): Promise<SystemSettings> {
+  if (cache && cache.expiresAt > Date.now()) return cache.value;
+
+  const defaults = getDefaultSettings();
+  const rows = await prisma.systemSetting.findMany();
+  const settings: SystemSettings = { ...defaults };
+
+  for (const row of rows) {
+    if (!(row.key in defaults)) continue;
+    const key = row.key as SystemSettingKey;
+    (settings as unknown as Record<string, unknown>)[key] = deserialize(
+      key,
+      row.value,
+      defaults[key],
+    );
+  }
+
+  cache = { value: settings, expiresAt: Date.now() + CACHE_TTL_MS };
+  return settings;
+}
+
+export function invalidateSettingsCache() {
+  cache = null;
+}
+
+/**
+ * Persists changed settings and records one audit row per changed key.
+ * Returns the keys that actually changed.
+ */
+export async function updateSystemSettings(
+  changes: Partial<SystemSettings>,
+  changedById: string,
+): Promise<SystemSettingKey[]> {
+  const current = await getSystemSettings();
+  const changedKeys = (Object.keys(changes) as SystemSettingKey[]).filter(
+    (key) =>
+      changes[key] !== undefined &&
+      serialize(changes[key] as SystemSettings[SystemSettingKey]) !==
+        serialize(current[key]),
+  );
+
+  if (changedKeys.length === 0) return [];
+
+  await prisma.$transaction(async (tx) => {
+    for (const key of changedKeys) {
+      const value = serialize(changes[key] as SystemSettings[SystemSettingKey]);
+      await tx.systemSetting.upsert({
+        where: { key },
+        update: { value, updatedById: changedById },
+        create: { key, value, updatedById: changedById },
+      });
+      await tx.systemSettingChange.create({
+        data: {
+          key,
+          oldValue: serialize(current[key]),
+          newValue: value,
+          changedById,
+        },
+      });
+    }
+  });
+
+  invalidateSettingsCache();
+  return changedKeys;
+}
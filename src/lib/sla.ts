@@ -0,0 +1,176 @@
+import type { BookingStatus } from "@prisma/client";
+import { prisma } from "./db";
+import { getSystemSettings } from "./settings";
+import { findAreaInAddress } from "./dispatch";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type SlaState = "OPEN" | "BREACHED" | "MET" | "MISSED";
+
+export type SlaPolicy = {
+  targets: { area: string; targetHours: number }[];
+  defaultHours: number;
+};
+
+type SlaBooking = {
+  status: BookingStatus;
+  userAddress: string | null;
+  requestedAt: Date;
+  expectedDate: Date | null;
+  // Slot window like "09:00-12:00" when a delivery slot was booked
+  deliveryWindow?: string | null;
+  deliveredAt: Date | null;
+};
+
+/**
+ * Active per-area targets plus the default from the delivery SLA setting.
+ */
+export async function getSlaPolicy(): Promise<SlaPolicy> {
+  const [targets, settings] = await Promise.all([
+    prisma.deliverySlaTarget.findMany({
+      where: { isActive: true },
+      select: { area: true, targetHours: true },
+    }),
+    getSystemSettings(),
+  ]);
+  return { targets, defaultHours: settings.deliverySlaDays * 24 };
+}
+
+/**
+ * The target for an address: the longest matching area, else the default.
+ */
+export function resolveSlaTarget(address: string | null, policy: SlaPolicy) {
+  const area = findAreaInAddress(
+    address,
+    policy.targets.map((t) => t.area),
+  );
+  const target = policy.targets.find((t) => t.area === area);
+  return {
+    area,
+    targetHours: target?.targetHours ?? policy.defaultHours,
+  };
+}
+
+/**
+ * Delivery date promised when a booking is approved.
+ */
+export async function getExpectedDeliveryDate(
+  address: string | null,
+  from = new Date(),
+) {
+  const { targetHours } = resolveSlaTarget(address, await getSlaPolicy());
+  return new Date(from.getTime() + targetHours * HOUR_MS);
+}
+
+// Local midnight of the day an expected date names. The date picker stores
+// UTC midnight, slots the local start of the day and approval the promised
+// time itself.
+function getExpectedDay(expectedDate: Date) {
+  return expectedDate.getTime() % DAY_MS === 0
+    ? new Date(
+        expectedDate.getUTCFullYear(),
+        expectedDate.getUTCMonth(),
+        expectedDate.getUTCDate(),
+      )
+    : new Date(
+        expectedDate.getFullYear(),
+        expectedDate.getMonth(),
+        expectedDate.getDate(),
+      );
+}
+
+// The end of the booked slot's window on the expected day, else the end of
+// that day, else the area target after the booking was requested
+function getSlaDueAt(booking: SlaBooking, targetHours: number) {
+  if (!booking.expectedDate) {
+    return new Date(booking.requestedAt.getTime() + targetHours * HOUR_MS);
+  }
+  const dueAt = getExpectedDay(booking.expectedDate);
+  const slotEnd = booking.deliveryWindow?.match(/-(\d{2}):(\d{2})$/);
+  if (slotEnd) {
+    dueAt.setHours(Number(slotEnd[1]), Number(slotEnd[2]));
+  } else {
+    dueAt.setDate(dueAt.getDate() + 1);
+  }
+  return dueAt;
+}
+
+/**
+ * Measures a booking against its SLA. The booking is due by the end of its
+ * expected day (or slot), or the area target after it was requested when no
+ * date was set; open bookings are measured up to now. Cancelled bookings
+ * return null.
+ */
+export function computeBookingSla(
+  booking: SlaBooking,
+  policy: SlaPolicy,
+  now = new Date(),
+) {
+  if (booking.status === "CANCELLED") return null;
+  const { area, targetHours } = resolveSlaTarget(booking.userAddress, policy);
+  const dueAt = getSlaDueAt(booking, targetHours);
+  const closedAt = booking.status === "DELIVERED" ? booking.deliveredAt : null;
+  const lateHours = Math.max(
+    0,
+    Math.round(((closedAt || now).getTime() - dueAt.getTime()) / HOUR_MS),
+  );
+  const late = (closedAt || now) > dueAt;
+  const state: SlaState = closedAt
+    ? late
+      ? "MISSED"
+      : "MET"
+    : late
+      ? "BREACHED"
+      : "OPEN";
+
+  return { area, targetHours, dueAt, lateHours, state };
+}
+
+/**
+ * Open bookings already past their SLA, most overdue first.
+ */
+export async function getSlaBreaches() {
+  const now = new Date();
+  const [policy, bookings] = await Promise.all([
+    getSlaPolicy(),
+    prisma.booking.findMany({
+      where: { status: { in: ["PENDING", "APPROVED", "OUT_FOR_DELIVERY"] } },
+      select: {
+        id: true,
+        userName: true,
+        userPhone: true,
+        userAddress: true,
+        status: true,
+        requestedAt: true,
+        expectedDate: true,
+        deliveryWindow: true,
+        deliveredAt: true,
+        assignment: {
+          select: {
+            status: true,
+            partner: { select: { id: true, name: true } },
+          },
+        },
+      },
+    }),
+  ]);
+
+  return bookings
+    .map((booking) => ({
+      booking,
+      sla: computeBookingSla(booking, policy, now)!,
+    }))
+    .filter(({ sla }) => sla.state === "BREACHED")
+    .sort((a, b) => b.sla.lateHours - a.sla.lateHours)
+    .map(({ booking, sla }) => ({
+      bookingId: booking.id,
+      customerName: booking.userName,
+      phone: booking.userPhone,
+      address: booking.userAddress,
+      status: booking.status,
+      requestedAt: booking.requestedAt,
+      partner: booking.assignment?.partner || null,
+      ...sla,
+    }));
+}
@@ -0,0 +1,72 @@
+import { PassThrough, Readable } from "stream";
+import ExcelJS from "exceljs";
+
+export type SheetCell = string | number | null | undefined;
+
+export interface Sheet {
+  name: string;
+  rows: SheetCell[][];
+}
+
+/**
+ * CSV text a spreadsheet app would run as a formula (=, +, - or @ first)
+ * gets a leading apostrophe so it is shown as typed. Numbers are left alone.
+ * XLSX cells are written as typed values and never need it.
+ */
+export function safeCell(cell: SheetCell): SheetCell {
+  return typeof cell === "string" && /^[=+\-@\t\r]/.test(cell)
+    ? `'${cell}`
+    : cell;
+}
+
+// Quotes every field so commas and quotes in names and addresses survive
+const csvRow = (row: SheetCell[]) =>
+  row
+    .map((cell) => `"${String(safeCell(cell) ?? "").replace(/"/g, '""')}"`)
+    .join(",");
+
+/**
+ * Streams the sheets as one CSV, each headed by its name and separated by a
+ * blank line. Rows are encoded as the response reads them.
+ */
+export function toCsvStream(sheets: Sheet[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const lines = (function* () {
+    for (const [i, sheet] of sheets.entries()) {
+      yield `${i > 0 ? "\n\n" : ""}${csvRow([sheet.name])}`;
+      for (const row of sheet.rows) yield `\n${csvRow(row)}`;
+    }
+  })();
+
+  return new ReadableStream({
+    pull(controller) {
+      const next = lines.next();
+      if (next.done) controller.close();
+      else controller.enqueue(encoder.encode(next.value));
+    },
+  });
+}
+
+/**
+ * Streams an .xlsx workbook with one worksheet per sheet, written row by row
+ * with ExcelJS. Sheet names are cut to Excel's 31 character limit.
+ */
+export function toXlsxStream(sheets: Sheet[]): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output });
+
+  void (async () => {
+    for (const [i, sheet] of sheets.entries()) {
+      const worksheet = workbook.addWorksheet(
+        sheet.name.replace(/[\\/?*[\]:]/g, " ").slice(0, 31) || `Sheet${i + 1}`,
+      );
+      for (const row of sheet.rows) {
+        worksheet.addRow(row.map((cell) => cell ?? null)).commit();
+      }
+      worksheet.commit();
+    }
+    await workbook.commit();
+  })().catch((error) => output.destroy(error));
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
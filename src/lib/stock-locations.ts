@@ -0,0 +1,77 @@
+import { Prisma } from "@prisma/client";
+import { NotFoundError, ValidationError } from "./error-handler";
+
+/**
+ * Lists stock locations, default location first.
+ */
+export async function getStockLocations(
+  tx: Prisma.TransactionClient,
+  options: { activeOnly?: boolean } = {},
+) {
+  return tx.stockLocation.findMany({
+    where: options.activeOnly ? { isActive: true } : undefined,
+    orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+  });
+}
+
+/**
+ * Returns the location that serves areas no other location claims.
+ */
+export async function getDefaultLocation(tx: Prisma.TransactionClient) {
+  const location =
+    (await tx.stockLocation.findFirst({
+      where: { isDefault: true, isActive: true },
+    })) ||
+    (await tx.stockLocation.findFirst({
+      where: { isActive: true },
+      orderBy: { createdAt: "asc" },
+    }));
+  if (!location) throw new NotFoundError("No active stock location configured");
+  return location;
+}
+
+/**
+ * Picks the active location whose service area appears in the customer's
+ * address. The longest matching area name wins so that e.g. "Kothrud Depot"
+ * beats "Kothrud"; unmatched addresses fall back to the default location.
+ */
+export async function resolveLocationForAddress(
+  tx: Prisma.TransactionClient,
+  address?: string | null,
+) {
+  const haystack = (address || "").toLowerCase();
+  if (haystack) {
+    const locations = await getStockLocations(tx, { activeOnly: true });
+    let best: { location: (typeof locations)[number]; length: number } | null =
+      null;
+    for (const location of locations) {
+      for (const area of location.serviceAreas) {
+        const needle = area.trim().toLowerCase();
+        if (needle && haystack.includes(needle)) {
+          if (!best || needle.length > best.length) {
+            best = { location, length: needle.length };
+          }
+        }
+      }
+    }
+    if (best) return best.location;
+  }
+  return getDefaultLocation(tx);
+}
+
+/**
+ * Loads an active location by id, or the default location when none is given.
+ */
+export async function getActiveLocation(
+  tx: Prisma.TransactionClient,
+  locationId?: string | null,
+) {
+  if (!locationId) return getDefaultLocation(tx);
+  const location = await tx.stockLocation.findUnique({
+    where: { id: locationId },
+  });
+  if (!location || !location.isActive) {
+    throw new ValidationError("Selected stock location is not available");
+  }
+  return location;
+}
@@ -1,77 +1,197 @@
+import { randomBytes } from "crypto";
 import { Prisma } from "@prisma/client";
-import { ConflictError } from "./error-handler";
+import { ConflictError, NotFoundError, ValidationError } from "./error-handler";
+import { DEFAULT_CYLINDER_TYPE } from "./pricing";
+import {
+  getActiveLocation,
+  getDefaultLocation,
+  resolveLocationForAddress,
+} from "./stock-locations";
 
 /**
- * Checks if stock is available for the given quantity.
+ * Loads (or lazily creates) the stock row for a cylinder type at a location.
+ * Without a location the default godown is used.
+ */
+export async function getStockForType(
+  tx: Prisma.TransactionClient,
+  cylinderType: string = DEFAULT_CYLINDER_TYPE,
+  locationId?: string | null
+) {
+  const resolvedLocationId = locationId || (await getDefaultLocation(tx)).id;
+  return tx.cylinderStock.upsert({
+    where: {
+      locationId_cylinderType: { locationId: resolvedLocationId, cylinderType },
+    },
+    update: {},
+    create: { cylinderType, locationId: resolvedLocationId, totalAvailable: 0 },
+    include: { location: { select: { name: true } } },
+  });
+}
+
+/**
+ * Resolves the stock row a booking draws from. Bookings without a location
+ * yet are allocated to the location serving the customer's address, and the
+ * choice is stored on the booking so later restores hit the same godown.
+ */
+async function getStockForBooking(
+  tx: Prisma.TransactionClient,
+  bookingId: string
+) {
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      cylinderType: true,
+      locationId: true,
+      userAddress: true,
+      user: { select: { address: true } },
+    },
+  });
+  if (!booking) throw new NotFoundError("Booking not found");
+
+  let locationId = booking.locationId;
+  if (!locationId) {
+    const address = booking.userAddress || booking.user.address;
+    locationId = (await resolveLocationForAddress(tx, address)).id;
+    await tx.booking.update({ where: { id: bookingId }, data: { locationId } });
+  }
+  return getStockForType(tx, booking.cylinderType, locationId);
+}
+
+/**
+ * Sums open reservations per stock row. On-hand stock is the available
+ * figure plus what is still reserved for undelivered bookings.
+ */
+export async function getReservedByStock(
+  tx: Prisma.TransactionClient
+): Promise<Map<string, number>> {
+  const rows = await tx.stockReservation.groupBy({
+    by: ["stockId"],
+    where: { status: "RESERVED" },
+    _sum: { quantity: true },
+  });
+  return new Map(rows.map((r) => [r.stockId, r._sum.quantity || 0]));
+}
+
+/**
+ * Checks if stock of a cylinder type is available for the given quantity at
+ * the location serving an address.
  */
 export async function checkStockAvailable(
   quantity: number,
-  tx: Prisma.TransactionClient
+  tx: Prisma.TransactionClient,
+  cylinderType: string = DEFAULT_CYLINDER_TYPE,
+  address?: string | null
 ): Promise<boolean> {
-  const stock = await tx.cylinderStock.upsert({
-    where: { id: "default" },
-    update: {},
-    create: { id: "default", totalAvailable: 0 },
-  });
+  const location = await resolveLocationForAddress(tx, address);
+  const stock = await getStockForType(tx, cylinderType, location.id);
   return stock.totalAvailable >= quantity;
 }
 
 /**
- * Checks availability and deducts stock for a new booking.
+ * Checks availability and reserves stock for a new booking. Reserved
+ * cylinders leave `totalAvailable` straight away but stay on hand until the
+ * reservation is consumed on delivery or released on cancellation.
  */
 export async function deductStock(
   bookingId: string,
   quantity: number,
   tx: Prisma.TransactionClient
 ): Promise<void> {
-  const stock = await tx.cylinderStock.upsert({
-    where: { id: "default" },
-    update: {},
-    create: { id: "default", totalAvailable: 0 },
-  });
+  const stock = await getStockForBooking(tx, bookingId);
 
   if (stock.totalAvailable < quantity) {
-    throw new ConflictError("Cylinder stock is not available for your request.");
+    throw new ConflictError(
+      `Cylinder stock is not available at ${stock.location.name}, which serves your area.`
+    );
   }
 
   await tx.cylinderStock.update({
-    where: { id: "default" },
+    where: { id: stock.id },
     data: { totalAvailable: { decrement: quantity } },
   });
 
   await tx.stockAdjustment.create({
     data: {
-      stockId: "default",
+      stockId: stock.id,
       delta: -quantity,
       type: "ISSUE",
       reason: `Automatic allocation for booking #${bookingId}`,
       bookingId,
     },
   });
+
+  await tx.stockReservation.create({
+    data: { stockId: stock.id, bookingId, quantity, status: "RESERVED" },
+  });
+}
+
+/**
+ * Marks a booking's reservation as consumed once the cylinders are delivered.
+ */
+export async function consumeReservation(
+  bookingId: string,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await tx.stockReservation.updateMany({
+    where: { bookingId, status: "RESERVED" },
+    data: { status: "CONSUMED" },
+  });
 }
 
 /**
- * Restores stock for a cancelled booking.
+ * Releases a cancelled or expired booking's reservation back to available
+ * stock. Consumed or already released reservations are left alone.
  */
 export async function restoreStock(
   bookingId: string,
   quantity: number,
   tx: Prisma.TransactionClient
 ): Promise<void> {
-  // Check if stock has already been restored for this booking
+  const reservation = await tx.stockReservation.findUnique({
+    where: { bookingId },
+  });
+  if (reservation) {
+    // Claim the reservation first so concurrent cancels cannot both release it
+    const claimed = await tx.stockReservation.updateMany({
+      where: { id: reservation.id, status: "RESERVED" },
+      data: { status: "RELEASED" },
+    });
+    if (claimed.count === 0) return;
+
+    await tx.cylinderStock.update({
+      where: { id: reservation.stockId },
+      data: { totalAvailable: { increment: reservation.quantity } },
+    });
+
+    await tx.stockAdjustment.create({
+      data: {
+        stockId: reservation.stockId,
+        delta: reservation.quantity,
+        type: "RECEIVE",
+        reason: `Reservation released for cancelled booking #${bookingId}`,
+        bookingId,
+      },
+    });
+    return;
+  }
+
+  // Bookings made before reservations existed: check if stock has already
+  // been restored for this booking
   const existingAdjustment = await tx.stockAdjustment.findFirst({
     where: { bookingId, delta: quantity, type: "RECEIVE" },
   });
   if (existingAdjustment) return; // Prevent double-restore
 
+  const stock = await getStockForBooking(tx, bookingId);
+
   await tx.cylinderStock.update({
-    where: { id: "default" },
+    where: { id: stock.id },
     data: { totalAvailable: { increment: quantity } },
   });
 
   await tx.stockAdjustment.create({
     data: {
-      stockId: "default",
+      stockId: stock.id,
       delta: quantity,
       type: "RECEIVE",
       reason: `Automatic restore for cancelled booking #${bookingId}`,
@@ -92,22 +212,23 @@ export async function adjustStockForBookingQuantityChange(
   const diff = newQuantity - oldQuantity;
   if (diff === 0) return;
 
+  const stock = await getStockForBooking(tx, bookingId);
+
   if (diff > 0) {
-    const isAvailable = await checkStockAvailable(diff, tx);
-    if (!isAvailable) {
+    if (stock.totalAvailable < diff) {
       throw new ConflictError(
         `Cylinder stock is not available for the requested increase of ${diff} cylinder(s).`
       );
     }
 
     await tx.cylinderStock.update({
-      where: { id: "default" },
+      where: { id: stock.id },
       data: { totalAvailable: { decrement: diff } },
     });
 
     await tx.stockAdjustment.create({
       data: {
-        stockId: "default",
+        stockId: stock.id,
         delta: -diff,
         type: "ISSUE",
         reason: `Quantity increased for booking #${bookingId}`,
@@ -117,13 +238,13 @@ export async function adjustStockForBookingQuantityChange(
   } else {
     const absDiff = Math.abs(diff);
     await tx.cylinderStock.update({
-      where: { id: "default" },
+      where: { id: stock.id },
       data: { totalAvailable: { increment: absDiff } },
     });
 
     await tx.stockAdjustment.create({
       data: {
-        stockId: "default",
+        stockId: stock.id,
         delta: absDiff,
         type: "RECEIVE",
         reason: `Quantity decreased for booking #${bookingId}`,
@@ -131,4 +252,76 @@ export async function adjustStockForBookingQuantityChange(
       },
     });
   }
+
+  await tx.stockReservation.updateMany({
+    where: { bookingId, status: "RESERVED" },
+    data: { quantity: newQuantity },
+  });
+}
+
+/**
+ * Moves stock of one cylinder type between locations. The move is recorded
+ * as a pair of TRANSFER adjustments sharing a transfer id.
+ */
+export async function transferStock(
+  tx: Prisma.TransactionClient,
+  params: {
+    cylinderType: string;
+    fromLocationId: string;
+    toLocationId: string;
+    quantity: number;
+    reason?: string;
+    notes?: string;
+  }
+) {
+  const { cylinderType, fromLocationId, toLocationId, quantity } = params;
+  if (fromLocationId === toLocationId) {
+    throw new ValidationError("Source and destination locations must differ");
+  }
+
+  const to = await getActiveLocation(tx, toLocationId);
+  const fromStock = await getStockForType(tx, cylinderType, fromLocationId);
+  if (fromStock.totalAvailable < quantity) {
+    throw new ConflictError(
+      `Insufficient stock at ${fromStock.location.name}. Available: ${fromStock.totalAvailable}, requested: ${quantity}.`
+    );
+  }
+  const toStock = await getStockForType(tx, cylinderType, to.id);
+
+  const transferId = randomBytes(12).toString("hex");
+  const reason =
+    params.reason ||
+    `Transfer from ${fromStock.location.name} to ${toStock.location.name}`;
+
+  await tx.cylinderStock.update({
+    where: { id: fromStock.id },
+    data: { totalAvailable: { decrement: quantity } },
+  });
+  await tx.cylinderStock.update({
+    where: { id: toStock.id },
+    data: { totalAvailable: { increment: quantity } },
+  });
+
+  const outgoing = await tx.stockAdjustment.create({
+    data: {
+      stockId: fromStock.id,
+      delta: -quantity,
+      type: "TRANSFER",
+      reason,
+      notes: params.notes,
+      transferId,
+    },
+  });
+  const incoming = await tx.stockAdjustment.create({
+    data: {
+      stockId: toStock.id,
+      delta: quantity,
+      type: "TRANSFER",
+      reason,
+      notes: params.notes,
+      transferId,
+    },
+  });
+
+  return { transferId, outgoing, incoming };
 }
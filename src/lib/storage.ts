@@ -0,0 +1,194 @@
+import { createHash, createHmac } from "crypto";
+import { mkdir, readFile, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { InternalServerError, NotFoundError } from "./error-handler";
+
+export type StorageName = "local" | "s3";
+
+export interface FileStorage {
+  readonly name: StorageName;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Keys are generated by the app; refuse anything that could leave the root
+function assertSafeKey(key: string) {
+  if (!/^[A-Za-z0-9/_.-]+$/.test(key) || key.split("/").includes("..")) {
+    throw new InternalServerError(`Invalid storage key: ${key}`);
+  }
+}
+
+// Files under UPLOAD_DIR (default ./uploads) on the app server's disk
+function createLocalStorage(root: string): FileStorage {
+  const resolve = (key: string) => {
+    assertSafeKey(key);
+    return path.join(root, key);
+  };
+
+  return {
+    name: "local",
+
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          throw new NotFoundError("Stored file not found");
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await unlink(resolve(key)).catch((error) => {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      });
+    },
+  };
+}
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256Hex = (data: string | Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, value: string) =>
+  createHmac("sha256", key).update(value).digest();
+
+// S3-compatible object storage (AWS S3, MinIO, R2...) over the REST API with
+// path-style URLs and Signature Version 4
+function createS3Storage(config: S3Config): FileStorage {
+  const endpoint = new URL(config.endpoint);
+
+  const request = async (
+    method: "PUT" | "GET" | "DELETE",
+    key: string,
+    body?: Buffer,
+    contentType?: string,
+  ) => {
+    assertSafeKey(key);
+    const url = new URL(
+      `${endpoint.pathname.replace(/\/$/, "")}/${config.bucket}/${key}`,
+      endpoint,
+    );
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body || "");
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      `host:${url.host}`,
+      `x-amz-content-sha256:${payloadHash}`,
+      `x-amz-date:${amzDate}`,
+      "",
+      "host;x-amz-content-sha256;x-amz-date",
+      payloadHash,
+    ].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256Hex(canonicalRequest),
+    ].join("\n");
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region),
+    );
+    const signature = createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+
+    const res = await fetch(url, {
+      method,
+      body: body ? new Uint8Array(body) : undefined,
+      headers: {
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=${signature}`,
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": amzDate,
+        ...(contentType ? { "Content-Type": contentType } : {}),
+      },
+    });
+    if (res.status === 404 && method === "GET") {
+      throw new NotFoundError("Stored file not found");
+    }
+    if (!res.ok && !(res.status === 404 && method === "DELETE")) {
+      throw new InternalServerError(
+        `Object storage request failed: ${method} ${res.status}`,
+      );
+    }
+    return res;
+  };
+
+  return {
+    name: "s3",
+
+    async put(key, data, contentType) {
+      await request("PUT", key, data, contentType);
+    },
+
+    async get(key) {
+      const res = await request("GET", key);
+      return Buffer.from(await res.arrayBuffer());
+    },
+
+    async delete(key) {
+      await request("DELETE", key);
+    },
+  };
+}
+
+/**
+ * Returns a storage backend by name. Stored files remember their backend,
+ * so older files stay readable after STORAGE_DRIVER changes.
+ */
+export function getStorageByName(name: string): FileStorage {
+  if (name === "local") {
+    return createLocalStorage(
+      path.resolve(process.env.UPLOAD_DIR || "uploads"),
+    );
+  }
+  if (name === "s3") {
+    const { S3_ENDPOINT, S3_REGION, S3_BUCKET } = process.env;
+    const { S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (
+      !S3_ENDPOINT ||
+      !S3_BUCKET ||
+      !S3_ACCESS_KEY_ID ||
+      !S3_SECRET_ACCESS_KEY
+    ) {
+      throw new InternalServerError(
+        "S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set to use S3 storage",
+      );
+    }
+    return createS3Storage({
+      endpoint: S3_ENDPOINT,
+      region: S3_REGION || "us-east-1",
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+    });
+  }
+  throw new InternalServerError(`Unknown storage driver: ${name}`);
+}
+
+/**
+ * The backend new uploads go to, from STORAGE_DRIVER (default local).
+ */
+export function getFileStorage(): FileStorage {
+  return getStorageByName(process.env.STORAGE_DRIVER || "local");
+}
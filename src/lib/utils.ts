@@ -142,10 +142,10 @@ export function validatePassword(password: string): {
   };
 }
 
-// Calculate delivery date (2 days from approval)
-export function calculateDeliveryDate(): Date {
+// Calculate delivery date (SLA days from approval, 2 by default)
+export function calculateDeliveryDate(slaDays: number = 2): Date {
   const deliveryDate = new Date();
-  deliveryDate.setDate(deliveryDate.getDate() + 2);
+  deliveryDate.setDate(deliveryDate.getDate() + slaDays);
   return deliveryDate;
 }
 
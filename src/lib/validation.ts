@@ -127,6 +127,10 @@ export const bookingSchema = z.object({
     .number()
     .min(1, "Minimum quantity is 1")
     .max(3, "Maximum quantity is 3"),
+  cylinderType: z
+    .string()
+    .max(50, "Cylinder type is too long")
+    .optional(),
   receiverName: z
     .string()
     .min(2, "Receiver name must be at least 2 characters")
@@ -154,11 +158,386 @@ export const bookingSchema = z.object({
       return date >= today && date <= max;
     }, "Expected delivery date must be within the next 7 days")
     .transform((val) => (val ? new Date(val).toISOString() : undefined)),
+  // Delivery slot on the expected date; see /api/bookings/slots
+  deliverySlotId: z.string().trim().min(1).max(50).optional(),
+  // Needed when the customer has more than one active connection
+  connectionId: z.string().trim().min(1).max(50).optional(),
   notes: z
     .string()
     .max(500, "Notes are too long")
     .optional()
     .transform((notes) => (notes ? sanitizeInput(notes.trim()) : undefined)),
+  // Part of the total paid now by UPI; the balance is due on delivery
+  advanceAmount: z
+    .number()
+    .int("Advance must be in whole rupees")
+    .min(1, "Advance must be at least ₹1")
+    .optional(),
+});
+
+// UPI booking paid up front (manual review): the booking fields plus the
+// customer's UPI reference
+export const upiBookingSchema = bookingSchema
+  .omit({ paymentMethod: true })
+  .extend({
+    upiTxnId: z.string().trim().min(6, "Valid upiTxnId is required"),
+  });
+
+// Price list schemas (amounts in whole rupees, GST as a percentage)
+const dateStringSchema = z
+  .string()
+  .refine((val) => !isNaN(Date.parse(val)), "Invalid date");
+
+export const priceListItemSchema = z.object({
+  cylinderType: z
+    .string()
+    .min(2, "Cylinder type is required")
+    .max(50, "Cylinder type is too long"),
+  unitPrice: z.number().int().min(0).max(100000),
+  deliveryCharge: z.number().int().min(0).max(10000).optional().default(0),
+  gstRate: z.number().min(0).max(28).optional().default(0),
+});
+
+export const priceListSchema = z
+  .object({
+    name: z.string().min(2, "Name is required").max(100, "Name is too long"),
+    effectiveFrom: dateStringSchema,
+    effectiveTo: dateStringSchema.optional().nullable(),
+    isActive: z.boolean().optional().default(true),
+    notes: z
+      .string()
+      .max(500, "Notes are too long")
+      .optional()
+      .transform((notes) => (notes ? sanitizeInput(notes.trim()) : undefined)),
+    items: z
+      .array(priceListItemSchema)
+      .min(1, "At least one cylinder price is required"),
+  })
+  .refine(
+    (val) =>
+      !val.effectiveTo ||
+      new Date(val.effectiveTo) > new Date(val.effectiveFrom),
+    { message: "End date must be after start date", path: ["effectiveTo"] },
+  )
+  .refine(
+    (val) =>
+      new Set(val.items.map((item) => item.cylinderType)).size ===
+      val.items.length,
+    { message: "Each cylinder type can only be priced once", path: ["items"] },
+  );
+
+// Cylinder catalogue schemas (the code is fixed once created)
+export const cylinderTypeUpdateSchema = z.object({
+  name: z.string().trim().min(2, "Name is required").max(60, "Name is too long"),
+  weightKg: z.number().positive("Weight must be positive").max(100),
+  category: z.enum(["DOMESTIC", "COMMERCIAL"]),
+  isActive: z.boolean().optional().default(true),
+  sortOrder: z.number().int().min(0).max(999).optional().default(0),
+});
+
+export const cylinderTypeSchema = cylinderTypeUpdateSchema.extend({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(
+      /^[A-Z][A-Z0-9_]{1,49}$/,
+      "Code may only contain letters, digits and underscores",
+    ),
+});
+
+// Stock location schemas (the code is fixed once created)
+export const stockLocationUpdateSchema = z.object({
+  name: z.string().trim().min(2, "Name is required").max(80, "Name is too long"),
+  address: z.string().trim().max(300, "Address is too long").optional(),
+  serviceAreas: z
+    .array(z.string().trim().min(2, "Area name is too short").max(80))
+    .max(100, "Too many service areas")
+    .optional()
+    .default([]),
+  isDefault: z.boolean().optional().default(false),
+  isActive: z.boolean().optional().default(true),
+});
+
+export const stockLocationSchema = stockLocationUpdateSchema.extend({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(
+      /^[A-Z][A-Z0-9_]{1,29}$/,
+      "Code may only contain letters, digits and underscores",
+    ),
+});
+
+export const stockTransferSchema = z.object({
+  cylinderType: z.string().min(1).max(50),
+  fromLocationId: z.string().min(1, "Source location is required"),
+  toLocationId: z.string().min(1, "Destination location is required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1").max(100000),
+  reason: z.string().max(200).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+// Empty cylinders collected from a customer after delivery
+export const emptyReturnSchema = z.object({
+  quantity: z.number().int().min(1, "Quantity must be at least 1").max(100),
+  notes: z.string().trim().max(500).optional(),
+});
+
+// Empties sent back to the supplier
+export const supplierReturnSchema = z.object({
+  cylinderType: z.string().min(1).max(50),
+  locationId: z.string().min(1, "Location is required"),
+  supplier: z.string().trim().min(2, "Supplier is required").max(120),
+  quantity: z.number().int().min(1, "Quantity must be at least 1").max(100000),
+  reference: z.string().trim().max(80).optional(),
+  notes: z.string().trim().max(500).optional(),
+});
+
+export const supplierReturnUpdateSchema = z.object({
+  action: z.enum(["RECEIVE", "CANCEL"]),
+});
+
+// System settings update schema (all fields optional; only changed keys are saved)
+// Refunds (amounts in rupees)
+export const refundCreateSchema = z.object({
+  amount: z.number().int().min(1, "Refund amount must be at least ₹1"),
+  paymentId: z.string().min(1).optional(),
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
+export const refundUpdateSchema = z.object({
+  action: z.enum(["PROCESS", "COMPLETE", "FAIL"]),
+  reference: z.string().trim().min(1).max(100).optional(),
+  failureReason: z.string().trim().min(1).max(500).optional(),
+});
+
+// Payment collected against a booking outside the online flows
+export const paymentRecordSchema = z.object({
+  amount: z.number().int().min(1, "Amount must be at least ₹1"),
+  method: z.enum(["COD", "UPI"] as const),
+  status: z.enum(["SUCCESS", "PENDING"] as const).default("SUCCESS"),
+  upiTxnId: z
+    .string()
+    .trim()
+    .min(6, "Reference must be at least 6 characters")
+    .max(50, "Reference is too long")
+    .optional(),
+  note: z.string().trim().max(200).optional(),
+});
+
+// Evidence collected at the door when a delivery is closed
+export const deliveryProofSchema = z.object({
+  otp: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "OTP must be 6 digits")
+    .optional(),
+  receivedByName: z
+    .string()
+    .trim()
+    .min(2, "Receiver name must be at least 2 characters")
+    .max(100, "Receiver name is too long")
+    .optional(),
+  // PNG/JPEG data URLs, checked again when stored
+  signature: z.string().max(7_000_000, "Signature is too large").optional(),
+  photo: z.string().max(7_000_000, "Photo is too large").optional(),
+});
+
+// Delivery update submitted from the partner portal
+export const deliveryFailureCodeSchema = z.enum([
+  "CUSTOMER_ABSENT",
+  "ADDRESS_NOT_FOUND",
+  "REFUSED",
+  "OTHER",
+]);
+
+export const partnerDeliveryStatusSchema = z
+  .object({
+    status: z.enum(["PICKED_UP", "OUT_FOR_DELIVERY", "DELIVERED", "FAILED"]),
+    failureCode: deliveryFailureCodeSchema.optional(),
+    reason: z.string().trim().min(3).max(300).optional(),
+    notes: z.string().trim().max(500).optional(),
+    // Empties taken back at the door; recorded only for DELIVERED
+    emptiesCollected: z.number().int().min(0).max(100).optional(),
+  })
+  .merge(deliveryProofSchema)
+  .refine((data) => data.status !== "FAILED" || !!data.failureCode, {
+    message: "Choose why the delivery failed",
+    path: ["failureCode"],
+  })
+  .refine((data) => data.failureCode !== "OTHER" || !!data.reason, {
+    message: "Describe what happened",
+    path: ["reason"],
+  });
+
+// Next attempt of a failed delivery; partner and capacity override are
+// admin-only
+export const deliveryRescheduleSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  partnerId: z.string().min(1).optional(),
+  allowOverCapacity: z.boolean().optional(),
+});
+
+// Dispatch plan accepted from the planner; stops are in run-sheet order
+export const dispatchPlanSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD"),
+  stops: z
+    .array(
+      z.object({
+        bookingId: z.string().min(1),
+        partnerId: z.string().min(1, "Partner is required"),
+      }),
+    )
+    .min(1, "The plan has no stops")
+    .max(500, "Plans are limited to 500 stops")
+    .refine(
+      (stops) => new Set(stops.map((s) => s.bookingId)).size === stops.length,
+      "A booking can only appear once in a plan",
+    ),
+});
+
+// Delivery SLA target for an area named as it appears in addresses
+export const slaTargetSchema = z.object({
+  area: z
+    .string()
+    .trim()
+    .min(2, "Area name is too short")
+    .max(120, "Area name is too long"),
+  targetHours: z
+    .number()
+    .int("Target must be whole hours")
+    .min(1, "Target must be at least 1 hour")
+    .max(720, "Target cannot exceed 30 days"),
+  isActive: z.boolean().optional().default(true),
+});
+
+const slotTimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be HH:MM");
+
+export const deliverySlotSchema = z
+  .object({
+    area: z
+      .string()
+      .trim()
+      .min(2, "Area name is too short")
+      .max(120, "Area name is too long"),
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: slotTimeSchema,
+    endTime: slotTimeSchema,
+    capacity: z
+      .number()
+      .int("Capacity must be a whole number")
+      .min(1, "Capacity must be at least 1")
+      .max(500, "Capacity cannot exceed 500"),
+    isActive: z.boolean().optional().default(true),
+  })
+  .refine((slot) => slot.startTime < slot.endTime, {
+    message: "Slot must end after it starts",
+    path: ["endTime"],
+  });
+
+const kycIdTypeSchema = z
+  .string()
+  .trim()
+  .max(50, "ID type is too long")
+  .optional();
+const kycIdNumberSchema = z
+  .string()
+  .trim()
+  .max(50, "ID number is too long")
+  .transform((value) => value.toUpperCase())
+  .optional();
+
+export const connectionSchema = z.object({
+  holderName: nameSchema,
+  address: addressSchema,
+  connectionType: z.enum(["DOMESTIC", "COMMERCIAL"]).default("DOMESTIC"),
+  kycIdType: kycIdTypeSchema,
+  kycIdNumber: kycIdNumberSchema,
+});
+
+export const connectionUpdateSchema = z
+  .object({
+    holderName: nameSchema.optional(),
+    address: addressSchema.optional(),
+    connectionType: z.enum(["DOMESTIC", "COMMERCIAL"]).optional(),
+    status: z.enum(["PENDING", "ACTIVE", "SUSPENDED", "CLOSED"]).optional(),
+    kycIdType: kycIdTypeSchema,
+    kycIdNumber: kycIdNumberSchema,
+    remainingQuota: z.number().int().min(0).max(100).optional(),
+    // Required with a quota change; kept in the quota history
+    quotaReason: z.string().trim().max(500).optional(),
+  })
+  .refine(
+    (data) => data.remainingQuota === undefined || !!data.quotaReason,
+    { message: "Give a reason for changing the quota", path: ["quotaReason"] },
+  );
+
+export const connectionTransferSchema = z.object({
+  toUser: z.string().trim().min(3, "Enter the customer's email or user ID"),
+  holderName: nameSchema.optional(),
+  kycIdType: kycIdTypeSchema,
+  kycIdNumber: kycIdNumberSchema,
+  reason: z
+    .string()
+    .trim()
+    .min(3, "Give a reason for the transfer")
+    .max(500, "Reason is too long"),
+});
+
+export const kycReviewSchema = z
+  .object({
+    decision: z.enum(["APPROVE", "REJECT"]),
+    reason: z.string().trim().max(500, "Reason is too long").optional(),
+  })
+  .refine((data) => data.decision === "APPROVE" || !!data.reason, {
+    message: "Give a reason for rejecting the KYC",
+    path: ["reason"],
+  });
+
+export const systemSettingsSchema = z.object({
+  adminUpiId: z
+    .string()
+    .trim()
+    .regex(
+      /^[a-zA-Z0-9._\-]{2,256}@[a-zA-Z][a-zA-Z0-9.-]{2,64}$/,
+      "Invalid UPI ID format",
+    )
+    .optional(),
+  agencyName: z
+    .string()
+    .min(2, "Agency name is required")
+    .max(120, "Agency name is too long")
+    .transform((name) => sanitizeInput(name.trim()))
+    .optional(),
+  agencyAddress: addressSchema.optional(),
+  agencyGstin: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(
+      (gstin) =>
+        gstin === "" ||
+        /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin),
+      "Invalid GSTIN format",
+    )
+    .optional(),
+  defaultAnnualQuota: z.number().int().min(1).max(100).optional(),
+  quotaYearStartMonth: z.number().int().min(1).max(12).optional(),
+  minRefillGapDays: z.number().int().min(0).max(90).optional(),
+  deliverySlaDays: z.number().int().min(0).max(30).optional(),
+  maxDeliveryAttempts: z.number().int().min(1).max(10).optional(),
+  upiPaymentWindowHours: z.number().int().min(1).max(168).optional(),
+  paymentGateway: z.enum(["manual", "mock", "razorpay"]).optional(),
+  emailFrom: z
+    .string()
+    .trim()
+    .min(3, "Email sender is required")
+    .max(254, "Email sender is too long")
+    .optional(),
 });
 
 // Admin user creation schema
@@ -237,3 +616,25 @@ export type AdminCreateUserData = z.infer<typeof adminCreateUserSchema>;
 export type PaginationData = z.infer<typeof paginationSchema>;
 export type SearchData = z.infer<typeof searchSchema>;
 export type FileUploadData = z.infer<typeof fileUploadSchema>;
+export type PriceListData = z.infer<typeof priceListSchema>;
+export type CylinderTypeData = z.infer<typeof cylinderTypeSchema>;
+export type StockLocationData = z.infer<typeof stockLocationSchema>;
+export type StockTransferData = z.infer<typeof stockTransferSchema>;
+export type EmptyReturnData = z.infer<typeof emptyReturnSchema>;
+export type SupplierReturnData = z.infer<typeof supplierReturnSchema>;
+export type SystemSettingsData = z.infer<typeof systemSettingsSchema>;
+export type PaymentRecordData = z.infer<typeof paymentRecordSchema>;
+export type RefundCreateData = z.infer<typeof refundCreateSchema>;
+export type RefundUpdateData = z.infer<typeof refundUpdateSchema>;
+export type DeliveryProofData = z.infer<typeof deliveryProofSchema>;
+export type DispatchPlanData = z.infer<typeof dispatchPlanSchema>;
+export type DeliveryRescheduleData = z.infer<typeof deliveryRescheduleSchema>;
+export type SlaTargetData = z.infer<typeof slaTargetSchema>;
+export type DeliverySlotData = z.infer<typeof deliverySlotSchema>;
+export type ConnectionData = z.infer<typeof connectionSchema>;
+export type ConnectionUpdateData = z.infer<typeof connectionUpdateSchema>;
+export type ConnectionTransferData = z.infer<typeof connectionTransferSchema>;
+export type KycReviewData = z.infer<typeof kycReviewSchema>;
+export type PartnerDeliveryStatusData = z.infer<
+  typeof partnerDeliveryStatusSchema
+>;
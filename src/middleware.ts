@@ -14,12 +14,16 @@ export default withAuth(
       req.nextUrl.pathname.startsWith("/verify-email");
     const isAdminPage = req.nextUrl.pathname.startsWith("/admin");
     const isUserPage = req.nextUrl.pathname.startsWith("/user");
+    const isPartnerPage = req.nextUrl.pathname.startsWith("/partner");
+    const isPartner = token?.role === "DELIVERY_PARTNER";
 
     // Redirect authenticated users away from auth pages
     if (isAuthPage && isAuth) {
       // Redirect to appropriate dashboard based on role
       if (token?.role === "ADMIN") {
         return NextResponse.redirect(new URL("/admin", req.url));
+      } else if (isPartner) {
+        return NextResponse.redirect(new URL("/partner", req.url));
       } else {
         return NextResponse.redirect(new URL("/user", req.url));
       }
@@ -31,7 +35,21 @@ export default withAuth(
         return NextResponse.redirect(new URL("/admin/login", req.url));
       }
       if (token?.role !== "ADMIN") {
-        return NextResponse.redirect(new URL("/user", req.url));
+        return NextResponse.redirect(
+          new URL(isPartner ? "/partner" : "/user", req.url),
+        );
+      }
+    }
+
+    // Protect partner portal
+    if (isPartnerPage) {
+      if (!isAuth) {
+        return NextResponse.redirect(new URL("/login", req.url));
+      }
+      if (!isPartner) {
+        return NextResponse.redirect(
+          new URL(token?.role === "ADMIN" ? "/admin" : "/user", req.url),
+        );
       }
     }
 
@@ -44,6 +62,10 @@ export default withAuth(
       if (token?.role === "ADMIN") {
         return NextResponse.redirect(new URL("/admin", req.url));
       }
+      // Delivery partners have their own portal
+      if (isPartner) {
+        return NextResponse.redirect(new URL("/partner", req.url));
+      }
       // Optionally enforce verified email at edge (defense-in-depth)
       const emailVerified = (token as unknown as { emailVerified?: boolean })
         ?.emailVerified;
@@ -79,6 +101,7 @@ export const config = {
     "/admin/:path*",
     "/admin/login",
     "/user/:path*",
+    "/partner/:path*",
     "/login",
     "/register",
     "/forgot-password",